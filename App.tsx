@@ -3,243 +3,777 @@ import { Sidebar } from './components/Sidebar';
 import { RequestPanel } from './components/RequestPanel';
 import { ResponsePanel } from './components/ResponsePanel';
 import { SettingsModal } from './components/SettingsModal';
-import { RequestState, ResponseState, HistoryItem, AppSettings } from './types';
+import { EnvironmentModal } from './components/EnvironmentModal';
+import { SaveRequestModal } from './components/SaveRequestModal';
+import { ImportModal } from './components/ImportModal';
+import { RunnerModal } from './components/RunnerModal';
+import { BenchmarkModal } from './components/BenchmarkModal';
+import { MocksModal } from './components/MocksModal';
+import { TabStrip } from './components/TabStrip';
+import { RequestState, ResponseState, HistoryItem, AppSettings, EnvironmentStore, Environment, Collection, CollectionRequest, KeyValue, ScriptResult, ResponseSnapshot, SseEvent, WsMessage, WsSession, ResponseAttempt, MockConfig, MockHit } from './types';
 import { INITIAL_REQUEST } from './constants';
-import { Menu, Zap, Settings } from 'lucide-react';
-// @ts-ignore
-import CryptoJS from 'crypto-js';
+import { getEnvironmentScope, resolveRequest, resolveVariables } from './utils/variables';
+import { runScript, hasScript, mergeScriptResults, getScriptVariables, applyScriptVariables, toScriptRequest, applyScriptRequest, ScriptRunResult, ScriptVariables, VariableValues } from './utils/scripts';
+import { RunnerSource } from './utils/runner';
+import { BenchmarkRun, BenchmarkTarget } from './utils/benchmark';
+import { DEFAULT_MOCK_CONFIG, MAX_MOCK_HITS, mockRuleFromResponse, onMockHit, syncMockWorker } from './utils/mocks';
+import { AuthInjection, getEffectiveAuth, prepareAuth, withAuthParams, fetchWithAuth } from './utils/auth';
+import { getSigningProfile, signRequest, bodyTextForSigning, migrateSigningSettings } from './utils/signing';
+import { buildRequestHeaders, buildRequestUrl, buildRequestBody, methodHasBody, sleep } from './utils/request';
+import { DEFAULT_WEBSOCKET_CONFIG, isWebSocketRequest, toWebSocketUrl, parseSubprotocols, encodeMessage, createFrame, appendFrame, sessionResponse } from './utils/websocket';
+import { GraphqlSchemaStore, DEFAULT_GRAPHQL_BODY, schemaEndpoint, introspectionBody, schemaFromIntrospection, validateGraphql } from './utils/graphql';
+import { readResponseBody } from './utils/binary';
+import { markTime, collectTiming, measuredTiming } from './utils/timing';
+import { DEFAULT_REQUEST_POLICY, effectivePolicy, sendWithRetry } from './utils/retry';
+import { isEventStream, createSseParser, DEFAULT_RETRY_MS, MAX_SSE_EVENTS } from './utils/sse';
+import { generateId, findItem, findItemPath, findCollectionOf, updateItem, renameNode, addToContainer, toSerializableRequest, flattenRequests } from './utils/collections';
+import { getStoredValue, persistValue, getHistory, putHistoryItems, deleteHistoryItems, clearHistoryItems, requestKey, MAX_SNAPSHOTS } from './utils/storage';
+import { DEFAULT_HISTORY_RETENTION, createHistoryItem, historyRequest, applyRetention } from './utils/history';
+import { loadRequestFiles, withFiles, missingFiles, pruneStoredFiles } from './utils/files';
+import { WorkspaceTab, createTab, isTabBlank, isTabDirty, tabTitle, requestSnapshot, serializeWorkspace, saveWorkspace, loadWorkspace } from './utils/workspace';
+import { Menu, Zap, Settings, Layers, Download, ServerCog } from 'lucide-react';
 
 const DEFAULT_SETTINGS: AppSettings = {
     fetchMode: 'cors',
     fetchCredentials: 'omit',
     globalHeaders: [{ id: '1', key: '', value: '', enabled: true }],
-    cloudDocsMode: false,
-    cloudDocsAppId: '',
-    cloudDocsSecureKey: ''
+    signingProfiles: [],
+    defaultSigningProfileId: null,
+    historyRetention: DEFAULT_HISTORY_RETENTION,
+    requestPolicy: DEFAULT_REQUEST_POLICY
 };
 
-// --- Helpers ---
-
-function getCookie(name: string): string {
-  try {
-      const value = `; ${document.cookie}`;
-      const parts = value.split(`; ${name}=`);
-      if (parts.length === 2) return parts.pop()?.split(';').shift() || '';
-  } catch (e) {
-      console.warn('Cannot read cookies', e);
-  }
-  return '';
+const DEFAULT_ENVIRONMENTS: EnvironmentStore = {
+    environments: [],
+    activeEnvironmentId: null,
+    globals: [{ id: '1', key: '', value: '', enabled: true }]
+};
+
+interface WebSocketConnection {
+    send: (payload: string | Uint8Array) => void;
+    close: () => void;
+    clear: () => void;
 }
 
+// Tabs are read synchronously so the first render already shows them
+const initialWorkspace = () => {
+    const restored = loadWorkspace();
+    if (restored) return restored;
+    const tab = createTab();
+    return { tabs: [tab], activeTabId: tab.id };
+};
+
 const App: React.FC = () => {
-  const [request, setRequest] = useState<RequestState>(INITIAL_REQUEST);
-  const [response, setResponse] = useState<ResponseState | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [workspace] = useState(initialWorkspace);
+  const [tabs, setTabs] = useState<WorkspaceTab[]>(workspace.tabs);
+  const [activeTabId, setActiveTabId] = useState(workspace.activeTabId);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const historyRef = useRef<HistoryItem[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
-  const [injectedHeaders, setInjectedHeaders] = useState<Record<string, string> | null>(null);
+  const [envStore, setEnvStore] = useState<EnvironmentStore>(DEFAULT_ENVIRONMENTS);
+  const [environmentsOpen, setEnvironmentsOpen] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [saveModalOpen, setSaveModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [runnerSource, setRunnerSource] = useState<RunnerSource | null>(null);
+  const [benchmarkTarget, setBenchmarkTarget] = useState<BenchmarkTarget | null>(null);
+  const [benchmarkRuns, setBenchmarkRuns] = useState<BenchmarkRun[]>([]);
+  const [mockConfig, setMockConfig] = useState<MockConfig>(DEFAULT_MOCK_CONFIG);
+  const [mockHits, setMockHits] = useState<MockHit[]>([]);
+  const [mocksOpen, setMocksOpen] = useState(false);
+  const [mockFocusId, setMockFocusId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<ResponseSnapshot[]>([]);
+  const [graphqlSchemas, setGraphqlSchemas] = useState<GraphqlSchemaStore>({});
+
+  // In-flight requests by tab id
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  // Open WebSocket connections by tab id
+  const socketsRef = useRef(new Map<string, WebSocketConnection>());
+
+  const tab = tabs.find(t => t.id === activeTabId) || tabs[0];
+  const request = tab.request;
+
+  const updateTab = (id: string, update: (tab: WorkspaceTab) => WorkspaceTab) => {
+      setTabs(prev => prev.map(t => t.id === id ? update(t) : t));
+  };
 
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const setRequest = (req: RequestState) => updateTab(tab.id, t => ({ ...t, request: req }));
 
+  // Attached files are loaded from storage after the tab opens
+  const restoreTabFiles = (tabId: string, req: RequestState) => {
+      loadRequestFiles(req)
+          .then(files => { if (files.size) updateTab(tabId, t => ({ ...t, request: withFiles(t.request, files) })); })
+          .catch(e => console.error('Failed to load attached files', e));
+  };
+
+  const workspaceJson = serializeWorkspace(tabs, tab.id);
   useEffect(() => {
-    // Load history
-    const savedHistory = localStorage.getItem('postman_lite_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
-    }
+      saveWorkspace(workspaceJson);
+  }, [workspaceJson]);
 
-    // Load settings
-    const savedSettings = localStorage.getItem('postman_lite_settings');
-    if (savedSettings) {
-        try {
-            // Merge with default to handle schema migrations
-            const parsed = JSON.parse(savedSettings);
-            setSettings({ 
+  useEffect(() => {
+    const loadStored = async () => {
+        const [storedHistory, storedSettings, storedEnvironments, storedCollections, storedSnapshots, storedSchemas, storedBenchmarks, storedMocks] = await Promise.all([
+            getHistory(),
+            getStoredValue<Partial<AppSettings>>('settings'),
+            getStoredValue<EnvironmentStore>('environments'),
+            getStoredValue<Collection[]>('collections'),
+            getStoredValue<ResponseSnapshot[]>('snapshots'),
+            getStoredValue<GraphqlSchemaStore>('graphqlSchemas'),
+            getStoredValue<BenchmarkRun[]>('benchmarks'),
+            getStoredValue<MockConfig>('mocks'),
+        ]);
+
+        // Merge with default to handle schema migrations
+        let loadedSettings = DEFAULT_SETTINGS;
+        if (storedSettings) {
+            loadedSettings = migrateSigningSettings({ 
                 ...DEFAULT_SETTINGS, 
-                ...parsed,
+                ...storedSettings,
                 // Ensure globalHeaders exists if it wasn't in previous version
-                globalHeaders: parsed.globalHeaders || DEFAULT_SETTINGS.globalHeaders 
+                globalHeaders: storedSettings.globalHeaders || DEFAULT_SETTINGS.globalHeaders 
             });
-        } catch(e) {
-            console.error("Failed to parse settings", e);
+            setSettings(loadedSettings);
+            // Cloud Docs settings become a signing profile; store it so its id stays stable
+            if (!storedSettings.signingProfiles && loadedSettings.signingProfiles.length) {
+                persistValue('settings', loadedSettings);
+            }
         }
-    }
+
+        // Entries may have aged out since the last visit
+        const { kept, removedIds } = applyRetention(storedHistory, loadedSettings.historyRetention);
+        updateHistory(kept);
+        if (removedIds.length) deleteHistoryItems(removedIds).catch(e => console.error('Failed to prune history', e));
+
+        if (storedEnvironments) setEnvStore({ ...DEFAULT_ENVIRONMENTS, ...storedEnvironments });
+        if (storedCollections) setCollections(storedCollections);
+        if (storedSnapshots) setSnapshots(storedSnapshots);
+        if (storedSchemas) setGraphqlSchemas(storedSchemas);
+        if (storedBenchmarks) setBenchmarkRuns(storedBenchmarks);
+        if (storedMocks) {
+            setMockConfig(storedMocks);
+            syncMockWorker(storedMocks).catch(e => console.error('Failed to start the mock server', e));
+        }
+
+        workspace.tabs.forEach(t => restoreTabFiles(t.id, t.request));
+        // Files only the removed history entries or closed tabs referred to
+        await pruneStoredFiles([
+            ...kept,
+            ...(storedCollections || []).flatMap(col => flattenRequests(col.items).map(item => item.request)),
+            ...workspace.tabs.map(t => t.request),
+        ]);
+    };
+    loadStored().catch(e => console.error('Failed to load stored data', e));
   }, []);
 
+  useEffect(() => onMockHit(hit => setMockHits(prev => [hit, ...prev].slice(0, MAX_MOCK_HITS))), []);
+
+
   const handleSaveSettings = (newSettings: AppSettings) => {
       setSettings(newSettings);
-      localStorage.setItem('postman_lite_settings', JSON.stringify(newSettings));
-  };
-
-  const addToHistory = (req: RequestState) => {
-    // For history, we don't store the File objects (Binary or inside FormData) as they are not serializable
-    const newItem: HistoryItem = { 
-        ...req, 
-        file: null, // Clear binary file
-        // Deep clone form data but remove file objects
-        bodyFormData: req.bodyFormData.map(item => ({...item, file: undefined})),
-        id: Date.now().toString(), 
-        timestamp: Date.now(),
-        pinned: false
-    };
-    const newHistory = [newItem, ...history].slice(0, 50); // Keep last 50
-    setHistory(newHistory);
-    localStorage.setItem('postman_lite_history', JSON.stringify(newHistory));
+      persistValue('settings', newSettings);
+  };
+
+  const handleSaveEnvironments = (newStore: EnvironmentStore) => {
+      setEnvStore(newStore);
+      persistValue('environments', newStore);
+  };
+
+  const handleSelectEnvironment = (id: string) => {
+      handleSaveEnvironments({ ...envStore, activeEnvironmentId: id || null });
+  };
+
+  // --- Collections ---
+
+  const handleSaveCollections = (newCollections: Collection[]) => {
+      setCollections(newCollections);
+      persistValue('collections', newCollections);
+  };
+
+  const activeSaved = tab.savedId ? findItem(collections, tab.savedId) : null;
+  const activeSavedRequest = activeSaved?.type === 'request' ? activeSaved : null;
+  const activeCollection = activeSavedRequest ? findCollectionOf(collections, activeSavedRequest.id) : null;
+
+  // Variables visible to the current request: globals, then the owning collection, then the active environment
+  const variableScope = getEnvironmentScope(envStore.globals, envStore.environments, envStore.activeEnvironmentId, activeCollection?.variables);
+  const effectiveAuth = getEffectiveAuth(request.auth, collections, activeSavedRequest?.id || null);
+
+  const handleSaveRequest = () => {
+      // A request opened from a collection is updated in place; anything else asks where to save it
+      if (activeSavedRequest) {
+          handleSaveCollections(updateItem(collections, activeSavedRequest.id, item => ({
+              ...item,
+              request: { ...toSerializableRequest(request), id: item.id }
+          })));
+          updateTab(tab.id, t => ({ ...t, savedSnapshot: requestSnapshot(request) }));
+      } else {
+          setSaveModalOpen(true);
+      }
+  };
+
+  const handleConfirmSave = (name: string, containerId: string | null, newCollectionName?: string) => {
+      let next = collections;
+      let targetId = containerId;
+      if (!targetId) {
+          const col: Collection = { id: generateId(), name: newCollectionName || 'My Collection', items: [] };
+          next = [...next, col];
+          targetId = col.id;
+      }
+      const id = generateId();
+      const item: CollectionRequest = { type: 'request', id, name, request: { ...toSerializableRequest(request), id } };
+      handleSaveCollections(addToContainer(next, targetId, item));
+      updateTab(tab.id, t => ({ ...t, request: { ...request, id }, savedId: id, savedSnapshot: requestSnapshot(request) }));
+      setSaveModalOpen(false);
+  };
+
+  const handleRenameSaved = (name: string) => {
+      if (activeSavedRequest) handleSaveCollections(renameNode(collections, activeSavedRequest.id, name));
+  };
+
+  // --- Tabs ---
+
+  // Opens a request in a new tab, or in the active one while it is still blank; returns the tab id used
+  const openInTab = (opened: WorkspaceTab) => {
+      if (isTabBlank(tab)) {
+          setTabs(prev => prev.map(t => t.id === tab.id ? { ...opened, id: tab.id } : t));
+          return tab.id;
+      }
+      setTabs(prev => [...prev, opened]);
+      setActiveTabId(opened.id);
+      return opened.id;
+  };
+
+  const handleOpenSaved = (item: CollectionRequest) => {
+      const existing = tabs.find(t => t.savedId === item.id);
+      if (existing) {
+          setActiveTabId(existing.id);
+          return;
+      }
+      const opened = createTab({ ...INITIAL_REQUEST, ...item.request, id: item.id, file: null }, item.id);
+      restoreTabFiles(openInTab(opened), opened.request);
+  };
+
+  const handleNewTab = () => {
+      const created = createTab();
+      setTabs(prev => [...prev, created]);
+      setActiveTabId(created.id);
+  };
+
+  const handleCloseTab = (id: string) => {
+      const closing = tabs.find(t => t.id === id);
+      if (!closing) return;
+      if (isTabDirty(closing) && !window.confirm(`"${tabTitle(closing, collections)}" has unsaved changes. Close it anyway?`)) return;
+
+      abortControllersRef.current.get(id)?.abort();
+      abortControllersRef.current.delete(id);
+      socketsRef.current.get(id)?.close();
+
+      const idx = tabs.indexOf(closing);
+      const rest = tabs.filter(t => t.id !== id);
+      // Closing the last tab leaves a blank one behind
+      const next = rest.length ? rest : [createTab()];
+      setTabs(next);
+      if (id === tab.id || !rest.length) setActiveTabId(next[Math.min(idx, next.length - 1)].id);
+  };
+
+  const handleDuplicateTab = (id: string) => {
+      const source = tabs.find(t => t.id === id);
+      if (!source) return;
+      // The copy is a new, unsaved request
+      const copy = createTab({ ...source.request, id: generateId() });
+      copy.activePanel = source.activePanel;
+      setTabs(prev => {
+          const next = [...prev];
+          next.splice(next.findIndex(t => t.id === id) + 1, 0, copy);
+          return next;
+      });
+      setActiveTabId(copy.id);
+  };
+
+  const handleReorderTabs = (sourceId: string, targetId: string, after: boolean) => {
+      setTabs(prev => {
+          const moved = prev.find(t => t.id === sourceId);
+          if (!moved) return prev;
+          const next = prev.filter(t => t.id !== sourceId);
+          const targetIdx = next.findIndex(t => t.id === targetId);
+          next.splice(after ? targetIdx + 1 : targetIdx, 0, moved);
+          return next;
+      });
+  };
+
+  // --- Import ---
+
+  const handleImportRequest = (imported: RequestState, warnings: string[]) => {
+      // An imported request is a new, unsaved request
+      updateTab(tab.id, t => ({ ...t, request: imported, savedId: null, savedSnapshot: null, importWarnings: warnings }));
+  };
+
+  const handleImportCollection = (collection: Collection) => {
+      handleSaveCollections([...collections, collection]);
+  };
+
+  const handleImportEnvironments = (environments: Environment[]) => {
+      handleSaveEnvironments({ ...envStore, environments: [...envStore.environments, ...environments] });
+  };
+
+  const handleImportGlobals = (variables: KeyValue[]) => {
+      // Imported globals replace existing ones with the same name
+      const names = new Set(variables.filter(v => v.key).map(v => v.key));
+      const kept = envStore.globals.filter(v => v.key && !names.has(v.key));
+      handleSaveEnvironments({ ...envStore, globals: [...kept, ...variables] });
+  };
+
+  // --- Runner ---
+
+  const handleRunnerVariables = (vars: ScriptVariables, collectionId: string | null) => {
+      const changed = applyScriptVariables(envStore, collections, collectionId, vars);
+      if (changed.store) handleSaveEnvironments(changed.store);
+      if (changed.collections) handleSaveCollections(changed.collections);
+  };
+
+  // --- Benchmark ---
+
+  const handleSaveBenchmarkRuns = (next: BenchmarkRun[]) => {
+      setBenchmarkRuns(next);
+      persistValue('benchmarks', next);
+  };
+
+  const handleBenchmark = () => {
+      setBenchmarkTarget({
+          item: { id: tab.id, name: activeSavedRequest?.name || `${request.method} ${request.url}`, request, auth: effectiveAuth.auth },
+          collectionId: activeCollection?.id || null,
+      });
+  };
+
+  // --- Mocks ---
+
+  const handleSaveMocks = (next: MockConfig) => {
+      setMockConfig(next);
+      persistValue('mocks', next);
+      syncMockWorker(next).catch(e => console.error('Failed to update the mock server', e));
+  };
+
+  const handleMockResponse = (source: RequestState, response: ResponseState) => {
+      const rule = mockRuleFromResponse(source, buildRequestUrl(resolveRequest(source, variableScope)), response);
+      handleSaveMocks({ ...mockConfig, rules: [...mockConfig.rules, rule] });
+      setMockFocusId(rule.id);
+      setMocksOpen(true);
+  };
+
+  const handleMockHistory = (id: string, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const item = historyRef.current.find(h => h.id === id);
+      if (item?.response) handleMockResponse(item, item.response);
+  };
+
+  // --- Pinned responses ---
+
+  const handleSaveSnapshots = (next: ResponseSnapshot[]) => {
+      setSnapshots(next);
+      persistValue('snapshots', next);
+  };
+
+  const activeRequestKey = requestKey(request.method, request.url);
+  const baselineId = snapshots.find(s => s.requestKey === activeRequestKey)?.id || null;
+
+  const handlePinResponse = () => {
+      if (!tab.response) return;
+      const snapshot: ResponseSnapshot = {
+          id: generateId(),
+          name: activeSavedRequest?.name || `${request.method} ${request.url}`,
+          requestKey: activeRequestKey,
+          timestamp: Date.now(),
+          response: tab.response,
+      };
+      handleSaveSnapshots([snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS));
+  };
+
+  // History is also kept in a ref: responses arrive after awaits, when the state captured by handleSend is stale
+  const updateHistory = (next: HistoryItem[]) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const logHistoryError = (e: unknown) => console.error('Failed to store history', e);
+
+  const addToHistory = (req: RequestState, res: ResponseState) => {
+    const newItem = createHistoryItem(req, res);
+    const { kept, removedIds } = applyRetention([newItem, ...historyRef.current], settings.historyRetention);
+    updateHistory(kept);
+    putHistoryItems([newItem]).then(() => removedIds.length ? deleteHistoryItems(removedIds) : undefined).catch(logHistoryError);
   };
 
   const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem('postman_lite_history');
+    updateHistory([]);
+    clearHistoryItems().catch(logHistoryError);
   };
 
   const handleTogglePinHistory = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const newHistory = history.map(item => item.id === id ? { ...item, pinned: !item.pinned } : item);
-    setHistory(newHistory);
-    localStorage.setItem('postman_lite_history', JSON.stringify(newHistory));
+    const newHistory = historyRef.current.map(item => item.id === id ? { ...item, pinned: !item.pinned } : item);
+    updateHistory(newHistory);
+    putHistoryItems(newHistory.filter(item => item.id === id)).catch(logHistoryError);
   };
 
   const handleDeleteHistory = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const newHistory = history.filter(item => item.id !== id);
-    setHistory(newHistory);
-    localStorage.setItem('postman_lite_history', JSON.stringify(newHistory));
+    updateHistory(historyRef.current.filter(item => item.id !== id));
+    deleteHistoryItems([id]).catch(logHistoryError);
   };
 
   const handleSelectHistory = (item: HistoryItem) => {
     // Restore the request state
-    const { timestamp, pinned, ...reqState } = item;
-    // Ensure arrays exist (migration safety)
-    setRequest({ 
+    const reqState = historyRequest(item);
+    // History entries are snapshots, so the tab is not linked to a saved request; editing it must not touch one
+    const opened = createTab({ 
         ...reqState, 
         file: null,
+        // Ensure arrays exist (migration safety)
         bodyFormData: reqState.bodyFormData || INITIAL_REQUEST.bodyFormData,
         bodyFormUrlEncoded: reqState.bodyFormUrlEncoded || INITIAL_REQUEST.bodyFormUrlEncoded
-    }); 
+    });
+    // The response recorded with the entry comes back too
+    opened.response = item.response || null;
+    restoreTabFiles(openInTab(opened), opened.request);
   };
 
   const handleStop = () => {
-    if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        setLoading(false);
+    const controller = abortControllersRef.current.get(tab.id);
+    if (controller) {
+        controller.abort();
+        updateTab(tab.id, t => ({ ...t, loading: false }));
     }
   };
 
-  const handleSend = async () => {
-    // Stop any previous request
-    if (loading && abortControllerRef.current) {
-        abortControllerRef.current.abort();
+  // --- GraphQL schemas ---
+  // Stored per endpoint, so every request to the same endpoint shares one schema
+
+  const graphqlEndpoint = request.bodyType === 'graphql' ? schemaEndpoint(buildRequestUrl(resolveRequest(request, variableScope))) : null;
+
+  const handleSaveGraphqlSchemas = (next: GraphqlSchemaStore) => {
+      setGraphqlSchemas(next);
+      persistValue('graphqlSchemas', next);
+  };
+
+  const handleFetchGraphqlSchema = async () => {
+    if (!graphqlEndpoint) return;
+    const endpoint = graphqlEndpoint;
+    const authInjection = await prepareAuth(effectiveAuth.auth, variableScope);
+    const resolved = withAuthParams(resolveRequest(request, variableScope), authInjection);
+    const headers = buildRequestHeaders(resolved, settings, variableScope, null, authInjection.headers);
+    Object.keys(headers).filter(k => k.toLowerCase() === 'content-type').forEach(k => delete headers[k]);
+    headers['Content-Type'] = 'application/json';
+
+    const res = await fetchWithAuth(buildRequestUrl(resolved), {
+        method: 'POST',
+        headers,
+        body: introspectionBody(),
+        mode: settings.fetchMode,
+        credentials: settings.fetchCredentials,
+    }, authInjection);
+    let json: any;
+    try {
+        json = await res.json();
+    } catch (e) {
+        throw new Error(`HTTP ${res.status}: the response is not JSON`);
+    }
+    const sdl = schemaFromIntrospection(json);
+    handleSaveGraphqlSchemas({ ...graphqlSchemas, [endpoint]: { sdl, source: 'introspection', loadedAt: Date.now() } });
+  };
+
+  const handleLoadGraphqlSdl = (sdl: string, fileName: string) => {
+    if (graphqlEndpoint) handleSaveGraphqlSchemas({ ...graphqlSchemas, [graphqlEndpoint]: { sdl, source: 'sdl', loadedAt: Date.now(), fileName } });
+  };
+
+  // --- WebSocket ---
+
+  const handleConnect = () => {
+    const tabId = tab.id;
+    const connectRequest = request;
+    // The previous connection is unregistered first so its closing no longer reaches the tab
+    const previous = socketsRef.current.get(tabId);
+    socketsRef.current.delete(tabId);
+    previous?.close();
+
+    // The session is mirrored into the tab as a response on every change, until a reconnect replaces it
+    let session: WsSession = { url: '', state: 'connecting', frames: [], startedAt: Date.now() };
+    let seq = 0;
+    let connection: WebSocketConnection | null = null;
+    const update = (change: (s: WsSession) => WsSession) => {
+        session = change(session);
+        if (connection && socketsRef.current.get(tabId) !== connection) return;
+        const response = sessionResponse(session);
+        updateTab(tabId, t => ({ ...t, response }));
+    };
+
+    let socket: WebSocket;
+    try {
+        session.url = toWebSocketUrl(buildRequestUrl(resolveRequest(request, variableScope)));
+        const config = request.websocket || DEFAULT_WEBSOCKET_CONFIG;
+        socket = new WebSocket(session.url, parseSubprotocols(resolveVariables(config.protocols, variableScope)));
+    } catch (error: any) {
+        update(s => ({ ...s, state: 'closed', closedAt: Date.now(), error: error.message }));
+        return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    connection = {
+        send: (payload) => {
+            socket.send(payload);
+            update(s => appendFrame(s, createFrame('sent', payload, ++seq)));
+        },
+        close: () => {
+            if (socket.readyState === WebSocket.CLOSED) return;
+            socket.close(1000);
+            update(s => ({ ...s, state: 'closing' }));
+        },
+        clear: () => update(s => ({ ...s, frames: [] })),
+    };
+    socketsRef.current.set(tabId, connection);
+    update(s => s);
+
+    socket.onopen = () => update(s => ({ ...s, state: 'open', protocol: socket.protocol || undefined, openedAt: Date.now() }));
+    socket.onmessage = (e) => update(s => appendFrame(s, createFrame('received', e.data, ++seq)));
+    // Browsers give no details on WebSocket errors; the close event that follows has the code
+    socket.onerror = () => update(s => ({ ...s, error: s.openedAt ? 'Connection error' : 'Could not connect' }));
+    socket.onclose = (e) => {
+        update(s => ({ ...s, state: 'closed', closedAt: Date.now(), closeCode: e.code, closeReason: e.reason || undefined, wasClean: e.wasClean }));
+        if (socketsRef.current.get(tabId) === connection) socketsRef.current.delete(tabId);
+        // A superseded session is still recorded
+        addToHistory(connectRequest, sessionResponse(session));
+    };
+  };
+
+  const handleSendMessage = (message: WsMessage): string | null => {
+    const connection = socketsRef.current.get(tab.id);
+    if (!connection) return 'Not connected';
+    try {
+        connection.send(encodeMessage({ type: message.type, content: resolveVariables(message.content, variableScope) }));
+        return null;
+    } catch (error: any) {
+        return error.message;
     }
+  };
+
+  const handleClearWebSocketLog = () => {
+    const connection = socketsRef.current.get(tab.id);
+    if (connection) connection.clear();
+    else updateTab(tab.id, t => t.response?.websocket ? { ...t, response: sessionResponse({ ...t.response.websocket, frames: [] }) } : t);
+  };
+
+  const handleSend = async () => {
+    if (isWebSocketRequest(request)) return handleConnect();
+
+    // The response lands in the tab that sent the request, even if another tab is active by then
+    const tabId = tab.id;
+    const setResponse = (value: ResponseState | null | ((prev: ResponseState | null) => ResponseState | null)) =>
+        updateTab(tabId, t => ({ ...t, response: typeof value === 'function' ? value(t.response) : value }));
+    const setLoading = (loading: boolean) => updateTab(tabId, t => ({ ...t, loading }));
+    const setScriptResult = (scriptResult: ScriptResult | null) => updateTab(tabId, t => ({ ...t, scriptResult }));
+    const setInjectedHeaders = (injectedHeaders: Record<string, string> | null) => updateTab(tabId, t => ({ ...t, injectedHeaders }));
+
+    // Stop any previous request of this tab
+    abortControllersRef.current.get(tabId)?.abort();
 
     setLoading(true);
     setResponse(null);
+    setScriptResult(null);
     
     // Create new controller
     const controller = new AbortController();
-    abortControllerRef.current = controller;
+    abortControllersRef.current.set(tabId, controller);
+    const releaseController = () => {
+        if (abortControllersRef.current.get(tabId) === controller) abortControllersRef.current.delete(tabId);
+    };
 
-    const startTime = Date.now();
+    // --- Scripts ---
+    // Scripts may change variables; keep working copies so the test script sees what the pre-request script set
+    let store = envStore;
+    let cols = collections;
+    let scope = variableScope;
+    let localVariables: VariableValues = {};
+    let preResult: ScriptRunResult | null = null;
+    const requestName = activeSavedRequest?.name || request.url;
 
-    // Prepare headers (Request Headers + Global Headers)
-    const headers: Record<string, string> = {};
-    
-    // Add Global Headers first 
-    settings.globalHeaders.forEach(h => {
-        if (h.enabled && h.key) headers[h.key] = h.value;
-    });
+    const collectionId = activeCollection?.id || null;
+    const scriptVariables = () => getScriptVariables(store, cols, collectionId, localVariables);
 
-    // --- Cloud Docs Mode Logic ---
-    if (settings.cloudDocsMode && settings.cloudDocsAppId && settings.cloudDocsSecureKey) {
-        try {
-            const timestamp = Date.now().toString();
-            const nonce = timestamp.slice(-6); // Last 6 digits
-            const appId = settings.cloudDocsAppId;
-            const authType = '2';
-            const authValue = getCookie('CAS_SSO_COOKIE');
-            
-            // Plain text for signing: x-appid + x-nonce + x-request-ts + x-auth-value
-            const signStr = appId + nonce + timestamp + authValue;
-            
-            // Use CryptoJS for robust HMAC-SHA256 (Works in http/https)
-            const sign = CryptoJS.HmacSHA256(signStr, settings.cloudDocsSecureKey).toString();
-
-            const authHeaders = {
-                'x-appid': appId,
-                'x-request-ts': timestamp,
-                'x-nonce': nonce,
-                'x-auth-type': authType,
-                'x-auth-value': authValue,
-                'x-sign': sign
-            };
+    const persistScriptVariables = (vars: ScriptVariables) => {
+        localVariables = vars.local;
+        const changed = applyScriptVariables(store, cols, collectionId, vars);
+        if (changed.store) {
+            store = changed.store;
+            handleSaveEnvironments(store);
+        }
+        if (changed.collections) {
+            cols = changed.collections;
+            handleSaveCollections(cols);
+        }
+        // Local variables (pm.variables.set) take precedence over every other scope
+        const col = cols.find(c => c.id === collectionId);
+        scope = { ...getEnvironmentScope(store.globals, store.environments, store.activeEnvironmentId, col?.variables), ...localVariables };
+    };
 
-            setInjectedHeaders(authHeaders);
-            Object.assign(headers, authHeaders);
+    let outgoing = request;
+    if (hasScript(request.preRequestScript)) {
+        const original = toScriptRequest(request);
+        preResult = await runScript(request.preRequestScript!, { phase: 'pre-request', requestName, request: original, variables: scriptVariables() });
+        persistScriptVariables(preResult.variables);
+        outgoing = applyScriptRequest(request, original, preResult.request);
 
-            console.log('[Cloud Docs Mode] Injected Headers:', authHeaders);
-        } catch (e) {
-            console.error('[Cloud Docs Mode] Failed to generate signature', e);
+        if (preResult.errors.length) {
+            setScriptResult(mergeScriptResults(preResult));
+            setResponse({
+                status: 0,
+                statusText: 'Script Error',
+                headers: {},
+                data: `Pre-request script failed, the request was not sent.\n\n${preResult.errors.map(e => e.message).join('\n')}`,
+                size: '0 KB',
+                time: 0,
+                contentType: 'text/plain',
+                isError: true
+            });
+            setLoading(false);
+            releaseController();
+            return;
         }
     }
 
-    // Add Request Headers (Request headers override global/cloud headers if specific conflicts exist, 
-    // though usually these x- headers are unique)
-    request.headers.forEach(h => {
-        if (h.enabled && h.key) headers[h.key] = h.value;
-    });
-
-    // Prepare URL with Params
-    const queryString = request.params
-        .filter(p => p.enabled && p.key)
-        .map(p => `${encodeURIComponent(p.key)}=${encodeURIComponent(p.value)}`)
-        .join('&');
-    const finalUrl = queryString ? `${request.url.split('?')[0]}?${queryString}` : request.url;
+    const runTests = async (res: ResponseState, bodyText: string) => {
+        if (!hasScript(request.testScript)) {
+            if (preResult) setScriptResult(mergeScriptResults(preResult));
+            return;
+        }
+        const testResult = await runScript(request.testScript!, {
+            phase: 'test',
+            requestName,
+            request: { ...toScriptRequest(resolved), headers: Object.entries(headers).map(([key, value]) => ({ key, value })), url: finalUrl },
+            response: {
+                code: res.status,
+                status: res.statusText,
+                headers: res.headers,
+                body: bodyText,
+                responseTime: res.time,
+                responseSize: new TextEncoder().encode(bodyText).length,
+            },
+            variables: scriptVariables(),
+        });
+        persistScriptVariables(testResult.variables);
+        setScriptResult(mergeScriptResults(preResult, testResult));
+    };
 
-    // Prepare Body
-    let body: any = undefined;
-    const hasBody = request.method !== 'GET' && request.method !== 'HEAD' && request.bodyType !== 'none';
-
-    if (hasBody) {
-        if (request.bodyType === 'file' && request.file) {
-            body = request.file; 
-        } 
-        else if (request.bodyType === 'form-data') {
-            const formData = new FormData();
-            request.bodyFormData.forEach(item => {
-                if (item.enabled && item.key) {
-                    if (item.type === 'file' && item.file) {
-                        formData.append(item.key, item.file);
-                    } else {
-                        formData.append(item.key, item.value);
-                    }
-                }
+    // --- Auth ---
+    // OAuth 2.0 may need to fetch or refresh a token first
+    let authInjection: AuthInjection;
+    try {
+        authInjection = await prepareAuth(getEffectiveAuth(outgoing.auth, cols, activeSavedRequest?.id || null).auth, scope, controller.signal);
+    } catch (error: any) {
+        if (preResult) setScriptResult(mergeScriptResults(preResult));
+        if (error.name !== 'AbortError') {
+            setResponse({
+                status: 0,
+                statusText: 'Auth Error',
+                headers: {},
+                data: `${error.message}\n\nThe request was not sent.`,
+                size: '0 KB',
+                time: 0,
+                contentType: 'text/plain',
+                isError: true
             });
-            body = formData;
-            delete headers['Content-Type'];
-            delete headers['content-type'];
         }
-        else if (request.bodyType === 'x-www-form-urlencoded') {
-            const params = new URLSearchParams();
-            request.bodyFormUrlEncoded.forEach(item => {
-                if (item.enabled && item.key) {
-                    params.append(item.key, item.value);
-                }
+        setLoading(false);
+        releaseController();
+        return;
+    }
+
+    // Substitute {{variables}} from the active environment. History keeps the unresolved template.
+    const resolved = withAuthParams(resolveRequest(outgoing, scope), authInjection);
+
+    // Files whose stored copy is gone (or was never kept) have to be selected again
+    const missing = missingFiles(resolved);
+    if (missing.length) {
+        if (preResult) setScriptResult(mergeScriptResults(preResult));
+        setResponse({
+            status: 0,
+            statusText: 'Missing File',
+            headers: {},
+            data: `The body needs files that are no longer available: ${missing.join(', ')}\n\nSelect them again in the Body tab. The request was not sent.`,
+            size: '0 KB',
+            time: 0,
+            contentType: 'text/plain',
+            isError: true
+        });
+        setLoading(false);
+        releaseController();
+        return;
+    }
+
+    // A GraphQL body that does not parse would reach the server as a different request
+    const graphqlProblems = methodHasBody(resolved) && resolved.bodyType === 'graphql'
+        ? validateGraphql(resolved.graphql || DEFAULT_GRAPHQL_BODY, null).filter(d => d.severity === 'error')
+        : [];
+    if (graphqlProblems.length) {
+        if (preResult) setScriptResult(mergeScriptResults(preResult));
+        setResponse({
+            status: 0,
+            statusText: 'Invalid GraphQL',
+            headers: {},
+            data: `${graphqlProblems.map(d => d.line !== undefined ? `${d.line}:${d.column} ${d.message}` : d.message).join('\n')}\n\nThe request was not sent.`,
+            size: '0 KB',
+            time: 0,
+            contentType: 'text/plain',
+            isError: true
+        });
+        setLoading(false);
+        releaseController();
+        return;
+    }
+
+    // Prepare URL with Params
+    const finalUrl = buildRequestUrl(resolved);
+
+    // --- Request signing ---
+    const signingProfile = getSigningProfile(settings, outgoing);
+    let signedHeaders: Record<string, string> | null = null;
+    if (signingProfile) {
+        try {
+            const signed = await signRequest(signingProfile, { method: resolved.method, url: finalUrl, body: bodyTextForSigning(resolved) }, scope);
+            signedHeaders = signed.headers;
+            setInjectedHeaders(signedHeaders);
+            console.log(`[Signing: ${signingProfile.name}] String to sign:`, signed.stringToSign);
+        } catch (error: any) {
+            if (preResult) setScriptResult(mergeScriptResults(preResult));
+            setResponse({
+                status: 0,
+                statusText: 'Signing Error',
+                headers: {},
+                data: `Signing profile "${signingProfile.name}" failed: ${error.message}\n\nThe request was not sent.`,
+                size: '0 KB',
+                time: 0,
+                contentType: 'text/plain',
+                isError: true
             });
-            body = params;
-        }
-        else {
-            body = request.bodyContent;
+            setLoading(false);
+            releaseController();
+            return;
         }
     }
 
+    // Prepare headers (Global Headers + Signed Headers + Auth Headers + Request Headers)
+    const headers = buildRequestHeaders(resolved, settings, scope, signedHeaders, authInjection.headers);
+
+    const sentAt = Date.now();
+    const retries: ResponseAttempt[] = [];
+
+    // Prepare Body
+    const hasBody = methodHasBody(resolved);
+    const body = buildRequestBody(resolved);
+
     try {
         const fetchOptions: RequestInit = {
-            method: request.method,
+            method: resolved.method,
             headers,
             body,
             mode: settings.fetchMode,
@@ -253,7 +787,14 @@ const App: React.FC = () => {
              fetchOptions.duplex = 'half'; 
         }
 
-        const res = await fetch(finalUrl, fetchOptions);
+        // Buffered bodies are read within the attempt, so a body that stalls counts towards the timeout
+        const { response: res, result: bufferedBody, startedAt: startTime, marks } = await sendWithRetry(
+            signal => fetchWithAuth(finalUrl, { ...fetchOptions, signal }, authInjection),
+            r => r.type === 'opaque' || (request.stream && r.body) ? Promise.resolve(null) : readResponseBody(r, r.headers.get('content-type') || ''),
+            { policy: effectivePolicy(request, settings), signal: controller.signal, urls: [finalUrl], onRetry: attempt => retries.push(attempt) }
+        );
+        const { start: startMark, headers: headersMark } = marks;
+        const retried = retries.length ? { retries } : {};
 
         // Initial headers parse
         const resHeaders: Record<string, string> = {};
@@ -262,7 +803,7 @@ const App: React.FC = () => {
 
         // Handle Opaque Response
         if (res.type === 'opaque') {
-             setResponse({
+             const opaque: ResponseState = {
                 status: 0,
                 statusText: 'Opaque',
                 headers: {},
@@ -270,18 +811,28 @@ const App: React.FC = () => {
                 size: '0 KB',
                 time: Date.now() - startTime,
                 contentType: 'opaque/unknown',
-                isError: false
-             });
+                isError: false,
+                ...retried
+             };
+             setResponse(opaque);
+             await runTests(opaque, '');
              setLoading(false);
-             addToHistory(request);
+             addToHistory(request, opaque);
              return;
         }
 
         if (request.stream && res.body) {
             // --- STREAMING MODE ---
-            const reader = res.body.getReader();
-            const decoder = new TextDecoder();
             let receivedText = '';
+
+            // Event streams are parsed into a timeline as they arrive
+            const sse = isEventStream(contentType);
+            let events: SseEvent[] = [];
+            let seq = 0;
+            let connection = 1;
+            const parser = createSseParser(event => {
+                events.push({ ...event, seq: ++seq, receivedAt: Date.now(), connection });
+            });
             
             // Set initial state without data
             setResponse({
@@ -292,73 +843,128 @@ const App: React.FC = () => {
                 size: '0 KB',
                 time: Date.now() - startTime,
                 contentType,
-                isError: !res.ok
+                isError: !res.ok,
+                events: sse ? [] : undefined
             });
 
+            let current = res;
             while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                
-                const chunk = decoder.decode(value, { stream: true });
-                receivedText += chunk;
-                
-                // Update state with new chunk
-                setResponse(prev => {
-                    if (!prev) return null;
-                    return {
-                        ...prev,
-                        data: receivedText,
-                        size: (new TextEncoder().encode(receivedText).length / 1024).toFixed(2) + ' KB',
-                        time: Date.now() - startTime
-                    };
-                });
-            }
-        } else {
-            // --- BUFFERED MODE (Default) ---
-            const text = await res.text();
-            const size = (new TextEncoder().encode(text).length / 1024).toFixed(2) + ' KB';
-            let data = text;
-            
-            if (contentType.includes('application/json')) {
+                const reader = current.body!.getReader();
+                const decoder = new TextDecoder();
+                try {
+                    while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) break;
+                        
+                        const chunk = decoder.decode(value, { stream: true });
+                        receivedText += chunk;
+                        if (sse) {
+                            parser.push(chunk);
+                            if (events.length > MAX_SSE_EVENTS) events = events.slice(-MAX_SSE_EVENTS);
+                        }
+                        const received = sse ? [...events] : undefined;
+                        
+                        // Update state with new chunk
+                        setResponse(prev => {
+                            if (!prev) return null;
+                            return {
+                                ...prev,
+                                data: receivedText,
+                                size: (new TextEncoder().encode(receivedText).length / 1024).toFixed(2) + ' KB',
+                                time: Date.now() - startTime,
+                                events: received
+                            };
+                        });
+                    }
+                } catch (error: any) {
+                    // Stopping or a dropped connection ends an event stream; what arrived so far is kept
+                    if (!sse || (error.name !== 'AbortError' && !request.sseReconnect)) throw error;
+                }
+                if (!sse) break;
+                parser.end();
+
+                // Reconnect the way EventSource does: wait, then resume from the last event id
+                if (!request.sseReconnect || controller.signal.aborted) break;
+                await sleep(parser.retry() ?? DEFAULT_RETRY_MS, controller.signal);
+                if (controller.signal.aborted) break;
+                const lastEventId = parser.lastEventId();
                 try {
-                    data = JSON.parse(text);
-                } catch (e) {
-                    // Keep as text
+                    current = await fetchWithAuth(finalUrl, { ...fetchOptions, headers: lastEventId ? { ...headers, 'Last-Event-ID': lastEventId } : headers }, authInjection);
+                } catch (error: any) {
+                    console.warn('Event stream reconnect failed', error);
+                    break;
                 }
+                // Anything but a successful event stream ends the session
+                if (!current.ok || !current.body || !isEventStream(current.headers.get('content-type') || '')) break;
+                connection++;
             }
 
-            setResponse({
+            // A reconnected stream spans several fetches; only the whole session can be timed
+            const marks = { start: startMark, headers: headersMark, end: markTime() };
+            const timing = connection > 1
+                ? measuredTiming(marks, 'The stream reconnected, so the timing covers the whole session')
+                : await collectTiming([finalUrl, res.url], marks);
+
+            const streamed: ResponseState = {
+                status: res.status,
+                statusText: res.statusText || (res.ok ? 'OK' : 'Error'),
+                headers: resHeaders,
+                data: receivedText,
+                size: (new TextEncoder().encode(receivedText).length / 1024).toFixed(2) + ' KB',
+                time: Date.now() - startTime,
+                contentType,
+                isError: !res.ok,
+                events: sse ? events : undefined,
+                timing,
+                ...retried
+            };
+            setResponse(streamed);
+            await runTests(streamed, receivedText);
+            addToHistory(request, streamed);
+        } else {
+            // --- BUFFERED MODE (Default) ---
+            const { data, text, bodyBase64, rawBase64, size } = bufferedBody || await readResponseBody(res, contentType);
+            const timing = await collectTiming([finalUrl, res.url], { start: startMark, headers: headersMark, end: markTime() });
+
+            const buffered: ResponseState = {
                 status: res.status,
                 statusText: res.statusText || (res.ok ? 'OK' : 'Error'),
                 headers: resHeaders,
                 data,
+                ...(bodyBase64 !== undefined ? { bodyBase64 } : {}),
+                ...(rawBase64 !== undefined ? { rawBase64 } : {}),
                 size,
                 time: Date.now() - startTime,
                 contentType,
-                isError: !res.ok
-            });
+                isError: !res.ok,
+                timing,
+                ...retried
+            };
+            setResponse(buffered);
+            await runTests(buffered, text);
+            addToHistory(request, buffered);
         }
 
-        addToHistory(request);
-
     } catch (error: any) {
         if (error.name === 'AbortError') {
              // User aborted, do nothing or show aborted state
         } else {
+            const timedOut = error.name === 'TimeoutError';
             setResponse({
                 status: 0,
-                statusText: 'Error',
+                statusText: timedOut ? 'Timeout' : 'Error',
                 headers: {},
-                data: error.message + '\n\nRequest Failed or Aborted.',
+                data: error.message + (timedOut ? '\n\nNo response within the timeout.' : '\n\nRequest Failed or Aborted.'),
                 size: '0 KB',
-                time: Date.now() - startTime,
+                time: Date.now() - sentAt,
                 contentType: 'text/plain',
-                isError: true
+                isError: true,
+                ...(retries.length ? { retries } : {})
             });
         }
     } finally {
         setLoading(false);
-        abortControllerRef.current = null;
+        releaseController();
     }
   };
 
@@ -371,6 +977,12 @@ const App: React.FC = () => {
         onTogglePin={handleTogglePinHistory}
         onDelete={handleDeleteHistory}
         isOpen={sidebarOpen}
+        collections={collections}
+        activeSavedId={activeSavedRequest?.id || null}
+        onCollectionsChange={handleSaveCollections}
+        onOpenSaved={handleOpenSaved}
+        onRun={setRunnerSource}
+        onMock={handleMockHistory}
       />
       
       <SettingsModal 
@@ -380,6 +992,59 @@ const App: React.FC = () => {
         onSave={handleSaveSettings}
       />
 
+      <EnvironmentModal
+        isOpen={environmentsOpen}
+        onClose={() => setEnvironmentsOpen(false)}
+        store={envStore}
+        onSave={handleSaveEnvironments}
+      />
+
+      <SaveRequestModal
+        isOpen={saveModalOpen}
+        onClose={() => setSaveModalOpen(false)}
+        defaultName={activeSavedRequest?.name || request.url.replace(/^https?:\/\//, '').split('?')[0] || 'New Request'}
+        collections={collections}
+        onSave={handleConfirmSave}
+      />
+
+      <ImportModal
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImportRequest={handleImportRequest}
+        onImportCollection={handleImportCollection}
+        onImportEnvironments={handleImportEnvironments}
+        onImportGlobals={handleImportGlobals}
+      />
+
+      <RunnerModal
+        source={runnerSource}
+        onClose={() => setRunnerSource(null)}
+        settings={settings}
+        envStore={envStore}
+        collections={collections}
+        onVariablesChange={handleRunnerVariables}
+      />
+
+      <BenchmarkModal
+        target={benchmarkTarget}
+        onClose={() => setBenchmarkTarget(null)}
+        settings={settings}
+        envStore={envStore}
+        collections={collections}
+        runs={benchmarkRuns}
+        onRunsChange={handleSaveBenchmarkRuns}
+      />
+
+      <MocksModal
+        isOpen={mocksOpen}
+        onClose={() => { setMocksOpen(false); setMockFocusId(null); }}
+        config={mockConfig}
+        onChange={handleSaveMocks}
+        hits={mockHits}
+        onClearHits={() => setMockHits([])}
+        focusRuleId={mockFocusId}
+      />
+
       <div className="flex-1 flex flex-col h-full overflow-hidden">
         {/* Header */}
         <header className="h-12 bg-zinc-900 border-b border-zinc-800 flex items-center px-4 justify-between shrink-0 z-10">
@@ -395,6 +1060,42 @@ const App: React.FC = () => {
                 </div>
             </div>
             <div className="flex items-center gap-4">
+                 <button
+                    onClick={() => setImportOpen(true)}
+                    className="flex items-center gap-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded"
+                 >
+                    <Download size={14} />
+                    <span>Import</span>
+                 </button>
+
+                 {/* Environment Switcher */}
+                 <div className="flex items-center gap-1">
+                    <select
+                        value={envStore.activeEnvironmentId || ''}
+                        onChange={(e) => handleSelectEnvironment(e.target.value)}
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-2 py-1.5 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer max-w-[180px]"
+                        title="Active Environment"
+                    >
+                        <option value="">No Environment</option>
+                        {envStore.environments.map(env => <option key={env.id} value={env.id}>{env.name || 'Untitled'}</option>)}
+                    </select>
+                    <button
+                        onClick={() => setEnvironmentsOpen(true)}
+                        className="p-1.5 text-zinc-400 hover:text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+                        title="Manage Environments"
+                    >
+                        <Layers size={14} />
+                    </button>
+                 </div>
+                 <button
+                    onClick={() => setMocksOpen(true)}
+                    className={`flex items-center gap-2 text-xs transition-colors bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded ${mockConfig.enabled ? 'text-indigo-400' : 'text-zinc-400 hover:text-zinc-200'}`}
+                    title={mockConfig.enabled ? 'Mocks are answering matching requests' : 'Mocks'}
+                 >
+                    <ServerCog size={14} />
+                    <span>Mocks</span>
+                    {mockConfig.enabled && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400" />}
+                 </button>
                  <button 
                     onClick={() => setSettingsOpen(true)}
                     className="flex items-center gap-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded"
@@ -405,24 +1106,71 @@ const App: React.FC = () => {
             </div>
         </header>
 
+        <TabStrip
+            tabs={tabs}
+            activeTabId={tab.id}
+            collections={collections}
+            onSelect={setActiveTabId}
+            onNew={handleNewTab}
+            onClose={handleCloseTab}
+            onDuplicate={handleDuplicateTab}
+            onReorder={handleReorderTabs}
+        />
+
         {/* Workspace */}
         <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
              {/* Left/Top: Request Panel */}
              <div className="flex-1 md:w-1/2 flex flex-col min-h-[300px] border-b md:border-b-0 md:border-r border-zinc-800">
                 <RequestPanel 
+                    key={tab.id}
                     request={request} 
                     onChange={setRequest} 
                     onSend={handleSend}
                     onStop={handleStop}
-                    loading={loading}
+                    loading={tab.loading}
                     settings={settings}
-                    injectedHeaders={injectedHeaders}
+                    injectedHeaders={tab.injectedHeaders}
+                    variables={variableScope}
+                    effectiveAuth={effectiveAuth}
+                    savedName={activeSavedRequest?.name || null}
+                    savedPath={activeSavedRequest ? findItemPath(collections, activeSavedRequest.id) : null}
+                    onSave={handleSaveRequest}
+                    onSaveAs={() => setSaveModalOpen(true)}
+                    onRename={handleRenameSaved}
+                    onImport={handleImportRequest}
+                    importWarnings={tab.importWarnings}
+                    onDismissImportWarnings={() => updateTab(tab.id, t => ({ ...t, importWarnings: [] }))}
+                    activeTab={tab.activePanel}
+                    onActiveTabChange={(activePanel) => updateTab(tab.id, t => ({ ...t, activePanel }))}
+                    dirty={!!activeSavedRequest && isTabDirty(tab)}
+                    wsState={tab.response?.websocket?.state || null}
+                    onDisconnect={() => socketsRef.current.get(tab.id)?.close()}
+                    onSendMessage={handleSendMessage}
+                    graphqlSchema={graphqlEndpoint ? graphqlSchemas[graphqlEndpoint] || null : null}
+                    onFetchGraphqlSchema={handleFetchGraphqlSchema}
+                    onLoadGraphqlSdl={handleLoadGraphqlSdl}
+                    onBenchmark={handleBenchmark}
                 />
              </div>
 
              {/* Right/Bottom: Response Panel */}
              <div className="flex-1 md:w-1/2 flex flex-col bg-zinc-900 h-full">
-                <ResponsePanel response={response} loading={loading} />
+                <ResponsePanel
+                    key={tab.id}
+                    response={tab.response}
+                    loading={tab.loading}
+                    scriptResult={tab.scriptResult}
+                    responseQuery={request.responseQuery}
+                    onResponseQueryChange={(responseQuery) => setRequest({ ...request, responseQuery })}
+                    snapshots={snapshots}
+                    baselineId={baselineId}
+                    onPin={handlePinResponse}
+                    onDeleteSnapshot={(id) => handleSaveSnapshots(snapshots.filter(s => s.id !== id))}
+                    onClearWebSocketLog={handleClearWebSocketLog}
+                    graphql={request.bodyType === 'graphql'}
+                    requestUrl={request.url}
+                    onMock={() => tab.response && handleMockResponse(request, tab.response)}
+                />
              </div>
         </div>
       </div>
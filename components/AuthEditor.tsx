@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { KeyRound, RefreshCw, Trash2, AlertCircle } from 'lucide-react';
+import { OAuth2Config, RequestAuth } from '../types';
+import { VariableScope, findUnresolvedVariables } from '../utils/variables';
+import {
+  AUTH_TYPES, DEFAULT_OAUTH2, EffectiveAuth, authLabel, resolveOAuth2Config, getCachedToken, saveCachedToken,
+  isTokenExpired, requestAccessToken, refreshAccessToken, defaultRedirectUri,
+} from '../utils/auth';
+
+interface AuthEditorProps {
+  auth: RequestAuth | undefined;
+  onChange: (auth: RequestAuth) => void;
+  variables: VariableScope;
+  allowInherit?: boolean; // Collections have no parent to inherit from
+  inherited?: EffectiveAuth | null; // What 'inherit' currently resolves to
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 font-mono focus:border-indigo-500/50 outline-none';
+const selectClass = 'w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none cursor-pointer';
+
+export const AuthEditor: React.FC<AuthEditorProps> = ({ auth, onChange, variables, allowInherit = true, inherited }) => {
+  const [busy, setBusy] = useState(false);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  // Tokens live in localStorage, bump this to re-read them
+  const [, setTokenVersion] = useState(0);
+
+  const current: RequestAuth = auth || { type: 'none' };
+  const types = AUTH_TYPES.filter(t => allowInherit || t.id !== 'inherit');
+  const oauth2 = { ...DEFAULT_OAUTH2, ...current.oauth2 };
+
+  const update = <K extends 'basic' | 'bearer' | 'apikey' | 'digest'>(type: K, field: string, value: string) => {
+    const defaults = { basic: { username: '', password: '' }, bearer: { token: '' }, apikey: { key: '', value: '', in: 'header' }, digest: { username: '', password: '' } };
+    onChange({ ...current, [type]: { ...defaults[type], ...current[type], [field]: value } });
+  };
+
+  const updateOAuth2 = (field: keyof OAuth2Config, value: any) => {
+    onChange({ ...current, oauth2: { ...oauth2, [field]: value } });
+  };
+
+  const renderField = (label: string, value: string | undefined, onValue: (v: string) => void, placeholder = '', secret = false) => (
+    <label className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-zinc-500">{label}</span>
+        <input
+            type={secret ? 'password' : 'text'}
+            value={value || ''}
+            onChange={(e) => onValue(e.target.value)}
+            placeholder={placeholder}
+            className={`${inputClass}${findUnresolvedVariables(value || '', variables).length > 0 ? ' !border-amber-500/60 text-amber-300' : ''}`}
+        />
+    </label>
+  );
+
+  // --- OAuth 2.0 token management ---
+
+  const resolvedOAuth2 = resolveOAuth2Config(oauth2, variables);
+  const token = current.type === 'oauth2' ? getCachedToken(resolvedOAuth2) : null;
+
+  const runTokenAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setTokenError(null);
+    try {
+        await action();
+    } catch (e: any) {
+        setTokenError(e.message);
+    } finally {
+        setBusy(false);
+        setTokenVersion(v => v + 1);
+    }
+  };
+
+  const handleGetToken = () => runTokenAction(() => requestAccessToken(resolvedOAuth2));
+
+  const handleRefreshToken = () => runTokenAction(async () => {
+    if (!token) return;
+    saveCachedToken(resolvedOAuth2, await refreshAccessToken(resolvedOAuth2, token));
+  });
+
+  const handleClearToken = () => {
+    saveCachedToken(resolvedOAuth2, null);
+    setTokenError(null);
+    setTokenVersion(v => v + 1);
+  };
+
+  const renderTokenStatus = () => {
+    if (!token) return <span className="text-zinc-500">No access token</span>;
+    const expired = isTokenExpired(token);
+    return (
+        <div className="flex flex-col gap-1 min-w-0">
+            <code className="text-xs text-zinc-300 truncate" title={token.accessToken}>{token.accessToken}</code>
+            <span className={`text-[11px] ${expired ? 'text-red-400' : 'text-green-400'}`}>
+                {token.expiresAt === undefined
+                    ? 'No expiry reported'
+                    : `${expired ? 'Expired' : 'Expires'} ${new Date(token.expiresAt).toLocaleString()}`}
+                {token.refreshToken && <span className="text-zinc-500"> · refresh token available</span>}
+            </span>
+        </div>
+    );
+  };
+
+  const renderOAuth2 = () => (
+    <div className="flex flex-col gap-3">
+        <label className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-zinc-500">Grant Type</span>
+            <select value={oauth2.grantType} onChange={(e) => updateOAuth2('grantType', e.target.value)} className={selectClass}>
+                <option value="client_credentials">Client Credentials</option>
+                <option value="password">Password Credentials</option>
+                <option value="authorization_code">Authorization Code</option>
+            </select>
+        </label>
+        {oauth2.grantType === 'authorization_code' && renderField('Auth URL', oauth2.authUrl, v => updateOAuth2('authUrl', v), 'https://example.com/oauth/authorize')}
+        {renderField('Access Token URL', oauth2.accessTokenUrl, v => updateOAuth2('accessTokenUrl', v), 'https://example.com/oauth/token')}
+        {renderField('Client ID', oauth2.clientId, v => updateOAuth2('clientId', v))}
+        {renderField('Client Secret', oauth2.clientSecret, v => updateOAuth2('clientSecret', v), oauth2.grantType === 'authorization_code' ? 'Optional with PKCE' : '', true)}
+        {oauth2.grantType === 'password' && (
+            <>
+                {renderField('Username', oauth2.username, v => updateOAuth2('username', v))}
+                {renderField('Password', oauth2.password, v => updateOAuth2('password', v), '', true)}
+            </>
+        )}
+        {oauth2.grantType === 'authorization_code' && (
+            <>
+                {renderField('Callback URL', oauth2.redirectUri, v => updateOAuth2('redirectUri', v), defaultRedirectUri())}
+                <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={oauth2.usePkce}
+                        onChange={(e) => updateOAuth2('usePkce', e.target.checked)}
+                        className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                    />
+                    Use PKCE (SHA-256)
+                </label>
+            </>
+        )}
+        {renderField('Scope', oauth2.scope, v => updateOAuth2('scope', v), 'read write')}
+        <div className="flex gap-3">
+            <label className="flex-1 flex flex-col gap-1">
+                <span className="text-xs font-semibold text-zinc-500">Client Authentication</span>
+                <select value={oauth2.clientAuthentication} onChange={(e) => updateOAuth2('clientAuthentication', e.target.value)} className={selectClass}>
+                    <option value="header">Basic Auth header</option>
+                    <option value="body">Client credentials in body</option>
+                </select>
+            </label>
+            <div className="w-32">{renderField('Header Prefix', oauth2.headerPrefix, v => updateOAuth2('headerPrefix', v))}</div>
+        </div>
+
+        <div className="mt-2 p-3 bg-zinc-950/60 border border-zinc-800 rounded flex flex-col gap-2">
+            <div className="flex items-center gap-3 text-xs">
+                <div className="flex-1 min-w-0">{renderTokenStatus()}</div>
+                {token?.refreshToken && (
+                    <button onClick={handleRefreshToken} disabled={busy} className="p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors disabled:opacity-50" title="Refresh Token">
+                        <RefreshCw size={14} className={busy ? 'animate-spin' : ''} />
+                    </button>
+                )}
+                {token && (
+                    <button onClick={handleClearToken} className="p-1.5 text-zinc-400 hover:text-red-400 hover:bg-zinc-800 rounded transition-colors" title="Clear Token">
+                        <Trash2 size={14} />
+                    </button>
+                )}
+                <button
+                    onClick={handleGetToken}
+                    disabled={busy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded transition-colors disabled:opacity-50 shrink-0"
+                >
+                    <KeyRound size={12} />
+                    {busy ? 'Requesting...' : 'Get New Access Token'}
+                </button>
+            </div>
+            {tokenError && (
+                <div className="flex items-start gap-2 text-xs text-red-400">
+                    <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                    <span>{tokenError}</span>
+                </div>
+            )}
+            <p className="text-[11px] text-zinc-600 leading-relaxed">
+                {oauth2.grantType === 'authorization_code'
+                    ? 'Opens the provider login in a popup. Register the callback URL with the provider; it must be on this origin.'
+                    : 'A token is requested automatically when the request is sent, and refreshed or renewed once it expires.'}
+            </p>
+        </div>
+    </div>
+  );
+
+  const renderSettings = () => {
+    switch (current.type) {
+        case 'inherit':
+            return (
+                <p className="text-sm text-zinc-500">
+                    {inherited?.source
+                        ? <>Uses <span className="text-zinc-300">{authLabel(inherited.auth.type)}</span> from <span className="text-zinc-300">{inherited.source}</span>.</>
+                        : 'No parent folder or collection sets auth, so none is sent. Save the request to a collection to inherit its auth.'}
+                </p>
+            );
+        case 'basic':
+            return (
+                <div className="flex flex-col gap-3">
+                    {renderField('Username', current.basic?.username, v => update('basic', 'username', v))}
+                    {renderField('Password', current.basic?.password, v => update('basic', 'password', v), '', true)}
+                </div>
+            );
+        case 'bearer':
+            return renderField('Token', current.bearer?.token, v => update('bearer', 'token', v), '{{token}}');
+        case 'apikey':
+            return (
+                <div className="flex flex-col gap-3">
+                    {renderField('Key', current.apikey?.key, v => update('apikey', 'key', v), 'X-API-Key')}
+                    {renderField('Value', current.apikey?.value, v => update('apikey', 'value', v), '', true)}
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs font-semibold text-zinc-500">Add to</span>
+                        <select value={current.apikey?.in || 'header'} onChange={(e) => update('apikey', 'in', e.target.value)} className={selectClass}>
+                            <option value="header">Header</option>
+                            <option value="query">Query Params</option>
+                        </select>
+                    </label>
+                </div>
+            );
+        case 'digest':
+            return (
+                <div className="flex flex-col gap-3">
+                    {renderField('Username', current.digest?.username, v => update('digest', 'username', v))}
+                    {renderField('Password', current.digest?.password, v => update('digest', 'password', v), '', true)}
+                    <p className="text-[11px] text-zinc-600 leading-relaxed">
+                        The request is sent once without credentials; a 401 Digest challenge is answered and the request retried. Cross-origin servers must expose the WWW-Authenticate header.
+                    </p>
+                </div>
+            );
+        case 'oauth2':
+            return renderOAuth2();
+        default:
+            return <p className="text-sm text-zinc-500">This request does not use any authorization.</p>;
+    }
+  };
+
+  return (
+    <div className="flex gap-6">
+        <div className="w-52 shrink-0 flex flex-col gap-2">
+            <span className="text-xs font-semibold text-zinc-500">Type</span>
+            <select
+                value={current.type}
+                onChange={(e) => onChange({ ...current, type: e.target.value as RequestAuth['type'] })}
+                className={selectClass}
+            >
+                {types.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+            <p className="text-[11px] text-zinc-600 leading-relaxed mt-1">
+                Auth headers and params are added when the request is sent. Variables like {'{{token}}'} are resolved first.
+            </p>
+        </div>
+        <div className="flex-1 min-w-0">{renderSettings()}</div>
+    </div>
+  );
+};
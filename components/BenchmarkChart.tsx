@@ -0,0 +1,60 @@
+import React from 'react';
+import { LatencyBin } from '../utils/benchmark';
+
+interface BenchmarkChartProps {
+  bins: LatencyBin[];
+  baseline?: LatencyBin[]; // Drawn dashed behind the current run
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+// Consecutive bins with a value form one segment; empty bins break the line
+function linePaths(bins: LatencyBin[], value: (bin: LatencyBin) => number | null, x: (ms: number) => number, y: (ms: number) => number): string {
+  let path = '';
+  let drawing = false;
+  bins.forEach(bin => {
+    const v = value(bin);
+    if (v === null) { drawing = false; return; }
+    path += `${drawing ? 'L' : 'M'}${x((bin.start + bin.end) / 2).toFixed(1)},${y(v).toFixed(1)} `;
+    drawing = true;
+  });
+  return path;
+}
+
+export const BenchmarkChart: React.FC<BenchmarkChartProps> = ({ bins, baseline }) => {
+  const all = [...bins, ...(baseline || [])];
+  const span = Math.max(1, ...all.map(b => b.end));
+  const maxLatency = Math.max(1, ...all.map(b => b.p90 ?? 0));
+  const x = (ms: number) => (ms / span) * WIDTH;
+  const y = (ms: number) => HEIGHT - (ms / maxLatency) * (HEIGHT - 8);
+  const errorBins = bins.filter(b => b.errors > 0);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+        <div className="flex items-start gap-2">
+            <span className="w-14 shrink-0 text-right text-[10px] font-mono text-zinc-500">{Math.round(maxLatency)} ms</span>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="flex-1 h-40 bg-zinc-950 border border-zinc-800 rounded">
+                {[0.25, 0.5, 0.75].map(f => (
+                    <line key={f} x1={0} x2={WIDTH} y1={HEIGHT * f} y2={HEIGHT * f} className="stroke-zinc-800" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                ))}
+                {errorBins.map((bin, idx) => (
+                    <rect key={idx} x={x(bin.start)} width={Math.max(1, x(bin.end) - x(bin.start))} y={HEIGHT - 4} height={4} className="fill-red-500" />
+                ))}
+                {baseline && (
+                    <path d={linePaths(baseline, b => b.avg, x, y)} fill="none" className="stroke-zinc-500" strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+                )}
+                <path d={linePaths(bins, b => b.p90, x, y)} fill="none" className="stroke-indigo-400/40" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                <path d={linePaths(bins, b => b.avg, x, y)} fill="none" className="stroke-indigo-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            </svg>
+        </div>
+        <div className="flex items-center gap-4 pl-16 text-[10px] text-zinc-500">
+            <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-indigo-400" /> Average</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-indigo-400/40" /> p90</span>
+            {baseline && <span className="flex items-center gap-1.5"><span className="w-3 border-t border-dashed border-zinc-500" /> Baseline average</span>}
+            {errorBins.length > 0 && <span className="flex items-center gap-1.5"><span className="w-3 h-1 bg-red-500" /> Errors</span>}
+            <span className="ml-auto font-mono">{(span / 1000).toFixed(1)} s</span>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { X, Play, Square, FileJson, FileSpreadsheet, Clock, Trash2, AlertCircle } from 'lucide-react';
+import { AppSettings, Collection, EnvironmentStore } from '../types';
+import { BenchmarkChart } from './BenchmarkChart';
+import {
+  BenchmarkTarget, BenchmarkOptions, BenchmarkRun, BenchmarkSample, BenchmarkSummary, DEFAULT_BENCHMARK_OPTIONS, MAX_BENCHMARK_RUNS,
+  runBenchmark, summarizeBenchmark, latencyBins, toBenchmarkCsv, toBenchmarkJson,
+} from '../utils/benchmark';
+import { getScriptVariables } from '../utils/scripts';
+import { requestKey } from '../utils/storage';
+import { generateId } from '../utils/collections';
+import { downloadFile, toSafeFilename } from '../utils/download';
+
+interface BenchmarkModalProps {
+  target: BenchmarkTarget | null;
+  onClose: () => void;
+  settings: AppSettings;
+  envStore: EnvironmentStore;
+  collections: Collection[];
+  runs: BenchmarkRun[];
+  onRunsChange: (runs: BenchmarkRun[]) => void;
+}
+
+type Metric = { key: keyof BenchmarkSummary; label: string; unit: 'ms' | 'count' | 'rps'; lowerIsBetter: boolean };
+
+const METRICS: Metric[] = [
+  { key: 'requests', label: 'Requests', unit: 'count', lowerIsBetter: false },
+  { key: 'errors', label: 'Errors', unit: 'count', lowerIsBetter: true },
+  { key: 'throughput', label: 'Throughput', unit: 'rps', lowerIsBetter: false },
+  { key: 'min', label: 'Min', unit: 'ms', lowerIsBetter: true },
+  { key: 'avg', label: 'Average', unit: 'ms', lowerIsBetter: true },
+  { key: 'p50', label: 'p50', unit: 'ms', lowerIsBetter: true },
+  { key: 'p90', label: 'p90', unit: 'ms', lowerIsBetter: true },
+  { key: 'p99', label: 'p99', unit: 'ms', lowerIsBetter: true },
+  { key: 'max', label: 'Max', unit: 'ms', lowerIsBetter: true },
+];
+
+const formatMetric = (value: number, unit: Metric['unit']) =>
+  unit === 'ms' ? `${value < 10 ? value.toFixed(1) : Math.round(value)} ms` : unit === 'rps' ? `${value.toFixed(1)} req/s` : String(value);
+
+const statusColor = (status: string) =>
+  status.startsWith('2') ? 'bg-green-500' : status.startsWith('3') ? 'bg-sky-500' : status.startsWith('4') ? 'bg-amber-500' : 'bg-red-500';
+
+const runLabel = (run: BenchmarkRun) => `${new Date(run.startedAt).toLocaleString()} · ${run.samples.length} req${run.stopped ? ' (stopped)' : ''}`;
+
+export const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ target, onClose, settings, envStore, collections, runs, onRunsChange }) => {
+  const [options, setOptions] = useState<BenchmarkOptions>(DEFAULT_BENCHMARK_OPTIONS);
+  const [samples, setSamples] = useState<BenchmarkSample[]>([]);
+  const [elapsed, setElapsed] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [baselineId, setBaselineId] = useState<string>('');
+  const controllerRef = useRef<AbortController | null>(null);
+  const samplesRef = useRef<BenchmarkSample[]>([]);
+
+  // The run outlives the render that started it; always save to the latest list
+  const runsRef = useRef(runs);
+  runsRef.current = runs;
+  const onRunsChangeRef = useRef(onRunsChange);
+  onRunsChangeRef.current = onRunsChange;
+
+  const key = target ? requestKey(target.item.request.method, target.item.request.url) : '';
+  const requestRuns = runs.filter(r => r.requestKey === key);
+
+  useEffect(() => {
+    if (!target) return;
+    const latest = runsRef.current.filter(r => r.requestKey === key);
+    setSamples([]);
+    setActiveRunId(latest[0]?.id || null);
+    setBaselineId(latest[1]?.id || '');
+  }, [target]);
+
+  // Samples arrive faster than it is worth rendering; the view catches up a few times a second
+  useEffect(() => {
+    if (!running) return;
+    const started = Date.now();
+    const timer = setInterval(() => {
+        setSamples(samplesRef.current.slice());
+        setElapsed(Date.now() - started);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const activeRun = running ? null : runs.find(r => r.id === activeRunId) || null;
+  const baseline = runs.find(r => r.id === baselineId && r.id !== activeRun?.id) || null;
+  const shownSamples = activeRun ? activeRun.samples : samples;
+  const shownDuration = activeRun ? activeRun.duration : elapsed;
+
+  const summary = useMemo(() => summarizeBenchmark(shownSamples, shownDuration), [shownSamples, shownDuration]);
+  const bins = useMemo(() => latencyBins(shownSamples, shownDuration), [shownSamples, shownDuration]);
+  const baselineSummary = useMemo(() => baseline && summarizeBenchmark(baseline.samples, baseline.duration), [baseline]);
+  const baselineBins = useMemo(() => baseline ? latencyBins(baseline.samples, baseline.duration) : undefined, [baseline]);
+
+  if (!target) return null;
+
+  const update = <K extends keyof BenchmarkOptions>(field: K, value: BenchmarkOptions[K]) => setOptions({ ...options, [field]: value });
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    samplesRef.current = [];
+    setSamples([]);
+    setElapsed(0);
+    setRunning(true);
+    const startedAt = Date.now();
+    const runOptions = options;
+
+    const result = await runBenchmark(
+        target,
+        runOptions,
+        settings,
+        getScriptVariables(envStore, collections, target.collectionId),
+        controller.signal,
+        sample => samplesRef.current.push(sample)
+    );
+
+    const run: BenchmarkRun = {
+        id: generateId(),
+        name: target.item.name,
+        method: target.item.request.method,
+        url: target.item.request.url,
+        requestKey: key,
+        startedAt,
+        duration: result.duration,
+        stopped: result.stopped,
+        options: runOptions,
+        samples: result.samples,
+    };
+    // The previous run becomes the baseline so the two can be compared right away
+    const previous = runsRef.current.find(r => r.requestKey === key);
+    onRunsChangeRef.current([run, ...runsRef.current].slice(0, MAX_BENCHMARK_RUNS));
+    setActiveRunId(run.id);
+    if (previous) setBaselineId(previous.id);
+    setSamples(result.samples);
+    setRunning(false);
+    controllerRef.current = null;
+  };
+
+  const handleStop = () => controllerRef.current?.abort();
+
+  const handleClose = () => {
+    handleStop();
+    onClose();
+  };
+
+  const deleteRun = (id: string) => {
+    onRunsChange(runs.filter(r => r.id !== id));
+    if (activeRunId === id) {
+        setActiveRunId(null);
+        setSamples([]);
+    }
+    if (baselineId === id) setBaselineId('');
+  };
+
+  const exportRun = (format: 'csv' | 'json') => {
+    if (!activeRun) return;
+    const base = `${toSafeFilename(activeRun.name)}-benchmark-${new Date(activeRun.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    if (format === 'csv') downloadFile(`${base}.csv`, toBenchmarkCsv(activeRun), 'text/csv');
+    else downloadFile(`${base}.json`, toBenchmarkJson(activeRun));
+  };
+
+  const delta = (metric: Metric) => {
+    if (!baselineSummary) return null;
+    const before = baselineSummary[metric.key] as number;
+    const after = summary[metric.key] as number;
+    if (before === after) return <span className="text-zinc-500">—</span>;
+    const better = metric.lowerIsBetter ? after < before : after > before;
+    const text = before === 0 ? (after > before ? '+' : '') + formatMetric(after - before, metric.unit) : `${after > before ? '+' : ''}${(((after - before) / before) * 100).toFixed(1)}%`;
+    // Request counts differ by configuration, not by performance
+    const color = metric.key === 'requests' ? 'text-zinc-400' : better ? 'text-green-400' : 'text-red-400';
+    return <span className={color}>{text}</span>;
+  };
+
+  const statusEntries = (Object.entries(summary.statuses) as [string, number][]).sort(([a], [b]) => a.localeCompare(b));
+  const errorEntries = (Object.entries(summary.errorBreakdown) as [string, number][]).sort(([, a], [, b]) => b - a);
+  const progress = options.mode === 'count' ? `${shownSamples.length}/${options.requests}` : `${(elapsed / 1000).toFixed(0)}/${options.durationSec} s`;
+
+  const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-200 focus:border-indigo-500 outline-none disabled:opacity-50";
+  const numberInput = (field: 'requests' | 'durationSec' | 'concurrency' | 'rampUpSec', label: string, min: number) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-zinc-400">{label}</label>
+        <input type="number" min={min} value={options[field]} disabled={running} onChange={(e) => update(field, Math.max(min, parseInt(e.target.value) || min))} className={inputClass} />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[1100px] max-w-[95vw] flex flex-col h-[85vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-zinc-100 truncate">Benchmark: {target.item.name}</h2>
+            <div className="text-[11px] text-zinc-500 font-mono truncate">{target.item.request.method} {target.item.request.url}</div>
+          </div>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Configuration */}
+          <div className="w-80 border-r border-zinc-800 flex flex-col overflow-hidden">
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-5">
+                <div className="flex bg-zinc-950 border border-zinc-700 rounded p-0.5 text-xs">
+                    {(['count', 'duration'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => update('mode', mode)}
+                            disabled={running}
+                            className={`flex-1 px-3 py-1.5 rounded transition-colors ${options.mode === mode ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                        >
+                            {mode === 'count' ? 'Number of Requests' : 'Duration'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    {options.mode === 'count' ? numberInput('requests', 'Requests', 1) : numberInput('durationSec', 'Duration (s)', 1)}
+                    {numberInput('concurrency', 'Concurrency', 1)}
+                    {numberInput('rampUpSec', 'Ramp-up (s)', 0)}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={options.runScripts}
+                        disabled={running}
+                        onChange={(e) => update('runScripts', e.target.checked)}
+                        className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                    />
+                    Run pre-request and test scripts
+                </label>
+
+                <p className="text-xs text-zinc-500 leading-relaxed">
+                    Browsers open at most about six connections per host, so higher concurrency queues up in the browser. Latency includes retries from the request's timeout and retry settings.
+                </p>
+
+                {requestRuns.length > 0 && (
+                    <div className="flex flex-col gap-1">
+                        <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Runs</div>
+                        {requestRuns.map(run => (
+                            <div
+                                key={run.id}
+                                onClick={() => !running && setActiveRunId(run.id)}
+                                className={`flex items-center gap-2 px-2 py-1.5 rounded text-xs cursor-pointer group ${run.id === activeRun?.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                            >
+                                <span className="flex-1 truncate">{runLabel(run)}</span>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); deleteRun(run.id); }}
+                                    disabled={running}
+                                    className="p-0.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    title="Delete Run"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-4 border-t border-zinc-800">
+                {running ? (
+                    <button onClick={handleStop} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-medium rounded transition-colors">
+                        <Square size={14} fill="currentColor" />
+                        Stop
+                    </button>
+                ) : (
+                    <button onClick={handleRun} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors">
+                        <Play size={14} fill="currentColor" />
+                        {options.mode === 'count' ? `Send ${options.requests} request${options.requests === 1 ? '' : 's'}` : `Run for ${options.durationSec} s`}
+                    </button>
+                )}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex items-center gap-6 px-4 py-3 border-b border-zinc-800 text-xs">
+                {running ? (
+                    <span className="flex items-center gap-2 text-zinc-400">
+                        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-indigo-500"></div>
+                        Running {progress}
+                    </span>
+                ) : activeRun ? (
+                    <span className="flex items-center gap-1 text-zinc-400">
+                        <Clock size={12} />
+                        {(activeRun.duration / 1000).toFixed(2)} s{activeRun.stopped ? ' (stopped)' : ''} · concurrency {activeRun.options.concurrency}
+                    </span>
+                ) : null}
+                {!running && activeRun && (
+                    <label className="flex items-center gap-2 text-zinc-500">
+                        Compare with
+                        <select
+                            value={baseline?.id || ''}
+                            onChange={(e) => setBaselineId(e.target.value)}
+                            className="bg-zinc-800 text-zinc-300 text-xs rounded px-2 py-1 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer max-w-[260px]"
+                        >
+                            <option value="">Nothing</option>
+                            {runs.filter(r => r.id !== activeRun.id).map(run => (
+                                <option key={run.id} value={run.id}>{run.requestKey === key ? '' : `${run.name} · `}{runLabel(run)}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                    <button
+                        onClick={() => exportRun('csv')}
+                        disabled={!activeRun}
+                        className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <FileSpreadsheet size={12} />
+                        CSV
+                    </button>
+                    <button
+                        onClick={() => exportRun('json')}
+                        disabled={!activeRun}
+                        className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <FileJson size={12} />
+                        JSON
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-6">
+                {shownSamples.length === 0 && !running ? (
+                    <div className="p-8 text-center text-zinc-600 text-sm">Configure the load and press Run. Latency is charted while the requests are sent.</div>
+                ) : (<>
+                    <BenchmarkChart bins={bins} baseline={baselineBins} />
+
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-left text-[10px] uppercase tracking-wider text-zinc-600">
+                                <th className="py-1.5 font-bold">Metric</th>
+                                <th className="py-1.5 font-bold text-right">{running ? 'So far' : 'This run'}</th>
+                                {baselineSummary && <th className="py-1.5 font-bold text-right">Baseline</th>}
+                                {baselineSummary && <th className="py-1.5 font-bold text-right">Change</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {METRICS.map(metric => (
+                                <tr key={metric.key} className="border-t border-zinc-800/50">
+                                    <td className="py-1.5 font-sans text-zinc-400">{metric.label}</td>
+                                    <td className="py-1.5 text-right text-zinc-200">{formatMetric(summary[metric.key] as number, metric.unit)}</td>
+                                    {baselineSummary && <td className="py-1.5 text-right text-zinc-500">{formatMetric(baselineSummary[metric.key] as number, metric.unit)}</td>}
+                                    {baselineSummary && <td className="py-1.5 text-right">{delta(metric)}</td>}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <div className="grid grid-cols-2 gap-6">
+                        <div className="flex flex-col gap-1.5">
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Status Codes</div>
+                            {statusEntries.map(([status, count]) => (
+                                <div key={status} className="flex items-center gap-3 text-xs">
+                                    <span className="w-20 shrink-0 font-mono text-zinc-300">{status}</span>
+                                    <div className="flex-1 h-2 bg-zinc-800/50 rounded-sm">
+                                        <div className={`h-2 rounded-sm ${statusColor(status)}`} style={{ width: `${(count / summary.requests) * 100}%` }} />
+                                    </div>
+                                    <span className="w-12 shrink-0 text-right font-mono text-zinc-400">{count}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex flex-col gap-1.5">
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Errors</div>
+                            {errorEntries.length === 0 && <span className="text-xs text-zinc-600">No errors</span>}
+                            {errorEntries.map(([message, count]) => (
+                                <div key={message} className="flex items-start gap-2 text-xs text-red-400">
+                                    <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                                    <span className="flex-1 break-words">{message}</span>
+                                    <span className="shrink-0 font-mono">{count}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>)}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
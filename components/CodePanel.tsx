@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, RefreshCw } from 'lucide-react';
+import { RequestState, AppSettings, RequestAuth } from '../types';
+import { VariableScope, resolveRequest } from '../utils/variables';
+import { buildRequestHeaders, buildRequestUrl } from '../utils/request';
+import { getSigningProfile, signRequest, bodyTextForSigning } from '../utils/signing';
+import { authLabel, previewAuth, withAuthParams } from '../utils/auth';
+import { CODE_GENERATORS, CodeLanguage, CodegenOptions, buildCodegenInput, generateCode } from '../utils/codegen';
+
+interface CodePanelProps {
+  request: RequestState;
+  settings: AppSettings;
+  variables: VariableScope;
+  auth: RequestAuth; // Effective auth, already followed up to the parent that defines it
+}
+
+const PREFS_KEY = 'postman_lite_codegen';
+
+export const CodePanel: React.FC<CodePanelProps> = ({ request, settings, variables, auth }) => {
+  const [language, setLanguage] = useState<CodeLanguage>('curl');
+  const [options, setOptions] = useState<CodegenOptions>({ multiline: true, quote: 'single' });
+  const [copied, setCopied] = useState(false);
+  // Signed headers carry a timestamp, so they are only regenerated when the request changes or on demand
+  const [signedHeaders, setSignedHeaders] = useState<Record<string, string> | null>(null);
+  const [signingError, setSigningError] = useState<string | null>(null);
+  const [signVersion, setSignVersion] = useState(0);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(PREFS_KEY);
+    if (saved) {
+        try {
+            const prefs = JSON.parse(saved);
+            if (prefs.language) setLanguage(prefs.language);
+            if (prefs.options) setOptions(o => ({ ...o, ...prefs.options }));
+        } catch (e) {
+            console.error("Failed to parse code generator preferences", e);
+        }
+    }
+  }, []);
+
+  const savePrefs = (lang: CodeLanguage, opts: CodegenOptions) => {
+    setLanguage(lang);
+    setOptions(opts);
+    localStorage.setItem(PREFS_KEY, JSON.stringify({ language: lang, options: opts }));
+  };
+
+  const authInjection = previewAuth(auth, variables);
+  const resolved = withAuthParams(resolveRequest(request, variables), authInjection);
+  const url = buildRequestUrl(resolved);
+  const bodyText = bodyTextForSigning(resolved);
+  const profile = getSigningProfile(settings, request);
+  const variablesKey = JSON.stringify(variables);
+
+  useEffect(() => {
+    if (!profile) {
+        setSignedHeaders(null);
+        setSigningError(null);
+        return;
+    }
+    let cancelled = false;
+    signRequest(profile, { method: resolved.method, url, body: bodyText }, variables)
+        .then(signed => { if (!cancelled) { setSignedHeaders(signed.headers); setSigningError(null); } })
+        .catch(e => { if (!cancelled) { setSignedHeaders(null); setSigningError(e.message); } });
+    return () => { cancelled = true; };
+  }, [profile, resolved.method, url, bodyText, variablesKey, signVersion]);
+
+  const headers = buildRequestHeaders(resolved, settings, variables, signedHeaders, authInjection.headers);
+  const injectedNames = [...Object.keys(authInjection.headers), ...authInjection.params.map(([key]) => `${key} (query)`)];
+  const input = buildCodegenInput(resolved, url, headers);
+  const code = generateCode(language, input, options);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+            value={language}
+            onChange={(e) => savePrefs(e.target.value as CodeLanguage, options)}
+            className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:border-indigo-500 outline-none cursor-pointer"
+        >
+            {CODE_GENERATORS.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+        </select>
+
+        <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={options.multiline}
+                onChange={(e) => savePrefs(language, { ...options, multiline: e.target.checked })}
+                className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+            />
+            Multiline
+        </label>
+
+        <select
+            value={options.quote}
+            onChange={(e) => savePrefs(language, { ...options, quote: e.target.value as CodegenOptions['quote'] })}
+            className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:border-indigo-500 outline-none cursor-pointer"
+            title="Quoting Style"
+        >
+            <option value="single">Single quotes</option>
+            <option value="double">Double quotes</option>
+        </select>
+
+        <div className="ml-auto flex items-center gap-1">
+            {profile && (
+                <button
+                    onClick={() => setSignVersion(v => v + 1)}
+                    className="p-1.5 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors"
+                    title="Regenerate Signature"
+                >
+                    <RefreshCw size={14} />
+                </button>
+            )}
+            <button
+                onClick={handleCopy}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+            >
+                {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                {copied ? 'Copied' : 'Copy'}
+            </button>
+        </div>
+      </div>
+
+      {request.bodyType === 'file' || (request.bodyType === 'form-data' && request.bodyFormData.some(i => i.enabled && i.type === 'file')) ? (
+        <p className="text-[11px] text-zinc-500">File contents are referenced by file name; adjust the path before running the snippet.</p>
+      ) : null}
+
+      {profile && (
+        <p className={`text-[11px] ${signingError ? 'text-red-400' : 'text-indigo-400'}`}>
+            {signingError
+                ? `Signing profile "${profile.name}" failed: ${signingError}`
+                : <>Signed by {profile.name}: <span className="font-mono">{Object.keys(signedHeaders || {}).join(', ')}</span></>}
+        </p>
+      )}
+
+      {(injectedNames.length > 0 || authInjection.pending) && (
+        <p className="text-[11px] text-indigo-400">
+            Injected by {authLabel(auth.type)}{injectedNames.length > 0 && <>: <span className="font-mono">{injectedNames.join(', ')}</span></>}
+            {authInjection.pending && <span className="text-zinc-500"> · {authInjection.pending}</span>}
+        </p>
+      )}
+
+      <pre className="flex-1 text-xs font-mono text-zinc-300 whitespace-pre-wrap break-all leading-relaxed p-3 bg-zinc-950 border border-zinc-800 rounded overflow-auto select-text">
+        {code}
+      </pre>
+    </div>
+  );
+};
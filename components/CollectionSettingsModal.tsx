@@ -0,0 +1,130 @@
+import React from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { Collection, KeyValue } from '../types';
+import { buildVariableScope } from '../utils/variables';
+import { AuthEditor } from './AuthEditor';
+
+interface CollectionSettingsModalProps {
+  collection: Collection | null;
+  onClose: () => void;
+  onSave: (collection: Collection) => void;
+}
+
+const emptyRow = (): KeyValue => ({ id: Date.now().toString() + Math.random().toString(36).slice(2, 6), key: '', value: '', enabled: true });
+
+export const CollectionSettingsModal: React.FC<CollectionSettingsModalProps> = ({ collection, onClose, onSave }) => {
+  if (!collection) return null;
+
+  const variables = collection.variables?.length ? collection.variables : [emptyRow()];
+
+  const saveVariables = (list: KeyValue[]) => {
+    const lastItem = list[list.length - 1];
+    if (!lastItem || lastItem.key !== '' || lastItem.value !== '') list.push(emptyRow());
+    onSave({ ...collection, variables: list });
+  };
+
+  const updateVariable = (id: string, field: 'key' | 'value' | 'enabled', value: any) => {
+    saveVariables(variables.map(item => item.id === id ? { ...item, [field]: value } : item));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[720px] max-w-[90vw] flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100">Collection Settings</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6 overflow-y-auto">
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Name</label>
+                <input
+                    type="text"
+                    value={collection.name}
+                    onChange={(e) => onSave({ ...collection, name: e.target.value })}
+                    className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Description</label>
+                <textarea
+                    value={collection.description || ''}
+                    onChange={(e) => onSave({ ...collection, description: e.target.value })}
+                    className="h-20 bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none resize-none"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Variables</label>
+                <p className="text-xs text-zinc-500 leading-relaxed">
+                    Available to every request in this collection. The active environment overrides variables with the same name.
+                </p>
+                <div className="flex text-xs font-semibold text-zinc-500 px-2 mb-1">
+                    <div className="w-8 text-center">On</div>
+                    <div className="flex-1">Variable</div>
+                    <div className="flex-1">Value</div>
+                    <div className="w-8"></div>
+                </div>
+                {variables.map(item => (
+                  <div key={item.id} className="flex gap-2 group">
+                    <div className="w-8 flex items-center justify-center">
+                        <input
+                            type="checkbox"
+                            checked={item.enabled}
+                            onChange={(e) => updateVariable(item.id, 'enabled', e.target.checked)}
+                            className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                        />
+                    </div>
+                    <input
+                      type="text"
+                      placeholder="Variable"
+                      value={item.key}
+                      onChange={(e) => updateVariable(item.id, 'key', e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-300 font-mono focus:border-indigo-500/50 outline-none"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Value"
+                      value={item.value}
+                      onChange={(e) => updateVariable(item.id, 'value', e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-300 font-mono focus:border-indigo-500/50 outline-none"
+                    />
+                    <button
+                      onClick={() => saveVariables(variables.filter(v => v.id !== item.id))}
+                      className="w-8 flex items-center justify-center text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Authorization</label>
+                <p className="text-xs text-zinc-500 leading-relaxed">
+                    Used by every folder and request in this collection that is set to inherit auth.
+                </p>
+                <AuthEditor
+                    auth={collection.auth}
+                    onChange={(auth) => onSave({ ...collection, auth })}
+                    variables={buildVariableScope(collection.variables)}
+                    allowInherit={false}
+                />
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex justify-end">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors"
+            >
+                Done
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Folder, FolderOpen, FolderPlus, Library, Pencil, Trash2, Plus, Upload, SlidersHorizontal, Play } from 'lucide-react';
+import { Collection, CollectionItem, CollectionRequest } from '../types';
+import { generateId, renameNode, removeNode, addToContainer, moveNode, flattenRequests, findItem, findCollectionOf, updateItem, DropPosition } from '../utils/collections';
+import { getEffectiveAuth } from '../utils/auth';
+import { buildVariableScope } from '../utils/variables';
+import { RunnerSource } from '../utils/runner';
+import { exportPostmanCollection } from '../utils/postman';
+import { downloadFile, toSafeFilename } from '../utils/download';
+import { CollectionSettingsModal } from './CollectionSettingsModal';
+import { FolderSettingsModal } from './FolderSettingsModal';
+import { methodLabel } from '../utils/request';
+
+interface CollectionsTreeProps {
+  collections: Collection[];
+  activeRequestId: string | null;
+  onChange: (collections: Collection[]) => void;
+  onOpen: (item: CollectionRequest) => void;
+  onRun: (source: RunnerSource) => void;
+}
+
+const methodColors: Record<string, string> = {
+  GET: 'text-green-400',
+  POST: 'text-yellow-400',
+  PUT: 'text-blue-400',
+  DELETE: 'text-red-400',
+  PATCH: 'text-purple-400',
+  WS: 'text-cyan-400',
+};
+
+export const CollectionsTree: React.FC<CollectionsTreeProps> = ({ collections, activeRequestId, onChange, onOpen, onRun }) => {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+
+  const toggle = (id: string) => setCollapsed(prev => ({ ...prev, [id]: !prev[id] }));
+
+  const startRename = (id: string, name: string, e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onChange(renameNode(collections, editingId, editingName.trim()));
+    setEditingId(null);
+  };
+
+  const handleNewCollection = () => {
+    const col: Collection = { id: generateId(), name: 'New Collection', items: [] };
+    onChange([...collections, col]);
+    startRename(col.id, col.name);
+  };
+
+  const handleNewFolder = (containerId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const folder: CollectionItem = { type: 'folder', id: generateId(), name: 'New Folder', items: [] };
+    onChange(addToContainer(collections, containerId, folder));
+    setCollapsed(prev => ({ ...prev, [containerId]: false }));
+    startRename(folder.id, folder.name);
+  };
+
+  const handleDelete = (id: string, name: string, isContainer: boolean, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isContainer && !window.confirm(`Delete "${name}" and everything inside it?`)) return;
+    onChange(removeNode(collections, id));
+  };
+
+  const handleExport = (col: Collection, e: React.MouseEvent) => {
+    e.stopPropagation();
+    downloadFile(`${toSafeFilename(col.name)}.postman_collection.json`, JSON.stringify(exportPostmanCollection(col), null, 2));
+  };
+
+  const handleRun = (name: string, items: CollectionItem[], collectionId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRun({
+        name,
+        items: flattenRequests(items).map(r => ({ id: r.id, name: r.name, request: r.request, auth: getEffectiveAuth(r.request.auth, collections, r.id).auth })),
+        collectionId,
+    });
+  };
+
+  // --- Drag & Drop ---
+
+  const handleDragOver = (id: string, isContainer: boolean, e: React.DragEvent) => {
+    if (!dragId || dragId === id) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    let position: DropPosition;
+    if (isContainer) {
+        position = ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside';
+    } else {
+        position = ratio < 0.5 ? 'before' : 'after';
+    }
+    if (dropTarget?.id !== id || dropTarget.position !== position) setDropTarget({ id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragId && dropTarget) onChange(moveNode(collections, dragId, dropTarget.id, dropTarget.position));
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  const dropClass = (id: string) => {
+    if (dropTarget?.id !== id) return '';
+    if (dropTarget.position === 'before') return 'border-t-2 border-t-indigo-500';
+    if (dropTarget.position === 'after') return 'border-b-2 border-b-indigo-500';
+    return 'bg-indigo-500/10';
+  };
+
+  const dragProps = (id: string, isContainer: boolean) => ({
+    draggable: editingId !== id,
+    onDragStart: (e: React.DragEvent) => { e.stopPropagation(); e.dataTransfer.effectAllowed = 'move'; setDragId(id); },
+    onDragEnd: () => { setDragId(null); setDropTarget(null); },
+    onDragOver: (e: React.DragEvent) => handleDragOver(id, isContainer, e),
+    onDrop: handleDrop,
+  });
+
+  // --- Render ---
+
+  const renderName = (id: string, name: string, className: string) => editingId === id ? (
+    <input
+        autoFocus
+        value={editingName}
+        onChange={(e) => setEditingName(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        onBlur={commitRename}
+        onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setEditingId(null);
+        }}
+        className="flex-1 min-w-0 bg-zinc-950 border border-indigo-500/50 rounded px-1.5 py-0.5 text-sm text-zinc-200 outline-none"
+    />
+  ) : (
+    <span className={`truncate flex-1 ${className}`} title={name}>{name}</span>
+  );
+
+  const renderActions = (children: React.ReactNode) => (
+    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+        {children}
+    </div>
+  );
+
+  const settingsItem = settingsId ? findItem(collections, settingsId) : null;
+  const settingsFolder = settingsItem?.type === 'folder' ? settingsItem : null;
+
+  const actionClass = "p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-zinc-200 transition-colors";
+
+  const renderItems = (items: CollectionItem[], depth: number, collectionId: string): React.ReactNode => items.map(item => {
+    const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+    if (item.type === 'folder') {
+        const isCollapsed = collapsed[item.id];
+        return (
+            <div key={item.id}>
+                <div
+                    {...dragProps(item.id, true)}
+                    onClick={() => toggle(item.id)}
+                    style={indent}
+                    className={`flex items-center gap-1.5 pr-2 py-1.5 cursor-pointer hover:bg-zinc-800 group ${dropClass(item.id)}`}
+                >
+                    {isCollapsed ? <ChevronRight size={12} className="text-zinc-500 shrink-0" /> : <ChevronDown size={12} className="text-zinc-500 shrink-0" />}
+                    {isCollapsed ? <Folder size={14} className="text-zinc-500 shrink-0" /> : <FolderOpen size={14} className="text-zinc-500 shrink-0" />}
+                    {renderName(item.id, item.name, 'text-sm text-zinc-300')}
+                    {renderActions(<>
+                        <button onClick={(e) => handleRun(item.name, item.items, collectionId, e)} className={actionClass} title="Run Folder"><Play size={12} /></button>
+                        <button onClick={(e) => handleNewFolder(item.id, e)} className={actionClass} title="New Folder"><FolderPlus size={12} /></button>
+                        <button onClick={(e) => { e.stopPropagation(); setSettingsId(item.id); }} className={actionClass} title="Settings & Auth"><SlidersHorizontal size={12} /></button>
+                        <button onClick={(e) => startRename(item.id, item.name, e)} className={actionClass} title="Rename"><Pencil size={12} /></button>
+                        <button onClick={(e) => handleDelete(item.id, item.name, true, e)} className={`${actionClass} hover:!text-red-400`} title="Delete"><Trash2 size={12} /></button>
+                    </>)}
+                </div>
+                {!isCollapsed && renderItems(item.items, depth + 1, collectionId)}
+            </div>
+        );
+    }
+
+    return (
+        <div
+            key={item.id}
+            {...dragProps(item.id, false)}
+            onClick={() => onOpen(item)}
+            style={indent}
+            className={`flex items-center gap-2 pr-2 py-1.5 cursor-pointer group border-l-2 ${activeRequestId === item.id ? 'bg-zinc-800 border-indigo-500' : 'border-transparent hover:bg-zinc-800'} ${dropClass(item.id)}`}
+        >
+            <span className={`text-[10px] font-bold w-10 shrink-0 pl-4 ${methodColors[methodLabel(item.request)] || 'text-zinc-400'}`}>
+                {methodLabel(item.request)}
+            </span>
+            {renderName(item.id, item.name, 'text-sm text-zinc-300')}
+            {renderActions(<>
+                <button onClick={(e) => startRename(item.id, item.name, e)} className={actionClass} title="Rename"><Pencil size={12} /></button>
+                <button onClick={(e) => handleDelete(item.id, item.name, false, e)} className={`${actionClass} hover:!text-red-400`} title="Delete"><Trash2 size={12} /></button>
+            </>)}
+        </div>
+    );
+  });
+
+  return (
+    <div className="flex flex-col">
+      <CollectionSettingsModal
+        collection={collections.find(c => c.id === settingsId) || null}
+        onClose={() => setSettingsId(null)}
+        onSave={(updated) => onChange(collections.map(c => c.id === updated.id ? updated : c))}
+      />
+
+      <FolderSettingsModal
+        folder={settingsFolder}
+        variables={buildVariableScope(settingsId ? findCollectionOf(collections, settingsId)?.variables : undefined)}
+        inherited={settingsFolder ? getEffectiveAuth({ type: 'inherit' }, collections, settingsFolder.id) : null}
+        onClose={() => setSettingsId(null)}
+        onSave={(updated) => onChange(updateItem(collections, updated.id, () => updated))}
+      />
+
+      <div className="p-2">
+        <button
+            onClick={handleNewCollection}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+        >
+            <Plus size={14} />
+            New Collection
+        </button>
+      </div>
+
+      {collections.length === 0 ? (
+        <div className="p-8 text-center text-zinc-600 text-sm">
+            No collections yet. Save a request to keep it here.
+        </div>
+      ) : collections.map(col => {
+        const isCollapsed = collapsed[col.id];
+        return (
+            <div key={col.id}>
+                <div
+                    {...dragProps(col.id, true)}
+                    onClick={() => toggle(col.id)}
+                    className={`flex items-center gap-1.5 px-2 py-2 cursor-pointer hover:bg-zinc-800 group ${dropClass(col.id)}`}
+                >
+                    {isCollapsed ? <ChevronRight size={12} className="text-zinc-500 shrink-0" /> : <ChevronDown size={12} className="text-zinc-500 shrink-0" />}
+                    <Library size={14} className="text-indigo-400 shrink-0" />
+                    {renderName(col.id, col.name, 'text-sm font-medium text-zinc-200')}
+                    {renderActions(<>
+                        <button onClick={(e) => handleRun(col.name, col.items, col.id, e)} className={actionClass} title="Run Collection"><Play size={12} /></button>
+                        <button onClick={(e) => handleNewFolder(col.id, e)} className={actionClass} title="New Folder"><FolderPlus size={12} /></button>
+                        <button onClick={(e) => { e.stopPropagation(); setSettingsId(col.id); }} className={actionClass} title="Settings & Variables"><SlidersHorizontal size={12} /></button>
+                        <button onClick={(e) => handleExport(col, e)} className={actionClass} title="Export (Postman v2.1)"><Upload size={12} /></button>
+                        <button onClick={(e) => startRename(col.id, col.name, e)} className={actionClass} title="Rename"><Pencil size={12} /></button>
+                        <button onClick={(e) => handleDelete(col.id, col.name, true, e)} className={`${actionClass} hover:!text-red-400`} title="Delete"><Trash2 size={12} /></button>
+                    </>)}
+                </div>
+                {!isCollapsed && (
+                    col.items.length === 0
+                        ? <div className="pl-9 py-1.5 text-xs text-zinc-600 italic">Empty collection</div>
+                        : renderItems(col.items, 1, col.id)
+                )}
+            </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { X, Globe, Layers, Plus, Trash2, Copy, Check, Upload } from 'lucide-react';
+import { Environment, EnvironmentStore, KeyValue } from '../types';
+import { exportPostmanEnvironment } from '../utils/postman';
+import { downloadFile, toSafeFilename } from '../utils/download';
+
+interface EnvironmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: EnvironmentStore;
+  onSave: (store: EnvironmentStore) => void;
+}
+
+const GLOBALS_ID = '__globals__';
+
+const emptyRow = (): KeyValue => ({ id: Date.now().toString() + Math.random().toString(36).slice(2, 6), key: '', value: '', enabled: true });
+
+export const EnvironmentModal: React.FC<EnvironmentModalProps> = ({ isOpen, onClose, store, onSave }) => {
+  const [selectedId, setSelectedId] = useState<string>(GLOBALS_ID);
+
+  if (!isOpen) return null;
+
+  const selectedEnv = store.environments.find(e => e.id === selectedId);
+  const isGlobals = selectedId === GLOBALS_ID || !selectedEnv;
+  const variables = isGlobals ? store.globals : selectedEnv!.variables;
+
+  const saveVariables = (list: KeyValue[]) => {
+    // Keep an empty row at the end for adding new variables
+    const lastItem = list[list.length - 1];
+    if (!lastItem || lastItem.key !== '' || lastItem.value !== '') list.push(emptyRow());
+
+    if (isGlobals) {
+        onSave({ ...store, globals: list });
+    } else {
+        onSave({ ...store, environments: store.environments.map(e => e.id === selectedEnv!.id ? { ...e, variables: list } : e) });
+    }
+  };
+
+  const updateVariable = (id: string, field: 'key' | 'value' | 'enabled', value: any) => {
+    saveVariables(variables.map(item => item.id === id ? { ...item, [field]: value } : item));
+  };
+
+  const removeVariable = (id: string) => {
+    saveVariables(variables.filter(item => item.id !== id));
+  };
+
+  const handleExport = () => {
+    const content = isGlobals
+        ? exportPostmanEnvironment('Globals', store.globals, 'globals')
+        : exportPostmanEnvironment(selectedEnv!.name, selectedEnv!.variables, 'environment', selectedEnv!.id);
+    const filename = isGlobals ? 'globals.postman_globals.json' : `${toSafeFilename(selectedEnv!.name)}.postman_environment.json`;
+    downloadFile(filename, JSON.stringify(content, null, 2));
+  };
+
+  const addEnvironment = () => {
+    const env: Environment = { id: Date.now().toString(), name: `Environment ${store.environments.length + 1}`, variables: [emptyRow()] };
+    onSave({ ...store, environments: [...store.environments, env] });
+    setSelectedId(env.id);
+  };
+
+  const duplicateEnvironment = (env: Environment) => {
+    const copy: Environment = {
+        id: Date.now().toString(),
+        name: `${env.name} Copy`,
+        variables: env.variables.map(v => ({ ...v, id: v.id + '-copy' })),
+    };
+    onSave({ ...store, environments: [...store.environments, copy] });
+    setSelectedId(copy.id);
+  };
+
+  const renameEnvironment = (id: string, name: string) => {
+    onSave({ ...store, environments: store.environments.map(e => e.id === id ? { ...e, name } : e) });
+  };
+
+  const deleteEnvironment = (id: string) => {
+    onSave({
+        ...store,
+        environments: store.environments.filter(e => e.id !== id),
+        activeEnvironmentId: store.activeEnvironmentId === id ? null : store.activeEnvironmentId,
+    });
+    setSelectedId(GLOBALS_ID);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[800px] max-w-[90vw] flex flex-col h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100">Environments</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Environment List */}
+          <div className="w-56 border-r border-zinc-800 flex flex-col">
+            <div className="flex-1 overflow-y-auto py-2">
+                <button
+                    onClick={() => setSelectedId(GLOBALS_ID)}
+                    className={`w-full flex items-center gap-2 px-4 py-2 text-sm text-left transition-colors ${isGlobals ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200'}`}
+                >
+                    <Globe size={14} />
+                    <span>Globals</span>
+                </button>
+                <div className="mt-2 mb-1 px-4 text-[10px] font-bold uppercase tracking-wider text-zinc-600">Environments</div>
+                {store.environments.map(env => (
+                    <button
+                        key={env.id}
+                        onClick={() => setSelectedId(env.id)}
+                        className={`w-full flex items-center gap-2 px-4 py-2 text-sm text-left transition-colors ${selectedId === env.id ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200'}`}
+                    >
+                        <Layers size={14} className="shrink-0" />
+                        <span className="truncate flex-1">{env.name || 'Untitled'}</span>
+                        {store.activeEnvironmentId === env.id && <Check size={12} className="text-green-500 shrink-0" />}
+                    </button>
+                ))}
+            </div>
+            <button
+                onClick={addEnvironment}
+                className="m-2 flex items-center justify-center gap-2 px-3 py-2 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+            >
+                <Plus size={14} />
+                New Environment
+            </button>
+          </div>
+
+          {/* Variables Editor */}
+          <div className="flex-1 p-6 flex flex-col gap-4 overflow-y-auto">
+            {isGlobals ? (
+                <div className="flex items-start gap-2">
+                    <p className="flex-1 text-xs text-zinc-500 leading-relaxed">
+                      Global variables are available in every request. Variables of the active environment override globals with the same name.
+                      Reference them anywhere with <code className="text-indigo-400">{'{{name}}'}</code>.
+                    </p>
+                    <button
+                        onClick={handleExport}
+                        className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors"
+                        title="Export (Postman format)"
+                    >
+                        <Upload size={16} />
+                    </button>
+                </div>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={selectedEnv!.name}
+                        onChange={(e) => renameEnvironment(selectedEnv!.id, e.target.value)}
+                        className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                    />
+                    <button
+                        onClick={handleExport}
+                        className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors"
+                        title="Export (Postman format)"
+                    >
+                        <Upload size={16} />
+                    </button>
+                    <button
+                        onClick={() => duplicateEnvironment(selectedEnv!)}
+                        className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors"
+                        title="Duplicate Environment"
+                    >
+                        <Copy size={16} />
+                    </button>
+                    <button
+                        onClick={() => deleteEnvironment(selectedEnv!.id)}
+                        className="p-2 text-zinc-500 hover:text-red-400 hover:bg-zinc-800 rounded transition-colors"
+                        title="Delete Environment"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+                <div className="flex text-xs font-semibold text-zinc-500 px-2 mb-1">
+                    <div className="w-8 text-center">On</div>
+                    <div className="flex-1">Variable</div>
+                    <div className="flex-1">Value</div>
+                    <div className="w-8"></div>
+                </div>
+                {variables.map((item) => (
+                  <div key={item.id} className="flex gap-2 group">
+                    <div className="w-8 flex items-center justify-center">
+                        <input
+                            type="checkbox"
+                            checked={item.enabled}
+                            onChange={(e) => updateVariable(item.id, 'enabled', e.target.checked)}
+                            className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                        />
+                    </div>
+                    <input
+                      type="text"
+                      placeholder="Variable"
+                      value={item.key}
+                      onChange={(e) => updateVariable(item.id, 'key', e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-300 font-mono focus:border-indigo-500/50 outline-none"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Value"
+                      value={item.value}
+                      onChange={(e) => updateVariable(item.id, 'value', e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-300 font-mono focus:border-indigo-500/50 outline-none"
+                    />
+                    <button
+                      onClick={() => removeVariable(item.id)}
+                      className="w-8 flex items-center justify-center text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800 flex justify-end">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors"
+            >
+                Done
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { CollectionFolder } from '../types';
+import { VariableScope } from '../utils/variables';
+import { EffectiveAuth } from '../utils/auth';
+import { AuthEditor } from './AuthEditor';
+
+interface FolderSettingsModalProps {
+  folder: CollectionFolder | null;
+  variables: VariableScope; // Variables of the owning collection
+  inherited: EffectiveAuth | null; // What the folder gets when it inherits auth
+  onClose: () => void;
+  onSave: (folder: CollectionFolder) => void;
+}
+
+export const FolderSettingsModal: React.FC<FolderSettingsModalProps> = ({ folder, variables, inherited, onClose, onSave }) => {
+  if (!folder) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[720px] max-w-[90vw] flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100">Folder Settings</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6 overflow-y-auto">
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Name</label>
+                <input
+                    type="text"
+                    value={folder.name}
+                    onChange={(e) => onSave({ ...folder, name: e.target.value })}
+                    className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Description</label>
+                <textarea
+                    value={folder.description || ''}
+                    onChange={(e) => onSave({ ...folder, description: e.target.value })}
+                    className="h-20 bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none resize-none"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Authorization</label>
+                <p className="text-xs text-zinc-500 leading-relaxed">
+                    Used by the requests and subfolders in this folder that are set to inherit auth.
+                </p>
+                <AuthEditor
+                    auth={folder.auth || { type: 'inherit' }}
+                    onChange={(auth) => onSave({ ...folder, auth })}
+                    variables={variables}
+                    inherited={inherited}
+                />
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex justify-end">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors"
+            >
+                Done
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { ChevronLeft, Search, X } from 'lucide-react';
+import {
+  GraphQLSchema, GraphQLNamedType, GraphQLType, getNamedType, isObjectType, isInterfaceType, isInputObjectType,
+  isEnumType, isUnionType, isScalarType,
+} from 'graphql';
+import { rootTypes } from '../utils/graphql';
+
+interface GraphqlDocsProps {
+  schema: GraphQLSchema;
+  onClose: () => void;
+}
+
+const typeKind = (type: GraphQLNamedType) =>
+  isObjectType(type) ? 'type' : isInterfaceType(type) ? 'interface' : isInputObjectType(type) ? 'input'
+    : isEnumType(type) ? 'enum' : isUnionType(type) ? 'union' : 'scalar';
+
+export const GraphqlDocs: React.FC<GraphqlDocsProps> = ({ schema, onClose }) => {
+  const [stack, setStack] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const current = stack.length ? schema.getType(stack[stack.length - 1]) : null;
+
+  const open = (name: string) => {
+    setStack([...stack, name]);
+    setFilter('');
+  };
+
+  // Type references render as links to the named type, keeping list and non-null wrappers
+  const renderTypeRef = (type: GraphQLType) => {
+    const named = getNamedType(type);
+    const text = String(type);
+    const at = text.indexOf(named.name);
+    return (
+        <span className="text-zinc-500">
+            {text.slice(0, at)}
+            <button onClick={() => open(named.name)} className="text-amber-300 hover:underline">{named.name}</button>
+            {text.slice(at + named.name.length)}
+        </span>
+    );
+  };
+
+  const matches = (name: string, description?: string | null) => {
+    const q = filter.toLowerCase();
+    return !q || name.toLowerCase().includes(q) || !!description?.toLowerCase().includes(q);
+  };
+
+  const renderDescription = (description?: string | null) =>
+    description ? <div className="text-zinc-500 text-[11px] whitespace-pre-wrap mt-0.5">{description}</div> : null;
+
+  const renderRoot = () => {
+    const allTypes = (Object.values(schema.getTypeMap()) as GraphQLNamedType[])
+        .filter(t => !t.name.startsWith('__') && matches(t.name, t.description))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    return (
+        <>
+            <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">Root Types</div>
+            {rootTypes(schema).map(t => (
+                <button key={t.name} onClick={() => open(t.name)} className="text-left text-amber-300 hover:underline font-mono">{t.name}</button>
+            ))}
+            <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mt-3">All Types</div>
+            {allTypes.map(t => (
+                <button key={t.name} onClick={() => open(t.name)} className="flex items-baseline gap-2 text-left font-mono group">
+                    <span className="text-amber-300 group-hover:underline">{t.name}</span>
+                    <span className="text-[10px] text-zinc-600">{typeKind(t)}</span>
+                </button>
+            ))}
+        </>
+    );
+  };
+
+  const renderType = (type: GraphQLNamedType) => {
+    const fields = isObjectType(type) || isInterfaceType(type) || isInputObjectType(type) ? Object.values(type.getFields()) : [];
+    return (
+        <>
+            <div className="font-mono">
+                <span className="text-zinc-500 mr-1.5">{typeKind(type)}</span>
+                <span className="text-amber-300 font-bold">{type.name}</span>
+            </div>
+            {renderDescription(type.description)}
+
+            {(isObjectType(type) || isInterfaceType(type)) && type.getInterfaces().length > 0 && (
+                <div className="font-mono text-zinc-500">
+                    implements {type.getInterfaces().map((i, idx) => (
+                        <React.Fragment key={i.name}>{idx > 0 && ', '}<button onClick={() => open(i.name)} className="text-amber-300 hover:underline">{i.name}</button></React.Fragment>
+                    ))}
+                </div>
+            )}
+
+            {fields.length > 0 && <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mt-2">Fields</div>}
+            {fields.filter(f => matches(f.name, f.description)).map(f => (
+                <div key={f.name} className="font-mono">
+                    <span className={`text-indigo-300 ${'deprecationReason' in f && f.deprecationReason ? 'line-through' : ''}`}>{f.name}</span>
+                    {'args' in f && f.args.length > 0 && (
+                        <span className="text-zinc-500">
+                            (
+                            {f.args.map((a, idx) => (
+                                <React.Fragment key={a.name}>{idx > 0 && ', '}<span className="text-zinc-300">{a.name}</span>: {renderTypeRef(a.type)}</React.Fragment>
+                            ))}
+                            )
+                        </span>
+                    )}
+                    <span className="text-zinc-500">: </span>
+                    {renderTypeRef(f.type)}
+                    {renderDescription(f.description)}
+                    {'deprecationReason' in f && f.deprecationReason && <div className="text-amber-500/80 text-[11px]">Deprecated: {f.deprecationReason}</div>}
+                </div>
+            ))}
+
+            {isEnumType(type) && (
+                <>
+                    <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mt-2">Values</div>
+                    {type.getValues().filter(v => matches(v.name, v.description)).map(v => (
+                        <div key={v.name} className="font-mono">
+                            <span className={`text-indigo-300 ${v.deprecationReason ? 'line-through' : ''}`}>{v.name}</span>
+                            {renderDescription(v.description)}
+                        </div>
+                    ))}
+                </>
+            )}
+
+            {isUnionType(type) && (
+                <>
+                    <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mt-2">Possible Types</div>
+                    {type.getTypes().map(t => (
+                        <button key={t.name} onClick={() => open(t.name)} className="text-left text-amber-300 hover:underline font-mono">{t.name}</button>
+                    ))}
+                </>
+            )}
+
+            {isScalarType(type) && type.specifiedByURL && <div className="text-zinc-500">Specified by {type.specifiedByURL}</div>}
+        </>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full border-l border-zinc-800 bg-zinc-950/60 text-xs w-72 shrink-0">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800">
+            {stack.length > 0 && (
+                <button onClick={() => setStack(stack.slice(0, -1))} className="text-zinc-400 hover:text-zinc-200" title="Back">
+                    <ChevronLeft size={14} />
+                </button>
+            )}
+            <span className="font-semibold text-zinc-300 truncate">{stack.length ? stack[stack.length - 1] : 'Documentation'}</span>
+            <button onClick={onClose} className="ml-auto text-zinc-500 hover:text-zinc-200" title="Close Docs">
+                <X size={14} />
+            </button>
+        </div>
+        <div className="flex items-center gap-1.5 mx-3 mt-2 px-2 bg-zinc-950 border border-zinc-700 rounded focus-within:border-indigo-500">
+            <Search size={12} className="text-zinc-500" />
+            <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder={current ? 'Filter fields' : 'Search types'}
+                className="flex-1 bg-transparent py-1 text-zinc-200 outline-none"
+            />
+        </div>
+        <div className="flex-1 overflow-auto p-3 flex flex-col gap-1.5">
+            {current ? renderType(current) : stack.length ? <span className="text-zinc-500 italic">Type not found in schema.</span> : renderRoot()}
+        </div>
+    </div>
+  );
+};
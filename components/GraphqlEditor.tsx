@@ -0,0 +1,269 @@
+import React, { useState, useMemo, useRef, useDeferredValue } from 'react';
+import { BookOpen, RefreshCw, Upload, AlertCircle, AlertTriangle, Braces } from 'lucide-react';
+import { GraphqlBody } from '../types';
+import {
+  GraphqlSchemaEntry, GraphqlSuggestion, buildSchemaFromSdl, validateGraphql, listOperations, graphqlSuggestions,
+} from '../utils/graphql';
+import { GraphqlDocs } from './GraphqlDocs';
+
+interface GraphqlEditorProps {
+  body: GraphqlBody;
+  onChange: (body: GraphqlBody) => void;
+  schema: GraphqlSchemaEntry | null; // Stored schema of the request's endpoint
+  onFetchSchema: () => Promise<void>;
+  onLoadSdl: (sdl: string, fileName: string) => void;
+}
+
+const MAX_SUGGESTIONS = 50;
+
+interface Completion {
+  items: GraphqlSuggestion[];
+  index: number;
+  top: number;
+  left: number;
+}
+
+// Pixel position of the caret inside a textarea that does not wrap lines
+function caretCoordinates(el: HTMLTextAreaElement) {
+  const style = getComputedStyle(el);
+  const lines = el.value.slice(0, el.selectionStart).split('\n');
+  const context = document.createElement('canvas').getContext('2d')!;
+  context.font = `${style.fontSize} ${style.fontFamily}`;
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.5;
+  return {
+    top: parseFloat(style.paddingTop) + lines.length * lineHeight - el.scrollTop,
+    left: parseFloat(style.paddingLeft) + context.measureText(lines[lines.length - 1]).width - el.scrollLeft,
+  };
+}
+
+export const GraphqlEditor: React.FC<GraphqlEditorProps> = ({ body, onChange, schema, onFetchSchema, onLoadSdl }) => {
+  const [completion, setCompletion] = useState<Completion | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [showDocs, setShowDocs] = useState(false);
+  const queryRef = useRef<HTMLTextAreaElement>(null);
+  const sdlInputRef = useRef<HTMLInputElement>(null);
+
+  const built = useMemo(() => {
+    if (!schema) return null;
+    try {
+        return buildSchemaFromSdl(schema.sdl);
+    } catch (e) {
+        return null;
+    }
+  }, [schema?.sdl]);
+
+  const deferredBody = useDeferredValue(body);
+  const diagnostics = useMemo(() => validateGraphql(deferredBody, built), [deferredBody, built]);
+  const operations = useMemo(() => listOperations(body.query), [body.query]);
+
+  const update = (patch: Partial<GraphqlBody>) => onChange({ ...body, ...patch });
+
+  const suggest = (el: HTMLTextAreaElement) => {
+    if (!built) return setCompletion(null);
+    const items = graphqlSuggestions(built, el.value, el.selectionStart).slice(0, MAX_SUGGESTIONS);
+    setCompletion(items.length ? { items, index: 0, ...caretCoordinates(el) } : null);
+  };
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const el = e.target;
+    update({ query: el.value });
+    // Suggestions follow identifiers as they are typed
+    const typed = el.value[el.selectionStart - 1];
+    if (typed && /[\w{(@$]/.test(typed)) suggest(el);
+    else setCompletion(null);
+  };
+
+  const accept = (suggestion: GraphqlSuggestion) => {
+    const el = queryRef.current;
+    if (!el) return;
+    const caret = el.selectionStart;
+    const prefix = /[_A-Za-z0-9]*$/.exec(el.value.slice(0, caret))![0];
+    const start = caret - prefix.length;
+    const query = el.value.slice(0, start) + suggestion.label + el.value.slice(caret);
+    update({ query });
+    setCompletion(null);
+    const next = start + suggestion.label.length;
+    requestAnimationFrame(() => {
+        el.focus();
+        el.setSelectionRange(next, next);
+    });
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+        e.preventDefault();
+        suggest(e.currentTarget);
+        return;
+    }
+    if (!completion) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + delta + completion.items.length) % completion.items.length });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        accept(completion.items[completion.index]);
+    } else if (e.key === 'Escape') {
+        setCompletion(null);
+    }
+  };
+
+  const handleFetch = async () => {
+    setFetching(true);
+    setSchemaError(null);
+    try {
+        await onFetchSchema();
+    } catch (e: any) {
+        setSchemaError(`Introspection failed: ${e.message}`);
+    } finally {
+        setFetching(false);
+    }
+  };
+
+  const handleSdlFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const sdl = await file.text();
+    try {
+        buildSchemaFromSdl(sdl);
+        setSchemaError(null);
+        onLoadSdl(sdl, file.name);
+    } catch (err: any) {
+        setSchemaError(`${file.name} is not a valid schema: ${err.message}`);
+    }
+  };
+
+  const formatVariables = () => {
+    try {
+        update({ variables: JSON.stringify(JSON.parse(body.variables), null, 2) });
+    } catch (e) {
+        // Invalid JSON is reported below the editors
+    }
+  };
+
+  const selected = completion?.items[completion.index];
+
+  return (
+    <div className="flex h-full min-h-[320px] gap-3">
+        <div className="flex-1 min-w-0 flex flex-col gap-2">
+            {/* Schema and operation */}
+            <div className="flex items-center gap-3 text-xs">
+                <button
+                    onClick={handleFetch}
+                    disabled={fetching}
+                    className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+                    title="Fetch the schema from the endpoint by introspection"
+                >
+                    <RefreshCw size={12} className={fetching ? 'animate-spin' : ''} />
+                    {schema ? 'Refresh Schema' : 'Fetch Schema'}
+                </button>
+                <button
+                    onClick={() => sdlInputRef.current?.click()}
+                    className="flex items-center gap-1.5 text-zinc-400 hover:text-zinc-200"
+                    title="Load a schema from an SDL file"
+                >
+                    <Upload size={12} /> SDL
+                </button>
+                <input ref={sdlInputRef} type="file" accept=".graphql,.graphqls,.gql,.sdl,text/plain" onChange={handleSdlFile} className="hidden" />
+                <span className="text-zinc-500 truncate">
+                    {schema
+                        ? `${schema.source === 'sdl' ? schema.fileName || 'SDL file' : 'Introspected'} · ${new Date(schema.loadedAt).toLocaleString()}`
+                        : 'No schema: completion and validation need one'}
+                </span>
+                {built && (
+                    <button
+                        onClick={() => setShowDocs(!showDocs)}
+                        className={`ml-auto flex items-center gap-1.5 ${showDocs ? 'text-indigo-400' : 'text-zinc-400 hover:text-zinc-200'}`}
+                    >
+                        <BookOpen size={12} /> Docs
+                    </button>
+                )}
+            </div>
+            {schemaError && <div className="text-xs text-red-400 break-words">{schemaError}</div>}
+
+            {/* Query */}
+            <div className="relative flex-1 min-h-[160px] flex flex-col">
+                <textarea
+                    ref={queryRef}
+                    value={body.query}
+                    onChange={handleQueryChange}
+                    onKeyDown={handleQueryKeyDown}
+                    onBlur={() => setCompletion(null)}
+                    onScroll={() => setCompletion(null)}
+                    wrap="off"
+                    spellCheck={false}
+                    placeholder={'query GetUser($id: ID!) {\n  user(id: $id) {\n    name\n  }\n}'}
+                    className="flex-1 w-full bg-zinc-950 border border-zinc-800 rounded p-4 font-mono text-sm text-zinc-300 focus:border-indigo-500/50 outline-none resize-none leading-relaxed"
+                />
+                {completion && (
+                    <div
+                        className="absolute z-20 w-72 max-h-56 overflow-auto bg-zinc-900 border border-zinc-700 rounded shadow-xl text-xs font-mono"
+                        style={{ top: completion.top + 2, left: Math.max(0, completion.left) }}
+                    >
+                        {completion.items.map((item, idx) => (
+                            <div
+                                key={item.label + idx}
+                                onMouseDown={(e) => { e.preventDefault(); accept(item); }}
+                                className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${idx === completion.index ? 'bg-indigo-500/20 text-zinc-100' : 'text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <span className={`truncate ${item.deprecated ? 'line-through text-zinc-500' : ''}`}>{item.label}</span>
+                                {item.detail && <span className="ml-auto text-zinc-500 truncate">{item.detail}</span>}
+                            </div>
+                        ))}
+                        {selected?.documentation && (
+                            <div className="px-2 py-1.5 border-t border-zinc-800 text-zinc-500 font-sans whitespace-pre-wrap">{selected.documentation}</div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Variables */}
+            <div className="flex items-center gap-3 text-xs">
+                <span className="font-semibold text-zinc-500 uppercase tracking-wider">Variables</span>
+                <button onClick={formatVariables} className="flex items-center gap-1 text-zinc-400 hover:text-zinc-200">
+                    <Braces size={12} /> Format
+                </button>
+                {operations.length > 0 && (
+                    <label className="ml-auto flex items-center gap-2 text-zinc-400">
+                        Operation
+                        <select
+                            value={body.operationName || ''}
+                            onChange={(e) => update({ operationName: e.target.value || undefined })}
+                            className="bg-zinc-800 text-zinc-300 rounded px-2 py-1 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
+                        >
+                            <option value="">Select an operation</option>
+                            {operations.map(op => <option key={op} value={op}>{op}</option>)}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <textarea
+                value={body.variables}
+                onChange={(e) => update({ variables: e.target.value })}
+                spellCheck={false}
+                placeholder={'{\n  "id": "1"\n}'}
+                className="h-28 w-full bg-zinc-950 border border-zinc-800 rounded p-3 font-mono text-sm text-zinc-300 focus:border-indigo-500/50 outline-none resize-y"
+            />
+
+            {/* Diagnostics */}
+            {diagnostics.length > 0 && (
+                <div className="flex flex-col gap-0.5 text-xs max-h-28 overflow-auto">
+                    {diagnostics.map((d, idx) => (
+                        <div key={idx} className={`flex items-start gap-1.5 ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                            {d.severity === 'error' ? <AlertCircle size={12} className="shrink-0 mt-0.5" /> : <AlertTriangle size={12} className="shrink-0 mt-0.5" />}
+                            <span>
+                                {d.line !== undefined && <span className="text-zinc-500 font-mono mr-1.5">{d.line}:{d.column}</span>}
+                                {d.message}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {showDocs && built && <GraphqlDocs schema={built} onClose={() => setShowDocs(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { base64ToBytes, hexRows, HEX_PAGE_BYTES, HEX_ROW_BYTES } from '../utils/binary';
+
+interface HexViewProps {
+  base64: string;
+}
+
+export const HexView: React.FC<HexViewProps> = ({ base64 }) => {
+  const bytes = useMemo(() => base64ToBytes(base64), [base64]);
+  const [page, setPage] = useState(0);
+  const [jump, setJump] = useState('');
+  const pageCount = Math.max(1, Math.ceil(bytes.length / HEX_PAGE_BYTES));
+  const rows = useMemo(() => hexRows(bytes, page * HEX_PAGE_BYTES, HEX_PAGE_BYTES), [bytes, page]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [bytes]);
+
+  // Offsets are entered in hex, like the offset column
+  const handleJump = () => {
+    const offset = parseInt(jump.replace(/^0x/i, ''), 16);
+    if (!Number.isNaN(offset) && offset >= 0 && offset < bytes.length) setPage(Math.floor(offset / HEX_PAGE_BYTES));
+    setJump('');
+  };
+
+  const first = page * HEX_PAGE_BYTES;
+  const last = Math.min(bytes.length, first + HEX_PAGE_BYTES) - 1;
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-1.5 border-b border-zinc-800 text-xs text-zinc-400 shrink-0">
+            <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-0.5 hover:text-zinc-200 disabled:opacity-40" title="Previous Page">
+                <ChevronLeft size={14} />
+            </button>
+            <span className="font-mono">
+                {bytes.length ? `${first.toString(16).padStart(8, '0')}–${last.toString(16).padStart(8, '0')}` : 'Empty'}
+            </span>
+            <button onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className="p-0.5 hover:text-zinc-200 disabled:opacity-40" title="Next Page">
+                <ChevronRight size={14} />
+            </button>
+            <span className="text-zinc-500">Page {page + 1} of {pageCount} · {bytes.length.toLocaleString()} bytes</span>
+            {pageCount > 1 && (
+                <input
+                    type="text"
+                    value={jump}
+                    onChange={(e) => setJump(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleJump(); }}
+                    placeholder="Go to offset (hex)"
+                    className="ml-auto w-36 bg-zinc-950 border border-zinc-700 rounded px-2 py-0.5 font-mono text-zinc-200 outline-none focus:border-indigo-500"
+                />
+            )}
+        </div>
+        <div className="flex-1 overflow-auto p-4">
+            <table className="font-mono text-xs leading-relaxed">
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.offset}>
+                            <td className="pr-4 text-zinc-600 select-none">{row.offset}</td>
+                            <td className="pr-4 text-zinc-300 whitespace-pre">
+                                {Array.from({ length: HEX_ROW_BYTES }, (_, i) => row.hex[i] || '  ').map((h, i) => i === 8 ? ` ${h}` : h).join(' ')}
+                            </td>
+                            <td className="text-zinc-500 whitespace-pre">{row.ascii}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState, useMemo } from 'react';
+import { ShieldAlert } from 'lucide-react';
+
+interface HtmlPreviewProps {
+  html: string;
+  baseUrl: string; // Resolves relative links, images and styles of the page
+}
+
+// Relative URLs in the page resolve against the request, not this app
+function withBase(html: string, baseUrl: string): string {
+  if (!/^https?:\/\//i.test(baseUrl) || /<base[\s>]/i.test(html)) return html;
+  const base = `<base href="${baseUrl.replace(/"/g, '&quot;')}">`;
+  return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, m => m + base) : base + html;
+}
+
+/**
+ * Renders the page in a sandboxed frame. Without allow-same-origin the page can never reach this
+ * app's storage, even with scripts on.
+ */
+export const HtmlPreview: React.FC<HtmlPreviewProps> = ({ html, baseUrl }) => {
+  const [allowScripts, setAllowScripts] = useState(false);
+  const srcDoc = useMemo(() => withBase(html, baseUrl), [html, baseUrl]);
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-1.5 border-b border-zinc-800 text-xs shrink-0">
+            <label className="flex items-center gap-2 text-zinc-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={allowScripts}
+                    onChange={(e) => setAllowScripts(e.target.checked)}
+                    className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                />
+                Run scripts
+            </label>
+            {allowScripts && (
+                <span className="flex items-center gap-1.5 text-amber-400">
+                    <ShieldAlert size={12} /> The page's scripts run in an isolated frame
+                </span>
+            )}
+        </div>
+        {/* Changing the sandbox only applies on load, so the frame is recreated */}
+        <iframe
+            key={String(allowScripts)}
+            srcDoc={srcDoc}
+            sandbox={allowScripts ? 'allow-scripts' : ''}
+            title="HTML preview"
+            className="flex-1 w-full bg-white"
+        />
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { X, Terminal, Download, AlertTriangle, CheckCircle, FileJson, Upload } from 'lucide-react';
+import { RequestState, Collection, Environment, KeyValue, ImportReport } from '../types';
+import { parseCurl } from '../utils/curl';
+import { detectPostmanFile, importPostmanCollection, importPostmanEnvironment } from '../utils/postman';
+import { parseSpecText, detectOpenApi, importOpenApi } from '../utils/openapi';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImportRequest: (request: RequestState, warnings: string[]) => void;
+  onImportCollection: (collection: Collection) => void;
+  onImportEnvironments: (environments: Environment[]) => void;
+  onImportGlobals: (variables: KeyValue[]) => void;
+}
+
+type ImportSource = 'curl' | 'file';
+
+/**
+ * Parses a file (Postman collection, environment or globals, or an OpenAPI/Swagger document)
+ * and hands the result to the app. Returns the report describing what was imported and what was dropped.
+ */
+function importFileContent(text: string, props: ImportModalProps): ImportReport {
+  const json = parseSpecText(text);
+
+  if (detectOpenApi(json)) {
+    const { collection, environments, report } = importOpenApi(json);
+    props.onImportCollection(collection);
+    if (environments.length) props.onImportEnvironments(environments);
+    return report;
+  }
+
+  const kind = detectPostmanFile(json);
+  if (kind === 'collection') {
+    const { collection, report } = importPostmanCollection(json);
+    props.onImportCollection(collection);
+    return report;
+  }
+  if (kind === 'environment' || kind === 'globals') {
+    const { environment, report } = importPostmanEnvironment(json);
+    if (kind === 'globals') {
+        props.onImportGlobals(environment.variables);
+        return { ...report, summary: `Imported ${environment.variables.filter(v => v.key).length} global variable(s).` };
+    }
+    props.onImportEnvironments([environment]);
+    return report;
+  }
+  throw new Error('Unrecognized file. Expected a Postman v2.1 export or an OpenAPI 3.x / Swagger 2.0 document.');
+}
+
+export const ImportModal: React.FC<ImportModalProps> = (props) => {
+  const { isOpen, onClose, onImportRequest } = props;
+  const [source, setSource] = useState<ImportSource>('curl');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setText('');
+        setFileName(null);
+        setError(null);
+        setReport(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Parse cURL live so problems are visible before importing
+  let preview: { summary?: string; warnings: string[]; error?: string } | null = null;
+  if (source === 'curl' && text.trim()) {
+    try {
+        const result = parseCurl(text);
+        preview = {
+            summary: `${result.request.method} ${result.request.url}`,
+            warnings: result.warnings,
+        };
+    } catch (e: any) {
+        preview = { warnings: [], error: e.message };
+    }
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setError(null);
+    file.text().then(setText).catch(err => setError(err.message));
+  };
+
+  const handleImport = () => {
+    if (source === 'curl') {
+        try {
+            const result = parseCurl(text);
+            onImportRequest(result.request, result.warnings);
+            onClose();
+        } catch (e) {
+            // Error is already shown in the preview
+        }
+        return;
+    }
+
+    try {
+        setReport(importFileContent(text, props));
+        setError(null);
+    } catch (e: any) {
+        setError(e.message);
+    }
+  };
+
+  const canImport = source === 'curl' ? !!preview?.summary : !!text.trim();
+
+  const tabClass = (id: ImportSource) =>
+    `flex items-center gap-2 px-4 py-2 text-sm border-b-2 transition-colors ${source === id ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`;
+
+  const renderWarnings = (warnings: string[]) => warnings.length > 0 && (
+    <div className="flex flex-col gap-1 text-xs text-amber-400 bg-amber-500/10 p-2 rounded max-h-60 overflow-y-auto">
+        {warnings.map((w, idx) => (
+            <div key={idx} className="flex items-start gap-2">
+                <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                <span>{w}</span>
+            </div>
+        ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[700px] max-w-[90vw] flex flex-col max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100">Import</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Source Tabs */}
+        <div className="flex border-b border-zinc-800 px-2">
+            <button onClick={() => { setSource('curl'); setText(''); setReport(null); }} className={tabClass('curl')}>
+                <Terminal size={14} />
+                cURL
+            </button>
+            <button onClick={() => { setSource('file'); setText(''); setReport(null); }} className={tabClass('file')}>
+                <FileJson size={14} />
+                File
+            </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 flex flex-col gap-4 overflow-y-auto">
+          {report ? (
+            <>
+                <div className="flex items-center gap-2 text-sm text-green-400">
+                    <CheckCircle size={16} className="shrink-0" />
+                    <span>{report.summary}</span>
+                </div>
+                {report.warnings.length > 0 && (
+                    <div className="text-xs font-medium text-zinc-400">Not imported ({report.warnings.length}):</div>
+                )}
+                {renderWarnings(report.warnings)}
+            </>
+          ) : (
+            <>
+                {source === 'curl' ? (
+                    <p className="text-xs text-zinc-500 leading-relaxed">
+                        Paste a <code>curl</code> command, e.g. from browser devtools ("Copy as cURL") or API docs.
+                    </p>
+                ) : (
+                    <div className="flex items-center justify-between gap-4">
+                        <p className="text-xs text-zinc-500 leading-relaxed">
+                            Choose or paste a Postman v2.1 collection, environment or globals export, or an OpenAPI 3.x / Swagger 2.0 document (JSON or YAML).
+                        </p>
+                        <label className="flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors cursor-pointer shrink-0">
+                            <Upload size={14} />
+                            {fileName || 'Choose File'}
+                            <input type="file" accept=".json,.yaml,.yml,application/json" className="hidden" onChange={handleFileSelect} />
+                        </label>
+                    </div>
+                )}
+                <textarea
+                    autoFocus
+                    value={text}
+                    onChange={(e) => { setText(e.target.value); setError(null); }}
+                    placeholder={source === 'curl'
+                        ? "curl -X POST https://api.example.com/items \\\n  -H 'Content-Type: application/json' \\\n  -d '{\"name\": \"foo\"}'"
+                        : '{\n  "info": { "name": "My API", "schema": "https://schema.getpostman.com/json/collection/v2.1.0/collection.json" },\n  "item": []\n}'}
+                    className="h-48 w-full bg-zinc-950 border border-zinc-800 rounded p-3 font-mono text-xs text-zinc-300 focus:border-indigo-500/50 outline-none resize-none"
+                />
+
+                {(preview?.error || error) && (
+                    <div className="flex items-start gap-2 text-xs text-red-400 bg-red-500/10 p-2 rounded">
+                        <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                        <span>{preview?.error || error}</span>
+                    </div>
+                )}
+                {preview?.summary && (
+                    <div className="flex items-center gap-2 text-xs text-green-400 font-mono">
+                        <CheckCircle size={14} className="shrink-0" />
+                        <span className="truncate">{preview.summary}</span>
+                    </div>
+                )}
+                {preview && renderWarnings(preview.warnings)}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800 flex justify-end gap-2">
+            {report ? (
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors"
+                >
+                    Done
+                </button>
+            ) : (
+                <>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-zinc-400 hover:text-zinc-200 text-sm font-medium rounded transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={!canImport}
+                        className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded transition-colors ${canImport ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-zinc-700 text-zinc-500 cursor-not-allowed'}`}
+                    >
+                        <Download size={14} />
+                        Import
+                    </button>
+                </>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChevronRight, ChevronDown, Copy, Check } from 'lucide-react';
+import { JsonTreeRow, flattenJson, copyableValue } from '../utils/responseBody';
+
+interface JsonTreeViewProps {
+  data: any;
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+  matchIds: Set<string>;
+  currentMatchId: string | null;
+}
+
+const ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+const INDENT = 16;
+
+const valueColors: Record<string, string> = {
+  string: 'text-green-400',
+  number: 'text-amber-400',
+  boolean: 'text-purple-400',
+  null: 'text-zinc-500',
+};
+
+const typeBadge = (row: JsonTreeRow) =>
+  row.type === 'array' ? `array[${row.size}]` : row.type === 'object' ? `object{${row.size}}` : row.type;
+
+const renderPrimitive = (row: JsonTreeRow) =>
+  row.type === 'string' ? JSON.stringify(row.value) : String(row.value);
+
+/**
+ * Renders only the rows in view, so multi-megabyte bodies stay responsive.
+ */
+export const JsonTreeView: React.FC<JsonTreeViewProps> = ({ data, expanded, onToggle, matchIds, currentMatchId }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(600);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const rows = useMemo(() => flattenJson(data, expanded), [data, expanded]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Bring the current search match into view once its ancestors are expanded
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !currentMatchId) return;
+    const idx = rows.findIndex(r => r.id === currentMatchId);
+    if (idx === -1) return;
+    const top = idx * ROW_HEIGHT;
+    if (top < el.scrollTop || top + ROW_HEIGHT > el.scrollTop + el.clientHeight) {
+        el.scrollTop = Math.max(0, top - el.clientHeight / 2);
+    }
+  }, [currentMatchId, rows]);
+
+  const copy = (text: string, id: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(id);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const renderRow = (row: JsonTreeRow) => {
+    const comma = row.last ? '' : ',';
+    if (row.closing) {
+        return <span className="text-zinc-500">{row.type === 'array' ? ']' : '}'}{comma}</span>;
+    }
+    const container = row.type === 'array' || row.type === 'object';
+    const [open, close] = row.type === 'array' ? ['[', ']'] : ['{', '}'];
+    const isMatch = matchIds.has(row.id);
+    const isCurrent = row.id === currentMatchId;
+
+    return (
+        <>
+            <span className="w-4 shrink-0 flex items-center justify-center text-zinc-500">
+                {container && row.size > 0 && (row.expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+            </span>
+            <span className={`truncate ${isCurrent ? 'bg-amber-500/40 rounded' : isMatch ? 'bg-amber-500/15 rounded' : ''}`}>
+                {row.key !== null && (
+                    <>
+                        <span className={typeof row.key === 'number' ? 'text-zinc-500' : 'text-indigo-300'}>
+                            {typeof row.key === 'number' ? row.key : JSON.stringify(row.key)}
+                        </span>
+                        <span className="text-zinc-500">: </span>
+                    </>
+                )}
+                {container ? (
+                    row.expanded ? <span className="text-zinc-500">{open}</span>
+                        : <span className="text-zinc-500">{open}{row.size > 0 && <span className="text-zinc-600 px-1">…</span>}{close}{comma}</span>
+                ) : (
+                    <span className={valueColors[row.type]}>{renderPrimitive(row)}<span className="text-zinc-500">{comma}</span></span>
+                )}
+            </span>
+            <span className="ml-2 text-[10px] text-zinc-600 shrink-0">{typeBadge(row)}</span>
+            <span className="ml-auto pl-2 flex items-center gap-1 shrink-0 opacity-0 group-hover:opacity-100">
+                <button
+                    onClick={(e) => { e.stopPropagation(); copy(copyableValue(row.value), `value:${row.id}`); }}
+                    className="flex items-center gap-1 px-1.5 text-[10px] text-zinc-400 hover:text-zinc-100 bg-zinc-800 rounded"
+                    title="Copy Value"
+                >
+                    {copied === `value:${row.id}` ? <Check size={10} className="text-green-500" /> : <Copy size={10} />} Value
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); copy(row.id, `path:${row.id}`); }}
+                    className="flex items-center gap-1 px-1.5 text-[10px] text-zinc-400 hover:text-zinc-100 bg-zinc-800 rounded font-mono"
+                    title={`Copy JSONPath (${row.id})`}
+                >
+                    {copied === `path:${row.id}` ? <Check size={10} className="text-green-500" /> : <Copy size={10} />} Path
+                </button>
+            </span>
+        </>
+    );
+  };
+
+  return (
+    <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-auto font-mono text-xs"
+    >
+        <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+            <div style={{ transform: `translateY(${start * ROW_HEIGHT}px)` }}>
+                {rows.slice(start, end).map(row => (
+                    <div
+                        key={row.id}
+                        onClick={() => { if (!row.closing && row.size > 0) onToggle(row.id); }}
+                        className={`group flex items-center pr-3 whitespace-nowrap hover:bg-zinc-800/50 ${!row.closing && row.size > 0 ? 'cursor-pointer' : ''}`}
+                        style={{ height: ROW_HEIGHT, paddingLeft: 8 + row.depth * INDENT }}
+                    >
+                        {row.closing && <span className="w-4 shrink-0" />}
+                        {renderRow(row)}
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { MarkupKind, MarkupNode, MarkupRow, flattenMarkup, isVoidElement } from '../utils/markup';
+
+interface MarkupTreeViewProps {
+  nodes: MarkupNode[];
+  kind: MarkupKind;
+  collapsed: Set<string>;
+  onToggle: (id: string) => void;
+}
+
+const ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+const INDENT = 16;
+
+const renderAttributes = (node: MarkupNode) => node.attributes.map(([name, value]) => (
+    <React.Fragment key={name}>
+        {' '}<span className="text-amber-300">{name}</span>
+        <span className="text-zinc-500">="</span>
+        <span className="text-green-400">{value}</span>
+        <span className="text-zinc-500">"</span>
+    </React.Fragment>
+));
+
+/**
+ * Pretty-printed XML or HTML with collapsible elements; like the JSON tree, only rows in view render.
+ */
+export const MarkupTreeView: React.FC<MarkupTreeViewProps> = ({ nodes, kind, collapsed, onToggle }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(600);
+
+  const rows = useMemo(() => flattenMarkup(nodes, collapsed), [nodes, collapsed]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const tag = (name: string) => <span className="text-indigo-300">{name}</span>;
+  const closeTag = (name: string) => <span className="text-zinc-500">&lt;/{tag(name)}&gt;</span>;
+
+  const renderRow = (row: MarkupRow) => {
+    const { node } = row;
+    switch (node.type) {
+        case 'text':
+            return <span className="text-zinc-300">{row.line}</span>;
+        case 'comment':
+            return <span className="text-zinc-500 italic">&lt;!-- {row.line} --&gt;</span>;
+        case 'cdata':
+            return <span className="text-purple-400">&lt;![CDATA[<span className="text-zinc-300">{row.line}</span>]]&gt;</span>;
+        case 'doctype':
+            return <span className="text-purple-400">&lt;!DOCTYPE {node.name}{node.text}&gt;</span>;
+        case 'instruction':
+            return <span className="text-purple-400">&lt;?{node.name} {node.text}?&gt;</span>;
+    }
+    if (row.closing) return closeTag(node.name);
+
+    const open = <span className="text-zinc-500">&lt;{tag(node.name)}{renderAttributes(node)}</span>;
+    if (!node.children.length) {
+        if (isVoidElement(kind, node.name)) return <span className="text-zinc-500">{open}&gt;</span>;
+        return kind === 'xml' ? <span className="text-zinc-500">{open} /&gt;</span> : <span className="text-zinc-500">{open}&gt;{closeTag(node.name)}</span>;
+    }
+    if (row.inline) {
+        return <span className="text-zinc-500">{open}&gt;<span className="text-zinc-300">{node.children[0].text.trim()}</span>{closeTag(node.name)}</span>;
+    }
+    return (
+        <span className="text-zinc-500">
+            {open}&gt;
+            {!row.expanded && <><span className="text-zinc-600 px-1">…</span>{closeTag(node.name)}</>}
+        </span>
+    );
+  };
+
+  const toggleable = (row: MarkupRow) => !row.closing && !row.inline && row.node.type === 'element' && row.node.children.length > 0;
+
+  return (
+    <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-auto font-mono text-xs"
+    >
+        <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+            <div style={{ transform: `translateY(${start * ROW_HEIGHT}px)` }}>
+                {rows.slice(start, end).map(row => (
+                    <div
+                        key={row.id}
+                        onClick={() => { if (toggleable(row)) onToggle(row.id); }}
+                        className={`flex items-center pr-3 whitespace-nowrap hover:bg-zinc-800/50 ${toggleable(row) ? 'cursor-pointer' : ''}`}
+                        style={{ height: ROW_HEIGHT, paddingLeft: 8 + row.depth * INDENT }}
+                        title={row.line && row.line.length > 120 ? row.line : undefined}
+                    >
+                        <span className="w-4 shrink-0 flex items-center justify-center text-zinc-500">
+                            {toggleable(row) && (row.expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+                        </span>
+                        <span className="truncate">{renderRow(row)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
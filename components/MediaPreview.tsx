@@ -0,0 +1,33 @@
+import React, { useState, useEffect } from 'react';
+import { ResponseState } from '../types';
+import { PreviewKind, responseBlob } from '../utils/binary';
+
+interface MediaPreviewProps {
+  response: ResponseState;
+  kind: PreviewKind;
+}
+
+export const MediaPreview: React.FC<MediaPreviewProps> = ({ response, kind }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Object URLs hold the bytes in memory until revoked
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(responseBlob(response));
+    setUrl(objectUrl);
+    setFailed(false);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [response.bodyBase64, response.data, response.contentType]);
+
+  if (!url) return null;
+  if (failed) return <div className="p-4 text-zinc-500 italic text-sm">The browser cannot display this {kind}. Use the hex view or save it to a file.</div>;
+
+  return (
+    <div className="flex-1 overflow-auto p-4 flex items-start justify-center">
+        {kind === 'image' && <img src={url} alt="Response" onError={() => setFailed(true)} className="max-w-full h-auto rounded border border-zinc-700 bg-[repeating-conic-gradient(#27272a_0_25%,#18181b_0_50%)] bg-[length:16px_16px]" />}
+        {kind === 'audio' && <audio src={url} controls onError={() => setFailed(true)} className="w-full max-w-xl" />}
+        {kind === 'video' && <video src={url} controls onError={() => setFailed(true)} className="max-w-full max-h-full rounded border border-zinc-700" />}
+        {kind === 'pdf' && <iframe src={url} title="PDF preview" className="w-full h-full min-h-[400px] rounded border border-zinc-700 bg-white" />}
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Copy, ServerCog, AlertCircle, FileDigit } from 'lucide-react';
+import { KeyValue, MockConfig, MockHit, MockRule } from '../types';
+import { HTTP_METHODS } from '../constants';
+import { createMockRule, mockRow, mockWorkerUnsupported } from '../utils/mocks';
+import { generateId } from '../utils/collections';
+
+interface MocksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: MockConfig;
+  onChange: (config: MockConfig) => void;
+  hits: MockHit[];
+  onClearHits: () => void;
+  focusRuleId: string | null; // Rule to show when the modal opens, e.g. one just made from a response
+}
+
+// Keep an empty row at the end for adding new entries
+const withEmptyRow = (list: KeyValue[]) => {
+  const last = list[list.length - 1];
+  return !last || last.key !== '' || last.value !== '' ? [...list, mockRow()] : list;
+};
+
+const methodColors: Record<string, string> = {
+  GET: 'text-green-400',
+  POST: 'text-yellow-400',
+  PUT: 'text-blue-400',
+  DELETE: 'text-red-400',
+  PATCH: 'text-purple-400',
+};
+
+const TEMPLATE_HINT = '{{request.params.id}}, {{request.query.page}}, {{request.headers.authorization}}, {{request.body.user.name}}, {{request.method}}, {{request.path}}, {{$randomUUID}}, {{$timestamp}}, {{$isoTimestamp}}, {{$randomInt}}';
+
+export const MocksModal: React.FC<MocksModalProps> = ({ isOpen, onClose, config, onChange, hits, onClearHits, focusRuleId }) => {
+  const [view, setView] = useState<'rules' | 'log'>('rules');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (focusRuleId) {
+        setSelectedId(focusRuleId);
+        setView('rules');
+    } else if (!selectedId) {
+        setSelectedId(config.rules[0]?.id || null);
+    }
+  }, [isOpen, focusRuleId]);
+
+  if (!isOpen) return null;
+
+  const unsupported = mockWorkerUnsupported();
+  const rule = config.rules.find(r => r.id === selectedId) || null;
+
+  const saveRules = (rules: MockRule[]) => onChange({ ...config, rules });
+  const updateRule = (id: string, changes: Partial<MockRule>) => saveRules(config.rules.map(r => r.id === id ? { ...r, ...changes } : r));
+
+  const addRule = () => {
+    const next = createMockRule();
+    saveRules([...config.rules, next]);
+    setSelectedId(next.id);
+  };
+
+  const duplicateRule = (source: MockRule) => {
+    const copy: MockRule = {
+        ...source,
+        id: generateId(),
+        name: `${source.name} Copy`,
+        headerMatchers: source.headerMatchers.map(h => ({ ...h, id: generateId() })),
+        headers: source.headers.map(h => ({ ...h, id: generateId() })),
+    };
+    saveRules([...config.rules, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteRule = (id: string) => {
+    const rules = config.rules.filter(r => r.id !== id);
+    saveRules(rules);
+    setSelectedId(rules[0]?.id || null);
+  };
+
+  const inputClass = "bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none";
+
+  const rowsEditor = (rows: KeyValue[], onRows: (rows: KeyValue[]) => void, keyPlaceholder: string, valuePlaceholder: string) => {
+    const list = withEmptyRow(rows);
+    const update = (id: string, field: 'key' | 'value' | 'enabled', value: any) => onRows(withEmptyRow(list.map(item => item.id === id ? { ...item, [field]: value } : item)));
+    return (
+        <div className="flex flex-col gap-2">
+            {list.map(item => (
+                <div key={item.id} className="flex gap-2 group">
+                    <div className="w-8 flex items-center justify-center">
+                        <input
+                            type="checkbox"
+                            checked={item.enabled}
+                            onChange={(e) => update(item.id, 'enabled', e.target.checked)}
+                            className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                        />
+                    </div>
+                    <input type="text" placeholder={keyPlaceholder} value={item.key} onChange={(e) => update(item.id, 'key', e.target.value)} className={`flex-1 font-mono ${inputClass}`} />
+                    <input type="text" placeholder={valuePlaceholder} value={item.value} onChange={(e) => update(item.id, 'value', e.target.value)} className={`flex-1 font-mono ${inputClass}`} />
+                    <button
+                        onClick={() => onRows(withEmptyRow(list.filter(r => r.id !== item.id)))}
+                        className="w-8 flex items-center justify-center text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+  };
+
+  const sectionLabel = "text-[10px] font-bold uppercase tracking-wider text-zinc-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[1000px] max-w-[95vw] flex flex-col h-[85vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <div className="flex items-center gap-6">
+            <h2 className="text-lg font-semibold text-zinc-100">Mocks</h2>
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={config.enabled}
+                    disabled={!!unsupported}
+                    onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+                    className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                />
+                Answer matching requests
+            </label>
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer" title="Other pages of this origin are answered too, once the worker controls them">
+                <input
+                    type="checkbox"
+                    checked={config.allowOtherTabs}
+                    disabled={!!unsupported}
+                    onChange={(e) => onChange({ ...config, allowOtherTabs: e.target.checked })}
+                    className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                />
+                Include other tabs on this origin
+            </label>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {unsupported && (
+            <div className="px-4 py-2 border-b border-zinc-800 bg-amber-500/5 text-xs text-amber-400 flex items-center gap-2">
+                <AlertCircle size={12} />
+                {unsupported}, so mocks cannot answer requests here.
+            </div>
+        )}
+
+        <div className="flex border-b border-zinc-800 px-2">
+            {(['rules', 'log'] as const).map(v => (
+                <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`px-4 py-2 text-sm border-b-2 transition-colors ${view === v ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    {v === 'rules' ? `Rules (${config.rules.length})` : `Log (${hits.length})`}
+                </button>
+            ))}
+        </div>
+
+        {view === 'log' ? (
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800 text-xs text-zinc-500">
+                    <span>Requests answered by a mock, newest first</span>
+                    <button onClick={onClearHits} disabled={!hits.length} className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none">
+                        <Trash2 size={12} />
+                        Clear
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto">
+                    {hits.length === 0 && <div className="p-8 text-center text-zinc-600 text-sm">No request has been answered by a mock yet.</div>}
+                    {hits.map(hit => (
+                        <div key={hit.id} className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800/50 text-xs">
+                            <span className="w-20 shrink-0 text-zinc-500">{new Date(hit.timestamp).toLocaleTimeString()}</span>
+                            <span className={`w-14 shrink-0 text-[10px] font-bold ${methodColors[hit.method] || 'text-zinc-400'}`}>{hit.method}</span>
+                            <span className="flex-1 font-mono text-zinc-300 truncate" title={hit.url}>{hit.url}</span>
+                            <button onClick={() => { setSelectedId(hit.ruleId); setView('rules'); }} className="max-w-[180px] truncate text-indigo-400 hover:underline" title="Show Rule">{hit.ruleName}</button>
+                            <span className={`w-10 shrink-0 text-right font-mono ${hit.status < 400 ? 'text-green-400' : 'text-red-400'}`}>{hit.status}</span>
+                            {hit.external && <span className="text-[10px] text-amber-400 shrink-0" title="Sent by another page of this origin">other tab</span>}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ) : (
+        <div className="flex flex-1 overflow-hidden">
+          {/* Rule List */}
+          <div className="w-64 border-r border-zinc-800 flex flex-col">
+            <div className="flex-1 overflow-y-auto py-2">
+                {config.rules.length === 0 && <div className="px-4 py-2 text-xs text-zinc-600">No mocks yet.</div>}
+                {config.rules.map(r => (
+                    <div
+                        key={r.id}
+                        onClick={() => setSelectedId(r.id)}
+                        className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer transition-colors ${selectedId === r.id ? 'bg-zinc-800 text-indigo-400' : 'text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200'}`}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={r.enabled}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => updateRule(r.id, { enabled: e.target.checked })}
+                            className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                        />
+                        <span className={`text-[10px] font-bold w-9 shrink-0 ${methodColors[r.method] || 'text-zinc-400'}`}>{r.method}</span>
+                        <span className={`truncate flex-1 ${r.enabled ? '' : 'opacity-50'}`} title={r.urlPattern}>{r.name || 'Untitled'}</span>
+                    </div>
+                ))}
+            </div>
+            <button
+                onClick={addRule}
+                className="m-2 flex items-center justify-center gap-2 px-3 py-2 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+            >
+                <Plus size={14} />
+                New Mock
+            </button>
+          </div>
+
+          {/* Rule Editor */}
+          {rule ? (
+            <div className="flex-1 p-6 flex flex-col gap-5 overflow-y-auto">
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={rule.name}
+                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                        className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                    />
+                    <button onClick={() => duplicateRule(rule)} className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors" title="Duplicate Mock">
+                        <Copy size={16} />
+                    </button>
+                    <button onClick={() => deleteRule(rule.id)} className="p-2 text-zinc-500 hover:text-red-400 hover:bg-zinc-800 rounded transition-colors" title="Delete Mock">
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <div className={sectionLabel}>Match</div>
+                    <div className="flex gap-2">
+                        <select
+                            value={rule.method}
+                            onChange={(e) => updateRule(rule.id, { method: e.target.value as MockRule['method'] })}
+                            className="bg-zinc-800 text-zinc-100 font-bold text-sm rounded px-3 py-1.5 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
+                        >
+                            <option value="ANY">ANY</option>
+                            {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                        <input
+                            type="text"
+                            value={rule.urlPattern}
+                            onChange={(e) => updateRule(rule.id, { urlPattern: e.target.value })}
+                            placeholder="https://api.example.com/users/:id or /users/*"
+                            className={`flex-1 font-mono ${inputClass}`}
+                        />
+                    </div>
+                    <span className="text-[11px] text-zinc-600">
+                        A path matches on any host. <code className="text-indigo-400">:name</code> matches one path segment, <code className="text-indigo-400">*</code> the rest of the path. The query string is not compared.
+                    </span>
+                    <div className="text-xs font-medium text-zinc-400 mt-2">Request headers must contain</div>
+                    {rowsEditor(rule.headerMatchers, headerMatchers => updateRule(rule.id, { headerMatchers }), 'Header', 'Value (empty: any)')}
+                    <div className="text-xs font-medium text-zinc-400 mt-2">Request body must contain</div>
+                    <input
+                        type="text"
+                        value={rule.bodyMatcher}
+                        onChange={(e) => updateRule(rule.id, { bodyMatcher: e.target.value })}
+                        placeholder="Any body"
+                        className={`font-mono ${inputClass}`}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <div className={sectionLabel}>Response</div>
+                    <div className="flex gap-4">
+                        <div className="flex flex-col gap-1">
+                            <label className="text-xs font-medium text-zinc-400">Status</label>
+                            <input type="number" min={200} max={599} value={rule.status} onChange={(e) => updateRule(rule.id, { status: Math.min(599, Math.max(200, parseInt(e.target.value) || 200)) })} className={`w-28 ${inputClass}`} />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label className="text-xs font-medium text-zinc-400">Delay (ms)</label>
+                            <input type="number" min={0} step={100} value={rule.delayMs} onChange={(e) => updateRule(rule.id, { delayMs: Math.max(0, parseInt(e.target.value) || 0) })} className={`w-28 ${inputClass}`} />
+                        </div>
+                    </div>
+                    <div className="text-xs font-medium text-zinc-400 mt-2">Headers</div>
+                    {rowsEditor(rule.headers, headers => updateRule(rule.id, { headers }), 'Header', 'Value')}
+                    <div className="text-xs font-medium text-zinc-400 mt-2">Body</div>
+                    {rule.bodyBase64 ? (
+                        <div className="flex items-center gap-3 px-3 py-2 bg-zinc-950 border border-zinc-700 rounded text-xs text-zinc-400">
+                            <FileDigit size={14} />
+                            <span className="flex-1">Binary body copied from a response ({Math.floor(rule.bodyBase64.length * 3 / 4)} bytes)</span>
+                            <button onClick={() => updateRule(rule.id, { bodyBase64: undefined })} className="px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors">
+                                Use Text Instead
+                            </button>
+                        </div>
+                    ) : (<>
+                        <textarea
+                            value={rule.body}
+                            onChange={(e) => updateRule(rule.id, { body: e.target.value })}
+                            spellCheck={false}
+                            className="h-56 bg-zinc-950 border border-zinc-700 rounded p-3 font-mono text-sm text-zinc-300 focus:border-indigo-500/50 outline-none resize-y"
+                        />
+                        <span className="text-[11px] text-zinc-600 leading-relaxed">Headers and body can use values of the request: {TEMPLATE_HINT}</span>
+                    </>)}
+                </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center gap-3 text-zinc-600 text-sm">
+                <ServerCog size={32} />
+                <span>Create a mock, or turn a response into one with the Mock button next to it.</span>
+            </div>
+          )}
+        </div>
+        )}
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800 flex justify-end">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded transition-colors"
+            >
+                Done
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
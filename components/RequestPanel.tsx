@@ -1,7 +1,23 @@
-import React, { useState } from 'react';
-import { Play, Trash2, Lock, Upload, AlertCircle, Braces, Waves, Square, Key, FileText } from 'lucide-react';
-import { RequestState, HttpMethod, KeyValue, FormDataItem, AppSettings } from '../types';
+import React, { useRef } from 'react';
+import { Play, Trash2, Lock, Upload, AlertCircle, Braces, Waves, Square, Key, FileText, Save, ChevronRight, X, RotateCw, Plug, Unplug, Gauge } from 'lucide-react';
+import { RequestState, HttpMethod, KeyValue, FormDataItem, AppSettings, WsConnectionState, WsMessage } from '../types';
 import { HTTP_METHODS } from '../constants';
+import { CodePanel } from './CodePanel';
+import { ScriptEditor } from './ScriptEditor';
+import { AuthEditor } from './AuthEditor';
+import { WebSocketComposer } from './WebSocketComposer';
+import { GraphqlEditor } from './GraphqlEditor';
+import { RequestPolicyEditor } from './RequestPolicyEditor';
+import { parseCurl, isCurlCommand } from '../utils/curl';
+import { hasScript } from '../utils/scripts';
+import { buildRequestUrl } from '../utils/request';
+import { DEFAULT_WEBSOCKET_CONFIG, isWebSocketRequest } from '../utils/websocket';
+import { DEFAULT_GRAPHQL_BODY, GraphqlSchemaEntry, graphqlBodyText } from '../utils/graphql';
+import { attachFile, isFileStorable, missingFiles, MAX_STORED_FILE_MB } from '../utils/files';
+import { EffectiveAuth, authLabel, previewAuth, withAuthParams } from '../utils/auth';
+import { getSigningProfile, previewSigningHeaders, NONE_PROFILE_ID } from '../utils/signing';
+import { RequestPanelTab } from '../utils/workspace';
+import { VariableScope, resolveRequest, resolveVariables, collectUnresolvedVariables, findUnresolvedVariables, tokenizeVariables } from '../utils/variables';
 
 interface RequestPanelProps {
   request: RequestState;
@@ -11,50 +27,59 @@ interface RequestPanelProps {
   loading: boolean;
   settings: AppSettings;
   injectedHeaders: Record<string, string> | null;
+  variables: VariableScope;
+  effectiveAuth: EffectiveAuth; // Auth actually applied, with 'inherit' followed up the collection tree
+  savedName: string | null; // Name of the saved request being edited, null for unsaved requests
+  savedPath: string[] | null;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onRename: (name: string) => void;
+  onImport: (request: RequestState, warnings: string[]) => void;
+  importWarnings: string[]; // Flags that a cURL import could not map
+  onDismissImportWarnings: () => void;
+  activeTab: RequestPanelTab;
+  onActiveTabChange: (tab: RequestPanelTab) => void;
+  dirty: boolean; // Saved request with unsaved edits
+  wsState: WsConnectionState | null; // Connection of a WebSocket request, null before connecting
+  onDisconnect: () => void;
+  onSendMessage: (message: WsMessage) => string | null;
+  graphqlSchema: GraphqlSchemaEntry | null; // Stored schema of the GraphQL endpoint
+  onFetchGraphqlSchema: () => Promise<void>;
+  onLoadGraphqlSdl: (sdl: string, fileName: string) => void;
+  onBenchmark: () => void;
 }
 
-export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, onSend, onStop, loading, settings, injectedHeaders }) => {
-  const [activeTab, setActiveTab] = useState<'params' | 'headers' | 'body' | 'raw'>('params');
+const HTTP_TABS: RequestPanelTab[] = ['params', 'auth', 'headers', 'body', 'scripts', 'settings', 'raw', 'code'];
+// Browsers cannot set headers on a WebSocket handshake, so only the URL and messages are editable
+const WEBSOCKET_TABS: RequestPanelTab[] = ['params', 'message'];
+const WEBSOCKET_METHOD = 'WS';
+
+export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, onSend, onStop, loading, settings, injectedHeaders, variables, effectiveAuth, savedName, savedPath, onSave, onSaveAs, onRename, onImport, importWarnings, onDismissImportWarnings, activeTab: selectedTab, onActiveTabChange: setActiveTab, dirty, wsState, onDisconnect, onSendMessage, graphqlSchema, onFetchGraphqlSchema, onLoadGraphqlSdl, onBenchmark }) => {
+  const urlHighlightRef = useRef<HTMLDivElement>(null);
+  const isWebSocket = isWebSocketRequest(request);
+  const wsConnected = wsState === 'open';
+  const panelTabs = isWebSocket ? WEBSOCKET_TABS : HTTP_TABS;
+  const activeTab = panelTabs.includes(selectedTab) ? selectedTab : panelTabs[0];
   const globalHeaders = settings.globalHeaders;
-
-  // Cloud Docs Headers (Computed for display)
-  const getCloudDocsHeaders = () => {
-    if (!settings.cloudDocsMode || !settings.cloudDocsAppId) return [];
-    
-    // If we have actual values injected during a request, use them
-    if (injectedHeaders) {
-        return [
-            { key: 'x-appid', value: injectedHeaders['x-appid'] },
-            { key: 'x-request-ts', value: injectedHeaders['x-request-ts'] },
-            { key: 'x-nonce', value: injectedHeaders['x-nonce'] },
-            { key: 'x-auth-type', value: injectedHeaders['x-auth-type'] },
-            { key: 'x-auth-value', value: injectedHeaders['x-auth-value'] },
-            { key: 'x-sign', value: injectedHeaders['x-sign'] },
-        ];
+  const unresolvedVariables = collectUnresolvedVariables(request, variables);
+
+  // Tailwind classes for inputs that reference variables missing from the active scope
+  const unresolvedClass = (text: string) =>
+    findUnresolvedVariables(text, variables).length > 0 ? ' !border-amber-500/60 text-amber-300' : '';
+
+  // Signed headers (computed for display): the values from the last send, or placeholders before that
+  const signingProfile = getSigningProfile(settings, request);
+  const getSignedHeaders = () => {
+    if (!signingProfile) return [];
+    const preview = previewSigningHeaders(signingProfile, variables);
+    if (injectedHeaders && preview.every(h => h.key in injectedHeaders)) {
+        return preview.map(h => ({ key: h.key, value: injectedHeaders[h.key] }));
     }
-
-    // Simple cookie getter for display placeholder
-    const getCookieDisplay = (name: string) => {
-        try {
-            const value = `; ${document.cookie}`;
-            const parts = value.split(`; ${name}=`);
-            if (parts.length === 2) return parts.pop()?.split(';').shift() || '';
-        } catch { return ''; }
-        return '';
-    };
-
-    // Default placeholders if no request sent yet
-    return [
-        { key: 'x-appid', value: settings.cloudDocsAppId },
-        { key: 'x-request-ts', value: '(Current Timestamp)' },
-        { key: 'x-nonce', value: '(Auto-generated)' },
-        { key: 'x-auth-type', value: '2' },
-        { key: 'x-auth-value', value: getCookieDisplay('CAS_SSO_COOKIE') || '(Missing Cookie)' },
-        { key: 'x-sign', value: '(HMAC-SHA256 Signature)' },
-    ];
+    return preview;
   };
 
-  const cloudDocsHeaders = getCloudDocsHeaders();
+  const signedHeaders = getSignedHeaders();
+  const missing = missingFiles(request);
 
   // Helper to check if method allows body
   const methodHasBody = !['GET', 'HEAD'].includes(request.method);
@@ -63,8 +88,25 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
     onChange({ ...request, [field]: value });
   };
 
-  const handleMethodChange = (method: HttpMethod) => {
-      updateField('method', method);
+  const handleMethodChange = (method: string) => {
+      if (method === WEBSOCKET_METHOD) {
+          onChange({ ...request, kind: 'websocket', websocket: request.websocket || DEFAULT_WEBSOCKET_CONFIG });
+      } else {
+          onChange({ ...request, kind: undefined, method: method as HttpMethod });
+      }
+  };
+
+  // Pasting a curl command into the URL bar replaces the whole request
+  const handleUrlPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!isCurlCommand(text)) return;
+    try {
+        const result = parseCurl(text);
+        e.preventDefault();
+        onImport(result.request, result.warnings);
+    } catch (err) {
+        // Not parseable as curl; fall back to a plain paste
+    }
   };
 
   const handleBodyTypeChange = (type: RequestState['bodyType']) => {
@@ -73,7 +115,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
     // Remove existing Content-Type header to avoid conflicts
     newHeaders = newHeaders.filter(h => h.key.toLowerCase() !== 'content-type');
 
-    if (type === 'json') {
+    if (type === 'json' || type === 'graphql') {
         newHeaders.unshift({ id: Date.now().toString(), key: 'Content-Type', value: 'application/json', enabled: true });
     } else if (type === 'text') {
         newHeaders.unshift({ id: Date.now().toString(), key: 'Content-Type', value: 'text/plain', enabled: true });
@@ -87,15 +129,24 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
         newHeaders.push({ id: Date.now().toString() + 'empty', key: '', value: '', enabled: true });
     }
 
+    if (type === 'graphql') {
+        // GraphQL is posted; GET requests would drop the body
+        onChange({
+            ...request,
+            bodyType: type,
+            headers: newHeaders,
+            method: request.method === 'GET' || request.method === 'HEAD' ? 'POST' : request.method,
+            graphql: request.graphql || DEFAULT_GRAPHQL_BODY,
+        });
+        return;
+    }
+
     onChange({ ...request, bodyType: type, headers: newHeaders });
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-        updateField('file', e.target.files[0]);
-    } else {
-        updateField('file', null);
-    }
+    const file = e.target.files?.[0] || null;
+    onChange({ ...request, file, fileRef: file ? attachFile(file) : undefined });
   };
 
   const formatJSON = () => {
@@ -133,8 +184,12 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
 
   // --- Form Data (Multipart) Editor ---
 
-  const updateFormData = (id: string, field: keyof FormDataItem, value: any) => {
-      const list = request.bodyFormData.map(item => item.id === id ? { ...item, [field]: value } : item);
+  const updateFormData = (id: string, field: keyof FormDataItem, value: any) => patchFormData(id, { [field]: value });
+
+  const updateFormDataFile = (id: string, file: File | undefined) => patchFormData(id, { file, fileRef: file ? attachFile(file) : undefined });
+
+  const patchFormData = (id: string, patch: Partial<FormDataItem>) => {
+      const list = request.bodyFormData.map(item => item.id === id ? { ...item, ...patch } : item);
       const lastItem = list[list.length - 1];
       if (lastItem.key !== '' || (lastItem.type === 'text' && lastItem.value !== '') || (lastItem.type === 'file' && lastItem.file)) {
           list.push({ id: Date.now().toString(), key: '', value: '', type: 'text', enabled: true });
@@ -151,45 +206,64 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
   // --- Render Helpers ---
 
   const renderRaw = () => {
-    const manualHeaders = request.headers.filter(h => h.enabled && h.key);
+    // Show the request exactly as it will be sent, with variables substituted
+    const auth = previewAuth(effectiveAuth.auth, variables);
+    const authSource = `${authLabel(effectiveAuth.auth.type)}${effectiveAuth.source ? ` from ${effectiveAuth.source}` : ''}`;
+    const resolved = withAuthParams(resolveRequest(request, variables), auth);
+    const manualHeaders = resolved.headers.filter(h => h.enabled && h.key);
     const globalHeaderList = globalHeaders.filter(h => h.enabled && h.key);
-    
-    // Combine for display
-    let allHeadersDisplay = [
-        ...manualHeaders.map(h => `${h.key}: ${h.value}`),
-        ...globalHeaderList.map(h => `${h.key}: ${h.value}`)
+
+    // Injected lines are tagged with where they come from
+    const headerLines: { text: string; injectedBy?: string }[] = [
+        ...manualHeaders.map(h => ({ text: `${h.key}: ${h.value}` })),
+        ...globalHeaderList.map(h => ({ text: `${resolveVariables(h.key, variables)}: ${resolveVariables(h.value, variables)}` })),
+        ...Object.entries(auth.headers)
+            .filter(([key]) => !manualHeaders.some(h => h.key.toLowerCase() === key.toLowerCase()))
+            .map(([key, value]) => ({ text: `${key}: ${value}`, injectedBy: authSource })),
+        ...(auth.pending ? [{ text: `# ${auth.pending}`, injectedBy: authSource }] : []),
     ];
 
-    if (settings.cloudDocsMode) {
-        allHeadersDisplay = [
-            ...allHeadersDisplay,
-            ...cloudDocsHeaders.map(h => `${h.key}: ${h.value}`)
-        ];
+    if (signingProfile) {
+        headerLines.push(...signedHeaders.map(h => ({ text: `${h.key}: ${h.value}`, injectedBy: `Signing: ${signingProfile.name}` })));
     }
 
-    const headersString = allHeadersDisplay.join('\n');
-    
     let body = '';
     if (!methodHasBody) {
         body = '[No Body for GET/HEAD]';
-    } else if (request.bodyType === 'json' || request.bodyType === 'text') {
-        body = request.bodyContent;
-    } else if (request.bodyType === 'file') {
-        body = `[Binary File: ${request.file?.name || 'No file selected'}]`;
-    } else if (request.bodyType === 'form-data') {
-        body = request.bodyFormData.filter(i => i.enabled && i.key).map(i => 
-            `${i.key}: ${i.type === 'file' ? (i.file?.name || '(Empty File)') : i.value}`
+    } else if (resolved.bodyType === 'json' || resolved.bodyType === 'text') {
+        body = resolved.bodyContent;
+    } else if (resolved.bodyType === 'graphql') {
+        body = graphqlBodyText(resolved.graphql || DEFAULT_GRAPHQL_BODY);
+    } else if (resolved.bodyType === 'file') {
+        body = `[Binary File: ${resolved.file?.name || (resolved.fileRef ? `${resolved.fileRef.name} (missing)` : 'No file selected')}]`;
+    } else if (resolved.bodyType === 'form-data') {
+        body = resolved.bodyFormData.filter(i => i.enabled && i.key).map(i => 
+            `${i.key}: ${i.type === 'file' ? (i.file?.name || (i.fileRef ? `${i.fileRef.name} (missing)` : '(Empty File)')) : i.value}`
         ).join('\n');
-    } else if (request.bodyType === 'x-www-form-urlencoded') {
-        body = request.bodyFormUrlEncoded.filter(i => i.enabled && i.key)
+    } else if (resolved.bodyType === 'x-www-form-urlencoded') {
+        body = resolved.bodyFormUrlEncoded.filter(i => i.enabled && i.key)
             .map(i => `${i.key}=${i.value}`).join('&');
     }
 
-    const rawString = `${request.method} ${request.url.replace(/^https?:\/\/[^\/]+/, '') || '/'} HTTP/1.1\nHost: ${request.url.split('/')[2] || '...'}\n${headersString}\n\n${body}`;
+    const url = buildRequestUrl(resolved);
+    const injectedTag = (source: string) => (
+        <span className="ml-2 text-[10px] font-sans text-indigo-500 bg-indigo-500/10 px-1.5 rounded">injected · {source}</span>
+    );
 
     return (
         <pre className="text-xs font-mono text-zinc-400 whitespace-pre-wrap break-all leading-relaxed p-2">
-            {rawString}
+            <div>
+                {`${resolved.method} ${url.replace(/^https?:\/\/[^\/]+/, '') || '/'} HTTP/1.1`}
+                {auth.params.length > 0 && injectedTag(`${authSource}: ${auth.params.map(([key]) => key).join(', ')}`)}
+            </div>
+            <div>{`Host: ${url.split('/')[2] || '...'}`}</div>
+            {headerLines.map((line, idx) => (
+                <div key={idx} className={line.injectedBy ? 'text-indigo-300' : ''}>
+                    {line.text}
+                    {line.injectedBy && injectedTag(line.injectedBy)}
+                </div>
+            ))}
+            {`\n${body}`}
         </pre>
     );
   };
@@ -222,14 +296,15 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                 placeholder={placeholderKey}
                 value={item.key}
                 onChange={(e) => updateKeyValue(listName, item.id, 'key', e.target.value)}
-                className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none"
+                className={`flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none${unresolvedClass(item.key)}`}
             />
             <input
                 type="text"
                 placeholder={placeholderValue}
                 value={item.value}
                 onChange={(e) => updateKeyValue(listName, item.id, 'value', e.target.value)}
-                className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none"
+                className={`flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none${unresolvedClass(item.value)}`}
+                title={item.value.includes('{{') ? resolveVariables(item.value, variables) : undefined}
             />
             <button
                 onClick={() => removeKeyValue(listName, item.id)}
@@ -244,28 +319,86 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
 
   return (
     <div className="flex flex-col h-full bg-zinc-900">
+      {/* Saved Request Bar */}
+      <div className="px-4 pt-3 flex items-center gap-2 text-xs">
+        {savedName !== null ? (
+            <>
+                {savedPath?.map((part, idx) => (
+                    <React.Fragment key={idx}>
+                        <span className="text-zinc-500 truncate max-w-[120px]">{part}</span>
+                        <ChevronRight size={12} className="text-zinc-600 shrink-0" />
+                    </React.Fragment>
+                ))}
+                <input
+                    type="text"
+                    value={savedName}
+                    onChange={(e) => onRename(e.target.value)}
+                    className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-zinc-700 focus:border-indigo-500/50 rounded px-1.5 py-0.5 text-sm text-zinc-200 font-medium outline-none"
+                    title="Rename Request"
+                />
+            </>
+        ) : (
+            <span className="flex-1 text-zinc-500 italic">Unsaved Request</span>
+        )}
+        {dirty && <span className="text-amber-400 shrink-0">Unsaved changes</span>}
+        {savedName !== null && (
+            <button
+                onClick={onSaveAs}
+                className="px-2 py-1 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded transition-colors"
+            >
+                Save As
+            </button>
+        )}
+        <button
+            onClick={onSave}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors"
+            title={savedName !== null ? 'Update Saved Request' : 'Save to Collection'}
+        >
+            <Save size={12} />
+            Save
+            {dirty && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" />}
+        </button>
+      </div>
+
       {/* Top Bar: URL & Method */}
       <div className="p-4 border-b border-zinc-800 flex gap-2 items-center">
         <select 
-          value={request.method}
-          onChange={(e) => handleMethodChange(e.target.value as HttpMethod)}
+          value={isWebSocket ? WEBSOCKET_METHOD : request.method}
+          onChange={(e) => handleMethodChange(e.target.value)}
           className="bg-zinc-800 text-zinc-100 font-bold text-sm rounded px-3 py-2.5 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
         >
           {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+          <option value={WEBSOCKET_METHOD}>WS</option>
         </select>
         
-        <div className="flex-1 relative">
+        <div className="flex-1 relative bg-zinc-950 rounded">
+            {/* Variable highlight layer, kept in sync with the input's horizontal scroll */}
+            <div
+                ref={urlHighlightRef}
+                aria-hidden
+                className="absolute inset-0 px-4 py-2.5 border border-transparent font-mono text-sm whitespace-pre overflow-hidden pointer-events-none text-transparent"
+            >
+                {tokenizeVariables(request.url, variables).map((seg, idx) => seg.variable ? (
+                    <span key={idx} className={`rounded ${seg.resolved ? 'bg-indigo-500/25' : 'bg-amber-500/30'}`}>{seg.text}</span>
+                ) : (
+                    <span key={idx}>{seg.text}</span>
+                ))}
+            </div>
             <input
             type="text"
             value={request.url}
             onChange={(e) => updateField('url', e.target.value)}
+            onPaste={handleUrlPaste}
+            onScroll={(e) => { if (urlHighlightRef.current) urlHighlightRef.current.scrollLeft = e.currentTarget.scrollLeft; }}
             placeholder="https://api.example.com/v1/resource"
-            className="w-full bg-zinc-950 text-zinc-100 rounded px-4 py-2.5 border border-zinc-700 outline-none focus:border-indigo-500 font-mono text-sm"
+            className="relative w-full bg-transparent text-zinc-100 rounded px-4 py-2.5 border border-zinc-700 outline-none focus:border-indigo-500 font-mono text-sm"
+            title={request.url.includes('{{') ? resolveVariables(request.url, variables) : undefined}
             onKeyDown={(e) => e.key === 'Enter' && onSend()}
             />
         </div>
 
         {/* Stream Toggle */}
+        {!isWebSocket && (<>
         <button
             onClick={() => updateField('stream', !request.stream)}
             className={`flex items-center gap-1.5 px-3 py-2.5 rounded border text-xs font-medium transition-all ${request.stream 
@@ -276,8 +409,47 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
             <Waves size={16} />
             <span className="hidden sm:inline">Stream</span>
         </button>
-
-        {loading ? (
+        {request.stream && (
+            <button
+                onClick={() => updateField('sseReconnect', !request.sseReconnect)}
+                className={`flex items-center px-2.5 py-2.5 rounded border transition-all ${request.sseReconnect
+                    ? 'bg-indigo-500/10 border-indigo-500 text-indigo-400'
+                    : 'bg-zinc-900 border-zinc-700 text-zinc-500 hover:text-zinc-300'}`}
+                title="Auto-reconnect event streams when they end, resuming with Last-Event-ID"
+            >
+                <RotateCw size={16} />
+            </button>
+        )}
+        <button
+            onClick={onBenchmark}
+            disabled={!request.url}
+            className="flex items-center px-2.5 py-2.5 rounded border bg-zinc-900 border-zinc-700 text-zinc-500 hover:text-zinc-300 transition-all disabled:opacity-40 disabled:pointer-events-none"
+            title="Benchmark: send this request many times and measure latency"
+        >
+            <Gauge size={16} />
+        </button>
+        </>)}
+
+        {isWebSocket ? (
+            wsState === 'open' || wsState === 'connecting' ? (
+                <button
+                    onClick={onDisconnect}
+                    className="flex items-center gap-2 px-6 py-2.5 rounded font-bold text-sm transition-all shadow-lg bg-red-600 hover:bg-red-500 text-white"
+                >
+                    <Unplug size={16} />
+                    Disconnect
+                </button>
+            ) : (
+                <button
+                    onClick={onSend}
+                    disabled={!request.url || wsState === 'closing'}
+                    className={`flex items-center gap-2 px-6 py-2.5 rounded font-bold text-sm transition-all shadow-lg shadow-indigo-500/10 ${!request.url || wsState === 'closing' ? 'bg-zinc-700 text-zinc-500 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+                >
+                    <Plug size={16} />
+                    Connect
+                </button>
+            )
+        ) : loading ? (
              <button
                 onClick={onStop}
                 className="flex items-center gap-2 px-6 py-2.5 rounded font-bold text-sm transition-all shadow-lg bg-red-600 hover:bg-red-500 text-white"
@@ -297,14 +469,36 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
         )}
       </div>
 
+      {/* cURL Import Report */}
+      {importWarnings.length > 0 && (
+        <div className="px-4 py-2 border-b border-zinc-800 bg-amber-500/5 text-xs text-amber-400 flex items-start gap-2">
+            <AlertCircle size={12} className="shrink-0 mt-0.5" />
+            <div className="flex-1 flex flex-col gap-0.5">
+                <span className="font-medium">Imported with warnings:</span>
+                {importWarnings.map((w, idx) => <span key={idx}>{w}</span>)}
+            </div>
+            <button onClick={onDismissImportWarnings} className="text-amber-500/70 hover:text-amber-300">
+                <X size={12} />
+            </button>
+        </div>
+      )}
+
+      {/* Unresolved Variables Warning */}
+      {unresolvedVariables.length > 0 && (
+        <div className="px-4 py-1.5 border-b border-zinc-800 bg-amber-500/5 text-xs text-amber-400 flex items-center gap-2">
+            <AlertCircle size={12} className="shrink-0" />
+            <span className="truncate">
+                Unresolved variables: {unresolvedVariables.map(v => `{{${v}}}`).join(', ')}
+            </span>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b border-zinc-800 px-2 bg-zinc-900">
-        {(['params', 'headers', 'body', 'raw'] as const).map(tab => {
+        {panelTabs.map(tab => {
             // Count headers
             let headerCount = request.headers.filter(p => p.enabled && p.key).length + globalHeaders.filter(h => h.enabled && h.key).length;
-            if (settings.cloudDocsMode) {
-                headerCount += 6; // Fixed number of cloud docs headers
-            }
+            headerCount += signedHeaders.length;
 
             return (
             <button
@@ -314,8 +508,12 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
             >
                 {tab} 
                 {tab === 'params' && request.params.filter(p => p.enabled && p.key).length > 0 && <span className="ml-1 text-[10px] bg-zinc-800 px-1.5 rounded-full text-zinc-300">{request.params.filter(p => p.enabled && p.key).length}</span>}
+                {tab === 'auth' && (effectiveAuth.auth.type !== 'none' || signingProfile) && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-indigo-400 align-middle" />}
                 {tab === 'headers' && headerCount > 0 && <span className="ml-1 text-[10px] bg-zinc-800 px-1.5 rounded-full text-zinc-300">{headerCount}</span>}
                 {tab === 'body' && !methodHasBody && <span className="ml-1 text-[10px] bg-zinc-800 text-zinc-500 px-1.5 rounded-full">Off</span>}
+                {tab === 'body' && missing.length > 0 && <span title={`Missing: ${missing.join(', ')}`}><AlertCircle size={12} className="inline ml-1 text-amber-400" /></span>}
+                {tab === 'scripts' && (hasScript(request.preRequestScript) || hasScript(request.testScript)) && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-green-500 align-middle" />}
+                {tab === 'settings' && request.policy && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-indigo-400 align-middle" />}
             </button>
         )})}
       </div>
@@ -324,20 +522,83 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
       <div className="flex-1 overflow-auto p-4 bg-zinc-900 relative">
         {activeTab === 'raw' && renderRaw()}
 
+        {activeTab === 'message' && (
+            <WebSocketComposer
+                config={request.websocket || DEFAULT_WEBSOCKET_CONFIG}
+                onChange={(websocket) => updateField('websocket', websocket)}
+                connected={wsConnected}
+                onSend={onSendMessage}
+            />
+        )}
+
+        {activeTab === 'code' && <CodePanel request={request} settings={settings} variables={variables} auth={effectiveAuth.auth} />}
+
+        {activeTab === 'auth' && (
+            <div className="flex flex-col gap-6">
+                <AuthEditor
+                    auth={request.auth}
+                    onChange={(auth) => updateField('auth', auth)}
+                    variables={variables}
+                    inherited={request.auth?.type === 'inherit' ? effectiveAuth : null}
+                />
+                <div className="flex gap-6 pt-4 border-t border-zinc-800">
+                    <div className="w-52 shrink-0 flex flex-col gap-2">
+                        <span className="text-xs font-semibold text-zinc-500">Request Signing</span>
+                        <select
+                            value={request.signingProfileId || ''}
+                            onChange={(e) => updateField('signingProfileId', e.target.value || undefined)}
+                            className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none cursor-pointer"
+                        >
+                            <option value="">Default ({settings.signingProfiles.find(p => p.id === settings.defaultSigningProfileId)?.name || 'None'})</option>
+                            <option value={NONE_PROFILE_ID}>Don't sign</option>
+                            {settings.signingProfiles.map(p => <option key={p.id} value={p.id}>{p.name || 'Untitled'}</option>)}
+                        </select>
+                    </div>
+                    <p className="flex-1 text-[11px] text-zinc-600 leading-relaxed self-end">
+                        Signing profiles are managed in Settings. The signed headers are listed in the Headers tab.
+                        {request.signingProfileId && request.signingProfileId !== NONE_PROFILE_ID && !signingProfile && (
+                            <span className="block text-amber-500">The selected profile no longer exists; the request is not signed.</span>
+                        )}
+                    </p>
+                </div>
+            </div>
+        )}
+
+        {activeTab === 'scripts' && <ScriptEditor request={request} onChange={onChange} />}
+
+        {activeTab === 'settings' && (
+            <div className="flex flex-col gap-4">
+                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!request.policy}
+                        onChange={(e) => updateField('policy', e.target.checked ? undefined : { ...settings.requestPolicy })}
+                        className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                    />
+                    Use the timeout and retry defaults from Settings
+                </label>
+                <RequestPolicyEditor
+                    policy={request.policy || settings.requestPolicy}
+                    onChange={(policy) => updateField('policy', policy)}
+                    disabled={!request.policy}
+                />
+            </div>
+        )}
+
         {activeTab === 'params' && renderKeyValueEditor(request.params, 'params')}
         
         {activeTab === 'headers' && (
           <div className="flex flex-col gap-2">
             {renderKeyValueEditor(request.headers, 'headers')}
             
-            {/* Cloud Docs Headers Display */}
-            {settings.cloudDocsMode && (
+            {/* Signed Headers Display */}
+            {signingProfile && (
                 <>
                     <div className="mt-4 mb-1 text-xs font-bold text-indigo-400 flex items-center gap-2 px-2">
                         <Key size={10} />
-                        Cloud Docs Headers (Auto-Injected)
+                        Signed Headers: {signingProfile.name} (Auto-Injected)
                     </div>
-                    {cloudDocsHeaders.map((item, idx) => (
+                    {signedHeaders.map((item, idx) => (
                         <div key={`cd-${idx}`} className="flex gap-2 opacity-80 pointer-events-none">
                             <div className="w-8 flex items-center justify-center">
                                 <input type="checkbox" checked readOnly className="rounded bg-zinc-800 border-indigo-900/50 text-indigo-500" />
@@ -391,6 +652,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                         { id: 'form-data', label: 'Form Data' },
                         { id: 'x-www-form-urlencoded', label: 'x-www-form-urlencoded' },
                         { id: 'json', label: 'JSON' },
+                        { id: 'graphql', label: 'GraphQL' },
                         { id: 'text', label: 'Raw Text' },
                         { id: 'file', label: 'Binary File' },
                     ].map((type) => (
@@ -407,6 +669,16 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                     ))}
                 </div>
 
+                {request.bodyType === 'graphql' && (
+                    <GraphqlEditor
+                        body={request.graphql || DEFAULT_GRAPHQL_BODY}
+                        onChange={(graphql) => updateField('graphql', graphql)}
+                        schema={graphqlSchema}
+                        onFetchSchema={onFetchGraphqlSchema}
+                        onLoadSdl={onLoadGraphqlSdl}
+                    />
+                )}
+
                 {/* JSON / Text Editor */}
                 {(request.bodyType === 'json' || request.bodyType === 'text') && (
                     <div className="flex-1 relative flex flex-col gap-2">
@@ -423,7 +695,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                         <textarea
                             value={request.bodyContent}
                             onChange={(e) => updateField('bodyContent', e.target.value)}
-                            className="flex-1 w-full bg-zinc-950 border border-zinc-800 rounded p-4 font-mono text-sm text-zinc-300 focus:border-indigo-500/50 outline-none resize-none leading-relaxed"
+                            className={`flex-1 w-full bg-zinc-950 border border-zinc-800 rounded p-4 font-mono text-sm text-zinc-300 focus:border-indigo-500/50 outline-none resize-none leading-relaxed${findUnresolvedVariables(request.bodyContent, variables).length > 0 ? ' !border-amber-500/60' : ''}`}
                             placeholder={request.bodyType === 'json' ? '{\n  "key": "value"\n}' : 'Enter text body...'}
                         />
                     </div>
@@ -454,7 +726,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                                     placeholder="Key"
                                     value={item.key}
                                     onChange={(e) => updateFormData(item.id, 'key', e.target.value)}
-                                    className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none"
+                                    className={`flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none${unresolvedClass(item.key)}`}
                                 />
                                 <select
                                     value={item.type}
@@ -469,9 +741,22 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                                     <div className="flex-1 flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded px-2 overflow-hidden">
                                         <input 
                                             type="file" 
-                                            onChange={(e) => updateFormData(item.id, 'file', e.target.files?.[0])}
-                                            className="text-xs text-zinc-400 py-1 file:mr-2 file:py-0.5 file:px-2 file:rounded file:border-0 file:text-xs file:bg-zinc-800 file:text-zinc-300 hover:file:bg-zinc-700"
+                                            onChange={(e) => updateFormDataFile(item.id, e.target.files?.[0])}
+                                            className="w-24 shrink-0 text-xs text-transparent py-1 file:mr-2 file:py-0.5 file:px-2 file:rounded file:border-0 file:text-xs file:bg-zinc-800 file:text-zinc-300 hover:file:bg-zinc-700"
                                         />
+                                        {/* The input cannot show a restored file, so the attached file is listed next to it */}
+                                        {item.file ? (
+                                            <span className="text-xs text-zinc-300 truncate" title={`${item.file.name} (${(item.file.size / 1024).toFixed(1)} KB)`}>
+                                                {item.file.name}
+                                                {!isFileStorable(item.file) && <span className="text-amber-500/80"> · not kept (over {MAX_STORED_FILE_MB} MB)</span>}
+                                            </span>
+                                        ) : item.fileRef ? (
+                                            <span className="text-xs text-amber-400 truncate" title="The stored copy of this file is gone. Select it again.">
+                                                {item.fileRef.name} · missing
+                                            </span>
+                                        ) : (
+                                            <span className="text-xs text-zinc-600">No file chosen</span>
+                                        )}
                                     </div>
                                 ) : (
                                     <input
@@ -479,7 +764,8 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                                         placeholder="Value"
                                         value={item.value}
                                         onChange={(e) => updateFormData(item.id, 'value', e.target.value)}
-                                        className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none"
+                                        className={`flex-1 bg-zinc-950 border border-zinc-800 rounded px-3 py-1.5 text-sm text-zinc-300 focus:border-indigo-500/50 outline-none${unresolvedClass(item.value)}`}
+                                        title={item.value.includes('{{') ? resolveVariables(item.value, variables) : undefined}
                                     />
                                 )}
                                 <button
@@ -511,10 +797,20 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({ request, onChange, o
                                 <span className="text-zinc-500 ml-1">or drag and drop</span>
                             </div>
                             {request.file ? (
-                                <div className="flex items-center gap-2 bg-zinc-800 px-4 py-2 rounded text-sm text-zinc-200">
-                                    <FileText size={14} />
-                                    {request.file.name}
-                                    <span className="text-zinc-500 text-xs">({(request.file.size / 1024).toFixed(1)} KB)</span>
+                                <div className="flex flex-col items-center gap-1">
+                                    <div className="flex items-center gap-2 bg-zinc-800 px-4 py-2 rounded text-sm text-zinc-200">
+                                        <FileText size={14} />
+                                        {request.file.name}
+                                        <span className="text-zinc-500 text-xs">({(request.file.size / 1024).toFixed(1)} KB)</span>
+                                    </div>
+                                    {!isFileStorable(request.file) && (
+                                        <span className="text-xs text-amber-500/80">Over {MAX_STORED_FILE_MB} MB, so it is not kept with history or saved requests.</span>
+                                    )}
+                                </div>
+                            ) : request.fileRef ? (
+                                <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 px-3 py-2 rounded">
+                                    <AlertCircle size={14} />
+                                    <span>{request.fileRef.name} ({(request.fileRef.size / 1024).toFixed(1)} KB) is missing. Select it again before sending.</span>
                                 </div>
                             ) : (
                                 <p className="text-xs text-zinc-500">No file selected</p>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { RequestPolicy } from '../types';
+
+interface RequestPolicyEditorProps {
+  policy: RequestPolicy;
+  onChange: (policy: RequestPolicy) => void;
+  disabled?: boolean;
+}
+
+const NUMBER_FIELDS: [keyof RequestPolicy, string, string][] = [
+  ['timeoutMs', 'Timeout (ms)', 'Per attempt, 0 for none'],
+  ['maxRetries', 'Retries', 'Attempts after the first'],
+  ['backoffMs', 'Initial Backoff (ms)', 'Doubled for each retry'],
+  ['maxBackoffMs', 'Max Backoff (ms)', 'Cap for a single wait'],
+];
+
+export const RequestPolicyEditor: React.FC<RequestPolicyEditorProps> = ({ policy, onChange, disabled }) => {
+  const update = <K extends keyof RequestPolicy>(field: K, value: RequestPolicy[K]) => onChange({ ...policy, [field]: value });
+
+  const checkbox = (field: 'retryOnNetworkError' | 'respectRetryAfter' | 'jitter', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+        <input
+            type="checkbox"
+            checked={policy[field]}
+            onChange={(e) => update(field, e.target.checked)}
+            disabled={disabled}
+            className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+        />
+        {label}
+    </label>
+  );
+
+  return (
+    <fieldset disabled={disabled} className={`flex flex-col gap-4 ${disabled ? 'opacity-50' : ''}`}>
+        <div className="grid grid-cols-4 gap-4">
+            {NUMBER_FIELDS.map(([field, label, hint]) => (
+                <div key={field} className="flex flex-col gap-1.5">
+                    <label className="text-sm font-medium text-zinc-300">{label}</label>
+                    <input
+                        type="number"
+                        min={0}
+                        value={policy[field] as number}
+                        onChange={(e) => update(field, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                        className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                    />
+                    <span className="text-[11px] text-zinc-600">{hint}</span>
+                </div>
+            ))}
+        </div>
+        <div className="flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-zinc-300">Retry on Status Codes</label>
+            <input
+                type="text"
+                value={policy.retryStatuses}
+                onChange={(e) => update('retryStatuses', e.target.value)}
+                placeholder="429, 502-504"
+                className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm font-mono text-zinc-200 focus:border-indigo-500 outline-none"
+            />
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {checkbox('retryOnNetworkError', 'Retry on network errors and timeouts')}
+            {checkbox('respectRetryAfter', 'Wait as long as Retry-After says')}
+            {checkbox('jitter', 'Randomize backoff (jitter)')}
+        </div>
+    </fieldset>
+  );
+};
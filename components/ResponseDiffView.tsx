@@ -0,0 +1,228 @@
+import React, { useState, useMemo } from 'react';
+import { Trash2, ArrowRight } from 'lucide-react';
+import { ResponseSnapshot, ResponseState } from '../types';
+import { DiffOptions, LineDiffRow, diffResponses, loadDiffOptions, saveDiffOptions } from '../utils/responseDiff';
+
+interface ResponseDiffViewProps {
+  current: ResponseState;
+  snapshots: ResponseSnapshot[];
+  defaultBaselineId: string | null;
+  onDeleteSnapshot: (id: string) => void;
+}
+
+const CURRENT_ID = 'current';
+const CONTEXT_LINES = 3;
+
+const kindColors: Record<string, string> = {
+  added: 'text-green-400',
+  removed: 'text-red-400',
+  changed: 'text-amber-400',
+  reordered: 'text-blue-400',
+};
+
+const lineColors: Record<LineDiffRow['kind'], [string, string]> = {
+  equal: ['', ''],
+  added: ['bg-zinc-900/60', 'bg-green-500/10'],
+  removed: ['bg-red-500/10', 'bg-zinc-900/60'],
+  changed: ['bg-red-500/10', 'bg-green-500/10'],
+};
+
+const preview = (value: any) => {
+  const text = value === undefined ? '' : JSON.stringify(value);
+  return text.length > 120 ? text.slice(0, 120) + '…' : text;
+};
+
+// Changed rows with a few lines of context; long unchanged runs collapse into one marker
+function withContext(rows: LineDiffRow[]): (LineDiffRow | number)[] {
+  const keep = new Array(rows.length).fill(false);
+  rows.forEach((row, idx) => {
+    if (row.kind === 'equal') return;
+    for (let i = Math.max(0, idx - CONTEXT_LINES); i <= Math.min(rows.length - 1, idx + CONTEXT_LINES); i++) keep[i] = true;
+  });
+  const out: (LineDiffRow | number)[] = [];
+  let skipped = 0;
+  rows.forEach((row, idx) => {
+    if (keep[idx]) {
+        if (skipped) out.push(skipped);
+        skipped = 0;
+        out.push(row);
+    } else {
+        skipped++;
+    }
+  });
+  if (skipped) out.push(skipped);
+  return out;
+}
+
+export const ResponseDiffView: React.FC<ResponseDiffViewProps> = ({ current, snapshots, defaultBaselineId, onDeleteSnapshot }) => {
+  const [leftId, setLeftId] = useState<string | null>(defaultBaselineId);
+  const [rightId, setRightId] = useState(CURRENT_ID);
+  const [options, setOptions] = useState<DiffOptions>(loadDiffOptions);
+  const [ignoredText, setIgnoredText] = useState(() => options.ignored.join(', '));
+  const [view, setView] = useState<'changes' | 'lines'>('changes');
+
+  const resolve = (id: string | null) =>
+    id === CURRENT_ID ? current : snapshots.find(s => s.id === id)?.response || null;
+  const left = resolve(leftId ?? defaultBaselineId);
+  const right = resolve(rightId);
+
+  const diff = useMemo(() => left && right ? diffResponses(left, right, options) : null, [left, right, options]);
+  const lineRows = useMemo(() => diff ? withContext(diff.lines) : [], [diff]);
+
+  const updateOptions = (next: DiffOptions) => {
+    setOptions(next);
+    saveDiffOptions(next);
+  };
+
+  const renderSelect = (value: string | null, onChange: (id: string) => void) => (
+    <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 bg-zinc-800 text-zinc-300 text-xs rounded px-2 py-1.5 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
+    >
+        <option value="" disabled>Select a pinned response</option>
+        <option value={CURRENT_ID}>Current response</option>
+        {snapshots.map(s => (
+            <option key={s.id} value={s.id}>{s.name} · {new Date(s.timestamp).toLocaleString()}</option>
+        ))}
+    </select>
+  );
+
+  const selectedSnapshot = snapshots.find(s => s.id === (leftId ?? defaultBaselineId));
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+        <div className="flex items-center gap-2">
+            {renderSelect(leftId ?? defaultBaselineId, setLeftId)}
+            {selectedSnapshot && (
+                <button
+                    onClick={() => { onDeleteSnapshot(selectedSnapshot.id); setLeftId(null); }}
+                    className="p-1.5 text-zinc-500 hover:text-red-400"
+                    title="Delete Pinned Response"
+                >
+                    <Trash2 size={14} />
+                </button>
+            )}
+            <ArrowRight size={14} className="text-zinc-500 shrink-0" />
+            {renderSelect(rightId, setRightId)}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-zinc-400">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.ignoreKeyOrder}
+                    onChange={(e) => updateOptions({ ...options, ignoreKeyOrder: e.target.checked })}
+                    className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                />
+                Ignore key order
+            </label>
+            <label className="flex items-center gap-2 flex-1 min-w-[240px]">
+                <span className="shrink-0">Ignore</span>
+                <input
+                    type="text"
+                    value={ignoredText}
+                    onChange={(e) => setIgnoredText(e.target.value)}
+                    onBlur={() => updateOptions({ ...options, ignored: ignoredText.split(',').map(s => s.trim()).filter(Boolean) })}
+                    placeholder="timestamp, $.meta.requestId, $.items[*].updatedAt, date"
+                    title="Key names, JSONPaths ([*] any index, .* any property) or header names, separated by commas"
+                    className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 font-mono text-zinc-200 outline-none focus:border-indigo-500"
+                />
+            </label>
+        </div>
+
+        {!snapshots.length && (
+            <span className="text-zinc-500 italic">Pin a response as a baseline to compare later responses against it.</span>
+        )}
+
+        {diff && (
+            <>
+                {/* Status */}
+                <div className="flex items-center gap-2 font-mono text-xs">
+                    <span className="text-zinc-500 w-16">Status</span>
+                    {diff.status.changed ? (
+                        <>
+                            <span className="text-red-400">{diff.status.left}</span>
+                            <ArrowRight size={12} className="text-zinc-500" />
+                            <span className="text-green-400">{diff.status.right}</span>
+                        </>
+                    ) : <span className="text-zinc-400">{diff.status.right} (unchanged)</span>}
+                </div>
+
+                {/* Headers */}
+                <div className="flex flex-col gap-1">
+                    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Headers</div>
+                    {diff.headers.length === 0 ? <span className="text-zinc-600 italic text-xs">No differences</span> : diff.headers.map(h => (
+                        <div key={h.name} className="flex gap-2 font-mono text-xs">
+                            <span className={`w-16 shrink-0 ${kindColors[h.kind]}`}>{h.kind}</span>
+                            <span className="text-zinc-300 shrink-0">{h.name}</span>
+                            <span className="text-zinc-500 break-all">
+                                {h.left !== undefined && <span className="line-through text-red-400/70">{h.left}</span>}
+                                {h.left !== undefined && h.right !== undefined && ' → '}
+                                {h.right !== undefined && <span className="text-green-400/80">{h.right}</span>}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Body */}
+                <div className="flex flex-col gap-2">
+                    <div className="flex items-center gap-3">
+                        <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Body</div>
+                        {diff.json && (
+                            <div className="flex bg-zinc-800 rounded p-0.5">
+                                {(['changes', 'lines'] as const).map(v => (
+                                    <button
+                                        key={v}
+                                        onClick={() => setView(v)}
+                                        className={`px-2 py-0.5 text-xs rounded ${view === v ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`}
+                                    >
+                                        {v === 'changes' ? 'Changes' : 'Side by Side'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {diff.json && view === 'changes' ? (
+                        diff.json.length === 0 ? <span className="text-zinc-600 italic text-xs">No differences</span> : (
+                            <div className="flex flex-col gap-0.5 font-mono text-xs">
+                                {diff.json.map((entry, idx) => (
+                                    <div key={idx} className="flex gap-2">
+                                        <span className={`w-16 shrink-0 ${kindColors[entry.kind]}`}>{entry.kind}</span>
+                                        <span className="text-indigo-300 shrink-0">{entry.path}</span>
+                                        <span className="text-zinc-500 break-all">
+                                            {'left' in entry && <span className="text-red-400/70">{preview(entry.left)}</span>}
+                                            {'left' in entry && 'right' in entry && ' → '}
+                                            {'right' in entry && <span className="text-green-400/80">{preview(entry.right)}</span>}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )
+                    ) : lineRows.every(r => typeof r === 'number') ? (
+                        <span className="text-zinc-600 italic text-xs">No differences</span>
+                    ) : (
+                        <div className="grid grid-cols-2 font-mono text-xs border border-zinc-800 rounded overflow-hidden">
+                            {lineRows.map((row, idx) => typeof row === 'number' ? (
+                                <div key={idx} className="col-span-2 px-2 py-0.5 text-zinc-600 bg-zinc-900 text-center select-none">⋯ {row} unchanged lines</div>
+                            ) : (
+                                <React.Fragment key={idx}>
+                                    <div className={`flex border-r border-zinc-800 ${lineColors[row.kind][0]}`}>
+                                        <span className="w-10 shrink-0 text-right pr-2 text-zinc-600 select-none">{row.left?.line}</span>
+                                        <span className="whitespace-pre-wrap break-all text-zinc-300">{row.left?.text}</span>
+                                    </div>
+                                    <div className={`flex ${lineColors[row.kind][1]}`}>
+                                        <span className="w-10 shrink-0 text-right pr-2 text-zinc-600 select-none">{row.right?.line}</span>
+                                        <span className="whitespace-pre-wrap break-all text-zinc-300">{row.right?.text}</span>
+                                    </div>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
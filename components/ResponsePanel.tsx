@@ -1,26 +1,161 @@
-import React, { useState } from 'react';
-import { ResponseState } from '../types';
-import { Clock, Database, AlertCircle, CheckCircle, Copy, Check, FileText } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
+import { ResponseState, ScriptResult, ResponseQuery, QueryLanguage, ResponseSnapshot, ResponseAttempt } from '../types';
+import { Clock, Database, AlertCircle, CheckCircle, Copy, Check, FileText, XCircle, Search, ChevronUp, ChevronDown, ChevronRight, Filter, X, Pin, Download, ServerCog } from 'lucide-react';
+import { JsonTreeView } from './JsonTreeView';
+import { ResponseDiffView } from './ResponseDiffView';
+import { SseTimeline } from './SseTimeline';
+import { WebSocketLog } from './WebSocketLog';
+import { HexView } from './HexView';
+import { MediaPreview } from './MediaPreview';
+import { MarkupTreeView } from './MarkupTreeView';
+import { HtmlPreview } from './HtmlPreview';
+import { TimingWaterfall } from './TimingWaterfall';
+import { BodyViewMode, availableViewModes, getViewMode, saveViewMode, bodyText, findTextMatches, searchJson, initialExpanded, collectContainerIds, isJsonValue, mediaType, MAX_SEARCH_MATCHES } from '../utils/responseBody';
+import { QUERY_LANGUAGES, DEFAULT_RESPONSE_QUERY, isQueryActive, runResponseQuery } from '../utils/responseQuery';
+import { graphqlResponseErrors } from '../utils/graphql';
+import { previewKind, responseBlob, responseFilename } from '../utils/binary';
+import { markupKind, parseMarkup, collectElementIds } from '../utils/markup';
+import { downloadFile } from '../utils/download';
 
 interface ResponsePanelProps {
   response: ResponseState | null;
   loading: boolean;
+  scriptResult: ScriptResult | null;
+  responseQuery: ResponseQuery | undefined; // Saved with the request
+  onResponseQueryChange: (query: ResponseQuery) => void;
+  snapshots: ResponseSnapshot[];
+  baselineId: string | null; // Latest pinned response of this request
+  onPin: () => void;
+  onDeleteSnapshot: (id: string) => void;
+  onClearWebSocketLog: () => void;
+  graphql: boolean; // The request has a GraphQL body
+  requestUrl: string; // Names saved bodies when the response does not
+  onMock: () => void; // Turns the response into a mock rule
 }
 
-export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading }) => {
-  const [activeTab, setActiveTab] = useState<'body' | 'headers' | 'raw'>('body');
+const logColors: Record<string, string> = {
+  log: 'text-zinc-300',
+  info: 'text-blue-400',
+  warn: 'text-amber-400',
+  error: 'text-red-400',
+};
+
+export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading, scriptResult, responseQuery, onResponseQueryChange, snapshots, baselineId, onPin, onDeleteSnapshot, onClearWebSocketLog, graphql, requestUrl, onMock }) => {
+  const [activeTab, setActiveTab] = useState<'events' | 'body' | 'headers' | 'timing' | 'attempts' | 'raw' | 'tests' | 'diff'>(response?.events ? 'events' : 'body');
   const [copied, setCopied] = useState(false);
+  const [openAttempt, setOpenAttempt] = useState<number | null>(null);
+  const [viewOverride, setViewOverride] = useState<BodyViewMode | null>(null);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [expanded, setExpanded] = useState<Set<string>>(() => initialExpanded(response?.data));
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const currentMarkRef = useRef<HTMLElement>(null);
+
+  // --- Query ---
+  const deferredResponseQuery = useDeferredValue(isQueryActive(responseQuery) ? responseQuery : null);
+  const queryResult = useMemo(
+    () => response && deferredResponseQuery ? runResponseQuery(response.data, deferredResponseQuery, response.contentType) : null,
+    [response?.data, response?.contentType, deferredResponseQuery]
+  );
+
+  // --- Body view ---
+  // The projection replaces the body in every view; a failing query leaves it untouched
+  const data = queryResult && !queryResult.error ? queryResult.data : response?.data;
+  const contentType = response?.contentType || '';
+  const binary = response?.bodyBase64 !== undefined;
+  const preview = previewKind(contentType);
+  const markup = data === response?.data ? markupKind(contentType, data) : null; // Projections are never markup
+  const viewModes = availableViewModes(data, binary, !!preview || markup === 'html');
+  const viewMode = viewOverride && viewModes.includes(viewOverride) ? viewOverride : getViewMode(contentType, viewModes);
+  const isTree = viewMode === 'tree';
+  // Pretty XML and HTML render as an element tree; malformed XML falls back to its text
+  const parsedMarkup = useMemo(() => markup && viewMode === 'pretty' ? parseMarkup(data, markup) : null, [data, markup, viewMode]);
+  const markupNodes = parsedMarkup?.nodes || null;
+  const searchable = viewMode !== 'preview' && viewMode !== 'hex' && !markupNodes;
+
+  const deferredQuery = useDeferredValue(query);
+  const text = useMemo(() => isTree || markupNodes ? '' : bodyText(data, viewMode), [data, viewMode, isTree, markupNodes]);
+  const treeMatches = useMemo(() => isTree ? searchJson(data, deferredQuery) : [], [data, deferredQuery, isTree]);
+  const textMatches = useMemo(() => isTree ? [] : findTextMatches(text, deferredQuery), [text, deferredQuery, isTree]);
+  const treeMatchIds = useMemo(() => new Set(treeMatches.map(m => m.id)), [treeMatches]);
+  const matchCount = isTree ? treeMatches.length : textMatches.length;
+  const currentTreeMatch = isTree ? treeMatches[matchIndex] || null : null;
+
+  useEffect(() => {
+    setExpanded(initialExpanded(data));
+    setCollapsed(new Set());
+  }, [data]);
+
+  // Event streams open on their timeline
+  const hasEvents = !!response?.events;
+  useEffect(() => {
+    if (hasEvents) setActiveTab('events');
+    else setActiveTab(prev => prev === 'events' ? 'body' : prev);
+  }, [hasEvents]);
+
+  const hasRetries = !!response?.retries;
+  useEffect(() => {
+    if (!hasRetries) setActiveTab(prev => prev === 'attempts' ? 'body' : prev);
+  }, [hasRetries]);
+
+  useEffect(() => {
+    setMatchIndex(0);
+  }, [deferredQuery, viewMode]);
+
+  // Expand the containers around the current tree match
+  useEffect(() => {
+    if (!currentTreeMatch) return;
+    setExpanded(prev => {
+        if (currentTreeMatch.ancestors.every(id => prev.has(id))) return prev;
+        return new Set([...prev, ...currentTreeMatch.ancestors]);
+    });
+  }, [currentTreeMatch]);
+
+  useEffect(() => {
+    currentMarkRef.current?.scrollIntoView({ block: 'center' });
+  }, [matchIndex, textMatches]);
+
+  const handleViewMode = (mode: BodyViewMode) => {
+    setViewOverride(mode);
+    saveViewMode(contentType, mode);
+  };
+
+  const handleToggleNode = (id: string) => {
+    setExpanded(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+  };
+
+  const handleToggleElement = (id: string) => {
+    setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+  };
+
+  const stepMatch = (delta: number) => {
+    if (matchCount) setMatchIndex((matchIndex + delta + matchCount) % matchCount);
+  };
+
+  const handleDownload = () => {
+    if (response) downloadFile(responseFilename(response, requestUrl), responseBlob(response));
+  };
 
   const handleCopy = () => {
     if (response?.data) {
-      const text = typeof response.data === 'string' ? response.data : JSON.stringify(response.data, null, 2);
+      const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
       navigator.clipboard.writeText(text);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
-  if (loading) {
+  // Streamed responses show up while they are still arriving
+  if (loading && !response) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-zinc-500 bg-zinc-950/50">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500 mb-4"></div>
@@ -40,31 +175,185 @@ export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading
     );
   }
 
+  if (response.websocket) return <WebSocketLog session={response.websocket} onClear={onClearWebSocketLog} />;
+
   const isSuccess = response.status >= 200 && response.status < 300;
+  // GraphQL servers report failures in the body, usually with HTTP 200
+  const graphqlErrors = graphql ? graphqlResponseErrors(response.data) : [];
   
-  // Syntax Highlighting (Simple)
+  // Search matches are wrapped in <mark>, the current one scrolled into view
+  const renderText = () => {
+    if (!textMatches.length) return text;
+    const parts: React.ReactNode[] = [];
+    let pos = 0;
+    textMatches.forEach((start, idx) => {
+        const end = start + deferredQuery.length;
+        parts.push(text.slice(pos, start));
+        parts.push(
+            <mark
+                key={idx}
+                ref={idx === matchIndex ? currentMarkRef : undefined}
+                className={`rounded-sm text-inherit ${idx === matchIndex ? 'bg-amber-500/60' : 'bg-amber-500/20'}`}
+            >
+                {text.slice(start, end)}
+            </mark>
+        );
+        pos = end;
+    });
+    parts.push(text.slice(pos));
+    return parts;
+  };
+
+  const renderBodyToolbar = () => (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex bg-zinc-800 rounded p-0.5">
+            {viewModes.map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => handleViewMode(mode)}
+                    className={`px-2.5 py-0.5 text-xs rounded capitalize transition-colors ${viewMode === mode ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`}
+                >
+                    {mode}
+                </button>
+            ))}
+        </div>
+        {isTree && (
+            <div className="flex items-center gap-2 text-xs">
+                <button onClick={() => setExpanded(collectContainerIds(data))} className="text-zinc-400 hover:text-zinc-200">Expand All</button>
+                <button onClick={() => setExpanded(new Set())} className="text-zinc-400 hover:text-zinc-200">Collapse All</button>
+            </div>
+        )}
+        {markupNodes && (
+            <div className="flex items-center gap-2 text-xs">
+                <button onClick={() => setCollapsed(new Set())} className="text-zinc-400 hover:text-zinc-200">Expand All</button>
+                <button onClick={() => setCollapsed(collectElementIds(markupNodes))} className="text-zinc-400 hover:text-zinc-200">Collapse All</button>
+            </div>
+        )}
+        {searchable && <div className="ml-auto flex items-center gap-1 bg-zinc-950 border border-zinc-700 rounded px-2 focus-within:border-indigo-500">
+            <Search size={12} className="text-zinc-500" />
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1); }}
+                placeholder="Search body"
+                className="w-36 bg-transparent py-1 text-xs text-zinc-200 outline-none"
+            />
+            {query && (
+                <span className="text-[10px] text-zinc-500 whitespace-nowrap">
+                    {matchCount ? `${matchIndex + 1}/${matchCount}${matchCount >= MAX_SEARCH_MATCHES ? '+' : ''}` : 'No matches'}
+                </span>
+            )}
+            <button onClick={() => stepMatch(-1)} disabled={!matchCount} className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-40" title="Previous Match (Shift+Enter)">
+                <ChevronUp size={14} />
+            </button>
+            <button onClick={() => stepMatch(1)} disabled={!matchCount} className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-40" title="Next Match (Enter)">
+                <ChevronDown size={14} />
+            </button>
+        </div>}
+    </div>
+  );
+
+  const renderQueryBar = () => {
+    const query = responseQuery || (markupKind(contentType, response.data) ? { ...DEFAULT_RESPONSE_QUERY, language: 'xpath' as const } : DEFAULT_RESPONSE_QUERY);
+    const language = QUERY_LANGUAGES.find(l => l.id === query.language) || QUERY_LANGUAGES[0];
+    return (
+        <div className="px-4 py-2 border-b border-zinc-800 shrink-0 flex flex-col gap-1">
+            <div className="flex items-center gap-2">
+                <Filter size={12} className={isQueryActive(responseQuery) ? 'text-indigo-400' : 'text-zinc-500'} />
+                <select
+                    value={query.language}
+                    onChange={(e) => onResponseQueryChange({ ...query, language: e.target.value as QueryLanguage })}
+                    className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-1 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
+                >
+                    {QUERY_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                </select>
+                <input
+                    type="text"
+                    value={query.expression}
+                    onChange={(e) => onResponseQueryChange({ ...query, expression: e.target.value })}
+                    placeholder={`Filter with ${language.label}, e.g. ${language.placeholder}`}
+                    className={`flex-1 min-w-0 bg-zinc-950 border rounded px-2 py-1 text-xs font-mono text-zinc-200 outline-none focus:border-indigo-500 ${queryResult?.error ? 'border-red-500/60' : 'border-zinc-700'}`}
+                />
+                {query.expression && (
+                    <button
+                        onClick={() => onResponseQueryChange({ ...query, expression: '' })}
+                        className="p-0.5 text-zinc-500 hover:text-zinc-200"
+                        title="Clear Query"
+                    >
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+            {queryResult?.error && (
+                <div className="flex items-center gap-1.5 text-[11px] text-red-400 font-mono">
+                    <AlertCircle size={12} className="shrink-0" />
+                    <span className="truncate" title={queryResult.error}>{queryResult.error}</span>
+                </div>
+            )}
+        </div>
+    );
+  };
+
   const renderBody = () => {
-    if (!response.data) return <span className="text-zinc-500 italic">No Content</span>;
-    
-    // Check content type to decide how to render
-    const isImage = response.contentType?.startsWith('image/');
-    if (isImage && typeof response.data === 'string') {
-        return <img src={response.data} alt="Response" className="max-w-full h-auto rounded border border-zinc-700" />;
-    }
+    if (!response.data && !binary) return <div className="p-4"><span className="text-zinc-500 italic">No Content</span></div>;
 
-    let content = response.data;
-    if (typeof content === 'object') {
-      try {
-        content = JSON.stringify(content, null, 2);
-      } catch (e) {
-        content = String(content);
-      }
+    if (viewMode === 'preview' || viewMode === 'hex') {
+        return (
+          <>
+            {renderBodyToolbar()}
+            {viewMode === 'hex' ? <HexView base64={response.bodyBase64 || ''} />
+                : preview ? <MediaPreview response={response} kind={preview} />
+                : <HtmlPreview html={data} baseUrl={requestUrl} />}
+          </>
+        );
     }
 
+    // Queries apply to JSON bodies, and XPath to XML and HTML
+    const queryable = isJsonValue(response.data) || mediaType(response.contentType || '').includes('json') || !!markupKind(contentType, response.data);
+
     return (
-      <pre className="text-xs sm:text-sm font-mono text-zinc-300 whitespace-pre-wrap break-all leading-relaxed">
-        {content}
-      </pre>
+      <>
+        {queryable && renderQueryBar()}
+        {graphqlErrors.length > 0 && (
+            <div className="px-4 py-2 border-b border-zinc-800 bg-red-500/5 flex flex-col gap-1 max-h-32 overflow-auto shrink-0">
+                {graphqlErrors.map((e, idx) => (
+                    <div key={idx} className="flex items-start gap-2 text-xs text-red-400">
+                        <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                        <span className="break-words">
+                            {e.message}
+                            {e.path && <span className="ml-2 font-mono text-zinc-500">{e.path.join('.')}</span>}
+                            {e.locations?.[0] && <span className="ml-2 font-mono text-zinc-600">{e.locations[0].line}:{e.locations[0].column}</span>}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        )}
+        {renderBodyToolbar()}
+        {parsedMarkup?.error && (
+            <div className="px-4 py-1.5 border-b border-zinc-800 text-xs text-amber-400 flex items-center gap-2 shrink-0">
+                <AlertCircle size={12} className="shrink-0" />
+                <span className="truncate" title={parsedMarkup.error}>Malformed XML, shown as text: {parsedMarkup.error}</span>
+            </div>
+        )}
+        {markupNodes && markup ? (
+            <MarkupTreeView nodes={markupNodes} kind={markup} collapsed={collapsed} onToggle={handleToggleElement} />
+        ) : isTree ? (
+            <JsonTreeView
+                data={data}
+                expanded={expanded}
+                onToggle={handleToggleNode}
+                matchIds={treeMatchIds}
+                currentMatchId={currentTreeMatch?.id || null}
+            />
+        ) : (
+            <div className="flex-1 overflow-auto p-4">
+                <pre className="text-xs sm:text-sm font-mono text-zinc-300 whitespace-pre-wrap break-all leading-relaxed">
+                    {renderText()}
+                </pre>
+            </div>
+        )}
+      </>
     );
   };
 
@@ -72,6 +361,7 @@ export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading
     const headers = Object.entries(response.headers).map(([k, v]) => `${k}: ${v}`).join('\n');
     let body = response.data;
     if (typeof body === 'object') body = JSON.stringify(body, null, 2);
+    if (binary) body = `[${response.size} of binary data, see the hex view]`;
     
     const rawString = `HTTP/1.1 ${response.status} ${response.statusText}\n${headers}\n\n${body}`;
     return (
@@ -81,6 +371,108 @@ export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading
     );
   };
 
+  // Retried attempts, then the one that produced this response
+  const renderAttempts = () => {
+    const attempts: ResponseAttempt[] = [
+        ...(response.retries || []),
+        { attempt: (response.retries?.length || 0) + 1, status: response.status, statusText: response.statusText, time: response.time, timing: response.timing, delayMs: 0, delayReason: 'backoff' },
+    ];
+    return (
+        <div className="flex flex-col text-sm">
+            {attempts.map((a, idx) => {
+                const ok = a.status >= 200 && a.status < 300;
+                const last = idx === attempts.length - 1;
+                return (
+                    <div key={a.attempt} className="border-b border-zinc-800/60 py-2">
+                        <button
+                            onClick={() => setOpenAttempt(openAttempt === a.attempt ? null : a.attempt)}
+                            disabled={!a.timing}
+                            className="w-full flex items-center gap-3 text-left disabled:cursor-default"
+                        >
+                            <span className="w-4 shrink-0 text-zinc-500">
+                                {a.timing && (openAttempt === a.attempt ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+                            </span>
+                            <span className="w-20 shrink-0 text-zinc-400">Attempt {a.attempt}</span>
+                            <span className={`font-mono ${ok ? 'text-green-400' : 'text-red-400'}`}>{a.status || ''} {a.statusText}</span>
+                            {a.error && <span className="text-xs text-zinc-500 truncate" title={a.error}>{a.error}</span>}
+                            <span className="ml-auto text-xs text-zinc-500 shrink-0">{a.time} ms</span>
+                            <span className="w-44 shrink-0 text-right text-xs text-zinc-500">
+                                {last ? 'Final' : `Waited ${(a.delayMs / 1000).toFixed(1)} s (${a.delayReason === 'retry-after' ? 'Retry-After' : 'backoff'})`}
+                            </span>
+                        </button>
+                        {openAttempt === a.attempt && a.timing && <div className="pl-7 pt-3 pb-1"><TimingWaterfall timing={a.timing} /></div>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+  };
+
+  const renderTests = () => {
+    if (!scriptResult) {
+        return <span className="text-zinc-500 italic text-sm">No scripts ran for this request. Add a post-response script in the Scripts tab to write tests.</span>;
+    }
+    const { tests, logs, errors } = scriptResult;
+    return (
+      <div className="flex flex-col gap-6">
+        {errors.length > 0 && (
+            <div className="flex flex-col gap-2">
+                {errors.map((err, idx) => (
+                    <div key={idx} className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 p-3 rounded">
+                        <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                        <div className="font-mono text-xs leading-relaxed">
+                            <div className="font-semibold">
+                                {err.phase === 'pre-request' ? 'Pre-request' : 'Post-response'} script error
+                                {err.line !== undefined && ` (line ${err.line}${err.column !== undefined ? `, column ${err.column}` : ''})`}
+                            </div>
+                            <div className="break-all">{err.message}</div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <div className="flex flex-col gap-1">
+            <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">Tests</div>
+            {tests.length === 0 ? (
+                <span className="text-zinc-600 italic text-sm">No tests declared. Use pm.test(name, fn) in the post-response script.</span>
+            ) : tests.map((t, idx) => (
+                <div key={idx} className="flex items-start gap-2 text-sm py-1">
+                    {t.passed ? <CheckCircle size={16} className="text-green-500 shrink-0 mt-0.5" /> : <XCircle size={16} className="text-red-500 shrink-0 mt-0.5" />}
+                    <div className="min-w-0">
+                        <span className={`text-[10px] font-bold mr-2 ${t.passed ? 'text-green-500' : 'text-red-500'}`}>{t.passed ? 'PASS' : 'FAIL'}</span>
+                        <span className="text-zinc-300">{t.name}</span>
+                        {t.error && (
+                            <div className="text-xs font-mono text-red-400/80 mt-0.5 break-all">
+                                {t.error}{t.line !== undefined && ` (line ${t.line})`}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+
+        {logs.length > 0 && (
+            <div className="flex flex-col gap-1">
+                <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">Console</div>
+                <div className="bg-zinc-950 border border-zinc-800 rounded p-2 font-mono text-xs flex flex-col gap-0.5">
+                    {logs.map((log, idx) => (
+                        <div key={idx} className={`whitespace-pre-wrap break-all ${logColors[log.level]}`}>
+                            <span className="text-zinc-600 select-none mr-2">{log.phase === 'pre-request' ? 'pre' : 'test'}</span>
+                            {log.message}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+      </div>
+    );
+  };
+
+  const passedCount = scriptResult?.tests.filter(t => t.passed).length || 0;
+  const testCount = scriptResult?.tests.length || 0;
+  const hasScriptErrors = !!scriptResult?.errors.length;
+
   return (
     <div className="flex flex-col h-full bg-zinc-900 border-t border-zinc-800 shadow-xl">
       {/* Header Metrics */}
@@ -92,19 +484,44 @@ export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading
                     {response.status} {response.statusText}
                 </span>
             </div>
-            <div className="flex items-center gap-2 text-zinc-400 text-xs">
+            <button
+                onClick={() => setActiveTab('timing')}
+                className="flex items-center gap-2 text-zinc-400 hover:text-zinc-200 text-xs"
+                title="Show Timing Breakdown"
+            >
                 <Clock size={14} />
                 <span>{response.time} ms</span>
-            </div>
+            </button>
             <div className="flex items-center gap-2 text-zinc-400 text-xs">
                 <Database size={14} />
                 <span>{response.size}</span>
             </div>
+            {graphqlErrors.length > 0 && (
+                <div className="flex items-center gap-1.5 text-red-400 text-xs font-medium">
+                    <XCircle size={14} />
+                    <span>{graphqlErrors.length} GraphQL {graphqlErrors.length === 1 ? 'error' : 'errors'}</span>
+                </div>
+            )}
+            {loading && (
+                <div className="flex items-center gap-2 text-indigo-400 text-xs">
+                    <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse" />
+                    <span>Streaming</span>
+                </div>
+            )}
         </div>
       </div>
 
       {/* Tabs */}
       <div className="flex border-b border-zinc-800 px-2 bg-zinc-900/50">
+        {response.events && (
+            <button
+                onClick={() => setActiveTab('events')}
+                className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'events' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+            >
+                Events
+                <span className="ml-1 text-[10px] bg-zinc-800 px-1.5 rounded-full text-zinc-300">{response.events.length}</span>
+            </button>
+        )}
         <button
             onClick={() => setActiveTab('body')}
             className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'body' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
@@ -117,27 +534,88 @@ export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, loading
         >
             Headers
         </button>
+        <button
+            onClick={() => setActiveTab('timing')}
+            className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'timing' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+        >
+            Timing
+        </button>
+        {response.retries && (
+            <button
+                onClick={() => setActiveTab('attempts')}
+                className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'attempts' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+            >
+                Attempts
+                <span className="ml-1 text-[10px] bg-amber-500/20 text-amber-400 px-1.5 rounded-full">{response.retries.length + 1}</span>
+            </button>
+        )}
         <button
             onClick={() => setActiveTab('raw')}
             className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'raw' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
         >
             Raw
         </button>
-        <div className="ml-auto flex items-center pr-2">
-            <button 
+        <button
+            onClick={() => setActiveTab('tests')}
+            className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'tests' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+        >
+            Tests
+            {testCount > 0 && (
+                <span className={`ml-1 text-[10px] px-1.5 rounded-full ${passedCount === testCount ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                    {passedCount}/{testCount}
+                </span>
+            )}
+            {hasScriptErrors && <AlertCircle size={12} className="inline ml-1 text-red-400" />}
+        </button>
+        <button
+            onClick={() => setActiveTab('diff')}
+            className={`px-4 py-2 text-sm border-b-2 transition-colors ${activeTab === 'diff' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-zinc-400 hover:text-zinc-200'}`}
+        >
+            Diff
+        </button>
+        <div className="ml-auto flex items-center gap-3 pr-2">
+            <button
+                onClick={onPin}
+                className="text-zinc-500 hover:text-zinc-300 transition-colors"
+                title="Pin as Baseline"
+            >
+                <Pin size={16} />
+            </button>
+            <button
+                onClick={onMock}
+                className="text-zinc-500 hover:text-zinc-300 transition-colors"
+                title="Create Mock from Response"
+            >
+                <ServerCog size={16} />
+            </button>
+            <button
+                onClick={handleDownload}
+                className="text-zinc-500 hover:text-zinc-300 transition-colors"
+                title="Save Response to File"
+            >
+                <Download size={16} />
+            </button>
+            {!binary && <button 
                 onClick={handleCopy}
                 className="text-zinc-500 hover:text-zinc-300 transition-colors"
                 title="Copy Response"
             >
                 {copied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
-            </button>
+            </button>}
         </div>
       </div>
 
       {/* Content */}
-      <div className="flex-1 overflow-auto p-4 bg-zinc-950/30">
+      <div className={`flex-1 bg-zinc-950/30 ${activeTab === 'body' || activeTab === 'events' ? 'flex flex-col overflow-hidden' : 'overflow-auto p-4'}`}>
+        {activeTab === 'events' && response.events && <SseTimeline events={response.events} streaming={loading} />}
         {activeTab === 'body' && renderBody()}
+        {activeTab === 'timing' && (response.timing
+            ? <TimingWaterfall timing={response.timing} />
+            : <span className="text-zinc-500 italic text-sm">No timing breakdown was recorded for this response.</span>)}
+        {activeTab === 'attempts' && renderAttempts()}
         {activeTab === 'raw' && renderRaw()}
+        {activeTab === 'tests' && renderTests()}
+        {activeTab === 'diff' && <ResponseDiffView current={response} snapshots={snapshots} defaultBaselineId={baselineId} onDeleteSnapshot={onDeleteSnapshot} />}
         {activeTab === 'headers' && (
             <div className="grid grid-cols-[auto_1fr] gap-x-8 gap-y-2 text-sm font-mono">
                 {Object.entries(response.headers).map(([key, value]) => (
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Play, Square, Upload, FileJson, FileCode, ChevronUp, ChevronDown, CheckCircle, XCircle, AlertCircle, Clock } from 'lucide-react';
+import { AppSettings, Collection, EnvironmentStore } from '../types';
+import { RunnerSource, RunnerItem, RunEntry, RunReport, runRequests, parseDataFile, entryFailed, toJsonReport, toJUnitXml } from '../utils/runner';
+import { getScriptVariables, ScriptVariables, VariableValues } from '../utils/scripts';
+import { downloadFile, toSafeFilename } from '../utils/download';
+import { methodLabel } from '../utils/request';
+
+interface RunnerModalProps {
+  source: RunnerSource | null;
+  onClose: () => void;
+  settings: AppSettings;
+  envStore: EnvironmentStore;
+  collections: Collection[];
+  onVariablesChange: (variables: ScriptVariables, collectionId: string | null) => void;
+}
+
+const methodColors: Record<string, string> = {
+  GET: 'text-green-400',
+  POST: 'text-yellow-400',
+  PUT: 'text-blue-400',
+  DELETE: 'text-red-400',
+  PATCH: 'text-purple-400',
+  WS: 'text-cyan-400',
+};
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(2)} KB`;
+
+export const RunnerModal: React.FC<RunnerModalProps> = ({ source, onClose, settings, envStore, collections, onVariablesChange }) => {
+  const [items, setItems] = useState<(RunnerItem & { selected: boolean })[]>([]);
+  const [iterations, setIterations] = useState(1);
+  const [delayMs, setDelayMs] = useState(0);
+  const [stopOnFailure, setStopOnFailure] = useState(false);
+  const [data, setData] = useState<VariableValues[]>([]);
+  const [dataFileName, setDataFileName] = useState<string | null>(null);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<RunEntry[]>([]);
+  const [report, setReport] = useState<RunReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // The run outlives the render that started it; always report to the latest handler
+  const onVariablesChangeRef = useRef(onVariablesChange);
+  onVariablesChangeRef.current = onVariablesChange;
+
+  useEffect(() => {
+    if (source) {
+        setItems(source.items.map(item => ({ ...item, selected: true })));
+        setEntries([]);
+        setReport(null);
+    }
+  }, [source]);
+
+  if (!source) return null;
+
+  const selectedItems = items.filter(i => i.selected);
+  const totalRequests = selectedItems.length * Math.max(1, iterations);
+
+  const moveItem = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+  };
+
+  const handleDataFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+        try {
+            const rows = parseDataFile(text);
+            setData(rows);
+            setDataFileName(file.name);
+            setDataError(null);
+            if (rows.length) setIterations(rows.length);
+        } catch (err: any) {
+            setDataError(err.message);
+        }
+    });
+  };
+
+  const clearData = () => {
+    setData([]);
+    setDataFileName(null);
+    setDataError(null);
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setEntries([]);
+    setReport(null);
+
+    const result = await runRequests(
+        source.name,
+        selectedItems.map(({ selected, ...item }) => item),
+        { iterations, data, delayMs, stopOnFailure },
+        settings,
+        getScriptVariables(envStore, collections, source.collectionId),
+        controller.signal,
+        entry => setEntries(prev => [...prev, entry])
+    );
+
+    onVariablesChangeRef.current(result.variables, source.collectionId);
+    setReport(result.report);
+    setRunning(false);
+    controllerRef.current = null;
+  };
+
+  const handleStop = () => controllerRef.current?.abort();
+
+  const handleClose = () => {
+    handleStop();
+    onClose();
+  };
+
+  const exportReport = (format: 'json' | 'junit') => {
+    if (!report) return;
+    const base = `${toSafeFilename(report.name)}-run-${new Date(report.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    if (format === 'json') downloadFile(`${base}.json`, toJsonReport(report));
+    else downloadFile(`${base}.xml`, toJUnitXml(report), 'application/xml');
+  };
+
+  const testsTotal = entries.reduce((n, e) => n + e.tests.length, 0);
+  const testsPassed = entries.reduce((n, e) => n + e.tests.filter(t => t.passed).length, 0);
+  const failedRequests = entries.filter(entryFailed).length;
+  const iterationsShown = Array.from(new Set<number>(entries.map(e => e.iteration)));
+
+  const inputClass = "w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-200 focus:border-indigo-500 outline-none disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[1100px] max-w-[95vw] flex flex-col h-[85vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100 truncate">Runner: {source.name}</h2>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Configuration */}
+          <div className="w-80 border-r border-zinc-800 flex flex-col overflow-hidden">
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-5">
+                <div className="flex flex-col gap-1">
+                    <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">
+                        Requests ({selectedItems.length}/{items.length})
+                    </div>
+                    {items.map((item, idx) => (
+                        <div key={`${item.id}-${idx}`} className="flex items-center gap-2 group">
+                            <input
+                                type="checkbox"
+                                checked={item.selected}
+                                disabled={running}
+                                onChange={(e) => setItems(items.map((it, i) => i === idx ? { ...it, selected: e.target.checked } : it))}
+                                className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                            />
+                            <span className={`text-[10px] font-bold w-10 shrink-0 ${methodColors[methodLabel(item.request)] || 'text-zinc-400'}`}>{methodLabel(item.request)}</span>
+                            <span className="text-sm text-zinc-300 truncate flex-1" title={item.request.url}>{item.name}</span>
+                            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => moveItem(idx, -1)} disabled={running} className="p-0.5 text-zinc-500 hover:text-zinc-200" title="Move Up"><ChevronUp size={12} /></button>
+                                <button onClick={() => moveItem(idx, 1)} disabled={running} className="p-0.5 text-zinc-500 hover:text-zinc-200" title="Move Down"><ChevronDown size={12} /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="flex flex-col gap-1">
+                        <label className="text-xs font-medium text-zinc-400">Iterations</label>
+                        <input type="number" min={1} value={iterations} disabled={running} onChange={(e) => setIterations(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} />
+                    </div>
+                    <div className="flex flex-col gap-1">
+                        <label className="text-xs font-medium text-zinc-400">Delay (ms)</label>
+                        <input type="number" min={0} step={100} value={delayMs} disabled={running} onChange={(e) => setDelayMs(Math.max(0, parseInt(e.target.value) || 0))} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-zinc-400">Data File</label>
+                    <div className="flex items-center gap-2">
+                        <label className={`flex-1 flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors cursor-pointer truncate ${running ? 'opacity-50 pointer-events-none' : ''}`}>
+                            <Upload size={14} className="shrink-0" />
+                            <span className="truncate">{dataFileName || 'Choose CSV or JSON'}</span>
+                            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleDataFile} />
+                        </label>
+                        {dataFileName && !running && (
+                            <button onClick={clearData} className="p-1.5 text-zinc-500 hover:text-red-400 transition-colors" title="Remove Data File"><X size={14} /></button>
+                        )}
+                    </div>
+                    {dataError && <span className="text-xs text-red-400">{dataError}</span>}
+                    {dataFileName && !dataError && (
+                        <span className="text-xs text-zinc-500">
+                            {data.length} row(s), variables: {Object.keys(data[0] || {}).join(', ') || 'none'}
+                        </span>
+                    )}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={stopOnFailure}
+                        disabled={running}
+                        onChange={(e) => setStopOnFailure(e.target.checked)}
+                        className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 cursor-pointer"
+                    />
+                    Stop on first failure
+                </label>
+            </div>
+
+            <div className="p-4 border-t border-zinc-800">
+                {running ? (
+                    <button onClick={handleStop} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-medium rounded transition-colors">
+                        <Square size={14} fill="currentColor" />
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleRun}
+                        disabled={selectedItems.length === 0}
+                        className={`w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded transition-colors ${selectedItems.length ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-zinc-700 text-zinc-500 cursor-not-allowed'}`}
+                    >
+                        <Play size={14} fill="currentColor" />
+                        Run {totalRequests} request{totalRequests === 1 ? '' : 's'}
+                    </button>
+                )}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex items-center gap-6 px-4 py-3 border-b border-zinc-800 text-xs">
+                <span className="text-zinc-400">{entries.length}/{totalRequests} requests</span>
+                <span className={failedRequests ? 'text-red-400' : 'text-zinc-400'}>{failedRequests} failed</span>
+                <span className={testsPassed === testsTotal ? 'text-green-400' : 'text-red-400'}>{testsPassed}/{testsTotal} tests passed</span>
+                {report && (
+                    <span className="flex items-center gap-1 text-zinc-400">
+                        <Clock size={12} />
+                        {report.duration} ms{report.stopped ? ' (stopped)' : ''}
+                    </span>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                    <button
+                        onClick={() => exportReport('json')}
+                        disabled={!report}
+                        className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <FileJson size={12} />
+                        JSON
+                    </button>
+                    <button
+                        onClick={() => exportReport('junit')}
+                        disabled={!report}
+                        className="flex items-center gap-1.5 px-2.5 py-1 text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <FileCode size={12} />
+                        JUnit XML
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {entries.length === 0 && !running && (
+                    <div className="p-8 text-center text-zinc-600 text-sm">Configure the run and press Run. Results appear here as each request finishes.</div>
+                )}
+                {iterationsShown.map(iteration => (
+                    <div key={iteration}>
+                        {(iterations > 1 || data.length > 0) && (
+                            <div className="px-4 py-1.5 text-[10px] font-bold uppercase tracking-wider text-zinc-500 bg-zinc-950/50 border-b border-zinc-800">
+                                Iteration {iteration + 1}
+                            </div>
+                        )}
+                        {entries.filter(e => e.iteration === iteration).map((entry, idx) => {
+                            const failed = entryFailed(entry);
+                            return (
+                                <div key={idx} className="px-4 py-2 border-b border-zinc-800/50">
+                                    <div className="flex items-center gap-3 text-sm">
+                                        {failed ? <XCircle size={14} className="text-red-500 shrink-0" /> : <CheckCircle size={14} className="text-green-500 shrink-0" />}
+                                        <span className={`text-[10px] font-bold w-12 shrink-0 ${methodColors[entry.method] || 'text-zinc-400'}`}>{entry.method}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-zinc-200 truncate">{entry.name}</div>
+                                            <div className="text-[11px] text-zinc-500 font-mono truncate" title={entry.url}>{entry.url}</div>
+                                        </div>
+                                        <span className={`font-mono text-xs ${entry.status >= 200 && entry.status < 300 ? 'text-green-400' : 'text-red-400'}`}>
+                                            {entry.status ? `${entry.status} ${entry.statusText}` : '—'}
+                                        </span>
+                                        {entry.retries && <span className="text-[10px] text-amber-400 shrink-0" title="Attempts retried before this result">{entry.retries} {entry.retries === 1 ? 'retry' : 'retries'}</span>}
+                                        <span className="text-xs text-zinc-500 w-16 text-right">{entry.time} ms</span>
+                                        <span className="text-xs text-zinc-500 w-20 text-right">{formatSize(entry.size)}</span>
+                                    </div>
+                                    {(entry.tests.length > 0 || entry.errors.length > 0 || entry.error) && (
+                                        <div className="pl-20 mt-1 flex flex-col gap-0.5">
+                                            {entry.error && (
+                                                <div className="flex items-center gap-1.5 text-xs text-red-400"><AlertCircle size={12} />{entry.error}</div>
+                                            )}
+                                            {entry.errors.map((err, i) => (
+                                                <div key={i} className="flex items-center gap-1.5 text-xs text-red-400 font-mono">
+                                                    <AlertCircle size={12} className="shrink-0" />
+                                                    {err.phase} script: {err.message}{err.line !== undefined && ` (line ${err.line})`}
+                                                </div>
+                                            ))}
+                                            {entry.tests.map((t, i) => (
+                                                <div key={i} className={`text-xs ${t.passed ? 'text-zinc-400' : 'text-red-400'}`}>
+                                                    <span className={`text-[10px] font-bold mr-2 ${t.passed ? 'text-green-500' : 'text-red-500'}`}>{t.passed ? 'PASS' : 'FAIL'}</span>
+                                                    {t.name}
+                                                    {t.error && <span className="font-mono text-red-400/80"> — {t.error}</span>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+                {running && (
+                    <div className="flex items-center gap-2 px-4 py-3 text-xs text-zinc-500">
+                        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-indigo-500"></div>
+                        Running...
+                    </div>
+                )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { X, Library, Folder, Save } from 'lucide-react';
+import { Collection, CollectionItem } from '../types';
+
+interface SaveRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultName: string;
+  collections: Collection[];
+  // containerId is a collection or folder id; newCollectionName is set when the user creates a collection here
+  onSave: (name: string, containerId: string | null, newCollectionName?: string) => void;
+}
+
+const NEW_COLLECTION = '__new__';
+
+export const SaveRequestModal: React.FC<SaveRequestModalProps> = ({ isOpen, onClose, defaultName, collections, onSave }) => {
+  const [name, setName] = useState(defaultName);
+  const [containerId, setContainerId] = useState<string>(NEW_COLLECTION);
+  const [newCollectionName, setNewCollectionName] = useState('My Collection');
+
+  useEffect(() => {
+    if (isOpen) {
+        setName(defaultName);
+        setContainerId(collections[0]?.id || NEW_COLLECTION);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const containers: { id: string; name: string; depth: number; isFolder: boolean }[] = [];
+  const walk = (items: CollectionItem[], depth: number) => {
+    items.forEach(item => {
+        if (item.type !== 'folder') return;
+        containers.push({ id: item.id, name: item.name, depth, isFolder: true });
+        walk(item.items, depth + 1);
+    });
+  };
+  collections.forEach(col => {
+    containers.push({ id: col.id, name: col.name, depth: 0, isFolder: false });
+    walk(col.items, 1);
+  });
+
+  const canSave = name.trim() && (containerId !== NEW_COLLECTION || newCollectionName.trim());
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (containerId === NEW_COLLECTION) {
+        onSave(name.trim(), null, newCollectionName.trim());
+    } else {
+        onSave(name.trim(), containerId);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[480px] max-w-[90vw] flex flex-col max-h-[80vh] overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
+          <h2 className="text-lg font-semibold text-zinc-100">Save Request</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 overflow-y-auto">
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Request Name</label>
+                <input
+                    autoFocus
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                    className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium text-zinc-300">Save to</label>
+                <div className="flex flex-col border border-zinc-800 rounded bg-zinc-950 max-h-60 overflow-y-auto py-1">
+                    {containers.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => setContainerId(c.id)}
+                            style={{ paddingLeft: `${c.depth * 16 + 12}px` }}
+                            className={`flex items-center gap-2 pr-3 py-1.5 text-sm text-left transition-colors ${containerId === c.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                        >
+                            {c.isFolder ? <Folder size={14} /> : <Library size={14} />}
+                            <span className="truncate">{c.name}</span>
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => setContainerId(NEW_COLLECTION)}
+                        className={`flex items-center gap-2 px-3 py-1.5 text-sm text-left transition-colors ${containerId === NEW_COLLECTION ? 'bg-indigo-500/10 text-indigo-300' : 'text-zinc-500 hover:bg-zinc-800'}`}
+                    >
+                        <Library size={14} />
+                        <span>+ New Collection</span>
+                    </button>
+                </div>
+                {containerId === NEW_COLLECTION && (
+                    <input
+                        type="text"
+                        value={newCollectionName}
+                        onChange={(e) => setNewCollectionName(e.target.value)}
+                        placeholder="Collection name"
+                        className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                    />
+                )}
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex justify-end gap-2">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-zinc-400 hover:text-zinc-200 text-sm font-medium rounded transition-colors"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={handleSave}
+                disabled={!canSave}
+                className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded transition-colors ${canSave ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-zinc-700 text-zinc-500 cursor-not-allowed'}`}
+            >
+                <Save size={14} />
+                Save
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState, useRef } from 'react';
+import { RequestState, ScriptPhase } from '../types';
+import { hasScript } from '../utils/scripts';
+
+interface ScriptEditorProps {
+  request: RequestState;
+  onChange: (req: RequestState) => void;
+}
+
+const SNIPPETS: Record<ScriptPhase, { label: string; code: string }[]> = {
+  'pre-request': [
+    { label: 'Set an environment variable', code: "pm.environment.set('name', 'value');" },
+    { label: 'Set a local variable', code: "pm.variables.set('timestamp', Date.now().toString());" },
+    { label: 'Add a header', code: "pm.request.headers.upsert({ key: 'X-Request-Id', value: Date.now().toString() });" },
+    { label: 'HMAC signature (CryptoJS)', code: "const sign = CryptoJS.HmacSHA256(pm.request.url, pm.variables.get('secret')).toString();\npm.request.headers.upsert({ key: 'X-Signature', value: sign });" },
+  ],
+  'test': [
+    { label: 'Status code is 200', code: "pm.test('Status code is 200', () => {\n  pm.response.to.have.status(200);\n});" },
+    { label: 'Response time is below 500ms', code: "pm.test('Response time is below 500ms', () => {\n  pm.expect(pm.response.responseTime).to.be.below(500);\n});" },
+    { label: 'JSON value check', code: "pm.test('Body has id', () => {\n  const json = pm.response.json();\n  pm.expect(json).to.have.property('id');\n});" },
+    { label: 'Header is present', code: "pm.test('Content-Type is present', () => {\n  pm.response.to.have.header('Content-Type');\n});" },
+    { label: 'Save a value from the response', code: "pm.environment.set('token', pm.response.json().token);" },
+  ],
+};
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ request, onChange }) => {
+  const [phase, setPhase] = useState<ScriptPhase>('pre-request');
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const field = phase === 'pre-request' ? 'preRequestScript' : 'testScript';
+  const code = request[field] || '';
+  const lineCount = code.split('\n').length;
+
+  const insertSnippet = (snippet: string) => {
+    onChange({ ...request, [field]: code.trim() ? `${code.replace(/\s*$/, '')}\n\n${snippet}\n` : `${snippet}\n` });
+  };
+
+  const phaseClass = (id: ScriptPhase) =>
+    `px-3 py-1 text-xs rounded transition-colors ${phase === id ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`;
+
+  return (
+    <div className="h-full flex gap-4">
+      <div className="flex-1 flex flex-col gap-2 min-w-0">
+        <div className="flex items-center gap-1 bg-zinc-800/50 rounded p-0.5 self-start">
+            <button onClick={() => setPhase('pre-request')} className={phaseClass('pre-request')}>
+                Pre-request {hasScript(request.preRequestScript) && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-green-500 align-middle" />}
+            </button>
+            <button onClick={() => setPhase('test')} className={phaseClass('test')}>
+                Post-response {hasScript(request.testScript) && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-green-500 align-middle" />}
+            </button>
+        </div>
+        <div className="flex-1 flex bg-zinc-950 border border-zinc-800 rounded overflow-hidden focus-within:border-indigo-500/50 min-h-[200px]">
+            {/* Line numbers, so script errors can be located */}
+            <div ref={gutterRef} className="py-3 px-2 text-right font-mono text-sm leading-relaxed text-zinc-600 select-none overflow-hidden bg-zinc-900/50">
+                {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+            </div>
+            <textarea
+                value={code}
+                onChange={(e) => onChange({ ...request, [field]: e.target.value })}
+                onScroll={(e) => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+                spellCheck={false}
+                placeholder={phase === 'pre-request'
+                    ? '// Runs before the request is sent\npm.variables.set("timestamp", Date.now());'
+                    : '// Runs after the response is received\npm.test("Status code is 200", () => {\n  pm.response.to.have.status(200);\n});'}
+                className="flex-1 py-3 px-3 bg-transparent font-mono text-sm text-zinc-300 outline-none resize-none leading-relaxed whitespace-pre"
+            />
+        </div>
+      </div>
+
+      <div className="w-48 shrink-0 flex flex-col gap-1 overflow-y-auto">
+        <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Snippets</div>
+        {SNIPPETS[phase].map(s => (
+            <button
+                key={s.label}
+                onClick={() => insertSnippet(s.code)}
+                className="text-left text-xs text-indigo-400 hover:text-indigo-300 hover:bg-zinc-800 rounded px-2 py-1 transition-colors"
+            >
+                {s.label}
+            </button>
+        ))}
+        <p className="mt-3 text-[11px] text-zinc-600 leading-relaxed">
+            Scripts run in a sandboxed worker with the <code className="text-zinc-400">pm</code> API: request, response, variables, environment, globals, collectionVariables, test and expect.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import React from 'react';
-import { X, Globe, Lock, ShieldCheck, Plus, Trash2, List, Key } from 'lucide-react';
-import { AppSettings, KeyValue } from '../types';
+import React, { useState } from 'react';
+import { X, Globe, Lock, ShieldCheck, Plus, Trash2, List, Key, Copy, ChevronDown, ChevronRight, History, Timer } from 'lucide-react';
+import { AppSettings, HistoryRetention, SigningProfile } from '../types';
+import { generateId } from '../utils/collections';
+import { createSigningProfile, createCloudDocsProfile } from '../utils/signing';
+import { SigningProfileEditor } from './SigningProfileEditor';
+import { RequestPolicyEditor } from './RequestPolicyEditor';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,12 +14,29 @@ interface SettingsModalProps {
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
   if (!isOpen) return null;
 
   const handleChange = (field: keyof AppSettings, value: any) => {
     onSave({ ...settings, [field]: value });
   };
 
+  const addProfile = (profile: SigningProfile) => {
+    handleChange('signingProfiles', [...settings.signingProfiles, profile]);
+    setExpandedId(profile.id);
+  };
+
+  const removeProfile = (id: string) => {
+    const profile = settings.signingProfiles.find(p => p.id === id);
+    if (!window.confirm(`Delete signing profile "${profile?.name || 'Untitled'}"?`)) return;
+    onSave({
+        ...settings,
+        signingProfiles: settings.signingProfiles.filter(p => p.id !== id),
+        defaultSigningProfileId: settings.defaultSigningProfileId === id ? null : settings.defaultSigningProfileId,
+    });
+  };
+
   const updateGlobalHeader = (id: string, field: 'key' | 'value' | 'enabled', value: any) => {
     const list = settings.globalHeaders.map(item => item.id === id ? { ...item, [field]: value } : item);
     // Add new empty row if last one is modified
@@ -38,7 +59,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
-      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[600px] max-w-[90vw] flex flex-col max-h-[90vh] overflow-hidden">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl w-[760px] max-w-[90vw] flex flex-col max-h-[90vh] overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900">
           <h2 className="text-lg font-semibold text-zinc-100">Settings</h2>
@@ -107,54 +128,121 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
             )}
           </div>
 
-           {/* Cloud Docs Mode */}
+           {/* Request Signing */}
            <div className="flex flex-col gap-4">
                 <div className="flex items-center justify-between border-b border-zinc-800 pb-2">
                     <div className="flex items-center gap-2 text-indigo-400 font-medium">
                         <Key size={18} />
-                        <span>Cloud Docs Mode</span>
+                        <span>Request Signing</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button onClick={() => addProfile(createCloudDocsProfile())} className="text-xs text-zinc-400 hover:text-zinc-200">
+                            + Cloud Docs preset
+                        </button>
+                        <button onClick={() => addProfile(createSigningProfile())} className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300">
+                            <Plus size={12} /> New Profile
+                        </button>
                     </div>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                        <input 
-                            type="checkbox" 
-                            checked={settings.cloudDocsMode || false} 
-                            onChange={(e) => handleChange('cloudDocsMode', e.target.checked)}
-                            className="sr-only peer" 
-                        />
-                        <div className="w-9 h-5 bg-zinc-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-indigo-600"></div>
-                    </label>
                 </div>
                 
                 <p className="text-xs text-zinc-500 leading-relaxed">
-                    Automatically inject authentication headers (x-appid, x-sign, etc.) for Cloud Docs API requests.
+                    Signing profiles compute a signature for each request and inject it as headers. Requests use the default profile unless they pick another one in their Auth tab.
                 </p>
 
-                {settings.cloudDocsMode && (
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2 duration-200">
-                        <div className="flex flex-col gap-2">
-                            <label className="text-sm font-medium text-zinc-300">App ID</label>
-                            <input
-                                type="text"
-                                value={settings.cloudDocsAppId || ''}
-                                onChange={(e) => handleChange('cloudDocsAppId', e.target.value)}
-                                placeholder="Enter App ID"
-                                className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
-                            />
+                <div className="flex items-center gap-3">
+                    <label className="text-sm font-medium text-zinc-300">Default Profile</label>
+                    <select
+                        value={settings.defaultSigningProfileId || ''}
+                        onChange={(e) => handleChange('defaultSigningProfileId', e.target.value || null)}
+                        className="bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                    >
+                        <option value="">None (requests are not signed)</option>
+                        {settings.signingProfiles.map(p => <option key={p.id} value={p.id}>{p.name || 'Untitled'}</option>)}
+                    </select>
+                </div>
+
+                {settings.signingProfiles.map(profile => (
+                    <div key={profile.id} className="flex flex-col gap-2">
+                        <div className="flex items-center gap-2 group">
+                            <button
+                                onClick={() => setExpandedId(expandedId === profile.id ? null : profile.id)}
+                                className="flex-1 flex items-center gap-2 text-left text-sm text-zinc-300 hover:text-zinc-100"
+                            >
+                                {expandedId === profile.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                {profile.name || 'Untitled'}
+                                <span className="text-[10px] text-zinc-500 bg-zinc-800 px-1.5 rounded">{profile.algorithm}</span>
+                                {settings.defaultSigningProfileId === profile.id && <span className="text-[10px] text-indigo-400">default</span>}
+                            </button>
+                            <button
+                                onClick={() => addProfile({ ...profile, id: generateId(), name: `${profile.name} Copy` })}
+                                className="p-1 text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title="Duplicate"
+                            >
+                                <Copy size={14} />
+                            </button>
+                            <button
+                                onClick={() => removeProfile(profile.id)}
+                                className="p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title="Delete"
+                            >
+                                <Trash2 size={14} />
+                            </button>
                         </div>
-                        <div className="flex flex-col gap-2">
-                            <label className="text-sm font-medium text-zinc-300">Secure Key</label>
-                            <input
-                                type="password"
-                                value={settings.cloudDocsSecureKey || ''}
-                                onChange={(e) => handleChange('cloudDocsSecureKey', e.target.value)}
-                                placeholder="Enter Secure Key"
-                                className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none font-mono"
+                        {expandedId === profile.id && (
+                            <SigningProfileEditor
+                                profile={profile}
+                                onChange={(updated) => handleChange('signingProfiles', settings.signingProfiles.map(p => p.id === updated.id ? updated : p))}
                             />
-                        </div>
+                        )}
                     </div>
-                )}
+                ))}
            </div>
 
+          {/* History */}
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center gap-2 text-indigo-400 font-medium border-b border-zinc-800 pb-2">
+                <History size={18} />
+                <span>History</span>
+            </div>
+
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              Each history entry keeps its response. Older entries are dropped once a limit is reached; pinned entries are always kept. Use 0 for no limit.
+            </p>
+
+            <div className="grid grid-cols-3 gap-4">
+                {([
+                    ['maxEntries', 'Max Entries'],
+                    ['maxAgeDays', 'Max Age (days)'],
+                    ['maxSizeMB', 'Max Total Size (MB)'],
+                ] as [keyof HistoryRetention, string][]).map(([field, label]) => (
+                    <div key={field} className="flex flex-col gap-2">
+                        <label className="text-sm font-medium text-zinc-300">{label}</label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={settings.historyRetention[field]}
+                            onChange={(e) => handleChange('historyRetention', { ...settings.historyRetention, [field]: Math.max(0, Number(e.target.value) || 0) })}
+                            className="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 outline-none"
+                        />
+                    </div>
+                ))}
+            </div>
+          </div>
+
+          {/* Timeouts & Retries */}
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center gap-2 text-indigo-400 font-medium border-b border-zinc-800 pb-2">
+                <Timer size={18} />
+                <span>Timeouts & Retries</span>
+            </div>
+
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              Defaults for requests that do not set their own in the request's Settings tab. Streamed responses only time out until their headers arrive.
+            </p>
+
+            <RequestPolicyEditor policy={settings.requestPolicy} onChange={(policy) => handleChange('requestPolicy', policy)} />
+          </div>
+
           {/* Global Headers */}
           <div className="flex flex-col gap-4">
             <div className="flex items-center gap-2 text-indigo-400 font-medium border-b border-zinc-800 pb-2">
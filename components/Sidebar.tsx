@@ -1,6 +1,10 @@
-import React from 'react';
-import { History, Trash2, Search, Pin, PinOff, X } from 'lucide-react';
-import { HistoryItem } from '../types';
+import React, { useState } from 'react';
+import { History, Trash2, Search, Pin, PinOff, X, Library, ListChecks, Play, ServerCog } from 'lucide-react';
+import { HistoryItem, Collection, CollectionRequest } from '../types';
+import { historyRequest } from '../utils/history';
+import { CollectionsTree } from './CollectionsTree';
+import { RunnerSource } from '../utils/runner';
+import { methodLabel } from '../utils/request';
 
 interface SidebarProps {
   history: HistoryItem[];
@@ -9,6 +13,12 @@ interface SidebarProps {
   onTogglePin: (id: string, e: React.MouseEvent) => void;
   onDelete: (id: string, e: React.MouseEvent) => void;
   isOpen: boolean;
+  collections: Collection[];
+  activeSavedId: string | null;
+  onCollectionsChange: (collections: Collection[]) => void;
+  onOpenSaved: (item: CollectionRequest) => void;
+  onRun: (source: RunnerSource) => void;
+  onMock: (id: string, e: React.MouseEvent) => void; // Turns the entry's response into a mock rule
 }
 
 const methodColors: Record<string, string> = {
@@ -17,9 +27,14 @@ const methodColors: Record<string, string> = {
   PUT: 'text-blue-400',
   DELETE: 'text-red-400',
   PATCH: 'text-purple-400',
+  WS: 'text-cyan-400',
 };
 
-export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, onTogglePin, onDelete, isOpen }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, onTogglePin, onDelete, isOpen, collections, activeSavedId, onCollectionsChange, onOpenSaved, onRun, onMock }) => {
+  const [activeTab, setActiveTab] = useState<'history' | 'collections'>('history');
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
   if (!isOpen) return null;
 
   // Sort: Pinned first, then by timestamp desc
@@ -29,22 +44,76 @@ export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, on
     return b.timestamp - a.timestamp;
   });
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleRunSelected = () => {
+    // Replay in the order the requests were originally sent
+    const items = history
+        .filter(item => selectedIds.includes(item.id))
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(item => ({ id: item.id, name: `${methodLabel(item)} ${item.url.replace(/^https?:\/\//, '')}`, request: historyRequest(item) }));
+    onRun({ name: `History (${items.length} requests)`, items, collectionId: null });
+    stopSelecting();
+  };
+
   return (
     <div className="w-72 bg-zinc-900 border-r border-zinc-800 flex flex-col h-full shrink-0 transition-all duration-300">
-      <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
-        <div className="flex items-center gap-2 text-zinc-100 font-semibold">
-          <History size={18} />
-          <span>History</span>
+      <div className="px-2 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex">
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`flex items-center gap-2 px-3 py-3 text-sm font-semibold border-b-2 transition-colors ${activeTab === 'history' ? 'border-indigo-500 text-zinc-100' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}
+          >
+            <History size={16} />
+            <span>History</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('collections')}
+            className={`flex items-center gap-2 px-3 py-3 text-sm font-semibold border-b-2 transition-colors ${activeTab === 'collections' ? 'border-indigo-500 text-zinc-100' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}
+          >
+            <Library size={16} />
+            <span>Collections</span>
+          </button>
         </div>
-        <button 
-          onClick={onClear}
-          className="text-zinc-500 hover:text-red-400 transition-colors p-1 rounded hover:bg-zinc-800"
-          title="Clear All History"
-        >
-          <Trash2 size={16} />
-        </button>
+        {activeTab === 'history' && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+              className={`transition-colors p-1 rounded hover:bg-zinc-800 ${selecting ? 'text-indigo-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+              title="Select Requests to Run"
+            >
+              <ListChecks size={16} />
+            </button>
+            <button 
+              onClick={onClear}
+              className="text-zinc-500 hover:text-red-400 transition-colors p-1 rounded hover:bg-zinc-800"
+              title="Clear All History"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
       </div>
 
+      {activeTab === 'collections' ? (
+        <div className="flex-1 overflow-y-auto">
+          <CollectionsTree
+            collections={collections}
+            activeRequestId={activeSavedId}
+            onChange={onCollectionsChange}
+            onOpen={onOpenSaved}
+            onRun={onRun}
+          />
+        </div>
+      ) : (
+      <>
       <div className="p-2">
          <div className="relative">
             <Search className="absolute left-2 top-2.5 text-zinc-500" size={14} />
@@ -66,12 +135,20 @@ export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, on
             {sortedHistory.map((item) => (
               <button
                 key={item.id}
-                onClick={() => onSelect(item)}
-                className="flex flex-col gap-1 p-3 hover:bg-zinc-800 border-l-2 border-transparent hover:border-indigo-500 text-left transition-all group relative"
+                onClick={() => selecting ? toggleSelected(item.id) : onSelect(item)}
+                className={`flex flex-col gap-1 p-3 hover:bg-zinc-800 border-l-2 hover:border-indigo-500 text-left transition-all group relative ${selecting && selectedIds.includes(item.id) ? 'bg-zinc-800/60 border-indigo-500' : 'border-transparent'}`}
               >
                 <div className="flex items-center gap-2 w-full pr-8">
-                  <span className={`text-xs font-bold w-12 ${methodColors[item.method] || 'text-zinc-400'}`}>
-                    {item.method}
+                  {selecting && (
+                    <input
+                        type="checkbox"
+                        readOnly
+                        checked={selectedIds.includes(item.id)}
+                        className="rounded bg-zinc-800 border-zinc-600 text-indigo-500 focus:ring-0 pointer-events-none"
+                    />
+                  )}
+                  <span className={`text-xs font-bold w-12 ${methodColors[methodLabel(item)] || 'text-zinc-400'}`}>
+                    {methodLabel(item)}
                   </span>
                   <span className="text-zinc-300 text-sm truncate flex-1 font-mono" title={item.url}>
                     {item.url.replace(/^https?:\/\//, '')}
@@ -81,11 +158,16 @@ export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, on
                   <span className="text-zinc-500 text-[10px]">
                     {new Date(item.timestamp).toLocaleTimeString()}
                   </span>
+                  {item.response && (
+                    <span className={`text-[10px] font-mono ${item.response.status >= 200 && item.response.status < 300 ? 'text-green-500/80' : 'text-red-400/80'}`}>
+                      {item.response.status || item.response.statusText} · {item.response.time} ms
+                    </span>
+                  )}
                   {item.pinned && <Pin size={10} className="text-amber-500" fill="currentColor" />}
                 </div>
 
                 {/* Actions (Visible on Hover) */}
-                <div className="absolute right-2 top-2 bottom-2 flex flex-col justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity bg-zinc-800/80 backdrop-blur-sm rounded pl-1">
+                {!selecting && <div className="absolute right-2 top-2 bottom-2 flex flex-col justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity bg-zinc-800/80 backdrop-blur-sm rounded pl-1">
                      <div
                          onClick={(e) => onTogglePin(item.id, e)}
                          className={`p-1 rounded hover:bg-zinc-700 transition-colors ${item.pinned ? 'text-amber-500' : 'text-zinc-400 hover:text-zinc-200'}`}
@@ -93,6 +175,15 @@ export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, on
                      >
                         {item.pinned ? <PinOff size={14} /> : <Pin size={14} />}
                      </div>
+                     {item.response && !item.response.websocket && (
+                         <div
+                             onClick={(e) => onMock(item.id, e)}
+                             className="p-1 rounded hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+                             title="Create Mock from Response"
+                         >
+                            <ServerCog size={14} />
+                         </div>
+                     )}
                      <div 
                          onClick={(e) => onDelete(item.id, e)}
                          className="p-1 rounded hover:bg-zinc-700 text-zinc-400 hover:text-red-400 transition-colors"
@@ -100,12 +191,30 @@ export const Sidebar: React.FC<SidebarProps> = ({ history, onSelect, onClear, on
                      >
                         <X size={14} />
                      </div>
-                </div>
+                </div>}
               </button>
             ))}
           </div>
         )}
       </div>
+
+      {selecting && (
+        <div className="p-2 border-t border-zinc-800 flex items-center gap-2">
+          <button
+            onClick={handleRunSelected}
+            disabled={selectedIds.length === 0}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded transition-colors ${selectedIds.length ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-zinc-800 text-zinc-500 cursor-not-allowed'}`}
+          >
+            <Play size={12} fill="currentColor" />
+            Run {selectedIds.length} Selected
+          </button>
+          <button onClick={stopSelecting} className="px-3 py-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+            Cancel
+          </button>
+        </div>
+      )}
+      </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Download, RotateCw } from 'lucide-react';
+import { SseEvent } from '../types';
+import { eventTypes, exportEventLog, MAX_SSE_EVENTS } from '../utils/sse';
+import { formatJsonText } from '../utils/responseBody';
+import { downloadFile } from '../utils/download';
+
+interface SseTimelineProps {
+  events: SseEvent[];
+  streaming: boolean;
+}
+
+const ALL_TYPES = '';
+
+// Event objects stay the same while the stream grows, so each is formatted once
+const formatted = new WeakMap<SseEvent, ReturnType<typeof formatJsonText>>();
+const formatData = (event: SseEvent) => {
+  if (!formatted.has(event)) formatted.set(event, formatJsonText(event.data));
+  return formatted.get(event)!;
+};
+
+const formatTime = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.toLocaleTimeString([], { hour12: false })}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+};
+
+export const SseTimeline: React.FC<SseTimelineProps> = ({ events, streaming }) => {
+  const [typeFilter, setTypeFilter] = useState(ALL_TYPES);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  const types = useMemo(() => eventTypes(events), [events]);
+  const visible = useMemo(() => typeFilter ? events.filter(e => e.event === typeFilter) : events, [events, typeFilter]);
+  const firstAt = events[0]?.receivedAt || 0;
+
+  // Keep the newest event in view while the user has not scrolled up
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && followRef.current) el.scrollTop = el.scrollHeight;
+  }, [visible]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (el) followRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800 shrink-0 text-xs">
+            <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+                className="bg-zinc-800 text-zinc-300 rounded px-2 py-1 border border-zinc-700 outline-none focus:border-indigo-500 cursor-pointer"
+            >
+                <option value={ALL_TYPES}>All events</option>
+                {types.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <span className="text-zinc-500">
+                {typeFilter ? `${visible.length} of ${events.length}` : events.length} events
+                {events.length >= MAX_SSE_EVENTS && ` (last ${MAX_SSE_EVENTS} kept)`}
+            </span>
+            {streaming && (
+                <span className="flex items-center gap-1.5 text-green-400">
+                    <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse" />
+                    Listening
+                </span>
+            )}
+            <button
+                onClick={() => downloadFile(`events-${new Date(firstAt || Date.now()).toISOString().replace(/[:.]/g, '-')}.json`, exportEventLog(visible))}
+                disabled={!visible.length}
+                className="ml-auto flex items-center gap-1.5 text-zinc-400 hover:text-zinc-200 disabled:opacity-40"
+                title="Export the listed events as JSON"
+            >
+                <Download size={14} />
+                Export
+            </button>
+        </div>
+
+        <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto">
+            {!visible.length && (
+                <div className="p-4 text-zinc-600 italic text-sm">{streaming ? 'Waiting for events…' : 'No events received.'}</div>
+            )}
+            {visible.map((e, idx) => {
+                const data = formatData(e);
+                const reconnected = idx > 0 && visible[idx - 1].connection !== e.connection;
+                return (
+                    <React.Fragment key={e.seq}>
+                        {reconnected && (
+                            <div className="flex items-center gap-2 px-4 py-1 text-[10px] text-amber-400/80 bg-amber-500/5 border-b border-zinc-800/60">
+                                <RotateCw size={10} />
+                                Reconnected (connection {e.connection})
+                            </div>
+                        )}
+                        <div className="flex gap-3 px-4 py-1.5 border-b border-zinc-800/60 font-mono text-xs hover:bg-zinc-900/60">
+                            <div className="w-28 shrink-0 text-zinc-500" title={`+${e.receivedAt - firstAt} ms`}>{formatTime(e.receivedAt)}</div>
+                            <div className="w-28 shrink-0 truncate text-indigo-300" title={e.event}>{e.event}</div>
+                            <pre className={`flex-1 min-w-0 whitespace-pre-wrap break-all ${data.json ? 'text-zinc-200' : 'text-zinc-300'}`}>{data.text || <span className="text-zinc-600 italic">(empty)</span>}</pre>
+                            {e.id && <div className="shrink-0 text-zinc-600" title="Event id">#{e.id}</div>}
+                        </div>
+                    </React.Fragment>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
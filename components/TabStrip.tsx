@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Plus, X, Copy } from 'lucide-react';
+import { Collection } from '../types';
+import { WorkspaceTab, isTabDirty, tabTitle } from '../utils/workspace';
+import { methodLabel } from '../utils/request';
+
+interface TabStripProps {
+  tabs: WorkspaceTab[];
+  activeTabId: string;
+  collections: Collection[];
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onClose: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onReorder: (sourceId: string, targetId: string, after: boolean) => void;
+}
+
+const methodColors: Record<string, string> = {
+  GET: 'text-green-400',
+  POST: 'text-yellow-400',
+  PUT: 'text-blue-400',
+  DELETE: 'text-red-400',
+  PATCH: 'text-purple-400',
+  WS: 'text-cyan-400',
+};
+
+export const TabStrip: React.FC<TabStripProps> = ({ tabs, activeTabId, collections, onSelect, onNew, onClose, onDuplicate, onReorder }) => {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null);
+
+  const handleDragOver = (id: string, e: React.DragEvent<HTMLDivElement>) => {
+    if (!dragId || dragId === id) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropTarget({ id, after: e.clientX > rect.left + rect.width / 2 });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragId && dropTarget) onReorder(dragId, dropTarget.id, dropTarget.after);
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="flex items-stretch bg-zinc-950 border-b border-zinc-800 overflow-x-auto shrink-0">
+        {tabs.map(tab => {
+            const dirty = isTabDirty(tab);
+            const active = tab.id === activeTabId;
+            const dropClass = dropTarget?.id === tab.id ? (dropTarget.after ? 'border-r-2 border-r-indigo-500' : 'border-l-2 border-l-indigo-500') : '';
+            return (
+                <div
+                    key={tab.id}
+                    draggable
+                    onDragStart={() => setDragId(tab.id)}
+                    onDragEnd={() => { setDragId(null); setDropTarget(null); }}
+                    onDragOver={(e) => handleDragOver(tab.id, e)}
+                    onDrop={handleDrop}
+                    onClick={() => onSelect(tab.id)}
+                    // Middle click closes, like browser tabs
+                    onAuxClick={(e) => { if (e.button === 1) onClose(tab.id); }}
+                    className={`group flex items-center gap-2 pl-3 pr-1.5 py-2 min-w-[120px] max-w-[220px] cursor-pointer border-r border-zinc-800 border-t-2 text-xs ${active ? 'bg-zinc-900 border-t-indigo-500 text-zinc-200' : 'border-t-transparent text-zinc-400 hover:bg-zinc-900/60'} ${dropClass}`}
+                    title={tabTitle(tab, collections)}
+                >
+                    <span className={`text-[10px] font-bold shrink-0 ${methodColors[methodLabel(tab.request)] || 'text-zinc-400'}`}>{methodLabel(tab.request)}</span>
+                    <span className={`flex-1 truncate ${tab.savedId ? '' : 'italic'}`}>{tabTitle(tab, collections)}</span>
+                    {tab.loading && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse shrink-0" title="Sending" />}
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onDuplicate(tab.id); }}
+                        className="p-0.5 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Duplicate Tab"
+                    >
+                        <Copy size={11} />
+                    </button>
+                    {/* The dirty dot turns into the close button on hover */}
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onClose(tab.id); }}
+                        className="w-4 h-4 flex items-center justify-center rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-700"
+                        title={dirty ? 'Unsaved changes, close tab' : 'Close Tab'}
+                    >
+                        {dirty && <span className="w-2 h-2 rounded-full bg-amber-400 group-hover:hidden" />}
+                        <X size={12} className={dirty ? 'hidden group-hover:block' : ''} />
+                    </button>
+                </div>
+            );
+        })}
+        <button
+            onClick={onNew}
+            className="px-3 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-900 transition-colors"
+            title="New Tab"
+        >
+            <Plus size={14} />
+        </button>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { ResponseTiming } from '../types';
+import { TIMING_PHASES } from '../utils/timing';
+
+interface TimingWaterfallProps {
+  timing: ResponseTiming;
+}
+
+const formatMs = (ms: number) => ms < 1 ? `${ms.toFixed(2)} ms` : ms < 1000 ? `${ms.toFixed(1)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+export const TimingWaterfall: React.FC<TimingWaterfallProps> = ({ timing }) => {
+  const scale = Math.max(timing.total, ...timing.phases.map(p => p.start + p.duration), 1);
+  const phases = TIMING_PHASES
+    .map(meta => ({ meta, phase: timing.phases.find(p => p.name === meta.name) }))
+    .filter(({ phase }) => !!phase);
+
+  return (
+    <div className="flex flex-col gap-4 text-xs">
+        <div className="flex flex-col gap-1.5">
+            {phases.map(({ meta, phase }) => (
+                <div key={meta.name} className="flex items-center gap-3">
+                    <span className="w-32 shrink-0 text-zinc-400">
+                        {timing.source === 'measured' && meta.name === 'ttfb' ? 'Waiting for Headers' : meta.label}
+                    </span>
+                    <div className="flex-1 relative h-3 bg-zinc-800/50 rounded-sm">
+                        <div
+                            className={`absolute top-0 h-3 rounded-sm ${meta.color}`}
+                            style={{ left: `${(phase!.start / scale) * 100}%`, width: `max(2px, ${(phase!.duration / scale) * 100}%)` }}
+                        />
+                    </div>
+                    <span className="w-20 shrink-0 text-right font-mono text-zinc-300">{formatMs(phase!.duration)}</span>
+                </div>
+            ))}
+            <div className="flex items-center gap-3 pt-2 mt-1 border-t border-zinc-800">
+                <span className="w-32 shrink-0 font-semibold text-zinc-300">Total</span>
+                <div className="flex-1" />
+                <span className="w-20 shrink-0 text-right font-mono font-semibold text-zinc-200">{formatMs(timing.total)}</span>
+            </div>
+        </div>
+
+        {(timing.protocol || timing.reusedConnection) && (
+            <div className="flex items-center gap-4 text-zinc-500">
+                {timing.protocol && <span>Protocol <span className="font-mono text-zinc-300">{timing.protocol}</span></span>}
+                {timing.reusedConnection && <span>Connection reused</span>}
+            </div>
+        )}
+
+        {timing.limitedReason && (
+            <div className="flex items-start gap-2 text-zinc-500">
+                <Info size={14} className="shrink-0 mt-0.5" />
+                <span>{timing.limitedReason}. Only the time until the headers arrived and the body download are shown.</span>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Send, Save, Trash2, Braces } from 'lucide-react';
+import { WebSocketConfig, WsMessage, WsMessageType } from '../types';
+import { generateId } from '../utils/collections';
+
+interface WebSocketComposerProps {
+  config: WebSocketConfig;
+  onChange: (config: WebSocketConfig) => void;
+  connected: boolean;
+  onSend: (message: WsMessage) => string | null; // Returns an error when the message cannot be sent
+}
+
+const MESSAGE_TYPES: { id: WsMessageType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'json', label: 'JSON' },
+  { id: 'binary', label: 'Binary (hex)' },
+];
+
+const placeholders: Record<WsMessageType, string> = {
+  text: 'Message text, {{variables}} allowed',
+  json: '{\n  "type": "subscribe",\n  "channel": "{{channel}}"\n}',
+  binary: '01 02 ff 7a',
+};
+
+export const WebSocketComposer: React.FC<WebSocketComposerProps> = ({ config, onChange, connected, onSend }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { draft } = config;
+
+  const updateDraft = (patch: Partial<WsMessage>) => {
+    setError(null);
+    onChange({ ...config, draft: { ...draft, ...patch } });
+  };
+
+  const send = (message: WsMessage) => setError(onSend(message));
+
+  const formatDraft = () => {
+    try {
+        updateDraft({ content: JSON.stringify(JSON.parse(draft.content), null, 2) });
+    } catch (e: any) {
+        setError(`Invalid JSON: ${e.message}`);
+    }
+  };
+
+  const saveTemplate = () => {
+    const name = draft.name.trim() || draft.content.trim().split('\n')[0].slice(0, 40) || 'Untitled message';
+    onChange({ ...config, templates: [...config.templates, { ...draft, id: generateId(), name }] });
+  };
+
+  const updateTemplate = (id: string, patch: Partial<WsMessage>) =>
+    onChange({ ...config, templates: config.templates.map(t => t.id === id ? { ...t, ...patch } : t) });
+
+  return (
+    <div className="flex flex-col gap-4 h-full">
+        <label className="flex items-center gap-3 text-xs text-zinc-400">
+            <span className="shrink-0">Subprotocols</span>
+            <input
+                type="text"
+                value={config.protocols}
+                onChange={(e) => onChange({ ...config, protocols: e.target.value })}
+                placeholder="graphql-transport-ws, v2.chat"
+                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 font-mono text-zinc-200 outline-none focus:border-indigo-500"
+            />
+        </label>
+
+        {/* Composer */}
+        <div className="flex flex-col gap-2 flex-1 min-h-[160px]">
+            <div className="flex items-center gap-3">
+                <div className="flex bg-zinc-800 rounded p-0.5">
+                    {MESSAGE_TYPES.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => updateDraft({ type: t.id })}
+                            className={`px-2.5 py-0.5 text-xs rounded transition-colors ${draft.type === t.id ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+                {draft.type === 'json' && (
+                    <button onClick={formatDraft} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200">
+                        <Braces size={12} /> Format
+                    </button>
+                )}
+                <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    placeholder="Template name"
+                    className="ml-auto w-40 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 outline-none focus:border-indigo-500"
+                />
+                <button
+                    onClick={saveTemplate}
+                    disabled={!draft.content}
+                    className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-40"
+                    title="Save as Template"
+                >
+                    <Save size={12} /> Save
+                </button>
+            </div>
+            <textarea
+                value={draft.content}
+                onChange={(e) => updateDraft({ content: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && connected) send(draft); }}
+                placeholder={placeholders[draft.type]}
+                spellCheck={false}
+                className="flex-1 w-full bg-zinc-950 border border-zinc-700 rounded p-3 font-mono text-sm text-zinc-200 outline-none focus:border-indigo-500 resize-none"
+            />
+            <div className="flex items-center gap-3">
+                {error && <span className="text-xs text-red-400 truncate" title={error}>{error}</span>}
+                {!connected && !error && <span className="text-xs text-zinc-500">Connect to send messages.</span>}
+                <button
+                    onClick={() => send(draft)}
+                    disabled={!connected || !draft.content}
+                    className="ml-auto flex items-center gap-2 px-4 py-1.5 rounded text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed"
+                    title="Send (Ctrl+Enter)"
+                >
+                    <Send size={12} /> Send
+                </button>
+            </div>
+        </div>
+
+        {/* Templates */}
+        <div className="flex flex-col gap-1">
+            <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Templates</div>
+            {!config.templates.length && <span className="text-xs text-zinc-600 italic">Saved messages appear here and are kept with the request.</span>}
+            {config.templates.map(t => (
+                <div key={t.id} className="flex items-center gap-2 group">
+                    <span className="w-12 shrink-0 text-[10px] uppercase text-zinc-500">{t.type}</span>
+                    <input
+                        type="text"
+                        value={t.name}
+                        onChange={(e) => updateTemplate(t.id, { name: e.target.value })}
+                        className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-zinc-700 focus:border-indigo-500 rounded px-1.5 py-0.5 text-xs text-zinc-300 outline-none"
+                    />
+                    <button
+                        onClick={() => updateDraft({ type: t.type, content: t.content, name: t.name })}
+                        className="text-xs text-zinc-500 hover:text-zinc-200"
+                    >
+                        Load
+                    </button>
+                    <button
+                        onClick={() => send(t)}
+                        disabled={!connected}
+                        className="p-1 text-zinc-500 hover:text-indigo-400 disabled:opacity-40"
+                        title="Send Template"
+                    >
+                        <Send size={12} />
+                    </button>
+                    <button
+                        onClick={() => onChange({ ...config, templates: config.templates.filter(x => x.id !== t.id) })}
+                        className="p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                        title="Delete Template"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
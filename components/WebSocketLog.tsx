@@ -0,0 +1,130 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { ArrowUp, ArrowDown, Clock, Database, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
+import { WsFrame, WsSession } from '../types';
+import { closeCodeLabel, MAX_WS_FRAMES } from '../utils/websocket';
+import { formatJsonText } from '../utils/responseBody';
+
+interface WebSocketLogProps {
+  session: WsSession;
+  onClear: () => void;
+}
+
+type DirectionFilter = 'all' | WsFrame['direction'];
+
+const stateColors: Record<WsSession['state'], string> = {
+  connecting: 'text-amber-400',
+  open: 'text-green-500',
+  closing: 'text-amber-400',
+  closed: 'text-zinc-400',
+};
+
+const formatted = new WeakMap<WsFrame, ReturnType<typeof formatJsonText>>();
+const formatFrame = (frame: WsFrame) => {
+  if (frame.type === 'binary') return { text: frame.data, json: false };
+  if (!formatted.has(frame)) formatted.set(frame, formatJsonText(frame.data));
+  return formatted.get(frame)!;
+};
+
+const formatTime = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.toLocaleTimeString([], { hour12: false })}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+};
+
+export const WebSocketLog: React.FC<WebSocketLogProps> = ({ session, onClear }) => {
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  const frames = useMemo(() => direction === 'all' ? session.frames : session.frames.filter(f => f.direction === direction), [session.frames, direction]);
+  const sent = session.frames.filter(f => f.direction === 'sent').length;
+  const duration = (session.closedAt || Date.now()) - (session.openedAt || session.startedAt);
+  const failed = !!session.error || session.wasClean === false;
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && followRef.current) el.scrollTop = el.scrollHeight;
+  }, [frames]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (el) followRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-900 border-t border-zinc-800 shadow-xl">
+        {/* Connection status */}
+        <div className="flex items-center gap-6 px-4 py-3 border-b border-zinc-800 text-xs">
+            <div className="flex items-center gap-2">
+                {failed ? <AlertCircle size={16} className="text-red-500" /> : <CheckCircle size={16} className={stateColors[session.state]} />}
+                <span className={`font-mono font-bold text-sm capitalize ${failed ? 'text-red-500' : stateColors[session.state]}`}>{session.state}</span>
+                {session.state === 'closed' && session.closeCode !== undefined && (
+                    <span className="font-mono text-zinc-400" title={session.closeReason || undefined}>
+                        {session.closeCode} {closeCodeLabel(session.closeCode)}{session.closeReason && ` · ${session.closeReason}`}
+                    </span>
+                )}
+            </div>
+            {session.openedAt && (
+                <div className="flex items-center gap-2 text-zinc-400">
+                    <Clock size={14} />
+                    <span>{(duration / 1000).toFixed(1)} s</span>
+                </div>
+            )}
+            <div className="flex items-center gap-2 text-zinc-400">
+                <Database size={14} />
+                <span>{sent} sent · {session.frames.length - sent} received</span>
+            </div>
+            {session.protocol && <span className="text-zinc-500 font-mono">protocol: {session.protocol}</span>}
+        </div>
+
+        {session.error && (
+            <div className="px-4 py-1.5 border-b border-zinc-800 bg-red-500/5 text-xs text-red-400 flex items-center gap-2">
+                <AlertCircle size={12} className="shrink-0" />
+                <span className="truncate">{session.error}</span>
+            </div>
+        )}
+
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800 text-xs">
+            <div className="flex bg-zinc-800 rounded p-0.5">
+                {(['all', 'sent', 'received'] as const).map(d => (
+                    <button
+                        key={d}
+                        onClick={() => setDirection(d)}
+                        className={`px-2.5 py-0.5 rounded capitalize transition-colors ${direction === d ? 'bg-zinc-600 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'}`}
+                    >
+                        {d}
+                    </button>
+                ))}
+            </div>
+            <span className="text-zinc-600 truncate font-mono" title={session.url}>{session.url}</span>
+            {session.frames.length >= MAX_WS_FRAMES && <span className="text-zinc-500 shrink-0">(last {MAX_WS_FRAMES} kept)</span>}
+            <button onClick={onClear} disabled={!session.frames.length} className="ml-auto p-1 text-zinc-500 hover:text-zinc-200 disabled:opacity-40" title="Clear Log">
+                <Trash2 size={14} />
+            </button>
+        </div>
+
+        <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto bg-zinc-950/30">
+            {!frames.length && (
+                <div className="p-4 text-zinc-600 italic text-sm">
+                    {session.state === 'connecting' ? 'Connecting…' : session.state === 'open' ? 'No messages yet.' : 'No messages.'}
+                </div>
+            )}
+            {frames.map(f => {
+                const data = formatFrame(f);
+                return (
+                    <div key={f.seq} className={`flex gap-3 px-4 py-1.5 border-b border-zinc-800/60 font-mono text-xs ${f.direction === 'sent' ? 'bg-indigo-500/5' : ''}`}>
+                        {f.direction === 'sent'
+                            ? <ArrowUp size={14} className="shrink-0 text-indigo-400" />
+                            : <ArrowDown size={14} className="shrink-0 text-green-400" />}
+                        <div className="w-24 shrink-0 text-zinc-500">{formatTime(f.at)}</div>
+                        <pre className="flex-1 min-w-0 whitespace-pre-wrap break-all text-zinc-300">
+                            {f.type === 'binary' && <span className="text-[10px] uppercase text-amber-400/80 mr-2">binary</span>}
+                            {data.text || <span className="text-zinc-600 italic">(empty)</span>}
+                        </pre>
+                        <div className="w-16 shrink-0 text-right text-zinc-600">{f.size} B</div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
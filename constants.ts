@@ -18,4 +18,7 @@ export const INITIAL_REQUEST = {
   bodyFormData: [{ id: '1', key: '', value: '', type: 'text' as const, enabled: true }],
   bodyFormUrlEncoded: [{ id: '1', key: '', value: '', enabled: true }],
   stream: false,
+  preRequestScript: '',
+  testScript: '',
+  auth: { type: 'inherit' as const },
 };
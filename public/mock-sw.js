@@ -0,0 +1,212 @@
+// --- Mock server ---
+// Answers fetches that match an enabled mock rule with the rule's canned response. The app posts the
+// rules whenever they change; after a restart the worker reads them from the app's IndexedDB. Requests
+// that match no rule go to the network untouched.
+
+const DB_NAME = 'postman_lite';
+const KV_STORE = 'kv';
+const MOCKS_KEY = 'mocks';
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+let config = null;
+let configPromise = null;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'mocks') {
+    config = event.data.config;
+    configPromise = null;
+  }
+});
+
+function readStoredConfig() {
+  return new Promise(resolve => {
+    const req = indexedDB.open(DB_NAME);
+    // Only the app creates and migrates the database
+    req.onupgradeneeded = () => req.transaction.abort();
+    req.onerror = () => resolve(null);
+    req.onsuccess = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      const get = db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(MOCKS_KEY);
+      get.onsuccess = () => { db.close(); resolve(get.result || null); };
+      get.onerror = () => { db.close(); resolve(null); };
+    };
+  });
+}
+
+function loadConfig() {
+  if (config) return Promise.resolve(config);
+  if (!configPromise) {
+    configPromise = readStoredConfig().then(stored => {
+      // A message may have arrived while reading
+      if (!config) config = stored || { enabled: false, allowOtherTabs: false, rules: [] };
+      return config;
+    });
+  }
+  return configPromise;
+}
+
+// --- Matching ---
+
+const escapeRegExp = text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+function compilePattern(pattern) {
+  const trimmed = pattern.trim().split(/[?#]/)[0].replace(/\/+$/, '');
+  const names = [];
+  const source = trimmed.split(/(:[A-Za-z_][\w]*|\*)/).map(part => {
+    if (part === '*') return '.*';
+    if (part.startsWith(':')) {
+      names.push(part.slice(1));
+      return '([^/]+)';
+    }
+    return escapeRegExp(part);
+  }).join('');
+  // A path pattern matches the path of any origin
+  const absolute = /^https?:\/\//i.test(trimmed);
+  return { regex: new RegExp(`^${source}/?$`, absolute ? 'i' : ''), names, absolute };
+}
+
+function matchUrl(rule, url) {
+  if (!rule.urlPattern.trim()) return null;
+  const { regex, names, absolute } = compilePattern(rule.urlPattern);
+  const match = regex.exec(absolute ? url.origin + url.pathname : url.pathname);
+  if (!match) return null;
+  const params = {};
+  names.forEach((name, idx) => {
+    // A malformed escape such as "%E0%A4%A" is passed on as written
+    try { params[name] = decodeURIComponent(match[idx + 1]); } catch (e) { params[name] = match[idx + 1]; }
+  });
+  return params;
+}
+
+// Method and URL are known without reading the request
+function candidates(request) {
+  if (!config || !config.enabled) return [];
+  const url = new URL(request.url);
+  return config.rules
+    .filter(rule => rule.enabled && (rule.method === 'ANY' || rule.method === request.method))
+    .map(rule => ({ rule, params: matchUrl(rule, url) }))
+    .filter(c => c.params);
+}
+
+function headersMatch(rule, headers) {
+  return rule.headerMatchers.filter(h => h.enabled && h.key.trim()).every(h => {
+    const value = headers.get(h.key.trim());
+    return value !== null && value.includes(h.value);
+  });
+}
+
+// --- Templates ---
+
+function lookup(value, path) {
+  return path.reduce((current, key) => (current !== null && typeof current === 'object' ? current[key] : undefined), value);
+}
+
+const randomInt = () => Math.floor(Math.random() * 1000);
+
+function renderTemplate(text, context) {
+  return text.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (whole, expression) => {
+    if (expression === '$timestamp') return String(Math.floor(Date.now() / 1000));
+    if (expression === '$isoTimestamp') return new Date().toISOString();
+    if (expression === '$randomUUID') return crypto.randomUUID();
+    if (expression === '$randomInt') return String(randomInt());
+    const path = expression.split('.');
+    if (path[0] !== 'request') return whole;
+    if (path[1] === 'body' && path.length > 2) {
+      const value = lookup(context.json, path.slice(2));
+      return value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+    if (path[1] === 'headers' && path.length > 2) return context.request.headers[path.slice(2).join('.').toLowerCase()] || '';
+    const value = lookup(context.request, path.slice(1));
+    return value === undefined || typeof value === 'object' ? '' : String(value);
+  });
+}
+
+function base64ToBytes(base64) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// --- Answering ---
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function isAppClient(client) {
+  if (!client) return false;
+  const path = new URL(client.url).pathname;
+  const scope = new URL(self.registration.scope).pathname;
+  return path === scope || path === `${scope}index.html`;
+}
+
+async function notifyHit(hit) {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.filter(isAppClient).forEach(client => client.postMessage({ type: 'mock-hit', hit }));
+}
+
+async function respond(request, clientId, found) {
+  const client = clientId ? await self.clients.get(clientId) : null;
+  const external = !isAppClient(client);
+  if (external && !config.allowOtherTabs) return fetch(request);
+
+  const methodHasBody = !['GET', 'HEAD'].includes(request.method);
+  const bodyText = methodHasBody ? await request.clone().text() : '';
+  const match = found.find(({ rule }) => headersMatch(rule, request.headers) && (!rule.bodyMatcher || bodyText.includes(rule.bodyMatcher)));
+  if (!match) return fetch(request);
+
+  const { rule, params } = match;
+  const url = new URL(request.url);
+  const headers = {};
+  request.headers.forEach((value, key) => { headers[key] = value; });
+  let json;
+  try { json = JSON.parse(bodyText); } catch (e) { json = undefined; }
+  const context = {
+    request: { method: request.method, url: request.url, path: url.pathname, params, query: Object.fromEntries(url.searchParams), headers, body: bodyText },
+    json,
+  };
+
+  if (rule.delayMs > 0) await sleep(rule.delayMs);
+
+  const responseHeaders = new Headers();
+  rule.headers.filter(h => h.enabled && h.key.trim()).forEach(h => responseHeaders.append(h.key.trim(), renderTemplate(h.value, context)));
+  const status = Math.min(599, Math.max(200, rule.status || 200));
+  const body = NULL_BODY_STATUSES.includes(status) || request.method === 'HEAD'
+    ? null
+    : rule.bodyBase64 ? base64ToBytes(rule.bodyBase64) : renderTemplate(rule.body, context);
+
+  notifyHit({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    method: request.method,
+    url: request.url,
+    status,
+    external,
+  });
+  return new Response(body, { status, headers: responseHeaders });
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.mode === 'navigate' || !/^https?:/.test(request.url)) return;
+
+  if (config) {
+    const found = candidates(request);
+    if (found.length) event.respondWith(respond(request, event.clientId, found));
+    return;
+  }
+  // Woken by this fetch: the rules are not loaded yet
+  event.respondWith(loadConfig().then(() => {
+    const found = candidates(request);
+    return found.length ? respond(request, event.clientId, found) : fetch(request);
+  }));
+});
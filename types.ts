@@ -10,24 +10,154 @@ export interface KeyValue {
 export interface FormDataItem extends KeyValue {
   type: 'text' | 'file';
   file?: File | null;
+  fileRef?: FileRef; // Stored copy of `file`, re-attached when the request is restored
+}
+
+// A selected file as recorded in requests. The content is kept in IndexedDB under the same id
+// unless it is larger than the storage cap.
+export interface FileRef {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface StoredFile extends FileRef {
+  blob: Blob;
+  storedAt: number;
 }
 
 export interface RequestState {
   id: string; // Unique ID for history
-  method: HttpMethod;
+  kind?: RequestKind; // Missing means 'http'
+  method: HttpMethod; // Ignored for WebSocket requests
   url: string;
   params: KeyValue[];
   headers: KeyValue[];
   
   // Body Configuration
-  bodyType: 'none' | 'json' | 'text' | 'file' | 'form-data' | 'x-www-form-urlencoded';
+  bodyType: 'none' | 'json' | 'text' | 'file' | 'form-data' | 'x-www-form-urlencoded' | 'graphql';
   bodyContent: string; // For JSON/Text
   file: File | null; // For Binary File (single file)
+  fileRef?: FileRef; // Stored copy of `file`
   bodyFormData: FormDataItem[]; // For multipart/form-data
   bodyFormUrlEncoded: KeyValue[]; // For application/x-www-form-urlencoded
+  graphql?: GraphqlBody; // For GraphQL, sent as a JSON envelope
   
   // Options
   stream: boolean; // Enable streaming mode
+  sseReconnect?: boolean; // Reconnect event streams when they end, sending Last-Event-ID
+  policy?: RequestPolicy; // Timeout and retries; missing uses the defaults from AppSettings
+
+  // Scripts (run in a sandboxed worker, see utils/scripts.ts)
+  preRequestScript?: string;
+  testScript?: string;
+
+  auth?: RequestAuth; // Missing on requests saved before the Auth tab; treated as 'none'
+
+  // Signing profile from AppSettings: missing uses the default profile, 'none' disables signing
+  signingProfileId?: string;
+
+  responseQuery?: ResponseQuery; // Projection applied to the response body
+
+  websocket?: WebSocketConfig; // WebSocket requests only
+}
+
+export type RequestKind = 'http' | 'websocket';
+
+export interface GraphqlBody {
+  query: string;
+  variables: string; // JSON object text
+  operationName?: string; // Needed when the document has several operations
+}
+
+// --- WebSocket ---
+
+export type WsMessageType = 'text' | 'json' | 'binary';
+
+export interface WsMessage {
+  id: string;
+  name: string;
+  type: WsMessageType;
+  content: string; // Binary messages are written as hex
+}
+
+export interface WebSocketConfig {
+  protocols: string; // Comma separated subprotocols
+  draft: WsMessage; // Message in the composer
+  templates: WsMessage[];
+}
+
+export type WsConnectionState = 'connecting' | 'open' | 'closing' | 'closed';
+
+export interface WsFrame {
+  seq: number;
+  direction: 'sent' | 'received';
+  type: 'text' | 'binary';
+  data: string; // Binary frames as hex
+  size: number; // Bytes
+  at: number; // Epoch ms
+}
+
+export interface WsSession {
+  url: string;
+  state: WsConnectionState;
+  protocol?: string; // Subprotocol the server picked
+  frames: WsFrame[];
+  startedAt: number;
+  openedAt?: number;
+  closedAt?: number;
+  closeCode?: number;
+  closeReason?: string;
+  wasClean?: boolean;
+  error?: string;
+}
+
+export type QueryLanguage = 'jsonpath' | 'jmespath' | 'xpath';
+
+export interface ResponseQuery {
+  language: QueryLanguage;
+  expression: string;
+}
+
+// --- Auth ---
+
+export type AuthType = 'none' | 'inherit' | 'basic' | 'bearer' | 'apikey' | 'digest' | 'oauth2';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'authorization_code';
+
+export interface OAuth2Config {
+  grantType: OAuth2GrantType;
+  accessTokenUrl: string;
+  authUrl: string; // Authorization code only
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  username: string; // Password grant only
+  password: string;
+  redirectUri: string;
+  usePkce: boolean;
+  clientAuthentication: 'header' | 'body'; // Basic auth header or client_id/client_secret in the body
+  headerPrefix: string;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  expiresAt?: number; // Epoch ms, missing when the server does not send expires_in
+  scope?: string;
+  obtainedAt: number;
+}
+
+// Settings for every type are kept so switching types does not lose what was typed
+export interface RequestAuth {
+  type: AuthType;
+  basic?: { username: string; password: string };
+  bearer?: { token: string };
+  apikey?: { key: string; value: string; in: 'header' | 'query' };
+  digest?: { username: string; password: string };
+  oauth2?: OAuth2Config;
 }
 
 export interface ResponseState {
@@ -35,16 +165,123 @@ export interface ResponseState {
   statusText: string;
   headers: Record<string, string>;
   data: any;
+  bodyBase64?: string; // Bytes of a binary body, which leaves data empty
+  rawBase64?: string; // Bytes of a text body that `data` cannot reproduce (parsed JSON, other charsets), for saving
   size: string;
   time: number; // in ms
   contentType: string;
   isError: boolean;
   errorMessage?: string;
+  events?: SseEvent[]; // Parsed events of a text/event-stream response received in stream mode
+  websocket?: WsSession; // Set instead of a body for WebSocket requests
+  timing?: ResponseTiming;
+  retries?: ResponseAttempt[]; // Earlier attempts that were retried, oldest first
+}
+
+export interface RequestPolicy {
+  timeoutMs: number; // Per attempt; 0 waits forever
+  maxRetries: number;
+  retryOnNetworkError: boolean; // Includes timeouts
+  retryStatuses: string; // Comma-separated codes and ranges, e.g. "429, 502-504"
+  respectRetryAfter: boolean;
+  backoffMs: number; // Delay before the first retry, doubled for each one after it
+  maxBackoffMs: number;
+  jitter: boolean; // Randomize each delay between 0 and the backoff
+}
+
+export interface ResponseAttempt {
+  attempt: number; // 1-based
+  status: number; // 0 for network errors and timeouts
+  statusText: string;
+  error?: string;
+  time: number; // ms
+  timing?: ResponseTiming;
+  delayMs: number; // Wait before the next attempt
+  delayReason: 'backoff' | 'retry-after';
+}
+
+export type TimingPhaseName = 'redirect' | 'dns' | 'connect' | 'tls' | 'request' | 'ttfb' | 'download';
+
+export interface TimingPhase {
+  name: TimingPhaseName;
+  start: number; // ms from the start of the request
+  duration: number;
+}
+
+export interface ResponseTiming {
+  total: number;
+  phases: TimingPhase[];
+  // 'resource' is the browser's full breakdown; 'measured' only knows when headers and the body arrived
+  source: 'resource' | 'measured';
+  limitedReason?: string; // Why the full breakdown is missing
+  protocol?: string; // e.g. h2, http/1.1
+  reusedConnection?: boolean;
+}
+
+export interface SseEvent {
+  seq: number; // Arrival order across reconnects
+  event: string; // 'message' when the server sent no event field
+  data: string;
+  id?: string; // Last event id in effect when the event arrived
+  receivedAt: number; // Epoch ms
+  connection: number; // 1 for the first connection, counting up on each reconnect
+}
+
+// --- Mock server ---
+
+export interface MockRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  method: HttpMethod | 'ANY';
+  urlPattern: string; // Full URL or path; ":name" matches one path segment, "*" matches the rest
+  headerMatchers: KeyValue[]; // The request header must contain the value; an empty value only requires the header
+  bodyMatcher: string; // Text the request body must contain; empty matches any body
+  status: number;
+  headers: KeyValue[];
+  body: string; // Templated with values of the request, e.g. {{request.params.id}}
+  bodyBase64?: string; // Binary body copied from a response, sent instead of `body`
+  delayMs: number;
+}
+
+export interface MockConfig {
+  enabled: boolean;
+  allowOtherTabs: boolean; // Also answer fetches of other pages on this origin
+  rules: MockRule[];
+}
+
+export interface MockHit {
+  id: string;
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  method: string;
+  url: string;
+  status: number;
+  external: boolean; // Sent by another page than PostmanLite
+}
+
+// A response pinned for later comparison
+export interface ResponseSnapshot {
+  id: string;
+  name: string;
+  requestKey: string; // Method and unresolved URL of the request that produced it
+  timestamp: number;
+  response: ResponseState;
 }
 
 export interface HistoryItem extends RequestState {
   timestamp: number;
   pinned?: boolean;
+  response?: ResponseState; // Missing on entries recorded before responses were kept
+  storedBytes?: number; // Serialized size, for the size limit
+}
+
+// Limits on unpinned history entries; 0 disables a limit
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
 }
 
 export interface AppSettings {
@@ -52,8 +289,122 @@ export interface AppSettings {
   fetchCredentials: 'omit' | 'same-origin' | 'include';
   globalHeaders: KeyValue[];
 
-  // Cloud Docs Mode
+  signingProfiles: SigningProfile[];
+  defaultSigningProfileId: string | null; // Applied to requests that do not pick a profile
+
+  historyRetention: HistoryRetention;
+
+  requestPolicy: RequestPolicy; // Default timeout and retries of requests without their own
+
+  // Legacy Cloud Docs Mode, migrated to a signing profile when settings are loaded
   cloudDocsMode?: boolean;
   cloudDocsAppId?: string;
   cloudDocsSecureKey?: string;
 }
+
+// --- Request signing ---
+
+export type SigningAlgorithm = 'HMAC-SHA1' | 'HMAC-SHA256' | 'HMAC-SHA512' | 'MD5' | 'RSA-SHA256';
+
+export type NonceStrategy = 'timestamp-last6' | 'random-hex' | 'uuid' | 'none';
+
+export interface CredentialSource {
+  source: 'literal' | 'cookie' | 'variable';
+  value: string; // The literal value, the cookie name or the variable name
+}
+
+export interface SigningCredential extends CredentialSource {
+  id: string;
+  name: string; // Referenced as {name} in the templates
+}
+
+export interface SigningProfile {
+  id: string;
+  name: string;
+  algorithm: SigningAlgorithm;
+  encoding: 'hex' | 'base64';
+  secret: CredentialSource; // HMAC key, or a PKCS#8 PEM private key for RSA; MD5 can use it as {secret}
+  credentials: SigningCredential[];
+  stringToSign: string; // Template, see utils/signing.ts for the placeholders
+  bodyHash: 'sha256-hex' | 'sha256-base64' | 'md5-hex';
+  timestampUnit: 'ms' | 's';
+  nonce: NonceStrategy;
+  headers: KeyValue[]; // Output headers; values are templates that can use {signature}
+}
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: KeyValue[];
+}
+
+export interface EnvironmentStore {
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  globals: KeyValue[]; // Global scope, resolved before the active environment
+}
+
+// --- Collections ---
+
+export interface CollectionRequest {
+  type: 'request';
+  id: string; // Stable identity of the saved request, independent of history ids
+  name: string;
+  description?: string;
+  request: RequestState;
+}
+
+export interface CollectionFolder {
+  type: 'folder';
+  id: string;
+  name: string;
+  description?: string;
+  auth?: RequestAuth; // Missing means inherit from the parent
+  items: CollectionItem[];
+}
+
+export type CollectionItem = CollectionRequest | CollectionFolder;
+
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  variables?: KeyValue[]; // Collection scope, between globals and the active environment
+  auth?: RequestAuth; // Inherited by requests and folders set to 'inherit'
+  items: CollectionItem[];
+}
+
+export interface ImportReport {
+  summary: string;
+  warnings: string[]; // Everything that could not be mapped into PostmanLite's model
+}
+
+// --- Scripts ---
+
+export type ScriptPhase = 'pre-request' | 'test';
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  line?: number; // Line in the test script where the assertion failed
+}
+
+export interface ConsoleEntry {
+  phase: ScriptPhase;
+  level: 'log' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface ScriptError {
+  phase: ScriptPhase;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ScriptResult {
+  tests: TestResult[];
+  logs: ConsoleEntry[];
+  errors: ScriptError[];
+}
@@ -0,0 +1,420 @@
+import { AuthType, Collection, OAuth2Config, OAuth2Token, RequestAuth, RequestState } from '../types';
+import { VariableScope, resolveVariables } from './variables';
+import { findAncestors } from './collections';
+import { encodeBase64 } from './request';
+// @ts-ignore
+import CryptoJS from 'crypto-js';
+
+// --- Request authorization ---
+// Auth settings are turned into headers / query params when the request is sent. Basic, Bearer and
+// API key are computed synchronously; Digest needs the server's challenge and OAuth 2.0 a token.
+
+export const AUTH_TYPES: { id: AuthType; label: string }[] = [
+  { id: 'inherit', label: 'Inherit auth from parent' },
+  { id: 'none', label: 'No Auth' },
+  { id: 'basic', label: 'Basic Auth' },
+  { id: 'bearer', label: 'Bearer Token' },
+  { id: 'apikey', label: 'API Key' },
+  { id: 'digest', label: 'Digest Auth' },
+  { id: 'oauth2', label: 'OAuth 2.0' },
+];
+
+export const authLabel = (type: AuthType) => AUTH_TYPES.find(t => t.id === type)?.label || type;
+
+export const DEFAULT_OAUTH2: OAuth2Config = {
+  grantType: 'client_credentials',
+  accessTokenUrl: '',
+  authUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scope: '',
+  username: '',
+  password: '',
+  redirectUri: '',
+  usePkce: true,
+  clientAuthentication: 'header',
+  headerPrefix: 'Bearer',
+};
+
+export interface EffectiveAuth {
+  auth: RequestAuth;
+  source: string | null; // Name of the folder or collection the auth was inherited from
+}
+
+/**
+ * Follows 'inherit' up from the request through its folders to the collection.
+ * Requests outside a collection that inherit get no auth.
+ */
+export function getEffectiveAuth(auth: RequestAuth | undefined, collections: Collection[], savedId: string | null): EffectiveAuth {
+  if (!auth) return { auth: { type: 'none' }, source: null };
+  if (auth.type !== 'inherit') return { auth, source: null };
+  const ancestors = savedId ? findAncestors(collections, savedId) : null;
+  for (const container of [...(ancestors || [])].reverse()) {
+    if (container.auth && container.auth.type !== 'inherit') return { auth: container.auth, source: container.name };
+  }
+  return { auth: { type: 'none' }, source: null };
+}
+
+// --- Applying auth ---
+
+export interface AuthInjection {
+  headers: Record<string, string>;
+  params: [string, string][];
+  digest?: { username: string; password: string }; // Answered after the server's 401 challenge
+  pending?: string; // Why a value is not known yet, shown in the previews
+}
+
+const emptyInjection = (): AuthInjection => ({ headers: {}, params: [] });
+
+export function resolveOAuth2Config(partial: Partial<OAuth2Config>, scope: VariableScope): OAuth2Config {
+  const r = (text: string) => resolveVariables(text || '', scope);
+  const config = { ...DEFAULT_OAUTH2, ...partial };
+  return {
+    ...config,
+    accessTokenUrl: r(config.accessTokenUrl),
+    authUrl: r(config.authUrl),
+    clientId: r(config.clientId),
+    clientSecret: r(config.clientSecret),
+    scope: r(config.scope),
+    username: r(config.username),
+    password: r(config.password),
+    redirectUri: r(config.redirectUri),
+    headerPrefix: r(config.headerPrefix),
+  };
+}
+
+/**
+ * Computes what the auth adds to the request. `token` is the OAuth 2.0 access token to use,
+ * if one is available. Used for sending as well as for the Raw and Code previews.
+ */
+export function computeAuth(auth: RequestAuth | undefined, scope: VariableScope, token: OAuth2Token | null = null): AuthInjection {
+  const result = emptyInjection();
+  const r = (text: string | undefined) => resolveVariables(text || '', scope);
+
+  switch (auth?.type) {
+    case 'basic':
+      result.headers['Authorization'] = `Basic ${encodeBase64(`${r(auth.basic?.username)}:${r(auth.basic?.password)}`)}`;
+      break;
+    case 'bearer':
+      result.headers['Authorization'] = `Bearer ${r(auth.bearer?.token)}`;
+      break;
+    case 'apikey': {
+      const key = r(auth.apikey?.key);
+      if (!key) break;
+      if (auth.apikey?.in === 'query') result.params.push([key, r(auth.apikey.value)]);
+      else result.headers[key] = r(auth.apikey?.value);
+      break;
+    }
+    case 'digest':
+      result.digest = { username: r(auth.digest?.username), password: r(auth.digest?.password) };
+      result.pending = 'Digest: Authorization is computed from the server\'s challenge after a 401 response';
+      break;
+    case 'oauth2': {
+      const prefix = r(auth.oauth2?.headerPrefix ?? 'Bearer').trim();
+      if (token) result.headers['Authorization'] = prefix ? `${prefix} ${token.accessToken}` : token.accessToken;
+      else result.pending = 'OAuth 2.0: no access token yet, one is requested when the request is sent';
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Like computeAuth, but makes sure an OAuth 2.0 access token is available first: cached tokens
+ * are reused until they expire, expired ones are refreshed, and client credentials / password
+ * grants fetch a new token. The authorization code flow needs the user, so it throws instead.
+ */
+export async function prepareAuth(auth: RequestAuth | undefined, scope: VariableScope, signal?: AbortSignal): Promise<AuthInjection> {
+  if (auth?.type !== 'oauth2') return computeAuth(auth, scope);
+  const config = resolveOAuth2Config(auth.oauth2 || {}, scope);
+  return computeAuth(auth, scope, await ensureAccessToken(config, signal));
+}
+
+/**
+ * What the auth adds, without any network access: OAuth 2.0 uses the cached token, if any.
+ */
+export function previewAuth(auth: RequestAuth | undefined, scope: VariableScope): AuthInjection {
+  const token = auth?.type === 'oauth2' ? getCachedToken(resolveOAuth2Config(auth.oauth2 || {}, scope)) : null;
+  return computeAuth(auth, scope, token);
+}
+
+/**
+ * Returns a copy of the (already resolved) request with the auth query params appended.
+ */
+export function withAuthParams(resolved: RequestState, injection: AuthInjection): RequestState {
+  if (!injection.params.length) return resolved;
+  return {
+    ...resolved,
+    params: [
+      ...resolved.params,
+      ...injection.params.map(([key, value], i) => ({ id: `auth-${i}`, key, value, enabled: true })),
+    ],
+  };
+}
+
+// --- Digest (RFC 7616) ---
+
+export function parseDigestChallenge(header: string): Record<string, string> | null {
+  const match = header.match(/Digest\s+(.*)$/i);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  const re = /([a-z0-9_-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,\s]*))/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(match[1]))) params[m[1].toLowerCase()] = m[2] !== undefined ? m[2].replace(/\\(.)/g, '$1') : m[3];
+  return params.nonce ? params : null;
+}
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Builds the Authorization header answering a Digest challenge. `uri` is the path and query.
+ */
+export function buildDigestAuthorization(
+  challenge: Record<string, string>,
+  credentials: { username: string; password: string },
+  method: string,
+  uri: string,
+  body = '',
+  cnonce = randomHex(8)
+): string {
+  const algorithm = (challenge.algorithm || 'MD5').toUpperCase();
+  const hash = (text: string): string => (algorithm.startsWith('SHA-256') ? CryptoJS.SHA256(text) : CryptoJS.MD5(text)).toString();
+  const realm = challenge.realm || '';
+  const nc = '00000001';
+  const offered = (challenge.qop || '').split(',').map(q => q.trim()).filter(Boolean);
+  const qop = offered.includes('auth') ? 'auth' : offered.includes('auth-int') ? 'auth-int' : '';
+
+  let ha1 = hash(`${credentials.username}:${realm}:${credentials.password}`);
+  if (algorithm.endsWith('-SESS')) ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  const ha2 = hash(qop === 'auth-int' ? `${method}:${uri}:${hash(body)}` : `${method}:${uri}`);
+  const response = qop
+    ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const parts = [
+    `username="${credentials.username}"`,
+    `realm="${realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${uri}"`,
+    `algorithm=${challenge.algorithm || 'MD5'}`,
+    `response="${response}"`,
+  ];
+  if (qop) parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+  if (challenge.opaque) parts.push(`opaque="${challenge.opaque}"`);
+  return `Digest ${parts.join(', ')}`;
+}
+
+/**
+ * Sends the request; for Digest auth a 401 challenge is answered and the request retried once.
+ * The browser only exposes WWW-Authenticate cross-origin when the server lists it in
+ * Access-Control-Expose-Headers.
+ */
+export async function fetchWithAuth(url: string, init: RequestInit, injection: AuthInjection): Promise<Response> {
+  const res = await fetch(url, init);
+  if (res.status !== 401 || !injection.digest) return res;
+  const challenge = parseDigestChallenge(res.headers.get('www-authenticate') || '');
+  if (!challenge) return res;
+
+  // Resolved the way fetch resolves it, so "http://host?x=1" gives "/?x=1"
+  const { pathname, search } = new URL(url, window.location.href);
+  const uri = pathname + search;
+  const body = typeof init.body === 'string' ? init.body : '';
+  const authorization = buildDigestAuthorization(challenge, injection.digest, init.method || 'GET', uri, body);
+  injection.headers['Authorization'] = authorization;
+  return fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: authorization } });
+}
+
+// --- OAuth 2.0 ---
+
+const TOKENS_KEY = 'postman_lite_oauth_tokens';
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+// Tokens are cached per client and endpoint, so requests sharing a configuration share the token
+export const tokenCacheKey = (config: OAuth2Config) =>
+  [config.grantType, config.accessTokenUrl, config.clientId, config.scope, config.grantType === 'password' ? config.username : ''].join('|');
+
+function loadTokens(): Record<string, OAuth2Token> {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export const getCachedToken = (config: OAuth2Config): OAuth2Token | null => loadTokens()[tokenCacheKey(config)] || null;
+
+export function saveCachedToken(config: OAuth2Config, token: OAuth2Token | null) {
+  const tokens = loadTokens();
+  if (token) tokens[tokenCacheKey(config)] = token;
+  else delete tokens[tokenCacheKey(config)];
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+}
+
+export const isTokenExpired = (token: OAuth2Token, now = Date.now()) =>
+  token.expiresAt !== undefined && token.expiresAt - EXPIRY_MARGIN_MS <= now;
+
+async function postTokenRequest(config: OAuth2Config, fields: Record<string, string>, signal?: AbortSignal): Promise<OAuth2Token> {
+  if (!config.accessTokenUrl) throw new Error('OAuth 2.0: Access Token URL is required');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+  };
+  const body = new URLSearchParams();
+  Object.entries(fields).forEach(([k, v]) => { if (v) body.append(k, v); });
+  if (config.clientAuthentication === 'header' && config.clientSecret) {
+    headers['Authorization'] = `Basic ${encodeBase64(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`)}`;
+  } else {
+    body.append('client_id', config.clientId);
+    if (config.clientSecret) body.append('client_secret', config.clientSecret);
+  }
+
+  const res = await fetch(config.accessTokenUrl, { method: 'POST', headers, body, signal });
+  const text = await res.text();
+  // Some providers answer form-encoded even when JSON is requested
+  let json: Record<string, any>;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = Object.fromEntries(new URLSearchParams(text));
+  }
+  if (!res.ok || json.error || !json.access_token) {
+    const reason = json.error ? `${json.error}${json.error_description ? `: ${json.error_description}` : ''}` : `${res.status} ${res.statusText}`;
+    throw new Error(`OAuth 2.0 token request failed (${reason})`);
+  }
+
+  const now = Date.now();
+  const expiresIn = Number(json.expires_in);
+  return {
+    accessToken: String(json.access_token),
+    tokenType: json.token_type ? String(json.token_type) : 'Bearer',
+    refreshToken: json.refresh_token ? String(json.refresh_token) : fields.refresh_token || undefined,
+    expiresAt: expiresIn > 0 ? now + expiresIn * 1000 : undefined,
+    scope: json.scope ? String(json.scope) : config.scope || undefined,
+    obtainedAt: now,
+  };
+}
+
+export function refreshAccessToken(config: OAuth2Config, token: OAuth2Token, signal?: AbortSignal): Promise<OAuth2Token> {
+  if (!token.refreshToken) return Promise.reject(new Error('OAuth 2.0: the token has no refresh token'));
+  return postTokenRequest(config, { grant_type: 'refresh_token', refresh_token: token.refreshToken, scope: config.scope }, signal);
+}
+
+/**
+ * Runs the grant and caches the new token. `config` must already have its variables substituted.
+ */
+export async function requestAccessToken(config: OAuth2Config, signal?: AbortSignal): Promise<OAuth2Token> {
+  let token: OAuth2Token;
+  if (config.grantType === 'client_credentials') {
+    token = await postTokenRequest(config, { grant_type: 'client_credentials', scope: config.scope }, signal);
+  } else if (config.grantType === 'password') {
+    token = await postTokenRequest(config, { grant_type: 'password', username: config.username, password: config.password, scope: config.scope }, signal);
+  } else {
+    const { code, verifier, redirectUri } = await authorizeInPopup(config);
+    token = await postTokenRequest(config, { grant_type: 'authorization_code', code, redirect_uri: redirectUri, code_verifier: verifier }, signal);
+  }
+  saveCachedToken(config, token);
+  return token;
+}
+
+/**
+ * Returns a usable token for the request: the cached one, a refreshed one, or a new one for
+ * grants that need no user interaction.
+ */
+export async function ensureAccessToken(config: OAuth2Config, signal?: AbortSignal): Promise<OAuth2Token> {
+  const cached = getCachedToken(config);
+  if (cached && !isTokenExpired(cached)) return cached;
+
+  if (cached?.refreshToken) {
+    try {
+      const refreshed = await refreshAccessToken(config, cached, signal);
+      saveCachedToken(config, refreshed);
+      return refreshed;
+    } catch (e) {
+      // Fall back to a new grant below
+      console.warn('[OAuth 2.0] Refresh failed', e);
+    }
+  }
+
+  if (config.grantType === 'authorization_code') {
+    throw new Error(cached
+      ? 'OAuth 2.0: the access token expired. Get a new access token in the Auth tab.'
+      : 'OAuth 2.0: no access token. Use "Get New Access Token" in the Auth tab.');
+  }
+  return requestAccessToken(config, signal);
+}
+
+// --- Authorization code with PKCE ---
+
+const base64Url = (base64: string) => base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = base64Url(btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))));
+  // CryptoJS instead of crypto.subtle, which is missing on plain http origins
+  const challenge = base64Url(CryptoJS.SHA256(verifier).toString(CryptoJS.enc.Base64));
+  return { verifier, challenge };
+}
+
+export const defaultRedirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+/**
+ * Opens the provider's login page and waits for it to redirect back. The redirect URI must be on
+ * this origin (the default), otherwise the popup's location cannot be read.
+ */
+function authorizeInPopup(config: OAuth2Config): Promise<{ code: string; verifier: string; redirectUri: string }> {
+  if (!config.authUrl) return Promise.reject(new Error('OAuth 2.0: Auth URL is required'));
+  const redirectUri = config.redirectUri || defaultRedirectUri();
+  const state = randomHex(8);
+  const pkce = config.usePkce ? createPkcePair() : null;
+
+  const url = new URL(config.authUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  if (config.scope) url.searchParams.set('scope', config.scope);
+  if (pkce) {
+    url.searchParams.set('code_challenge', pkce.challenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+
+  const popup = window.open(url.toString(), 'postman_lite_oauth', 'width=520,height=680');
+  if (!popup) return Promise.reject(new Error('OAuth 2.0: the authorization popup was blocked'));
+
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const timer = window.setInterval(() => {
+      if (popup.closed) {
+        window.clearInterval(timer);
+        reject(new Error('OAuth 2.0: the authorization window was closed'));
+        return;
+      }
+      if (Date.now() - started > 5 * 60 * 1000) {
+        window.clearInterval(timer);
+        popup.close();
+        reject(new Error('OAuth 2.0: authorization timed out'));
+        return;
+      }
+      let href = '';
+      try {
+        href = popup.location.href;
+      } catch {
+        return; // Still on the provider's origin
+      }
+      if (!href.startsWith(redirectUri)) return;
+
+      window.clearInterval(timer);
+      popup.close();
+      const params = new URL(href).searchParams;
+      if (params.get('error')) {
+        reject(new Error(`OAuth 2.0 authorization failed (${params.get('error')}${params.get('error_description') ? `: ${params.get('error_description')}` : ''})`));
+      } else if (params.get('state') !== state) {
+        reject(new Error('OAuth 2.0: state mismatch in the authorization response'));
+      } else if (!params.get('code')) {
+        reject(new Error('OAuth 2.0: no authorization code in the response'));
+      } else {
+        resolve({ code: params.get('code')!, verifier: pkce?.verifier || '', redirectUri });
+      }
+    }, 500);
+  });
+}
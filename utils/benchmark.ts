@@ -0,0 +1,237 @@
+import { AppSettings } from '../types';
+import { RunnerItem, executeRequest } from './runner';
+import { ScriptVariables } from './scripts';
+import { sleep } from './request';
+
+// --- Benchmark ---
+// Sends one request many times from a pool of concurrent workers, either a fixed number of times or
+// until a duration has passed. Workers start one after another over the ramp-up period. Each request
+// starts from the same variables; changes made by scripts are not kept.
+
+export const MAX_BENCHMARK_RUNS = 20;
+
+export interface BenchmarkTarget {
+  item: RunnerItem;
+  collectionId: string | null; // Collection whose variables are in scope
+}
+
+export interface BenchmarkOptions {
+  mode: 'count' | 'duration';
+  requests: number; // Total requests in count mode
+  durationSec: number; // Run time in duration mode, ramp-up included
+  concurrency: number;
+  rampUpSec: number;
+  runScripts: boolean;
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+  mode: 'count',
+  requests: 100,
+  durationSec: 30,
+  concurrency: 10,
+  rampUpSec: 0,
+  runScripts: false,
+};
+
+export interface BenchmarkSample {
+  start: number; // ms since the run started
+  latency: number; // ms, retries included
+  status: number; // 0 when no response arrived
+  size: number; // bytes
+  retries?: number;
+  error?: string;
+}
+
+export interface BenchmarkRun {
+  id: string;
+  name: string;
+  method: string;
+  url: string;
+  requestKey: string;
+  startedAt: number;
+  duration: number; // ms
+  stopped: boolean;
+  options: BenchmarkOptions;
+  samples: BenchmarkSample[]; // In completion order
+}
+
+export interface BenchmarkSummary {
+  requests: number;
+  responses: number; // Requests that got a response, whatever its status
+  errors: number; // Network errors, failed scripts and 4xx/5xx responses
+  min: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  throughput: number; // Requests per second
+  statuses: Record<string, number>;
+  errorBreakdown: Record<string, number>;
+}
+
+// Opaque (no-cors) responses have status 0 but still arrived
+const hasResponse = (sample: BenchmarkSample) => sample.status > 0 || !sample.error;
+
+export const sampleFailed = (sample: BenchmarkSample) => !!sample.error || sample.status >= 400;
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const increment = (counts: Record<string, number>, key: string) => { counts[key] = (counts[key] || 0) + 1; };
+
+/**
+ * Latency statistics count only requests that got a response; a network error has no latency worth
+ * comparing. Errors are grouped by message, and 4xx/5xx responses by status.
+ */
+export function summarizeBenchmark(samples: BenchmarkSample[], duration: number): BenchmarkSummary {
+  const latencies = samples.filter(hasResponse).map(s => s.latency).sort((a, b) => a - b);
+  const statuses: Record<string, number> = {};
+  const errorBreakdown: Record<string, number> = {};
+  samples.forEach(sample => {
+    increment(statuses, sample.status ? String(sample.status) : hasResponse(sample) ? 'Opaque' : 'No response');
+    if (sample.error) increment(errorBreakdown, sample.error);
+    else if (sample.status >= 400) increment(errorBreakdown, `HTTP ${sample.status}`);
+  });
+  return {
+    requests: samples.length,
+    responses: latencies.length,
+    errors: samples.filter(sampleFailed).length,
+    min: latencies[0] || 0,
+    avg: latencies.length ? latencies.reduce((sum, l) => sum + l, 0) / latencies.length : 0,
+    p50: percentile(latencies, 50),
+    p90: percentile(latencies, 90),
+    p99: percentile(latencies, 99),
+    max: latencies[latencies.length - 1] || 0,
+    throughput: duration > 0 ? samples.length / (duration / 1000) : 0,
+    statuses,
+    errorBreakdown,
+  };
+}
+
+export interface LatencyBin {
+  start: number; // ms since the run started
+  end: number;
+  count: number;
+  avg: number | null; // null when no request in the bin got a response
+  p90: number | null;
+  errors: number;
+}
+
+/**
+ * Groups samples by start time for the latency chart.
+ */
+export function latencyBins(samples: BenchmarkSample[], duration: number, binCount = 60): LatencyBin[] {
+  const span = samples.reduce((max, s) => Math.max(max, s.start + 1), Math.max(duration, 1));
+  const width = span / binCount;
+  const groups: BenchmarkSample[][] = Array.from({ length: binCount }, () => []);
+  samples.forEach(sample => groups[Math.min(binCount - 1, Math.floor(sample.start / width))].push(sample));
+  return groups.map((group, idx) => {
+    const latencies = group.filter(hasResponse).map(s => s.latency).sort((a, b) => a - b);
+    return {
+      start: idx * width,
+      end: (idx + 1) * width,
+      count: group.length,
+      avg: latencies.length ? latencies.reduce((sum, l) => sum + l, 0) / latencies.length : null,
+      p90: latencies.length ? percentile(latencies, 90) : null,
+      errors: group.filter(sampleFailed).length,
+    };
+  });
+}
+
+// --- Execution ---
+
+/**
+ * Runs the benchmark until the requests are sent, the duration is over or `signal` aborts.
+ * Requests cut short by stopping are left out of the samples.
+ */
+export async function runBenchmark(
+  target: BenchmarkTarget,
+  options: BenchmarkOptions,
+  settings: AppSettings,
+  variables: ScriptVariables,
+  signal: AbortSignal,
+  onSample: (sample: BenchmarkSample) => void
+): Promise<{ samples: BenchmarkSample[]; duration: number; stopped: boolean }> {
+  const item: RunnerItem = options.runScripts
+    ? target.item
+    : { ...target.item, request: { ...target.item.request, preRequestScript: '', testScript: '' } };
+  const concurrency = Math.max(1, options.concurrency);
+  const total = Math.max(1, options.requests);
+  const durationMs = Math.max(1, options.durationSec) * 1000;
+  const rampUpMs = Math.max(0, options.rampUpSec) * 1000;
+  const samples: BenchmarkSample[] = [];
+  const startedAt = Date.now();
+  let issued = 0;
+
+  const hasNext = () => {
+    if (signal.aborted) return false;
+    return options.mode === 'count' ? issued < total : Date.now() - startedAt < durationMs;
+  };
+
+  const worker = async (index: number) => {
+    await sleep((rampUpMs * index) / concurrency, signal);
+    while (hasNext()) {
+      const iteration = issued++;
+      const start = Date.now() - startedAt;
+      const { entry } = await executeRequest(item, {
+        settings,
+        variables: { ...variables, local: {} },
+        iteration,
+        iterationCount: options.mode === 'count' ? total : 0, // Not known ahead in duration mode
+        signal,
+      });
+      if (signal.aborted) return;
+      const scriptError = entry.errors[0] && `${entry.errors[0].phase} script: ${entry.errors[0].message}`;
+      const failedTest = entry.tests.find(t => !t.passed);
+      const sample: BenchmarkSample = {
+        start,
+        latency: entry.time,
+        status: entry.status,
+        size: entry.size,
+        ...(entry.retries ? { retries: entry.retries } : {}),
+        ...(entry.error || scriptError || failedTest ? { error: entry.error || scriptError || `Test failed: ${failedTest!.name}` } : {}),
+      };
+      samples.push(sample);
+      onSample(sample);
+    }
+  };
+
+  // Count mode never needs more workers than requests
+  const workers = options.mode === 'count' ? Math.min(concurrency, total) : concurrency;
+  await Promise.all(Array.from({ length: workers }, (_, idx) => worker(idx)));
+  return { samples, duration: Date.now() - startedAt, stopped: signal.aborted };
+}
+
+// --- Export ---
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toBenchmarkCsv(run: BenchmarkRun): string {
+  const header = 'index,start_ms,latency_ms,status,size_bytes,retries,error';
+  const rows = run.samples.map((s, idx) => [idx + 1, s.start, s.latency, s.status, s.size, s.retries || 0, s.error].map(csvCell).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+export function toBenchmarkJson(run: BenchmarkRun): string {
+  return JSON.stringify({
+    name: run.name,
+    method: run.method,
+    url: run.url,
+    startedAt: new Date(run.startedAt).toISOString(),
+    durationMs: run.duration,
+    stopped: run.stopped,
+    options: run.options,
+    summary: summarizeBenchmark(run.samples, run.duration),
+    samples: run.samples,
+  }, null, 2);
+}
@@ -0,0 +1,209 @@
+import { ResponseState } from '../types';
+import { mediaType } from './responseBody';
+
+// --- Response bytes ---
+// Bodies are read as bytes and decoded by their content type and charset. Text bodies keep using
+// `data`; binary bodies are kept base64 encoded in `bodyBase64` so history stays JSON-safe. A text body
+// whose `data` would not encode back to the same bytes also keeps them, in `rawBase64`, so it saves unchanged.
+
+export type PreviewKind = 'image' | 'audio' | 'video' | 'pdf';
+
+export const HEX_ROW_BYTES = 16;
+export const HEX_PAGE_BYTES = 4096;
+
+const TEXT_MEDIA_TYPE = /^text\/|[/+](json|xml|yaml|x-yaml|javascript|ecmascript|x-www-form-urlencoded|graphql|ndjson|x-ndjson)$/;
+
+export const isTextMediaType = (type: string) => TEXT_MEDIA_TYPE.test(type);
+
+export function previewKind(contentType: string): PreviewKind | null {
+  const type = mediaType(contentType);
+  if (type === 'application/pdf') return 'pdf';
+  const top = type.split('/')[0];
+  return top === 'image' || top === 'audio' || top === 'video' ? top : null;
+}
+
+export function charsetOf(contentType: string): string | null {
+  const match = /;\s*charset\s*=\s*"?([^";]+)"?/i.exec(contentType);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Decodes with the declared charset, falling back to UTF-8 for labels the browser does not know.
+ */
+export function decodeText(bytes: Uint8Array, contentType: string): string {
+  const charset = charsetOf(contentType);
+  if (charset) {
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch (e) {
+      // Unknown label
+    }
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Undeclared types count as text when the start of the body is valid UTF-8 without control bytes
+function looksLikeText(bytes: Uint8Array): boolean {
+  const head = bytes.subarray(0, 1024);
+  if (head.some(b => b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d && b !== 0x0c)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.length > 1024 ? head.subarray(0, lastCharBoundary(head)) : head);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Cutting at 1024 bytes may split a multi-byte character; stop before it
+function lastCharBoundary(bytes: Uint8Array): number {
+  let end = bytes.length;
+  while (end > 0 && (bytes[end - 1] & 0xc0) === 0x80) end--;
+  return end > 0 && bytes[end - 1] >= 0xc0 ? end - 1 : bytes.length;
+}
+
+export function isBinaryBody(bytes: Uint8Array, contentType: string): boolean {
+  const type = contentType ? mediaType(contentType) : '';
+  if (isTextMediaType(type)) return false;
+  if (previewKind(type)) return true;
+  return bytes.length > 0 && !looksLikeText(bytes);
+}
+
+export interface DecodedBody {
+  data: any; // Parsed JSON, text, or '' for binary bodies
+  text: string; // What test scripts see as the body
+  bodyBase64?: string;
+  rawBase64?: string;
+  size: string;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+export async function readResponseBody(res: Response, contentType: string): Promise<DecodedBody> {
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  const size = (bytes.length / 1024).toFixed(2) + ' KB';
+  if (isBinaryBody(bytes, contentType)) {
+    return { data: '', text: new TextDecoder().decode(bytes), bodyBase64: bytesToBase64(bytes), size };
+  }
+  const text = decodeText(bytes, contentType);
+  let data: any = text;
+  if (/[/+]json$/.test(mediaType(contentType))) {
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      // Keep as text
+    }
+  }
+  const reproducible = typeof data === 'string' && sameBytes(new TextEncoder().encode(text), bytes);
+  return { data, text, ...(reproducible ? {} : { rawBase64: bytesToBase64(bytes) }), size };
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * The body as a Blob of its original bytes, or of its text for responses that did not keep them, for previews and downloads.
+ */
+export function responseBlob(response: ResponseState): Blob {
+  const type = response.contentType || 'application/octet-stream';
+  if (response.bodyBase64 !== undefined) return new Blob([base64ToBytes(response.bodyBase64)], { type });
+  if (response.rawBase64 !== undefined) return new Blob([base64ToBytes(response.rawBase64)], { type });
+  const text = typeof response.data === 'string' ? response.data : JSON.stringify(response.data, null, 2);
+  return new Blob([text ?? ''], { type });
+}
+
+// --- Hex view ---
+
+export interface HexRow {
+  offset: string;
+  hex: string[];
+  ascii: string;
+}
+
+export function hexRows(bytes: Uint8Array, start: number, length: number): HexRow[] {
+  const rows: HexRow[] = [];
+  const end = Math.min(bytes.length, start + length);
+  for (let offset = start; offset < end; offset += HEX_ROW_BYTES) {
+    const row = bytes.subarray(offset, Math.min(end, offset + HEX_ROW_BYTES));
+    rows.push({
+      offset: offset.toString(16).padStart(8, '0'),
+      hex: Array.from(row, b => b.toString(16).padStart(2, '0')),
+      ascii: Array.from(row, b => b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.').join(''),
+    });
+  }
+  return rows;
+}
+
+// --- Filenames ---
+
+/**
+ * The filename of a Content-Disposition header; filename* (RFC 5987) wins over filename.
+ */
+export function contentDispositionFilename(header: string | undefined): string | null {
+  if (!header) return null;
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ''));
+    } catch (e) {
+      // Malformed escapes, try the plain parameter
+    }
+  }
+  const plain = /filename\s*=\s*(?:"((?:\\.|[^"])*)"|([^;]+))/i.exec(header);
+  if (!plain) return null;
+  const name = plain[1] !== undefined ? plain[1].replace(/\\(.)/g, '$1') : plain[2].trim();
+  return name || null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'text/html': 'html',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+/**
+ * Name for saving a response: Content-Disposition, else the last URL path segment, else one from the type.
+ */
+export function responseFilename(response: ResponseState, url: string): string {
+  const disposition = contentDispositionFilename(response.headers['content-disposition']);
+  if (disposition) return disposition.replace(/[\\/]/g, '_');
+  const segment = url.split(/[?#]/)[0].replace(/^[a-z]+:\/\/[^/]*/i, '').split('/').filter(Boolean).pop();
+  if (segment && segment.includes('.') && !segment.includes('{{')) {
+    try {
+      return decodeURIComponent(segment);
+    } catch (e) {
+      return segment;
+    }
+  }
+  const type = mediaType(response.contentType || '');
+  return `response.${EXTENSIONS[type] || (isTextMediaType(type) ? 'txt' : 'bin')}`;
+}
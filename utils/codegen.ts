@@ -0,0 +1,431 @@
+import { RequestState } from '../types';
+import { graphqlBodyText, DEFAULT_GRAPHQL_BODY } from './graphql';
+
+// --- Code Snippet Generators ---
+// Every generator works from a CodegenInput: the request after variable substitution,
+// with the same merged header set handleSend uses.
+
+export type CodeLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go' | 'httpie' | 'powershell';
+
+export interface CodegenOptions {
+  multiline: boolean;
+  quote: 'single' | 'double';
+}
+
+export type CodegenBody =
+  | { type: 'none' }
+  | { type: 'raw'; content: string; isJson: boolean }
+  | { type: 'urlencoded'; fields: [string, string][] }
+  | { type: 'form-data'; fields: { key: string; value: string; fileName?: string }[] }
+  | { type: 'file'; fileName: string };
+
+export interface CodegenInput {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  body: CodegenBody;
+}
+
+export function buildCodegenInput(resolved: RequestState, url: string, headers: Record<string, string>): CodegenInput {
+  const hasBody = resolved.method !== 'GET' && resolved.method !== 'HEAD';
+  let body: CodegenBody = { type: 'none' };
+
+  if (hasBody) {
+    if (resolved.bodyType === 'json' || resolved.bodyType === 'text') {
+      if (resolved.bodyContent) body = { type: 'raw', content: resolved.bodyContent, isJson: resolved.bodyType === 'json' };
+    } else if (resolved.bodyType === 'graphql') {
+      body = { type: 'raw', content: graphqlBodyText(resolved.graphql || DEFAULT_GRAPHQL_BODY), isJson: true };
+    } else if (resolved.bodyType === 'x-www-form-urlencoded') {
+      body = { type: 'urlencoded', fields: resolved.bodyFormUrlEncoded.filter(i => i.enabled && i.key).map(i => [i.key, i.value]) };
+    } else if (resolved.bodyType === 'form-data') {
+      body = {
+        type: 'form-data',
+        fields: resolved.bodyFormData.filter(i => i.enabled && i.key).map(i =>
+          i.type === 'file' ? { key: i.key, value: '', fileName: i.file?.name || i.fileRef?.name || 'file' } : { key: i.key, value: i.value }
+        ),
+      };
+    } else if (resolved.bodyType === 'file') {
+      body = { type: 'file', fileName: resolved.file?.name || resolved.fileRef?.name || 'file' };
+    }
+  }
+
+  return { method: resolved.method, url, headers: Object.entries(headers), body };
+}
+
+// --- String literal helpers ---
+
+function shellQuote(s: string, quote: CodegenOptions['quote']): string {
+  if (quote === 'double') return `"${s.replace(/(["\\$`])/g, '\\$1')}"`;
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+// JS and Python share the same escaping rules for the characters we care about
+function cString(s: string, quote: CodegenOptions['quote']): string {
+  const q = quote === 'single' ? "'" : '"';
+  const escaped = s
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .split(q).join('\\' + q);
+  return q + escaped + q;
+}
+
+const goString = (s: string) => JSON.stringify(s);
+
+const powershellString = (s: string, quote: CodegenOptions['quote']) =>
+  quote === 'single' ? `'${s.replace(/'/g, "''")}'` : `"${s.replace(/([`"$])/g, '`$1')}"`;
+
+function indentLines(text: string, prefix: string): string {
+  return text.split('\n').map((line, idx) => idx === 0 ? line : prefix + line).join('\n');
+}
+
+/**
+ * Renders key/value pairs as an object/dict literal, either one entry per line or inline.
+ */
+function objectLiteral(entries: [string, string][], str: (s: string) => string, multiline: boolean, indent: string, sep = ': '): string {
+  if (entries.length === 0) return '{}';
+  const items = entries.map(([k, v]) => `${str(k)}${sep}${str(v)}`);
+  if (!multiline) return `{ ${items.join(', ')} }`;
+  return `{\n${items.map(i => indent + '  ' + i).join(',\n')}\n${indent}}`;
+}
+
+function prettyJson(content: string): string | null {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return null;
+  }
+}
+
+// --- Generators ---
+
+// A camelCase identifier from a form field key, e.g. "user-avatar" -> "userAvatar"
+function jsIdentifier(key: string): string {
+  const words = key.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((w, i) => i ? w[0].toUpperCase() + w.slice(1) : w[0].toLowerCase() + w.slice(1)).join('');
+  return !name ? 'file' : /^\d/.test(name) ? `_${name}` : name;
+}
+
+function generateCurl(input: CodegenInput, opts: CodegenOptions): string {
+  const q = (s: string) => shellQuote(s, opts.quote);
+  const body = input.body;
+  const head: string[] = ['curl'];
+  // GET is the default, and POST is implied by a body
+  if (input.method === 'HEAD') head.push('--head');
+  else if (input.method !== 'GET' && !(input.method === 'POST' && body.type !== 'none')) head.push(`-X ${input.method}`);
+  head.push(q(input.url));
+
+  const parts: string[] = [head.join(' ')];
+  input.headers.forEach(([k, v]) => parts.push(`-H ${q(`${k}: ${v}`)}`));
+
+  if (body.type === 'raw') parts.push(`--data-raw ${q(body.content)}`);
+  if (body.type === 'urlencoded') body.fields.forEach(([k, v]) => parts.push(`--data-urlencode ${q(`${k}=${v}`)}`));
+  if (body.type === 'form-data') body.fields.forEach(f => parts.push(`-F ${q(f.fileName ? `${f.key}=@${f.fileName}` : `${f.key}=${f.value}`)}`));
+  if (body.type === 'file') parts.push(`--data-binary ${q('@' + body.fileName)}`);
+
+  return parts.join(opts.multiline ? ' \\\n  ' : ' ');
+}
+
+function generateHttpie(input: CodegenInput, opts: CodegenOptions): string {
+  const q = (s: string) => shellQuote(s, opts.quote);
+  const body = input.body;
+  const head: string[] = ['http'];
+  if (body.type === 'form-data') head.push('--multipart');
+  if (body.type === 'urlencoded') head.push('--form');
+  head.push(input.method, q(input.url));
+
+  const parts: string[] = [head.join(' ')];
+  if (body.type === 'raw') parts.push(`--raw ${q(body.content)}`);
+  input.headers.forEach(([k, v]) => parts.push(q(`${k}:${v}`)));
+  if (body.type === 'urlencoded') body.fields.forEach(([k, v]) => parts.push(q(`${k}=${v}`)));
+  if (body.type === 'form-data') body.fields.forEach(f => parts.push(q(f.fileName ? `${f.key}@${f.fileName}` : `${f.key}=${f.value}`)));
+  if (body.type === 'file') parts.push(`< ${q(body.fileName)}`);
+  return parts.join(opts.multiline ? ' \\\n  ' : ' ');
+}
+
+function generateFetch(input: CodegenInput, opts: CodegenOptions): string {
+  const s = (v: string) => cString(v, opts.quote);
+  const lines: string[] = [];
+  const body = input.body;
+  let bodyExpr: string | null = null;
+
+  if (body.type === 'raw') {
+    const pretty = body.isJson ? prettyJson(body.content) : null;
+    bodyExpr = pretty !== null
+      ? `JSON.stringify(${opts.multiline ? indentLines(pretty, '  ') : JSON.stringify(JSON.parse(body.content))})`
+      : s(body.content);
+  } else if (body.type === 'urlencoded') {
+    lines.push('const body = new URLSearchParams();');
+    body.fields.forEach(([k, v]) => lines.push(`body.append(${s(k)}, ${s(v)});`));
+    lines.push('');
+    bodyExpr = 'body';
+  } else if (body.type === 'form-data') {
+    // One file input per key; a key repeated for several files takes them in order from the same input
+    const inputs = new Map<string, { name: string; used: number }>();
+    body.fields.forEach(f => {
+      if (!f.fileName || inputs.has(f.key)) return;
+      const base = `${jsIdentifier(f.key)}Input`;
+      let name = base;
+      for (let n = 2; [...inputs.values()].some(i => i.name === name); n++) name = `${base}${n}`;
+      inputs.set(f.key, { name, used: 0 });
+      lines.push(`const ${name} = document.querySelector(${s(`input[type="file"][name="${f.key.replace(/["\\]/g, '\\$&')}"]`)});`);
+    });
+    if (inputs.size) lines.push('');
+    lines.push('const formData = new FormData();');
+    body.fields.forEach(f => {
+      if (!f.fileName) {
+        lines.push(`formData.append(${s(f.key)}, ${s(f.value)});`);
+        return;
+      }
+      const input = inputs.get(f.key)!;
+      lines.push(`formData.append(${s(f.key)}, ${input.name}.files[${input.used++}], ${s(f.fileName)});`);
+    });
+    lines.push('');
+    bodyExpr = 'formData';
+  } else if (body.type === 'file') {
+    lines.push(`// ${body.fileName}`);
+    lines.push('const file = fileInput.files[0];');
+    lines.push('');
+    bodyExpr = 'file';
+  }
+
+  const optionLines = [`  method: ${s(input.method)}`];
+  if (input.headers.length) optionLines.push(`  headers: ${objectLiteral(input.headers, s, opts.multiline, '  ')}`);
+  if (bodyExpr) optionLines.push(`  body: ${bodyExpr}`);
+
+  lines.push(`const response = await fetch(${s(input.url)}, {`);
+  lines.push(optionLines.join(',\n'));
+  lines.push('});');
+  lines.push('');
+  lines.push('console.log(response.status);');
+  lines.push('console.log(await response.text());');
+  return lines.join('\n');
+}
+
+function generateAxios(input: CodegenInput, opts: CodegenOptions): string {
+  const s = (v: string) => cString(v, opts.quote);
+  const body = input.body;
+  const lines: string[] = [`const axios = require(${s('axios')});`];
+  let dataExpr: string | null = null;
+  let headersExpr = input.headers.length ? objectLiteral(input.headers, s, opts.multiline, '  ') : null;
+
+  if (body.type === 'form-data' || body.type === 'file') {
+    lines.push(`const fs = require(${s('fs')});`);
+  }
+  if (body.type === 'form-data') {
+    lines.push(`const FormData = require(${s('form-data')});`);
+    lines.push('');
+    lines.push('const form = new FormData();');
+    body.fields.forEach(f => lines.push(f.fileName
+      ? `form.append(${s(f.key)}, fs.createReadStream(${s(f.fileName)}));`
+      : `form.append(${s(f.key)}, ${s(f.value)});`));
+    dataExpr = 'form';
+    const entries = input.headers.map(([k, v]) => `${s(k)}: ${s(v)}`);
+    headersExpr = opts.multiline
+      ? `{\n${['...form.getHeaders()', ...entries].map(e => '    ' + e).join(',\n')}\n  }`
+      : `{ ${['...form.getHeaders()', ...entries].join(', ')} }`;
+  } else if (body.type === 'urlencoded') {
+    lines.push('');
+    lines.push('const data = new URLSearchParams();');
+    body.fields.forEach(([k, v]) => lines.push(`data.append(${s(k)}, ${s(v)});`));
+    dataExpr = 'data.toString()';
+  } else if (body.type === 'file') {
+    dataExpr = `fs.readFileSync(${s(body.fileName)})`;
+  } else if (body.type === 'raw') {
+    const pretty = body.isJson ? prettyJson(body.content) : null;
+    dataExpr = pretty !== null
+      ? `JSON.stringify(${opts.multiline ? indentLines(pretty, '  ') : JSON.stringify(JSON.parse(body.content))})`
+      : s(body.content);
+  }
+
+  const config = [`  method: ${s(input.method.toLowerCase())}`, `  url: ${s(input.url)}`];
+  if (headersExpr) config.push(`  headers: ${headersExpr}`);
+  if (dataExpr) config.push(`  data: ${dataExpr}`);
+  if (body.type === 'file' || body.type === 'form-data') config.push('  maxBodyLength: Infinity');
+
+  lines.push('');
+  lines.push('axios.request({');
+  lines.push(config.join(',\n'));
+  lines.push('})');
+  lines.push('  .then((response) => {');
+  lines.push('    console.log(response.status);');
+  lines.push('    console.log(response.data);');
+  lines.push('  })');
+  lines.push('  .catch((error) => {');
+  lines.push('    console.error(error);');
+  lines.push('  });');
+  return lines.join('\n');
+}
+
+function generatePython(input: CodegenInput, opts: CodegenOptions): string {
+  const s = (v: string) => cString(v, opts.quote);
+  const body = input.body;
+  const lines: string[] = ['import requests', '', `url = ${s(input.url)}`];
+  const args: string[] = [];
+
+  if (input.headers.length) {
+    lines.push(`headers = ${objectLiteral(input.headers, s, opts.multiline, '')}`);
+    args.push('headers=headers');
+  }
+
+  if (body.type === 'raw') {
+    lines.push(`payload = ${s(body.content)}`);
+    args.push('data=payload');
+  } else if (body.type === 'urlencoded') {
+    const items = body.fields.map(([k, v]) => `(${s(k)}, ${s(v)})`);
+    lines.push(opts.multiline && items.length
+      ? `payload = [\n${items.map(i => '  ' + i).join(',\n')}\n]`
+      : `payload = [${items.join(', ')}]`);
+    args.push('data=payload');
+  } else if (body.type === 'form-data') {
+    const textFields = body.fields.filter(f => !f.fileName).map(f => [f.key, f.value] as [string, string]);
+    const fileFields = body.fields.filter(f => f.fileName);
+    if (textFields.length) {
+      lines.push(`payload = ${objectLiteral(textFields, s, opts.multiline, '')}`);
+      args.push('data=payload');
+    }
+    if (fileFields.length) {
+      const files = fileFields.map(f => `${s(f.key)}: open(${s(f.fileName!)}, ${s('rb')})`);
+      lines.push(opts.multiline
+        ? `files = {\n${files.map(f => '  ' + f).join(',\n')}\n}`
+        : `files = {${files.join(', ')}}`);
+      args.push('files=files');
+    }
+  } else if (body.type === 'file') {
+    lines.push(`payload = open(${s(body.fileName)}, ${s('rb')})`);
+    args.push('data=payload');
+  }
+
+  lines.push('');
+  lines.push(`response = requests.request(${[s(input.method), 'url', ...args].join(', ')})`);
+  lines.push('');
+  lines.push('print(response.status_code)');
+  lines.push('print(response.text)');
+  return lines.join('\n');
+}
+
+function generateGo(input: CodegenInput, _opts: CodegenOptions): string {
+  const body = input.body;
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const setup: string[] = [];
+  let payload = 'nil';
+
+  if (body.type === 'raw') {
+    imports.add('strings');
+    const literal = body.content.includes('`') ? goString(body.content) : '`' + body.content + '`';
+    setup.push(`\tpayload := strings.NewReader(${literal})`);
+    payload = 'payload';
+  } else if (body.type === 'urlencoded') {
+    imports.add('net/url');
+    imports.add('strings');
+    setup.push('\tform := url.Values{}');
+    body.fields.forEach(([k, v]) => setup.push(`\tform.Add(${goString(k)}, ${goString(v)})`));
+    setup.push('\tpayload := strings.NewReader(form.Encode())');
+    payload = 'payload';
+  } else if (body.type === 'form-data') {
+    imports.add('bytes');
+    imports.add('mime/multipart');
+    setup.push('\tpayload := &bytes.Buffer{}');
+    setup.push('\twriter := multipart.NewWriter(payload)');
+    body.fields.forEach((f, idx) => {
+      if (f.fileName) {
+        imports.add('os');
+        imports.add('path/filepath');
+        setup.push(`\tfile${idx}, err := os.Open(${goString(f.fileName)})`);
+        setup.push('\tif err != nil {\n\t\tpanic(err)\n\t}');
+        setup.push(`\tdefer file${idx}.Close()`);
+        setup.push(`\tpart${idx}, err := writer.CreateFormFile(${goString(f.key)}, filepath.Base(${goString(f.fileName)}))`);
+        setup.push('\tif err != nil {\n\t\tpanic(err)\n\t}');
+        setup.push(`\tif _, err := io.Copy(part${idx}, file${idx}); err != nil {\n\t\tpanic(err)\n\t}`);
+      } else {
+        setup.push(`\t_ = writer.WriteField(${goString(f.key)}, ${goString(f.value)})`);
+      }
+    });
+    setup.push('\tif err := writer.Close(); err != nil {\n\t\tpanic(err)\n\t}');
+    payload = 'payload';
+  } else if (body.type === 'file') {
+    imports.add('os');
+    setup.push(`\tpayload, err := os.Open(${goString(body.fileName)})`);
+    setup.push('\tif err != nil {\n\t\tpanic(err)\n\t}');
+    setup.push('\tdefer payload.Close()');
+    payload = 'payload';
+  }
+
+  const lines: string[] = [
+    'package main',
+    '',
+    'import (',
+    ...Array.from(imports).sort().map(i => `\t"${i}"`),
+    ')',
+    '',
+    'func main() {',
+    ...setup,
+    `\treq, err := http.NewRequest(${goString(input.method)}, ${goString(input.url)}, ${payload})`,
+    '\tif err != nil {\n\t\tpanic(err)\n\t}',
+    ...input.headers.map(([k, v]) => `\treq.Header.Add(${goString(k)}, ${goString(v)})`),
+  ];
+  if (body.type === 'form-data') lines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+  lines.push(
+    '',
+    '\tres, err := http.DefaultClient.Do(req)',
+    '\tif err != nil {\n\t\tpanic(err)\n\t}',
+    '\tdefer res.Body.Close()',
+    '',
+    '\tdata, err := io.ReadAll(res.Body)',
+    '\tif err != nil {\n\t\tpanic(err)\n\t}',
+    '\tfmt.Println(res.Status)',
+    '\tfmt.Println(string(data))',
+    '}'
+  );
+  return lines.join('\n');
+}
+
+function generatePowershell(input: CodegenInput, opts: CodegenOptions): string {
+  const s = (v: string) => powershellString(v, opts.quote);
+  const body = input.body;
+  const lines: string[] = [];
+  const args: string[] = [`-Uri ${s(input.url)}`, `-Method ${input.method}`];
+
+  if (input.headers.length) {
+    const entries = input.headers.map(([k, v]) => `${s(k)} = ${s(v)}`);
+    lines.push(opts.multiline
+      ? `$headers = @{\n${entries.map(e => '    ' + e).join('\n')}\n}`
+      : `$headers = @{ ${entries.join('; ')} }`);
+    args.push('-Headers $headers');
+  }
+  if (body.type === 'raw') {
+    lines.push(`$body = ${s(body.content)}`);
+    args.push('-Body $body');
+  } else if (body.type === 'urlencoded') {
+    const entries = body.fields.map(([k, v]) => `${s(k)} = ${s(v)}`);
+    lines.push(`$body = @{ ${entries.join('; ')} }`);
+    args.push('-Body $body');
+  } else if (body.type === 'form-data') {
+    const entries = body.fields.map(f => `${s(f.key)} = ${f.fileName ? `Get-Item -Path ${s(f.fileName)}` : s(f.value)}`);
+    lines.push(`$form = @{ ${entries.join('; ')} }`);
+    args.push('-Form $form');
+  } else if (body.type === 'file') {
+    args.push(`-InFile ${s(body.fileName)}`);
+  }
+
+  lines.push(`$response = Invoke-WebRequest ${args.join(opts.multiline ? ' `\n  ' : ' ')}`);
+  lines.push('$response.StatusCode');
+  lines.push('$response.Content');
+  return lines.join('\n');
+}
+
+export const CODE_GENERATORS: { id: CodeLanguage; label: string; generate: (input: CodegenInput, opts: CodegenOptions) => string }[] = [
+  { id: 'curl', label: 'cURL', generate: generateCurl },
+  { id: 'fetch', label: 'JavaScript - fetch', generate: generateFetch },
+  { id: 'axios', label: 'Node.js - axios', generate: generateAxios },
+  { id: 'python', label: 'Python - requests', generate: generatePython },
+  { id: 'go', label: 'Go - net/http', generate: generateGo },
+  { id: 'httpie', label: 'HTTPie', generate: generateHttpie },
+  { id: 'powershell', label: 'PowerShell', generate: generatePowershell },
+];
+
+export function generateCode(language: CodeLanguage, input: CodegenInput, opts: CodegenOptions): string {
+  const generator = CODE_GENERATORS.find(g => g.id === language) || CODE_GENERATORS[0];
+  return generator.generate(input, opts);
+}
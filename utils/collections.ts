@@ -0,0 +1,169 @@
+import { Collection, CollectionFolder, CollectionItem, CollectionRequest, RequestState } from '../types';
+
+// --- Collection tree helpers ---
+// Collections are plain nested data; every helper returns a new tree and never mutates its input.
+
+type Container = Collection | CollectionFolder;
+
+export const generateId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+/**
+ * Removes File objects so the request can be serialized to localStorage.
+ */
+export function toSerializableRequest(req: RequestState): RequestState {
+  return {
+    ...req,
+    file: null,
+    bodyFormData: req.bodyFormData.map(item => ({ ...item, file: undefined })),
+  };
+}
+
+export function findItem(collections: Collection[], id: string): CollectionItem | null {
+  const search = (items: CollectionItem[]): CollectionItem | null => {
+    for (const item of items) {
+      if (item.id === id) return item;
+      if (item.type === 'folder') {
+        const found = search(item.items);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  for (const col of collections) {
+    const found = search(col.items);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Returns the names from the collection down to the item's parent folder, e.g. ['My API', 'Users'].
+ */
+export function findItemPath(collections: Collection[], id: string): string[] | null {
+  const search = (items: CollectionItem[], path: string[]): string[] | null => {
+    for (const item of items) {
+      if (item.id === id) return path;
+      if (item.type === 'folder') {
+        const found = search(item.items, [...path, item.name]);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  for (const col of collections) {
+    const found = search(col.items, [col.name]);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Returns the containers from the collection down to the item's parent folder.
+ */
+export function findAncestors(collections: Collection[], id: string): Container[] | null {
+  const search = (items: CollectionItem[], path: Container[]): Container[] | null => {
+    for (const item of items) {
+      if (item.id === id) return path;
+      if (item.type === 'folder') {
+        const found = search(item.items, [...path, item]);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  for (const col of collections) {
+    const found = search(col.items, [col]);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function findCollectionOf(collections: Collection[], id: string): Collection | null {
+  return collections.find(col => col.id === id || findItem([col], id) !== null) || null;
+}
+
+/**
+ * Flattens the saved requests of a collection or folder in display order.
+ */
+export function flattenRequests(items: CollectionItem[]): CollectionRequest[] {
+  return items.flatMap(item => item.type === 'folder' ? flattenRequests(item.items) : [item]);
+}
+
+const mapItems = (items: CollectionItem[], fn: (item: CollectionItem) => CollectionItem): CollectionItem[] =>
+  items.map(item => {
+    const mapped = fn(item);
+    return mapped.type === 'folder' ? { ...mapped, items: mapItems(mapped.items, fn) } : mapped;
+  });
+
+export function updateItem(collections: Collection[], id: string, update: (item: CollectionItem) => CollectionItem): Collection[] {
+  return collections.map(col => ({
+    ...col,
+    items: mapItems(col.items, item => item.id === id ? update(item) : item),
+  }));
+}
+
+export function renameNode(collections: Collection[], id: string, name: string): Collection[] {
+  if (collections.some(col => col.id === id)) {
+    return collections.map(col => col.id === id ? { ...col, name } : col);
+  }
+  return updateItem(collections, id, item => ({ ...item, name }));
+}
+
+export function removeNode(collections: Collection[], id: string): Collection[] {
+  const strip = (items: CollectionItem[]): CollectionItem[] =>
+    items.filter(item => item.id !== id).map(item => item.type === 'folder' ? { ...item, items: strip(item.items) } : item);
+  return collections.filter(col => col.id !== id).map(col => ({ ...col, items: strip(col.items) }));
+}
+
+/**
+ * Appends an item to a collection or folder (identified by containerId).
+ */
+export function addToContainer(collections: Collection[], containerId: string, newItem: CollectionItem): Collection[] {
+  const insert = (container: Container): Container => {
+    if (container.id === containerId) return { ...container, items: [...container.items, newItem] };
+    return { ...container, items: container.items.map(item => item.type === 'folder' ? insert(item) as CollectionFolder : item) };
+  };
+  return collections.map(col => insert(col) as Collection);
+}
+
+const containsId = (item: CollectionItem, id: string): boolean =>
+  item.id === id || (item.type === 'folder' && item.items.some(child => containsId(child, id)));
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+/**
+ * Moves an item relative to a target node. Dropping 'inside' a collection or folder appends to it.
+ * Folders cannot be dropped into themselves or their descendants.
+ */
+export function moveNode(collections: Collection[], sourceId: string, targetId: string, position: DropPosition): Collection[] {
+  if (sourceId === targetId) return collections;
+
+  // Reordering top-level collections
+  const sourceCollection = collections.find(col => col.id === sourceId);
+  if (sourceCollection) {
+    if (position === 'inside' || !collections.some(col => col.id === targetId)) return collections;
+    const rest = collections.filter(col => col.id !== sourceId);
+    const index = rest.findIndex(col => col.id === targetId) + (position === 'after' ? 1 : 0);
+    return [...rest.slice(0, index), sourceCollection, ...rest.slice(index)];
+  }
+
+  const source = findItem(collections, sourceId);
+  if (!source) return collections;
+  if (source.type === 'folder' && containsId(source, targetId)) return collections;
+
+  const without = removeNode(collections, sourceId);
+
+  if (position === 'inside') {
+    const target = without.find(col => col.id === targetId) || findItem(without, targetId);
+    if (!target || ('type' in target && target.type === 'request')) return collections;
+    return addToContainer(without, targetId, source);
+  }
+
+  const place = (items: CollectionItem[]): CollectionItem[] =>
+    items.flatMap(item => {
+      const current = item.type === 'folder' ? { ...item, items: place(item.items) } : item;
+      if (item.id !== targetId) return [current];
+      return position === 'before' ? [source, current] : [current, source];
+    });
+  return without.map(col => ({ ...col, items: place(col.items) }));
+}
@@ -0,0 +1,351 @@
+import { RequestState, RequestAuth, KeyValue, FormDataItem, HttpMethod } from '../types';
+import { INITIAL_REQUEST, HTTP_METHODS } from '../constants';
+
+export interface CurlImportResult {
+  request: RequestState;
+  warnings: string[]; // Unsupported or partially supported flags, reported to the user
+}
+
+let idCounter = 0;
+const nextId = () => `${Date.now()}-${idCounter++}`;
+
+const emptyRow = (): KeyValue => ({ id: nextId(), key: '', value: '', enabled: true });
+
+export function isCurlCommand(text: string): boolean {
+  return /^\s*curl(\.exe)?\s/i.test(text);
+}
+
+/**
+ * Splits a shell command line into arguments.
+ * Handles single quotes, double quotes, ANSI-C $'...' strings, backslash escapes and
+ * line continuations (both POSIX "\" and Windows cmd "^").
+ */
+export function tokenizeShell(input: string): string[] {
+  const tokens: string[] = [];
+  const text = input.replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+  let current = '';
+  let hasToken = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      if (hasToken) {
+        tokens.push(current);
+        current = '';
+        hasToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    hasToken = true;
+
+    if (ch === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      current += text.slice(i + 1, end);
+      i = end + 1;
+    } else if (ch === '$' && text[i + 1] === "'") {
+      i += 2;
+      while (i < text.length && text[i] !== "'") {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const esc = text[i + 1];
+          const map: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+          if (esc === 'x' || esc === 'u') {
+            const len = esc === 'x' ? 2 : 4;
+            current += String.fromCharCode(parseInt(text.substr(i + 2, len), 16));
+            i += 2 + len;
+            continue;
+          }
+          current += map[esc] ?? esc;
+          i += 2;
+        } else {
+          current += text[i++];
+        }
+      }
+      if (i >= text.length) throw new Error('Unterminated $\'...\' string');
+      i++;
+    } else if (ch === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length && '"\\$`'.includes(text[i + 1])) {
+          current += text[i + 1];
+          i += 2;
+        } else {
+          current += text[i++];
+        }
+      }
+      if (i >= text.length) throw new Error('Unterminated double quote');
+      i++;
+    } else if (ch === '\\' && i + 1 < text.length) {
+      current += text[i + 1];
+      i += 2;
+    } else {
+      current += ch;
+      i++;
+    }
+  }
+
+  if (hasToken) tokens.push(current);
+  return tokens;
+}
+
+// Flags that take a value. Short flags map to their long form.
+const SHORT_FLAGS: Record<string, string> = {
+  X: 'request', H: 'header', d: 'data', F: 'form', u: 'user', b: 'cookie',
+  A: 'user-agent', e: 'referer', o: 'output', m: 'max-time', x: 'proxy',
+  E: 'cert', T: 'upload-file', w: 'write-out', r: 'range', c: 'cookie-jar',
+};
+
+const VALUE_FLAGS = new Set([
+  'request', 'header', 'data', 'data-raw', 'data-ascii', 'data-binary', 'data-urlencode', 'json',
+  'form', 'form-string', 'user', 'cookie', 'user-agent', 'referer', 'url', 'output', 'max-time',
+  'connect-timeout', 'proxy', 'cert', 'key', 'cacert', 'upload-file', 'write-out', 'range',
+  'cookie-jar', 'oauth2-bearer', 'retry', 'resolve', 'connect-to', 'limit-rate', 'max-redirs',
+]);
+
+// Boolean flags we accept without changing the request (the browser owns these concerns)
+const IGNORED_FLAGS: Record<string, string | null> = {
+  'compressed': null, // fetch always negotiates compression
+  'location': null, // fetch follows redirects by default
+  'silent': null, 'show-error': null, 'verbose': null, 'include': null, 'progress-bar': null,
+  'no-progress-meter': null, 'fail': null, 'globoff': null, 'basic': null,
+  'insecure': 'TLS verification is enforced by the browser; "--insecure" has no effect',
+  'http1.1': 'HTTP version is chosen by the browser; "--http1.1" has no effect',
+  'http2': 'HTTP version is chosen by the browser; "--http2" has no effect',
+};
+
+const SHORT_BOOLEAN: Record<string, string> = {
+  s: 'silent', S: 'show-error', v: 'verbose', i: 'include', L: 'location', k: 'insecure',
+  G: 'get', f: 'fail', g: 'globoff', I: 'head', '#': 'progress-bar',
+};
+
+function splitPair(text: string, separator: string): [string, string] {
+  const idx = text.indexOf(separator);
+  return idx === -1 ? [text, ''] : [text.slice(0, idx), text.slice(idx + separator.length)];
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parses a curl command into a RequestState. Throws if the text is not a curl command
+ * or cannot be tokenized; everything else is best-effort and reported through warnings.
+ */
+export function parseCurl(command: string): CurlImportResult {
+  const args = tokenizeShell(command.trim());
+  if (!args.length || !/^curl(\.exe)?$/i.test(args[0])) throw new Error('Not a curl command');
+
+  const warnings: string[] = [];
+  const headers: KeyValue[] = [];
+  const dataParts: string[] = [];
+  const urlencodedParts: KeyValue[] = [];
+  const formParts: FormDataItem[] = [];
+  let method: string | null = null;
+  let url = '';
+  let forceGet = false;
+  let isJsonFlag = false;
+  let auth: RequestAuth = { type: 'none' };
+  let digest = false;
+
+  const addHeader = (key: string, value: string) => headers.push({ id: nextId(), key, value, enabled: true });
+
+  const apply = (flag: string, value: string | undefined, raw: string) => {
+    switch (flag) {
+      case 'request': method = (value || '').toUpperCase(); break;
+      case 'header': {
+        const [key, val] = splitPair(value || '', ':');
+        if (key.trim()) addHeader(key.trim(), val.trim());
+        break;
+      }
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+        if (value?.startsWith('@')) {
+          warnings.push(`"${raw} ${value}" reads a local file, which cannot be imported. Attach the file manually.`);
+        } else {
+          // curl strips newlines from --data but keeps them for --data-binary
+          dataParts.push(flag === 'data-binary' ? value || '' : (value || '').replace(/\r?\n/g, ''));
+        }
+        break;
+      case 'data-raw': dataParts.push(value || ''); break;
+      case 'json':
+        dataParts.push(value || '');
+        isJsonFlag = true;
+        break;
+      case 'data-urlencode': {
+        const v = value || '';
+        if (v.includes('@') && !v.includes('=')) {
+          warnings.push(`"${raw} ${v}" reads a local file, which cannot be imported.`);
+          break;
+        }
+        const [key, val] = v.startsWith('=') ? ['', v.slice(1)] : splitPair(v, '=');
+        urlencodedParts.push({ id: nextId(), key, value: val, enabled: true });
+        break;
+      }
+      case 'form':
+      case 'form-string': {
+        const [key, val] = splitPair(value || '', '=');
+        if (flag === 'form' && val.startsWith('@')) {
+          formParts.push({ id: nextId(), key, value: '', type: 'file', file: null, enabled: true });
+          warnings.push(`Form field "${key}" references file "${val.slice(1).split(';')[0]}". Select the file manually.`);
+        } else {
+          const text = flag === 'form' ? val.replace(/^<.*/, '').split(';type=')[0] : val;
+          if (flag === 'form' && val.startsWith('<')) warnings.push(`Form field "${key}" reads its value from a file, which cannot be imported.`);
+          formParts.push({ id: nextId(), key, value: text, type: 'text', enabled: true });
+        }
+        break;
+      }
+      case 'user': {
+        const [username, password] = splitPair(value || '', ':');
+        auth = { type: 'basic', basic: { username, password } };
+        break;
+      }
+      case 'digest': digest = true; break;
+      case 'oauth2-bearer': auth = { type: 'bearer', bearer: { token: value || '' } }; break;
+      case 'cookie':
+        if (value && !value.includes('=')) {
+          warnings.push(`"${raw} ${value}" reads cookies from a file, which cannot be imported.`);
+        } else {
+          addHeader('Cookie', value || '');
+        }
+        break;
+      case 'user-agent': addHeader('User-Agent', value || ''); break;
+      case 'referer': addHeader('Referer', value || ''); break;
+      case 'url': url = value || ''; break;
+      case 'get': forceGet = true; break;
+      case 'head': method = 'HEAD'; break;
+      default:
+        if (flag in IGNORED_FLAGS) {
+          const note = IGNORED_FLAGS[flag];
+          if (note) warnings.push(note);
+        } else {
+          warnings.push(`Unsupported option "${raw}${value !== undefined ? ' ' + value : ''}" was ignored.`);
+        }
+    }
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.includes('=') ? splitPair(arg.slice(2), '=') : [arg.slice(2), undefined];
+      if (VALUE_FLAGS.has(name)) {
+        apply(name, inline !== undefined ? inline : args[++i], `--${name}`);
+      } else {
+        apply(name, undefined, arg);
+      }
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      // Short flags can be combined (-sSL) and can carry their value inline (-XPOST)
+      for (let j = 1; j < arg.length; j++) {
+        const ch = arg[j];
+        if (SHORT_FLAGS[ch]) {
+          const rest = arg.slice(j + 1);
+          apply(SHORT_FLAGS[ch], rest || args[++i], `-${ch}`);
+          break;
+        }
+        apply(SHORT_BOOLEAN[ch] || ch, undefined, `-${ch}`);
+      }
+    } else if (!url) {
+      url = arg;
+    } else {
+      warnings.push(`Extra argument "${arg}" was ignored.`);
+    }
+  }
+
+  if (!url) throw new Error('No URL found in curl command');
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) url = `http://${url}`;
+
+  // Split query string into params
+  const [baseUrl, query] = splitPair(url.split('#')[0], '?');
+  const params: KeyValue[] = query
+    ? query.split('&').filter(Boolean).map(pair => {
+        const [k, v] = splitPair(pair, '=');
+        return { id: nextId(), key: safeDecode(k), value: safeDecode(v), enabled: true };
+      })
+    : [];
+
+  const hasData = dataParts.length > 0 || urlencodedParts.length > 0;
+  const contentTypeHeader = headers.find(h => h.key.toLowerCase() === 'content-type');
+  const contentType = contentTypeHeader?.value.toLowerCase() || '';
+
+  let bodyType: RequestState['bodyType'] = 'none';
+  let bodyContent = '';
+  let bodyFormUrlEncoded: KeyValue[] = [];
+  let bodyFormData: FormDataItem[] = [];
+
+  if (forceGet && hasData) {
+    // -G moves the data into the query string
+    dataParts.join('&').split('&').filter(Boolean).forEach(pair => {
+      const [k, v] = splitPair(pair, '=');
+      params.push({ id: nextId(), key: safeDecode(k), value: safeDecode(v), enabled: true });
+    });
+    urlencodedParts.forEach(p => params.push(p));
+  } else if (formParts.length > 0) {
+    bodyType = 'form-data';
+    bodyFormData = formParts;
+    if (hasData) warnings.push('Both --form and --data were given; the --data payload was ignored.');
+    // The browser generates the multipart boundary itself
+    if (contentTypeHeader) headers.splice(headers.indexOf(contentTypeHeader), 1);
+  } else if (hasData) {
+    const joined = dataParts.join('&');
+    const looksJson = /^\s*[\[{]/.test(joined);
+    if (isJsonFlag || contentType.includes('json') || (!contentType && looksJson && urlencodedParts.length === 0)) {
+      bodyType = 'json';
+      bodyContent = joined;
+      try {
+        bodyContent = JSON.stringify(JSON.parse(joined), null, 2);
+      } catch {
+        // Keep the payload exactly as given
+      }
+      if (!contentTypeHeader) addHeader('Content-Type', 'application/json');
+    } else if (!contentType || contentType.includes('x-www-form-urlencoded')) {
+      bodyType = 'x-www-form-urlencoded';
+      bodyFormUrlEncoded = [
+        ...joined.split('&').filter(Boolean).map(pair => {
+          const [k, v] = splitPair(pair, '=');
+          return { id: nextId(), key: safeDecode(k), value: safeDecode(v), enabled: true };
+        }),
+        ...urlencodedParts,
+      ];
+      if (!contentTypeHeader) addHeader('Content-Type', 'application/x-www-form-urlencoded');
+    } else {
+      bodyType = 'text';
+      bodyContent = joined;
+    }
+  }
+
+  if (digest && auth.type === 'basic') auth = { type: 'digest', digest: auth.basic };
+
+  if (!method) {
+    method = forceGet ? 'GET' : (bodyType !== 'none' ? 'POST' : 'GET');
+  }
+  if (!HTTP_METHODS.includes(method)) {
+    warnings.push(`Method "${method}" is not supported; using GET instead.`);
+    method = 'GET';
+  }
+
+  const request: RequestState = {
+    ...INITIAL_REQUEST,
+    id: '',
+    method: method as HttpMethod,
+    url: baseUrl,
+    params: [...params, emptyRow()],
+    headers: [...headers, emptyRow()],
+    bodyType,
+    bodyContent,
+    file: null,
+    bodyFormData: [...bodyFormData, { ...emptyRow(), type: 'text' }],
+    bodyFormUrlEncoded: [...bodyFormUrlEncoded, emptyRow()],
+    auth,
+  };
+
+  return { request, warnings };
+}
@@ -0,0 +1,16 @@
+/**
+ * Triggers a browser download for generated content (exports, reports, response bodies).
+ */
+export function downloadFile(filename: string, content: string | Blob, mimeType = 'application/json') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const toSafeFilename = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'export';
@@ -0,0 +1,84 @@
+import { FileRef, FormDataItem, RequestState } from '../types';
+import { generateId } from './collections';
+import { methodHasBody } from './request';
+import { putStoredFile, getStoredFiles, getStoredFileIds, deleteStoredFiles } from './storage';
+
+// --- File attachments ---
+// File objects cannot be serialized, so requests carry a FileRef and the content is kept in
+// IndexedDB. Restoring a request (history, collections, tabs) turns the refs back into Files.
+
+export const MAX_STORED_FILE_MB = 25;
+
+export const isFileStorable = (file: File) => file.size <= MAX_STORED_FILE_MB * 1024 * 1024;
+
+// Attached since the app started; pruning leaves them alone until the requests holding them are stored
+const sessionFileIds = new Set<string>();
+
+/**
+ * Records a newly selected file. The content is stored in the background; files over the cap
+ * get a ref but no content, and show up as missing once restored.
+ */
+export function attachFile(file: File): FileRef {
+  const ref: FileRef = { id: generateId(), name: file.name, type: file.type, size: file.size };
+  sessionFileIds.add(ref.id);
+  if (isFileStorable(file)) {
+    putStoredFile({ ...ref, blob: file, storedAt: Date.now() }).catch(e => console.error(`Failed to store file ${file.name}`, e));
+  }
+  return ref;
+}
+
+export function requestFileRefs(request: RequestState): FileRef[] {
+  const refs = (request.bodyFormData || []).filter(item => item.type === 'file' && item.fileRef).map(item => item.fileRef!);
+  if (request.fileRef) refs.push(request.fileRef);
+  return refs;
+}
+
+/**
+ * Loads the stored content of every file the request refers to and has not attached yet.
+ */
+export async function loadRequestFiles(request: RequestState): Promise<Map<string, File>> {
+  const ids = requestFileRefs(request).map(ref => ref.id);
+  if (!ids.length) return new Map();
+  const stored = await getStoredFiles(ids);
+  return new Map(stored.map(f => [f.id, new File([f.blob], f.name, { type: f.type })]));
+}
+
+/**
+ * Puts loaded files back on the request, leaving fields the user already changed alone.
+ */
+export function withFiles(request: RequestState, files: Map<string, File>): RequestState {
+  if (!files.size) return request;
+  const restore = <T extends { file?: File | null; fileRef?: FileRef }>(target: T): T =>
+    !target.file && target.fileRef && files.has(target.fileRef.id) ? { ...target, file: files.get(target.fileRef.id)! } : target;
+  return {
+    ...restore(request),
+    bodyFormData: request.bodyFormData.map(item => restore<FormDataItem>(item)),
+  };
+}
+
+export async function restoreRequestFiles(request: RequestState): Promise<RequestState> {
+  return withFiles(request, await loadRequestFiles(request));
+}
+
+/**
+ * Names of the files the body needs but does not have.
+ */
+export function missingFiles(request: RequestState): string[] {
+  if (!methodHasBody(request)) return [];
+  if (request.bodyType === 'file') return request.file ? [] : [request.fileRef?.name || 'Binary body file'];
+  if (request.bodyType === 'form-data') {
+    return request.bodyFormData
+      .filter(item => item.enabled && item.key && item.type === 'file' && !item.file)
+      .map(item => item.fileRef?.name || `File for "${item.key}"`);
+  }
+  return [];
+}
+
+/**
+ * Deletes stored files that no request refers to any more.
+ */
+export async function pruneStoredFiles(requests: RequestState[]) {
+  const referenced = new Set(requests.flatMap(r => requestFileRefs(r).map(ref => ref.id)));
+  const unused = (await getStoredFileIds()).filter(id => !referenced.has(id) && !sessionFileIds.has(id));
+  if (unused.length) await deleteStoredFiles(unused);
+}
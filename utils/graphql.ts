@@ -0,0 +1,194 @@
+import {
+  GraphQLSchema, GraphQLError, GraphQLNamedType, buildClientSchema, buildSchema, getIntrospectionQuery, printSchema,
+  parse, validate, OperationDefinitionNode,
+} from 'graphql';
+import { getAutocompleteSuggestions, Position } from 'graphql-language-service';
+import { GraphqlBody, RequestState } from '../types';
+
+// --- GraphQL bodies ---
+// A GraphQL body is sent as the standard JSON envelope { query, variables, operationName }.
+// Schemas are kept per endpoint as SDL, whether they came from introspection or a loaded file.
+
+export const DEFAULT_GRAPHQL_BODY: GraphqlBody = {
+  query: 'query {\n  \n}',
+  variables: '',
+};
+
+export interface GraphqlSchemaEntry {
+  sdl: string;
+  source: 'introspection' | 'sdl';
+  loadedAt: number;
+  fileName?: string;
+}
+
+export type GraphqlSchemaStore = Record<string, GraphqlSchemaEntry>;
+
+/**
+ * The key schemas are stored under: the resolved URL without its query string.
+ */
+export const schemaEndpoint = (url: string) => url.split('?')[0].split('#')[0];
+
+export function parseGraphqlVariables(text: string): Record<string, any> | undefined {
+  if (!text.trim()) return undefined;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Variables are not valid JSON: ${e.message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('Variables must be a JSON object');
+  return parsed;
+}
+
+/**
+ * The JSON envelope sent as the body. Invalid variables are sent as null; sending is blocked before that.
+ */
+export function graphqlBodyText(body: GraphqlBody): string {
+  let variables: Record<string, any> | undefined;
+  try {
+    variables = parseGraphqlVariables(body.variables);
+  } catch (e) {
+    variables = undefined;
+  }
+  return JSON.stringify({
+    query: body.query,
+    ...(variables ? { variables } : {}),
+    ...(body.operationName ? { operationName: body.operationName } : {}),
+  });
+}
+
+/**
+ * Named operations in the document, for the operation picker. Unparseable documents have none.
+ */
+export function listOperations(query: string): string[] {
+  try {
+    return parse(query).definitions
+      .filter((d): d is OperationDefinitionNode => d.kind === 'OperationDefinition' && !!d.name)
+      .map(d => d.name!.value);
+  } catch (e) {
+    return [];
+  }
+}
+
+// --- Schema ---
+
+export const introspectionBody = () => JSON.stringify({ query: getIntrospectionQuery(), operationName: 'IntrospectionQuery' });
+
+/**
+ * Turns an introspection response into SDL; throws with the server's message when it failed.
+ */
+export function schemaFromIntrospection(response: any): string {
+  if (response?.errors?.length && !response.data) throw new Error(response.errors.map((e: any) => e.message).join('; '));
+  if (!response?.data?.__schema) throw new Error('The response is not an introspection result');
+  return printSchema(buildClientSchema(response.data));
+}
+
+// Built schemas are cached by their SDL so editors can ask for them on every render
+const schemaCache = new Map<string, GraphQLSchema>();
+
+export function buildSchemaFromSdl(sdl: string): GraphQLSchema {
+  let schema = schemaCache.get(sdl);
+  if (!schema) {
+    schema = buildSchema(sdl);
+    schemaCache.clear();
+    schemaCache.set(sdl, schema);
+  }
+  return schema;
+}
+
+// --- Validation ---
+
+export interface GraphqlDiagnostic {
+  message: string;
+  line?: number; // 1-based
+  column?: number;
+  severity: 'error' | 'warning';
+}
+
+const toDiagnostic = (error: GraphQLError, severity: GraphqlDiagnostic['severity']): GraphqlDiagnostic => ({
+  message: error.message,
+  line: error.locations?.[0]?.line,
+  column: error.locations?.[0]?.column,
+  severity,
+});
+
+/**
+ * Syntax and variables problems are errors (the request cannot be sent as meant); schema
+ * validation problems are warnings, since the stored schema may be out of date.
+ */
+export function validateGraphql(body: GraphqlBody, schema: GraphQLSchema | null): GraphqlDiagnostic[] {
+  const diagnostics: GraphqlDiagnostic[] = [];
+  try {
+    parseGraphqlVariables(body.variables);
+  } catch (e: any) {
+    diagnostics.push({ message: e.message, severity: 'error' });
+  }
+  if (!body.query.trim()) return [...diagnostics, { message: 'The query is empty', severity: 'error' }];
+
+  let document;
+  try {
+    document = parse(body.query);
+  } catch (e: any) {
+    return [...diagnostics, e instanceof GraphQLError ? toDiagnostic(e, 'error') : { message: e.message, severity: 'error' }];
+  }
+  const operations = listOperations(body.query);
+  if (body.operationName && !operations.includes(body.operationName)) {
+    diagnostics.push({ message: `Operation "${body.operationName}" is not in the document`, severity: 'error' });
+  }
+  if (schema) diagnostics.push(...validate(schema, document).map(e => toDiagnostic(e, 'warning')));
+  return diagnostics;
+}
+
+export const hasGraphqlErrors = (diagnostics: GraphqlDiagnostic[]) => diagnostics.some(d => d.severity === 'error');
+
+// --- Autocomplete ---
+
+export interface GraphqlSuggestion {
+  label: string;
+  detail?: string;
+  documentation?: string;
+  deprecated?: boolean;
+}
+
+/**
+ * Completions at a character offset in the query.
+ */
+export function graphqlSuggestions(schema: GraphQLSchema, query: string, offset: number): GraphqlSuggestion[] {
+  const before = query.slice(0, offset).split('\n');
+  const position = new Position(before.length - 1, before[before.length - 1].length);
+  try {
+    return getAutocompleteSuggestions(schema, query, position).map(item => ({
+      label: item.label,
+      detail: item.detail || undefined,
+      documentation: item.documentation || undefined,
+      deprecated: item.isDeprecated,
+    }));
+  } catch (e) {
+    return [];
+  }
+}
+
+// --- Responses ---
+
+export interface GraphqlResponseError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+}
+
+/**
+ * The `errors` of a GraphQL response, which servers often send with HTTP 200.
+ */
+export function graphqlResponseErrors(data: any): GraphqlResponseError[] {
+  if (!data || typeof data !== 'object' || !Array.isArray(data.errors)) return [];
+  return data.errors.map((e: any) => ({
+    message: typeof e?.message === 'string' ? e.message : JSON.stringify(e),
+    path: Array.isArray(e?.path) ? e.path : undefined,
+    locations: Array.isArray(e?.locations) ? e.locations : undefined,
+  }));
+}
+
+export const isGraphqlRequest = (request: RequestState) => request.bodyType === 'graphql';
+
+export const rootTypes = (schema: GraphQLSchema): GraphQLNamedType[] =>
+  [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()].filter((t): t is NonNullable<typeof t> => !!t);
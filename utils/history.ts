@@ -0,0 +1,66 @@
+import { HistoryItem, HistoryRetention, RequestState, ResponseState } from '../types';
+import { generateId, toSerializableRequest } from './collections';
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxEntries: 100,
+  maxAgeDays: 30,
+  maxSizeMB: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const measureBytes = (item: HistoryItem) => new TextEncoder().encode(JSON.stringify(item)).length;
+
+export function createHistoryItem(request: RequestState, response: ResponseState | null): HistoryItem {
+  // For history, we don't store the File objects (Binary or inside FormData) as they are not serializable
+  const item: HistoryItem = {
+    ...toSerializableRequest(request),
+    id: generateId(),
+    timestamp: Date.now(),
+    pinned: false,
+    response: response || undefined,
+  };
+  // Measured once so retention does not have to serialize every entry again
+  item.storedBytes = measureBytes(item);
+  return item;
+}
+
+/**
+ * The request part of a history entry, ready to be opened in a tab.
+ */
+export function historyRequest(item: HistoryItem): RequestState {
+  const { timestamp, pinned, response, storedBytes, ...request } = item;
+  return request;
+}
+
+/**
+ * Splits newest-first history into entries to keep and ids to delete. Pinned entries are always kept
+ * and do not count towards the limits; a limit of 0 means unlimited.
+ */
+export function applyRetention(items: HistoryItem[], retention: HistoryRetention, now = Date.now()): { kept: HistoryItem[]; removedIds: string[] } {
+  const kept: HistoryItem[] = [];
+  const removedIds: string[] = [];
+  let count = 0;
+  let bytes = 0;
+  const maxBytes = retention.maxSizeMB * 1024 * 1024;
+  items.forEach(item => {
+    if (item.pinned) {
+      kept.push(item);
+      return;
+    }
+    // Entries written before sizes were recorded are measured here
+    const size = item.storedBytes ?? measureBytes(item);
+    // Only kept entries use up the limits, so one oversized response cannot push out everything older
+    const tooMany = retention.maxEntries > 0 && count >= retention.maxEntries;
+    const tooOld = retention.maxAgeDays > 0 && now - item.timestamp > retention.maxAgeDays * DAY_MS;
+    const tooBig = retention.maxSizeMB > 0 && bytes + size > maxBytes;
+    if (tooMany || tooOld || tooBig) {
+      removedIds.push(item.id);
+      return;
+    }
+    count++;
+    bytes += size;
+    kept.push(item);
+  });
+  return { kept, removedIds };
+}
@@ -0,0 +1,183 @@
+import { mediaType } from './responseBody';
+
+// --- Markup bodies ---
+// XML and HTML are parsed with the browser's DOMParser into a plain node tree, which the pretty
+// view flattens into rows the same way the JSON tree does. XML that does not parse has no tree.
+
+export type MarkupKind = 'html' | 'xml';
+
+export function markupKind(contentType: string, data: any): MarkupKind | null {
+  if (typeof data !== 'string') return null;
+  const type = mediaType(contentType);
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (/[/+]xml$/.test(type)) return 'xml';
+  // Servers often label XML as text/plain or send no type at all
+  if ((type === 'text/plain' || !contentType) && data.trimStart().startsWith('<?xml')) return 'xml';
+  return null;
+}
+
+export type MarkupNodeType = 'element' | 'text' | 'comment' | 'cdata' | 'doctype' | 'instruction';
+
+export interface MarkupNode {
+  type: MarkupNodeType;
+  name: string; // Tag name, instruction target or doctype name; empty for text
+  attributes: [string, string][];
+  text: string;
+  children: MarkupNode[];
+}
+
+// HTML elements that never have content or a closing tag
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+export const isVoidElement = (kind: MarkupKind, name: string) => kind === 'html' && VOID_ELEMENTS.has(name);
+
+function toNode(node: Node, kind: MarkupKind): MarkupNode | null {
+  const base = { name: '', attributes: [] as [string, string][], text: '', children: [] as MarkupNode[] };
+  switch (node.nodeType) {
+    case Node.ELEMENT_NODE: {
+      const el = node as Element;
+      // Template contents live in a separate fragment
+      const childNodes = el instanceof HTMLTemplateElement ? el.content.childNodes : el.childNodes;
+      return {
+        ...base,
+        type: 'element',
+        name: kind === 'html' ? el.localName : el.nodeName,
+        attributes: Array.from(el.attributes, a => [a.name, a.value] as [string, string]),
+        children: toNodes(childNodes, kind),
+      };
+    }
+    case Node.TEXT_NODE:
+      return node.nodeValue!.trim() ? { ...base, type: 'text', text: node.nodeValue! } : null;
+    case Node.CDATA_SECTION_NODE:
+      return { ...base, type: 'cdata', text: node.nodeValue! };
+    case Node.COMMENT_NODE:
+      return { ...base, type: 'comment', text: node.nodeValue! };
+    case Node.PROCESSING_INSTRUCTION_NODE:
+      return { ...base, type: 'instruction', name: (node as ProcessingInstruction).target, text: node.nodeValue! };
+    case Node.DOCUMENT_TYPE_NODE: {
+      const doctype = node as DocumentType;
+      const ids = doctype.publicId ? ` PUBLIC "${doctype.publicId}"${doctype.systemId ? ` "${doctype.systemId}"` : ''}` : doctype.systemId ? ` SYSTEM "${doctype.systemId}"` : '';
+      return { ...base, type: 'doctype', name: doctype.name, text: ids };
+    }
+    default:
+      return null;
+  }
+}
+
+const toNodes = (nodes: NodeListOf<ChildNode>, kind: MarkupKind) =>
+  Array.from(nodes, n => toNode(n, kind)).filter((n): n is MarkupNode => !!n);
+
+export type ParsedMarkup = { nodes: MarkupNode[]; error: null } | { nodes: null; error: string };
+
+export function parseMarkupDocument(text: string, kind: MarkupKind): Document | string {
+  const doc = new DOMParser().parseFromString(text, kind === 'html' ? 'text/html' : 'application/xml');
+  const failure = kind === 'xml' ? doc.getElementsByTagName('parsererror')[0] : undefined;
+  if (failure) return (failure.textContent || 'The document is not well-formed').trim().split('\n')[0];
+  return doc;
+}
+
+/**
+ * The document's top-level nodes, or the parser's message when the XML is malformed.
+ * HTML parsing never fails; browsers repair markup the way they would render it.
+ */
+export function parseMarkup(text: string, kind: MarkupKind): ParsedMarkup {
+  const doc = parseMarkupDocument(text, kind);
+  if (typeof doc === 'string') return { nodes: null, error: doc };
+  return { nodes: toNodes(doc.childNodes, kind), error: null };
+}
+
+// --- Rows ---
+
+export interface MarkupRow {
+  id: string; // Child indexes from the root, e.g. "0.2.1"
+  depth: number;
+  node: MarkupNode;
+  line?: string; // One line of a text, comment or CDATA node
+  closing: boolean;
+  inline: boolean; // Element shown with its only, short text child on one row
+  expanded: boolean;
+}
+
+const INLINE_TEXT_LENGTH = 80;
+
+const isInline = (node: MarkupNode) =>
+  node.children.length === 1 && node.children[0].type === 'text' && !node.children[0].text.trim().includes('\n')
+  && node.children[0].text.trim().length <= INLINE_TEXT_LENGTH;
+
+/**
+ * The visible rows given the set of collapsed elements; everything is expanded by default.
+ */
+export function flattenMarkup(nodes: MarkupNode[], collapsed: Set<string>): MarkupRow[] {
+  const rows: MarkupRow[] = [];
+  const visit = (node: MarkupNode, id: string, depth: number) => {
+    const base = { id, depth, node, closing: false, inline: false, expanded: false };
+    if (node.type === 'text' || node.type === 'comment' || node.type === 'cdata') {
+      const lines = node.text.split('\n').map(l => l.trim()).filter(Boolean);
+      if (node.type !== 'text' && lines.length <= 1) {
+        rows.push({ ...base, line: lines[0] || '' });
+        return;
+      }
+      lines.forEach((line, idx) => rows.push({ ...base, id: `${id}:${idx}`, line }));
+      return;
+    }
+    if (node.type !== 'element' || !node.children.length) {
+      rows.push(base);
+      return;
+    }
+    if (isInline(node)) {
+      rows.push({ ...base, inline: true });
+      return;
+    }
+    const open = !collapsed.has(id);
+    rows.push({ ...base, expanded: open });
+    if (!open) return;
+    node.children.forEach((child, idx) => visit(child, `${id}.${idx}`, depth + 1));
+    rows.push({ ...base, id: `${id}#end`, closing: true, expanded: true });
+  };
+  nodes.forEach((node, idx) => visit(node, String(idx), 0));
+  return rows;
+}
+
+export function collectElementIds(nodes: MarkupNode[]): Set<string> {
+  const ids = new Set<string>();
+  const visit = (node: MarkupNode, id: string) => {
+    if (node.type !== 'element' || !node.children.length) return;
+    ids.add(id);
+    node.children.forEach((child, idx) => visit(child, `${id}.${idx}`));
+  };
+  nodes.forEach((node, idx) => visit(node, String(idx)));
+  return ids;
+}
+
+// --- XPath ---
+
+const serializeNode = (node: Node, kind: MarkupKind): any => {
+  if (node.nodeType === Node.ELEMENT_NODE) return kind === 'html' ? (node as Element).outerHTML : new XMLSerializer().serializeToString(node);
+  if (node.nodeType === Node.DOCUMENT_NODE) return new XMLSerializer().serializeToString(node);
+  return node.nodeValue;
+};
+
+/**
+ * Evaluates an XPath 1.0 expression. Node sets come back as a list of serialized nodes, attribute
+ * values and texts; scalar results as they are. Prefixes declared on the root element can be used.
+ */
+export function evaluateXPath(text: string, kind: MarkupKind, expression: string): any {
+  const doc = parseMarkupDocument(text, kind);
+  if (typeof doc === 'string') throw new Error(`The response is not well-formed XML: ${doc}`);
+  const root = doc.documentElement;
+  const resolver = (prefix: string | null) => root?.lookupNamespaceURI(prefix) ?? null;
+  const result = doc.evaluate(expression, doc, resolver, XPathResult.ANY_TYPE, null);
+  switch (result.resultType) {
+    case XPathResult.NUMBER_TYPE:
+      return result.numberValue;
+    case XPathResult.STRING_TYPE:
+      return result.stringValue;
+    case XPathResult.BOOLEAN_TYPE:
+      return result.booleanValue;
+    default: {
+      const values: any[] = [];
+      for (let node = result.iterateNext(); node; node = result.iterateNext()) values.push(serializeNode(node, kind));
+      return values;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { KeyValue, MockConfig, MockHit, MockRule, RequestState, ResponseState } from '../types';
+import { generateId } from './collections';
+
+// --- Mock server ---
+// Rules are answered by a Service Worker (public/mock-sw.js), which sees every fetch of the pages it
+// controls. The app posts the rules to the worker on every change and the worker reports each hit back.
+
+export const MOCK_WORKER_URL = './mock-sw.js';
+export const MAX_MOCK_HITS = 200;
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = { enabled: false, allowOtherTabs: false, rules: [] };
+
+// Headers that describe the original transfer, not the body stored with the response
+const TRANSFER_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+export const mockRow = (key = '', value = ''): KeyValue => ({ id: generateId(), key, value, enabled: true });
+
+export function createMockRule(): MockRule {
+  return {
+    id: generateId(),
+    name: 'New Mock',
+    enabled: true,
+    method: 'GET',
+    urlPattern: '/api/users/:id',
+    headerMatchers: [mockRow()],
+    bodyMatcher: '',
+    status: 200,
+    headers: [mockRow('Content-Type', 'application/json'), mockRow()],
+    body: '{\n  "id": "{{request.params.id}}"\n}',
+    delayMs: 0,
+  };
+}
+
+/**
+ * A rule that answers the request's URL (without its query) with the stored response.
+ */
+export function mockRuleFromResponse(request: Pick<RequestState, 'method'>, url: string, response: ResponseState): MockRule {
+  const pattern = url.split(/[?#]/)[0];
+  let path = pattern;
+  try {
+    path = new URL(pattern).pathname;
+  } catch (e) { /* Relative URL, used as is */ }
+  const body = response.bodyBase64 ? '' : typeof response.data === 'string' ? response.data : JSON.stringify(response.data, null, 2);
+  return {
+    id: generateId(),
+    name: `${request.method} ${path}`,
+    enabled: true,
+    method: request.method,
+    urlPattern: pattern,
+    headerMatchers: [mockRow()],
+    bodyMatcher: '',
+    status: response.status >= 200 && response.status <= 599 ? response.status : 200,
+    headers: [
+      ...Object.entries(response.headers).filter(([key]) => !TRANSFER_HEADERS.includes(key.toLowerCase())).map(([key, value]) => mockRow(key, value)),
+      mockRow(),
+    ],
+    body: body ?? '',
+    ...(response.bodyBase64 ? { bodyBase64: response.bodyBase64 } : {}),
+    delayMs: 0,
+  };
+}
+
+/**
+ * Why mocks cannot run in this page, or null when they can.
+ */
+export function mockWorkerUnsupported(): string | null {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return 'This browser does not support Service Workers';
+  if (!window.isSecureContext) return 'Service Workers need HTTPS or localhost';
+  return null;
+}
+
+let registration: Promise<ServiceWorkerRegistration> | null = null;
+
+/**
+ * Registers the worker once and sends it the current rules. The worker takes control of the open
+ * page as soon as it activates, so no reload is needed.
+ */
+export async function syncMockWorker(config: MockConfig): Promise<void> {
+  if (mockWorkerUnsupported()) return;
+  // Nothing to answer: only a worker registered in an earlier visit needs to hear it
+  if (!config.enabled && !registration) {
+    const existing = await navigator.serviceWorker.getRegistration();
+    existing?.active?.postMessage({ type: 'mocks', config });
+    return;
+  }
+  if (!registration) {
+    registration = navigator.serviceWorker.register(MOCK_WORKER_URL);
+    registration.catch(() => { registration = null; });
+  }
+  const reg = await registration;
+  const worker = reg.active || reg.waiting || reg.installing;
+  worker?.postMessage({ type: 'mocks', config });
+  // An installing worker would miss the message if it is replaced, so repeat it once active
+  if (!reg.active) await navigator.serviceWorker.ready.then(ready => ready.active?.postMessage({ type: 'mocks', config }));
+}
+
+export function onMockHit(handler: (hit: MockHit) => void): () => void {
+  if (mockWorkerUnsupported()) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'mock-hit') handler(event.data.hit);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
@@ -0,0 +1,511 @@
+import yaml from 'js-yaml';
+import { Collection, CollectionFolder, CollectionItem, Environment, FormDataItem, HttpMethod, ImportReport, KeyValue, RequestState } from '../types';
+import { INITIAL_REQUEST } from '../constants';
+import { generateId } from './collections';
+
+// --- OpenAPI 3.x / Swagger 2.0 import ---
+// Generates one ready-to-send request per operation, grouped into folders by tag.
+// Path parameters become {{variables}} on the collection, and servers become environments.
+
+const OPERATION_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+const MAX_DEPTH = 8;
+
+export type OpenApiVersion = 'openapi3' | 'swagger2';
+
+export interface OpenApiImportResult {
+  collection: Collection;
+  environments: Environment[];
+  report: ImportReport;
+}
+
+/**
+ * Parses JSON or YAML text. Throws with a readable message if neither works.
+ */
+export function parseSpecText(text: string): any {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (e: any) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+  }
+  try {
+    return yaml.load(trimmed);
+  } catch (e: any) {
+    throw new Error(`Invalid YAML: ${e.reason || e.message}`);
+  }
+}
+
+export function detectOpenApi(doc: any): OpenApiVersion | null {
+  if (!doc || typeof doc !== 'object') return null;
+  if (typeof doc.openapi === 'string' && doc.openapi.startsWith('3')) return 'openapi3';
+  if (doc.swagger === '2.0' || doc.swagger === 2) return 'swagger2';
+  return null;
+}
+
+const emptyRow = (): KeyValue => ({ id: generateId(), key: '', value: '', enabled: true });
+
+const stringify = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+interface Context {
+  doc: any;
+  version: OpenApiVersion;
+  warnings: Set<string>;
+  variables: Map<string, string>; // Collection variables collected along the way
+}
+
+// --- $ref resolution ---
+
+function resolvePointer(doc: any, ref: string): any {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref.slice(2).split('/').reduce((node, part) => {
+    if (node === undefined || node === null) return undefined;
+    return node[decodeURIComponent(part.replace(/~1/g, '/').replace(/~0/g, '~'))];
+  }, doc);
+}
+
+/**
+ * Follows $ref chains on a node. External references cannot be loaded and are reported.
+ */
+function deref(node: any, ctx: Context, seen: Set<string> = new Set()): any {
+  let current = node;
+  while (current && typeof current === 'object' && typeof current.$ref === 'string') {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/')) {
+      ctx.warnings.add(`External reference "${ref}" cannot be resolved.`);
+      return {};
+    }
+    if (seen.has(ref)) return {};
+    seen.add(ref);
+    const target = resolvePointer(ctx.doc, ref);
+    if (target === undefined) {
+      ctx.warnings.add(`Reference "${ref}" was not found in the document.`);
+      return {};
+    }
+    current = target;
+  }
+  return current;
+}
+
+// --- Example generation ---
+
+/**
+ * Flattens allOf into a single object schema so its properties can be sampled together.
+ */
+function mergeAllOf(schema: any, ctx: Context, refs: Set<string>): any {
+  const merged: any = { ...schema, properties: { ...(schema.properties || {}) }, required: [...(schema.required || [])] };
+  delete merged.allOf;
+  for (const part of schema.allOf || []) {
+    const partRefs = new Set(refs);
+    let resolved = deref(part, ctx, partRefs);
+    if (resolved.allOf) resolved = mergeAllOf(resolved, ctx, partRefs);
+    Object.assign(merged.properties, resolved.properties || {});
+    merged.required.push(...(resolved.required || []));
+    if (!merged.type && resolved.type) merged.type = resolved.type;
+    if (merged.example === undefined && resolved.example !== undefined) merged.example = resolved.example;
+  }
+  return merged;
+}
+
+function sampleString(schema: any): string {
+  switch (schema.format) {
+    case 'date-time': return '2024-01-01T00:00:00Z';
+    case 'date': return '2024-01-01';
+    case 'time': return '12:00:00';
+    case 'email': return 'user@example.com';
+    case 'uuid': return '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+    case 'uri':
+    case 'url': return 'https://example.com';
+    case 'hostname': return 'example.com';
+    case 'ipv4': return '192.168.0.1';
+    case 'ipv6': return '::1';
+    case 'byte': return 'ZXhhbXBsZQ==';
+    case 'password': return 'password';
+    default: {
+      if (schema.pattern) return 'string';
+      const min = schema.minLength || 0;
+      return min > 6 ? 'x'.repeat(min) : 'string';
+    }
+  }
+}
+
+function sampleFromSchema(input: any, ctx: Context, mode: 'request' | 'response' = 'request', depth = 0, refs: Set<string> = new Set()): any {
+  if (depth > MAX_DEPTH) return null;
+  const localRefs = new Set(refs);
+  let schema = deref(input, ctx, localRefs);
+  if (!schema || typeof schema !== 'object') return null;
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length) return schema.enum[0];
+
+  if (schema.allOf) schema = mergeAllOf(schema, ctx, localRefs);
+  if (schema.oneOf || schema.anyOf) {
+    const options = schema.oneOf || schema.anyOf;
+    const chosen = options.find((o: any) => deref(o, ctx, new Set(localRefs)).type !== 'null') || options[0];
+    const base = { ...schema };
+    delete base.oneOf;
+    delete base.anyOf;
+    // Properties declared next to oneOf still apply
+    const sample = sampleFromSchema(chosen, ctx, mode, depth + 1, localRefs);
+    if (base.properties && sample && typeof sample === 'object' && !Array.isArray(sample)) {
+      return { ...sampleFromSchema(base, ctx, mode, depth + 1, localRefs), ...sample };
+    }
+    return sample;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+  if (type === 'object' || (!type && (schema.properties || schema.additionalProperties))) {
+    const result: Record<string, any> = {};
+    Object.entries(schema.properties || {}).forEach(([name, prop]: [string, any]) => {
+      const resolved = deref(prop, ctx, new Set(localRefs));
+      // Read-only fields are produced by the server and do not belong in request bodies
+      if (mode === 'request' && resolved?.readOnly) return;
+      if (mode === 'response' && resolved?.writeOnly) return;
+      result[name] = sampleFromSchema(prop, ctx, mode, depth + 1, localRefs);
+    });
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object' && Object.keys(result).length === 0) {
+      result.key = sampleFromSchema(schema.additionalProperties, ctx, mode, depth + 1, localRefs);
+    }
+    return result;
+  }
+  if (type === 'array') {
+    const item = sampleFromSchema(schema.items || {}, ctx, mode, depth + 1, localRefs);
+    return item === null ? [] : [item];
+  }
+  if (type === 'integer' || type === 'number') {
+    if (typeof schema.minimum === 'number') return schema.minimum;
+    if (typeof schema.exclusiveMinimum === 'number') return schema.exclusiveMinimum + 1;
+    return 0;
+  }
+  if (type === 'boolean') return true;
+  if (type === 'string') return sampleString(schema);
+  if (type === 'file') return '';
+  return null;
+}
+
+// --- Parameters ---
+
+interface ResolvedParam {
+  name: string;
+  in: string;
+  required: boolean;
+  value: string;
+  schema: any;
+}
+
+function exampleFromMediaType(media: any, ctx: Context): any {
+  if (!media) return undefined;
+  if (media.example !== undefined) return media.example;
+  if (media.examples && typeof media.examples === 'object') {
+    const first: any = Object.values(media.examples)[0];
+    const example = deref(first, ctx);
+    if (example?.value !== undefined) return example.value;
+    if (example?.externalValue) ctx.warnings.add(`External example "${example.externalValue}" cannot be loaded.`);
+  }
+  return undefined;
+}
+
+function resolveParams(pathItem: any, operation: any, ctx: Context): ResolvedParam[] {
+  // Operation-level parameters override path-level ones with the same name and location
+  const merged = new Map<string, any>();
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(p => {
+    const param = deref(p, ctx);
+    if (param && param.name) merged.set(`${param.in}:${param.name}`, param);
+  });
+
+  return Array.from(merged.values()).map(param => {
+    let example = param.example !== undefined ? param.example : exampleFromMediaType(param, ctx);
+    if (example === undefined && ctx.version === 'swagger2' && param.in !== 'body') {
+      // Swagger 2 non-body parameters carry their schema inline
+      example = sampleFromSchema(param.items ? { type: param.type, items: param.items } : param, ctx);
+    }
+    if (example === undefined) example = sampleFromSchema(param.schema || {}, ctx);
+    const value = Array.isArray(example) ? example.map(stringify).join(',') : stringify(example);
+    return { name: param.name, in: param.in, required: !!param.required || param.in === 'path', value, schema: param.schema || param };
+  });
+}
+
+// --- Bodies ---
+
+function bodyFromMediaTypes(content: Record<string, any>, request: RequestState, headers: KeyValue[], ctx: Context, opName: string) {
+  const types = Object.keys(content || {});
+  if (!types.length) return;
+
+  const pick = types.find(t => /json/i.test(t))
+    || types.find(t => t === 'application/x-www-form-urlencoded')
+    || types.find(t => t === 'multipart/form-data')
+    || types.find(t => t.startsWith('text/') || /xml/i.test(t))
+    || types[0];
+  const media = content[pick] || {};
+  const example = exampleFromMediaType(media, ctx);
+  const sample = example !== undefined ? example : sampleFromSchema(media.schema || {}, ctx);
+
+  if (/json/i.test(pick)) {
+    request.bodyType = 'json';
+    request.bodyContent = sample === null || sample === undefined ? '' : JSON.stringify(sample, null, 2);
+    headers.push({ id: generateId(), key: 'Content-Type', value: pick, enabled: true });
+  } else if (pick === 'application/x-www-form-urlencoded') {
+    request.bodyType = 'x-www-form-urlencoded';
+    request.bodyFormUrlEncoded = [
+      ...Object.entries(sample && typeof sample === 'object' ? sample : {}).map(([k, v]) => ({ id: generateId(), key: k, value: stringify(v), enabled: true })),
+      emptyRow(),
+    ];
+    headers.push({ id: generateId(), key: 'Content-Type', value: pick, enabled: true });
+  } else if (pick === 'multipart/form-data') {
+    request.bodyType = 'form-data';
+    const schema = deref(media.schema || {}, ctx);
+    const props = (schema.allOf ? mergeAllOf(schema, ctx, new Set()) : schema).properties || {};
+    const items: FormDataItem[] = Object.entries(sample && typeof sample === 'object' ? sample : {}).map(([k, v]) => {
+      const prop = deref(props[k] || {}, ctx);
+      const isFile = prop.format === 'binary' || prop.format === 'base64' || prop.items?.format === 'binary';
+      return isFile
+        ? { id: generateId(), key: k, value: '', type: 'file' as const, file: null, enabled: true }
+        : { id: generateId(), key: k, value: stringify(v), type: 'text' as const, enabled: true };
+    });
+    request.bodyFormData = [...items, { ...emptyRow(), type: 'text' }];
+  } else if (pick === 'application/octet-stream' || /^(image|audio|video)\//.test(pick)) {
+    request.bodyType = 'file';
+    headers.push({ id: generateId(), key: 'Content-Type', value: pick, enabled: true });
+  } else {
+    request.bodyType = 'text';
+    request.bodyContent = typeof sample === 'string' ? sample : '';
+    headers.push({ id: generateId(), key: 'Content-Type', value: pick, enabled: true });
+  }
+
+  if (types.length > 1) ctx.warnings.add(`"${opName}": ${types.length} request media types available; generated "${pick}".`);
+}
+
+function swagger2Body(params: ResolvedParam[], rawParams: any[], operation: any, request: RequestState, headers: KeyValue[], ctx: Context, opName: string) {
+  const consumes: string[] = operation.consumes || ctx.doc.consumes || [];
+  const bodyParam = rawParams.find(p => p.in === 'body');
+  if (bodyParam) {
+    const contentType = consumes.find(t => /json/i.test(t)) || consumes[0] || 'application/json';
+    bodyFromMediaTypes({ [contentType]: { schema: bodyParam.schema, example: bodyParam['x-example'] } }, request, headers, ctx, opName);
+    return;
+  }
+  const formParams = params.filter(p => p.in === 'formData');
+  if (!formParams.length) return;
+  const multipart = consumes.includes('multipart/form-data') || rawParams.some(p => p.in === 'formData' && p.type === 'file');
+  if (multipart) {
+    request.bodyType = 'form-data';
+    request.bodyFormData = [
+      ...formParams.map(p => {
+        const raw = rawParams.find(r => r.name === p.name && r.in === 'formData');
+        return raw?.type === 'file'
+          ? { id: generateId(), key: p.name, value: '', type: 'file' as const, file: null, enabled: p.required }
+          : { id: generateId(), key: p.name, value: p.value, type: 'text' as const, enabled: p.required };
+      }),
+      { ...emptyRow(), type: 'text' },
+    ];
+  } else {
+    request.bodyType = 'x-www-form-urlencoded';
+    request.bodyFormUrlEncoded = [
+      ...formParams.map(p => ({ id: generateId(), key: p.name, value: p.value, enabled: p.required })),
+      emptyRow(),
+    ];
+    headers.push({ id: generateId(), key: 'Content-Type', value: 'application/x-www-form-urlencoded', enabled: true });
+  }
+}
+
+// --- Security ---
+
+function applySecurity(operation: any, headers: KeyValue[], params: KeyValue[], ctx: Context, opName: string) {
+  const requirements: any[] = operation.security !== undefined ? operation.security : (ctx.doc.security || []);
+  if (!requirements.length) return;
+  const schemes = ctx.version === 'openapi3' ? ctx.doc.components?.securitySchemes || {} : ctx.doc.securityDefinitions || {};
+
+  // Only the first alternative is applied; each one is a complete way to authenticate
+  Object.keys(requirements[0] || {}).forEach(name => {
+    const scheme = deref(schemes[name], ctx);
+    if (!scheme) return;
+    const variable = name.replace(/[^\w]/g, '_');
+    if (scheme.type === 'apiKey') {
+      ctx.variables.set(variable, ctx.variables.get(variable) || '');
+      const entry = { id: generateId(), key: scheme.name, value: `{{${variable}}}`, enabled: true };
+      if (scheme.in === 'query') params.push(entry);
+      else if (scheme.in === 'header') headers.push(entry);
+      else ctx.warnings.add(`Security scheme "${name}" sends an API key in a cookie, which browsers do not allow.`);
+    } else if ((scheme.type === 'http' && /^bearer$/i.test(scheme.scheme)) || scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      ctx.variables.set(variable, ctx.variables.get(variable) || '');
+      headers.push({ id: generateId(), key: 'Authorization', value: `Bearer {{${variable}}}`, enabled: true });
+      if (scheme.type !== 'http') ctx.warnings.add(`Security scheme "${name}" (${scheme.type}) was mapped to a Bearer token in {{${variable}}}; obtain the token separately.`);
+    } else if ((scheme.type === 'http' && /^basic$/i.test(scheme.scheme)) || scheme.type === 'basic') {
+      ctx.variables.set(variable, ctx.variables.get(variable) || '');
+      headers.push({ id: generateId(), key: 'Authorization', value: `Basic {{${variable}}}`, enabled: true });
+      ctx.warnings.add(`Security scheme "${name}" uses Basic auth; set {{${variable}}} to base64("user:password").`);
+    } else {
+      ctx.warnings.add(`"${opName}": security scheme "${name}" (${scheme.type}) is not supported.`);
+    }
+  });
+}
+
+// --- Servers ---
+
+function collectServers(ctx: Context): { url: string; description: string }[] {
+  if (ctx.version === 'swagger2') {
+    if (!ctx.doc.host) return [];
+    const schemes: string[] = ctx.doc.schemes?.length ? ctx.doc.schemes : ['https'];
+    const basePath = (ctx.doc.basePath || '').replace(/\/$/, '');
+    return schemes.map(s => ({ url: `${s}://${ctx.doc.host}${basePath}`, description: s.toUpperCase() }));
+  }
+  return (ctx.doc.servers || []).map((server: any) => {
+    // Substitute server variables with their defaults
+    const url = String(server.url || '').replace(/\{([^}]+)\}/g, (_m: string, name: string) => {
+      const variable = server.variables?.[name];
+      return variable?.default !== undefined ? String(variable.default) : `{{${name}}}`;
+    }).replace(/\/$/, '');
+    return { url, description: server.description || url };
+  });
+}
+
+// --- Entry point ---
+
+export function importOpenApi(doc: any): OpenApiImportResult {
+  const version = detectOpenApi(doc);
+  if (!version) throw new Error('Not an OpenAPI 3.x or Swagger 2.0 document');
+
+  const ctx: Context = { doc, version, warnings: new Set(), variables: new Map() };
+  const title = doc.info?.title || 'Imported API';
+  const servers = collectServers(ctx);
+
+  if (!servers.length) ctx.warnings.add('No servers defined; set {{baseUrl}} before sending.');
+  servers.forEach(s => {
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(s.url)) ctx.warnings.add(`Server "${s.url}" is relative; prefix it with the API host in {{baseUrl}}.`);
+  });
+
+  const folders = new Map<string, CollectionFolder>();
+  const rootItems: CollectionItem[] = [];
+  let operationCount = 0;
+
+  // Folders follow the order of the top-level tags list, then first appearance
+  (doc.tags || []).forEach((tag: any) => {
+    if (tag?.name && !folders.has(tag.name)) {
+      folders.set(tag.name, { type: 'folder', id: generateId(), name: tag.name, description: tag.description, items: [] });
+    }
+  });
+
+  Object.entries(doc.paths || {}).forEach(([path, rawPathItem]) => {
+    const pathItem = deref(rawPathItem, ctx) || {};
+    OPERATION_METHODS.forEach(method => {
+      const operation = pathItem[method];
+      if (!operation) return;
+      operationCount++;
+
+      const opName = operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`;
+      const rawParams = [...(pathItem.parameters || []), ...(operation.parameters || [])].map(p => deref(p, ctx));
+      const resolved = resolveParams(pathItem, operation, ctx);
+      const headers: KeyValue[] = [];
+      const query: KeyValue[] = [];
+
+      // Path parameters become collection variables, filled with an example value
+      let url = path.replace(/\{([^}]+)\}/g, (_m, name: string) => {
+        const param = resolved.find(p => p.in === 'path' && p.name === name);
+        if (!ctx.variables.has(name) || !ctx.variables.get(name)) ctx.variables.set(name, param?.value || '');
+        return `{{${name}}}`;
+      });
+      url = `{{baseUrl}}${url.startsWith('/') ? '' : '/'}${url}`;
+
+      resolved.forEach(p => {
+        if (p.in === 'query') {
+          query.push({ id: generateId(), key: p.name, value: p.value, enabled: p.required });
+        } else if (p.in === 'header') {
+          // OpenAPI ignores these header parameters; they are derived from other fields
+          if (['content-type', 'accept', 'authorization'].includes(p.name.toLowerCase())) return;
+          headers.push({ id: generateId(), key: p.name, value: p.value, enabled: p.required });
+        } else if (p.in === 'cookie') {
+          ctx.warnings.add(`"${opName}": cookie parameter "${p.name}" cannot be set from the browser.`);
+        }
+      });
+
+      const request: RequestState = {
+        ...INITIAL_REQUEST,
+        id: '',
+        method: method.toUpperCase() as HttpMethod,
+        url,
+        params: [],
+        headers: [],
+        bodyType: 'none',
+        bodyContent: '',
+        file: null,
+        bodyFormData: [{ ...emptyRow(), type: 'text' }],
+        bodyFormUrlEncoded: [emptyRow()],
+      };
+
+      if (version === 'openapi3') {
+        const body = deref(operation.requestBody, ctx);
+        if (body?.content) bodyFromMediaTypes(body.content, request, headers, ctx, opName);
+      } else {
+        swagger2Body(resolved, rawParams, operation, request, headers, ctx, opName);
+      }
+
+      // Accept the first declared response media type
+      const produces: string[] = version === 'swagger2'
+        ? operation.produces || doc.produces || []
+        : Object.keys(deref(Object.values(operation.responses || {})[0], ctx)?.content || {});
+      if (produces.length) headers.push({ id: generateId(), key: 'Accept', value: produces[0], enabled: true });
+
+      applySecurity(operation, headers, query, ctx, opName);
+      if (operation.callbacks) ctx.warnings.add(`"${opName}": callbacks are not imported.`);
+
+      request.params = [...query, emptyRow()];
+      request.headers = [...headers, emptyRow()];
+
+      const id = generateId();
+      const item: CollectionItem = {
+        type: 'request',
+        id,
+        name: opName,
+        description: operation.description,
+        request: { ...request, id },
+      };
+
+      const tag = operation.tags?.[0];
+      if (tag) {
+        if (!folders.has(tag)) folders.set(tag, { type: 'folder', id: generateId(), name: tag, items: [] });
+        folders.get(tag)!.items.push(item);
+      } else {
+        rootItems.push(item);
+      }
+    });
+  });
+
+  if (doc.webhooks && Object.keys(doc.webhooks).length) ctx.warnings.add(`${Object.keys(doc.webhooks).length} webhook(s) are not imported.`);
+
+  const variables: KeyValue[] = [
+    { id: generateId(), key: 'baseUrl', value: servers[0]?.url || '', enabled: true },
+    ...Array.from(ctx.variables.entries()).map(([key, value]) => ({ id: generateId(), key, value, enabled: true })),
+    emptyRow(),
+  ];
+
+  const collection: Collection = {
+    id: generateId(),
+    name: title,
+    description: doc.info?.description,
+    variables,
+    items: [...Array.from(folders.values()).filter(f => f.items.length), ...rootItems],
+  };
+
+  const environments: Environment[] = servers.map(server => ({
+    id: generateId(),
+    name: `${title} - ${server.description}`,
+    variables: [{ id: generateId(), key: 'baseUrl', value: server.url, enabled: true }, emptyRow()],
+  }));
+
+  const folderCount = collection.items.filter(i => i.type === 'folder').length;
+  return {
+    collection,
+    environments,
+    report: {
+      summary: `Imported "${title}" (${version === 'openapi3' ? `OpenAPI ${doc.openapi}` : 'Swagger 2.0'}): ${operationCount} request(s) in ${folderCount} folder(s), ${environments.length} environment(s).`,
+      warnings: Array.from(ctx.warnings),
+    },
+  };
+}
@@ -0,0 +1,475 @@
+import { Collection, CollectionItem, Environment, FormDataItem, HttpMethod, ImportReport, KeyValue, OAuth2GrantType, RequestAuth, RequestState } from '../types';
+import { INITIAL_REQUEST, HTTP_METHODS } from '../constants';
+import { generateId } from './collections';
+import { DEFAULT_OAUTH2 } from './auth';
+
+// --- Postman Collection v2.1 / Environment import & export ---
+// Reference: https://schema.postman.com/collection/json/v2.1.0/draft-07/docs/index.html
+
+export const POSTMAN_SCHEMA_V21 = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const emptyRow = (): KeyValue => ({ id: generateId(), key: '', value: '', enabled: true });
+
+const withEmptyRow = <T extends KeyValue>(list: T[], empty: T): T[] => [...list, empty];
+
+export type PostmanFileKind = 'collection' | 'environment' | 'globals';
+
+export function detectPostmanFile(json: any): PostmanFileKind | null {
+  if (!json || typeof json !== 'object') return null;
+  if (json.info && Array.isArray(json.item)) return 'collection';
+  if (Array.isArray(json.values)) return json._postman_variable_scope === 'globals' ? 'globals' : 'environment';
+  return null;
+}
+
+const descriptionText = (desc: any): string | undefined => {
+  if (!desc) return undefined;
+  return typeof desc === 'string' ? desc : desc.content;
+};
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function splitQuery(raw: string): { base: string; query: KeyValue[] } {
+  const [withoutHash] = raw.split('#');
+  const idx = withoutHash.indexOf('?');
+  if (idx === -1) return { base: withoutHash, query: [] };
+  const query = withoutHash.slice(idx + 1).split('&').filter(Boolean).map(pair => {
+    const eq = pair.indexOf('=');
+    const key = eq === -1 ? pair : pair.slice(0, eq);
+    const value = eq === -1 ? '' : pair.slice(eq + 1);
+    return { id: generateId(), key: safeDecode(key), value: safeDecode(value), enabled: true };
+  });
+  return { base: withoutHash.slice(0, idx), query };
+}
+
+// --- Import ---
+
+interface ImportContext {
+  warnings: string[];
+  requestCount: number;
+  folderCount: number;
+}
+
+type PostmanAuth = { type: string; [key: string]: any } | null | undefined;
+
+// v2.1 stores auth attributes as [{key, value}], v2.0 as a plain object
+function authAttributes(auth: any, type: string): Record<string, string> {
+  const attrs = auth?.[type];
+  if (!attrs) return {};
+  if (Array.isArray(attrs)) {
+    const result: Record<string, string> = {};
+    attrs.forEach((a: any) => { if (a && a.key) result[a.key] = a.value == null ? '' : String(a.value); });
+    return result;
+  }
+  return attrs;
+}
+
+/**
+ * Maps a Postman auth block. Returns undefined when there is none, which means inherit.
+ */
+function importAuth(auth: PostmanAuth, itemName: string, ctx: ImportContext): RequestAuth | undefined {
+  if (!auth) return undefined;
+  if (auth.type === 'noauth') return { type: 'none' };
+  const attrs = authAttributes(auth, auth.type);
+
+  switch (auth.type) {
+    case 'basic':
+      return { type: 'basic', basic: { username: attrs.username || '', password: attrs.password || '' } };
+    case 'bearer':
+      return { type: 'bearer', bearer: { token: attrs.token || '' } };
+    case 'apikey':
+      return { type: 'apikey', apikey: { key: attrs.key || 'X-API-Key', value: attrs.value || '', in: attrs.in === 'query' ? 'query' : 'header' } };
+    case 'digest':
+      return { type: 'digest', digest: { username: attrs.username || '', password: attrs.password || '' } };
+    case 'oauth2': {
+      const grant = attrs.grant_type || 'authorization_code';
+      const grantType: OAuth2GrantType = grant === 'client_credentials' ? 'client_credentials'
+        : grant === 'password_credentials' ? 'password' : 'authorization_code';
+      if (grant === 'implicit') ctx.warnings.push(`"${itemName}": OAuth 2.0 implicit grant is not supported; imported as authorization code.`);
+      if (attrs.addTokenTo === 'queryParams') ctx.warnings.push(`"${itemName}": OAuth 2.0 tokens are always sent in the Authorization header.`);
+      return {
+        type: 'oauth2',
+        oauth2: {
+          ...DEFAULT_OAUTH2,
+          grantType,
+          accessTokenUrl: attrs.accessTokenUrl || '',
+          authUrl: attrs.authUrl || '',
+          clientId: attrs.clientId || '',
+          clientSecret: attrs.clientSecret || '',
+          scope: attrs.scope || '',
+          username: attrs.username || '',
+          password: attrs.password || '',
+          redirectUri: attrs.redirect_uri || '',
+          usePkce: grant === 'authorization_code_with_pkce',
+          clientAuthentication: attrs.client_authentication === 'body' ? 'body' : 'header',
+          headerPrefix: attrs.headerPrefix ?? 'Bearer',
+        },
+      };
+    }
+    default:
+      ctx.warnings.push(`"${itemName}": "${auth.type}" auth is not supported and was skipped.`);
+      return { type: 'none' };
+  }
+}
+
+const scriptCode = (ev: any): string => {
+  const exec = ev?.script?.exec;
+  return Array.isArray(exec) ? exec.join('\n') : (exec || '');
+};
+
+// Folder and collection scripts have no equivalent; only request scripts are run
+function reportEvents(events: any, itemName: string, ctx: ImportContext) {
+  if (!Array.isArray(events)) return;
+  events.forEach((ev: any) => {
+    if (!scriptCode(ev).trim()) return;
+    const kind = ev.listen === 'prerequest' ? 'Pre-request script' : ev.listen === 'test' ? 'Test script' : `"${ev.listen}" script`;
+    ctx.warnings.push(`"${itemName}": ${kind} was not imported (only request-level scripts are supported).`);
+  });
+}
+
+function importEvents(events: any, request: RequestState, itemName: string, ctx: ImportContext) {
+  if (!Array.isArray(events)) return;
+  events.forEach((ev: any) => {
+    const code = scriptCode(ev);
+    if (!code.trim() || ev.disabled) return;
+    if (ev.listen === 'prerequest') request.preRequestScript = code;
+    else if (ev.listen === 'test') request.testScript = code;
+    else ctx.warnings.push(`"${itemName}": "${ev.listen}" script was not imported.`);
+    if (/pm\.sendRequest|require\(/.test(code)) {
+      ctx.warnings.push(`"${itemName}": script uses pm.sendRequest or require(), which are not available.`);
+    }
+  });
+}
+
+function importBody(body: any, req: RequestState, headers: KeyValue[], itemName: string, ctx: ImportContext) {
+  if (!body || body.disabled) return;
+  const contentType = headers.find(h => h.key.toLowerCase() === 'content-type')?.value.toLowerCase() || '';
+
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language;
+      req.bodyType = language === 'json' || contentType.includes('json') ? 'json' : 'text';
+      req.bodyContent = body.raw || '';
+      break;
+    }
+    case 'urlencoded':
+      req.bodyType = 'x-www-form-urlencoded';
+      req.bodyFormUrlEncoded = withEmptyRow((body.urlencoded || []).map((p: any) => ({
+        id: generateId(), key: p.key || '', value: p.value == null ? '' : String(p.value), enabled: !p.disabled,
+      })), emptyRow());
+      break;
+    case 'formdata':
+      req.bodyType = 'form-data';
+      req.bodyFormData = withEmptyRow<FormDataItem>((body.formdata || []).map((p: any) => {
+        if (p.type === 'file') {
+          const src = Array.isArray(p.src) ? p.src.join(', ') : p.src;
+          ctx.warnings.push(`"${itemName}": form-data file "${p.key}"${src ? ` (${src})` : ''} must be re-attached.`);
+          // The original path is kept in `value` so it survives a re-export
+          return { id: generateId(), key: p.key || '', value: src || '', type: 'file', file: null, enabled: !p.disabled };
+        }
+        return { id: generateId(), key: p.key || '', value: p.value == null ? '' : String(p.value), type: 'text', enabled: !p.disabled };
+      }), { ...emptyRow(), type: 'text' });
+      break;
+    case 'file':
+      req.bodyType = 'file';
+      ctx.warnings.push(`"${itemName}": binary body file${body.file?.src ? ` "${body.file.src}"` : ''} must be re-attached.`);
+      break;
+    case 'graphql':
+      req.bodyType = 'graphql';
+      req.graphql = { query: body.graphql?.query || '', variables: body.graphql?.variables || '' };
+      break;
+    default:
+      if (body.mode) ctx.warnings.push(`"${itemName}": body mode "${body.mode}" is not supported.`);
+  }
+}
+
+function importRequest(item: any, ctx: ImportContext): CollectionItem {
+  const name = item.name || 'Untitled Request';
+  const src = typeof item.request === 'string' ? { url: item.request } : (item.request || {});
+  const id = generateId();
+
+  // URL: prefer the structured query list because it keeps disabled params
+  const urlObj = src.url;
+  const raw = typeof urlObj === 'string' ? urlObj : (urlObj?.raw || buildRawUrl(urlObj));
+  const { base, query } = splitQuery(raw || '');
+  const params: KeyValue[] = urlObj && typeof urlObj === 'object' && Array.isArray(urlObj.query)
+    ? urlObj.query.map((q: any) => ({ id: generateId(), key: q.key || '', value: q.value == null ? '' : String(q.value), enabled: !q.disabled }))
+    : query;
+
+  if (urlObj && typeof urlObj === 'object' && Array.isArray(urlObj.variable) && urlObj.variable.length) {
+    const vars = urlObj.variable.map((v: any) => `:${v.key}${v.value ? `=${v.value}` : ''}`).join(', ');
+    ctx.warnings.push(`"${name}": path variables (${vars}) are not supported; edit the URL before sending.`);
+  }
+
+  const headers: KeyValue[] = (Array.isArray(src.header) ? src.header : []).map((h: any) => ({
+    id: generateId(), key: h.key || '', value: h.value == null ? '' : String(h.value), enabled: !h.disabled,
+  }));
+
+  let method = (src.method || 'GET').toUpperCase();
+  if (!HTTP_METHODS.includes(method)) {
+    ctx.warnings.push(`"${name}": method ${method} is not supported; imported as GET.`);
+    method = 'GET';
+  }
+
+  // Requests without auth inherit it; an explicit "noauth" stops inheritance
+  const auth = importAuth(src.auth, name, ctx) || { type: 'inherit' as const };
+
+  const request: RequestState = {
+    ...INITIAL_REQUEST,
+    id,
+    method: method as HttpMethod,
+    url: base,
+    params: withEmptyRow(params, emptyRow()),
+    headers: [],
+    bodyType: 'none',
+    bodyContent: '',
+    file: null,
+    bodyFormData: [{ ...emptyRow(), type: 'text' }],
+    bodyFormUrlEncoded: [emptyRow()],
+    auth,
+  };
+  importBody(src.body, request, headers, name, ctx);
+  request.headers = withEmptyRow(headers, emptyRow());
+
+  importEvents(item.event, request, name, ctx);
+  if (Array.isArray(item.response) && item.response.length) {
+    ctx.warnings.push(`"${name}": ${item.response.length} saved example response(s) were not imported.`);
+  }
+  if (item.protocolProfileBehavior && Object.keys(item.protocolProfileBehavior).length) {
+    ctx.warnings.push(`"${name}": protocol settings (${Object.keys(item.protocolProfileBehavior).join(', ')}) are not supported.`);
+  }
+
+  ctx.requestCount++;
+  return { type: 'request', id, name, description: descriptionText(src.description || item.description), request };
+}
+
+function buildRawUrl(url: any): string {
+  if (!url) return '';
+  const host = Array.isArray(url.host) ? url.host.join('.') : (url.host || '');
+  const path = Array.isArray(url.path) ? url.path.map((p: any) => typeof p === 'string' ? p : p?.value || '').join('/') : (url.path || '');
+  const protocol = url.protocol ? `${url.protocol}://` : '';
+  const port = url.port ? `:${url.port}` : '';
+  const query = Array.isArray(url.query)
+    ? url.query.filter((q: any) => !q.disabled).map((q: any) => q.value == null ? q.key : `${q.key}=${q.value}`).join('&')
+    : '';
+  return `${protocol}${host}${port}${path ? '/' + path.replace(/^\//, '') : ''}${query ? '?' + query : ''}`;
+}
+
+function importItems(items: any[], ctx: ImportContext): CollectionItem[] {
+  return (items || []).map(item => {
+    if (Array.isArray(item.item)) {
+      ctx.folderCount++;
+      const name = item.name || 'Untitled Folder';
+      reportEvents(item.event, name, ctx);
+      return {
+        type: 'folder' as const,
+        id: generateId(),
+        name,
+        description: descriptionText(item.description),
+        auth: importAuth(item.auth, name, ctx),
+        items: importItems(item.item, ctx),
+      };
+    }
+    return importRequest(item, ctx);
+  });
+}
+
+export function importPostmanCollection(json: any): { collection: Collection; report: ImportReport } {
+  if (detectPostmanFile(json) !== 'collection') throw new Error('Not a Postman collection');
+
+  const ctx: ImportContext = { warnings: [], requestCount: 0, folderCount: 0 };
+  const schema: string = json.info.schema || '';
+  if (schema && !schema.includes('v2.1') && !schema.includes('v2.0')) {
+    ctx.warnings.push(`Unknown schema "${schema}"; imported as v2.1.`);
+  }
+
+  const name = json.info.name || 'Imported Collection';
+  reportEvents(json.event, name, ctx);
+
+  const items = importItems(json.item, ctx);
+  const variables: KeyValue[] = (json.variable || []).map((v: any) => ({
+    id: generateId(), key: v.key || v.id || '', value: v.value == null ? '' : String(v.value), enabled: !v.disabled,
+  }));
+
+  const collection: Collection = {
+    id: generateId(),
+    name,
+    description: descriptionText(json.info.description),
+    variables: withEmptyRow(variables, emptyRow()),
+    auth: importAuth(json.auth, name, ctx),
+    items,
+  };
+
+  return {
+    collection,
+    report: {
+      summary: `Imported collection "${name}": ${ctx.requestCount} request(s), ${ctx.folderCount} folder(s), ${variables.length} variable(s).`,
+      warnings: ctx.warnings,
+    },
+  };
+}
+
+export function importPostmanEnvironment(json: any): { environment: Environment; report: ImportReport } {
+  if (!detectPostmanFile(json) || !Array.isArray(json.values)) throw new Error('Not a Postman environment');
+  const warnings: string[] = [];
+  const variables: KeyValue[] = json.values.map((v: any) => {
+    if (v.type === 'secret') warnings.push(`Secret "${v.key}" was imported as a plain variable.`);
+    return { id: generateId(), key: v.key || '', value: v.value == null ? '' : String(v.value), enabled: v.enabled !== false };
+  });
+  const name = json.name || 'Imported Environment';
+  return {
+    environment: { id: generateId(), name, variables: withEmptyRow(variables, emptyRow()) },
+    report: { summary: `Imported environment "${name}": ${variables.length} variable(s).`, warnings },
+  };
+}
+
+// --- Export ---
+
+const nonEmpty = <T extends KeyValue>(list: T[] | undefined) => (list || []).filter(i => i.key || i.value);
+
+function exportUrl(request: RequestState): any {
+  const enabledQuery = request.params.filter(p => p.enabled && p.key);
+  const raw = enabledQuery.length
+    ? `${request.url.split('?')[0]}?${enabledQuery.map(p => `${p.key}=${p.value}`).join('&')}`
+    : request.url;
+
+  const url: any = { raw };
+  const match = request.url.split('?')[0].match(/^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/]*)(\/.*)?$/i);
+  if (match) {
+    if (match[1]) url.protocol = match[1];
+    const [hostname, port] = match[2].split(/:(?=\d+$)/);
+    if (hostname) url.host = hostname.startsWith('{{') ? [hostname] : hostname.split('.');
+    if (port) url.port = port;
+    if (match[3]) url.path = match[3].replace(/^\//, '').split('/');
+  }
+  const query = nonEmpty(request.params);
+  if (query.length) url.query = query.map(p => ({ key: p.key, value: p.value, ...(p.enabled ? {} : { disabled: true }) }));
+  return url;
+}
+
+function exportBody(request: RequestState): any {
+  switch (request.bodyType) {
+    case 'json':
+    case 'text':
+      return { mode: 'raw', raw: request.bodyContent, options: { raw: { language: request.bodyType === 'json' ? 'json' : 'text' } } };
+    case 'x-www-form-urlencoded':
+      return {
+        mode: 'urlencoded',
+        urlencoded: nonEmpty(request.bodyFormUrlEncoded).map(p => ({ key: p.key, value: p.value, ...(p.enabled ? {} : { disabled: true }) })),
+      };
+    case 'form-data':
+      return {
+        mode: 'formdata',
+        formdata: nonEmpty(request.bodyFormData).map(p => p.type === 'file'
+          ? { key: p.key, type: 'file', src: p.file?.name || p.fileRef?.name || p.value || '', ...(p.enabled ? {} : { disabled: true }) }
+          : { key: p.key, value: p.value, type: 'text', ...(p.enabled ? {} : { disabled: true }) }),
+      };
+    case 'file':
+      return { mode: 'file', file: { src: request.file?.name || request.fileRef?.name || '' } };
+    case 'graphql':
+      return { mode: 'graphql', graphql: { query: request.graphql?.query || '', variables: request.graphql?.variables || '' } };
+    default:
+      return undefined;
+  }
+}
+
+const authAttrs = (values: Record<string, string | boolean>) =>
+  Object.entries(values).map(([key, value]) => ({ key, value, type: typeof value === 'boolean' ? 'boolean' : 'string' }));
+
+// Inherited auth is left out, which is how Postman marks inheritance
+function exportAuth(auth: RequestAuth | undefined): any {
+  switch (auth?.type) {
+    case 'none':
+      return { type: 'noauth' };
+    case 'basic':
+      return { type: 'basic', basic: authAttrs({ username: auth.basic?.username || '', password: auth.basic?.password || '' }) };
+    case 'bearer':
+      return { type: 'bearer', bearer: authAttrs({ token: auth.bearer?.token || '' }) };
+    case 'apikey':
+      return { type: 'apikey', apikey: authAttrs({ key: auth.apikey?.key || '', value: auth.apikey?.value || '', in: auth.apikey?.in || 'header' }) };
+    case 'digest':
+      return { type: 'digest', digest: authAttrs({ username: auth.digest?.username || '', password: auth.digest?.password || '' }) };
+    case 'oauth2': {
+      const o = { ...DEFAULT_OAUTH2, ...auth.oauth2 };
+      const grant = o.grantType === 'password' ? 'password_credentials'
+        : o.grantType === 'authorization_code' && o.usePkce ? 'authorization_code_with_pkce' : o.grantType;
+      return {
+        type: 'oauth2',
+        oauth2: authAttrs({
+          grant_type: grant,
+          accessTokenUrl: o.accessTokenUrl,
+          ...(o.grantType === 'authorization_code' ? { authUrl: o.authUrl, redirect_uri: o.redirectUri } : {}),
+          clientId: o.clientId,
+          clientSecret: o.clientSecret,
+          scope: o.scope,
+          ...(o.grantType === 'password' ? { username: o.username, password: o.password } : {}),
+          client_authentication: o.clientAuthentication,
+          headerPrefix: o.headerPrefix,
+          addTokenTo: 'header',
+        }),
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function exportItems(items: CollectionItem[]): any[] {
+  return items.map(item => {
+    if (item.type === 'folder') {
+      const auth = exportAuth(item.auth);
+      return { name: item.name, ...(item.description ? { description: item.description } : {}), ...(auth ? { auth } : {}), item: exportItems(item.items) };
+    }
+    const req = item.request;
+    const request: any = {
+      method: req.method,
+      header: nonEmpty(req.headers).map(h => ({ key: h.key, value: h.value, ...(h.enabled ? {} : { disabled: true }) })),
+      url: exportUrl(req),
+    };
+    const body = exportBody(req);
+    if (body) request.body = body;
+    const auth = exportAuth(req.auth);
+    if (auth) request.auth = auth;
+    if (item.description) request.description = item.description;
+    const event = [
+      ...(req.preRequestScript?.trim() ? [{ listen: 'prerequest', script: { type: 'text/javascript', exec: req.preRequestScript.split('\n') } }] : []),
+      ...(req.testScript?.trim() ? [{ listen: 'test', script: { type: 'text/javascript', exec: req.testScript.split('\n') } }] : []),
+    ];
+    return { name: item.name, ...(event.length ? { event } : {}), request };
+  });
+}
+
+export function exportPostmanCollection(collection: Collection): any {
+  const result: any = {
+    info: {
+      _postman_id: collection.id,
+      name: collection.name,
+      ...(collection.description ? { description: collection.description } : {}),
+      schema: POSTMAN_SCHEMA_V21,
+    },
+    item: exportItems(collection.items),
+  };
+  const auth = exportAuth(collection.auth);
+  if (auth) result.auth = auth;
+  const variables = nonEmpty(collection.variables);
+  if (variables.length) {
+    result.variable = variables.map(v => ({ key: v.key, value: v.value, ...(v.enabled ? {} : { disabled: true }) }));
+  }
+  return result;
+}
+
+export function exportPostmanEnvironment(name: string, variables: KeyValue[], scope: 'environment' | 'globals' = 'environment', id?: string): any {
+  return {
+    id: id || generateId(),
+    name,
+    values: nonEmpty(variables).map(v => ({ key: v.key, value: v.value, type: 'default', enabled: v.enabled })),
+    _postman_variable_scope: scope,
+    _postman_exported_at: new Date().toISOString(),
+    _postman_exported_using: 'PostmanLite',
+  };
+}
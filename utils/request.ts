@@ -0,0 +1,120 @@
+import { AppSettings, RequestState } from '../types';
+import { VariableScope, resolveVariables } from './variables';
+import { graphqlBodyText, DEFAULT_GRAPHQL_BODY } from './graphql';
+
+// --- Helpers shared by handleSend and the request previews (Raw / Code) ---
+
+export function getCookie(name: string): string {
+  try {
+      const value = `; ${document.cookie}`;
+      const parts = value.split(`; ${name}=`);
+      if (parts.length === 2) return parts.pop()?.split(';').shift() || '';
+  } catch (e) {
+      console.warn('Cannot read cookies', e);
+  }
+  return '';
+}
+
+// UTF-8 safe btoa
+export function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+}
+
+/**
+ * Merges the header layers in the order they are sent: global headers, signed headers,
+ * auth headers, then request headers (which override the others on conflicts).
+ * `resolved` must already have its variables substituted.
+ */
+export function buildRequestHeaders(
+  resolved: RequestState,
+  settings: AppSettings,
+  scope: VariableScope,
+  signedHeaders: Record<string, string> | null,
+  authHeaders: Record<string, string> | null = null
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  settings.globalHeaders.forEach(h => {
+      if (h.enabled && h.key) headers[resolveVariables(h.key, scope)] = resolveVariables(h.value, scope);
+  });
+
+  if (signedHeaders) Object.assign(headers, signedHeaders);
+  if (authHeaders) Object.assign(headers, authHeaders);
+
+  resolved.headers.forEach(h => {
+      if (h.enabled && h.key) headers[h.key] = h.value;
+  });
+
+  // The browser sets the multipart boundary itself
+  const hasBody = resolved.method !== 'GET' && resolved.method !== 'HEAD';
+  if (hasBody && resolved.bodyType === 'form-data') {
+      Object.keys(headers).filter(k => k.toLowerCase() === 'content-type').forEach(k => delete headers[k]);
+  }
+
+  return headers;
+}
+
+/**
+ * Builds the final URL from the base URL and the enabled params. The params table replaces
+ * any query string typed into the URL bar.
+ */
+export function buildRequestUrl(resolved: RequestState): string {
+  const queryString = resolved.params
+      .filter(p => p.enabled && p.key)
+      .map(p => `${encodeURIComponent(p.key)}=${encodeURIComponent(p.value)}`)
+      .join('&');
+  return queryString ? `${resolved.url.split('?')[0]}?${queryString}` : resolved.url;
+}
+
+export const methodHasBody = (request: RequestState) =>
+  request.method !== 'GET' && request.method !== 'HEAD' && request.bodyType !== 'none';
+
+/**
+ * Builds the fetch body. `resolved` must already have its variables substituted.
+ */
+export function buildRequestBody(resolved: RequestState): BodyInit | undefined {
+  if (!methodHasBody(resolved)) return undefined;
+
+  if (resolved.bodyType === 'file') return resolved.file || undefined;
+
+  if (resolved.bodyType === 'form-data') {
+      const formData = new FormData();
+      resolved.bodyFormData.forEach(item => {
+          if (item.enabled && item.key) {
+              if (item.type === 'file' && item.file) {
+                  formData.append(item.key, item.file);
+              } else {
+                  formData.append(item.key, item.value);
+              }
+          }
+      });
+      return formData;
+  }
+
+  if (resolved.bodyType === 'x-www-form-urlencoded') {
+      const params = new URLSearchParams();
+      resolved.bodyFormUrlEncoded.forEach(item => {
+          if (item.enabled && item.key) params.append(item.key, item.value);
+      });
+      return params;
+  }
+
+  if (resolved.bodyType === 'graphql') return graphqlBodyText(resolved.graphql || DEFAULT_GRAPHQL_BODY);
+
+  return resolved.bodyContent;
+}
+
+// Shown where requests are listed; WebSocket requests have no meaningful method
+export const methodLabel = (request: Pick<RequestState, 'kind' | 'method'>) => request.kind === 'websocket' ? 'WS' : request.method;
+
+/**
+ * Waits for `ms`, resolving early when the signal aborts.
+ */
+export const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  if (ms <= 0 || signal.aborted) return resolve();
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
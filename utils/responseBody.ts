@@ -0,0 +1,189 @@
+// --- Body view modes ---
+// The chosen view is remembered per media type, so JSON opens as a tree, text as text and media as a preview.
+
+export type BodyViewMode = 'pretty' | 'raw' | 'tree' | 'preview' | 'hex';
+
+const VIEW_MODES_KEY = 'postman_lite_body_views';
+
+export const mediaType = (contentType: string) => contentType.split(';')[0].trim().toLowerCase() || 'text/plain';
+
+export const isJsonValue = (data: any) => typeof data === 'object' && data !== null;
+
+/**
+ * Views that apply to a body. Binary bodies only have the preview and hex views.
+ */
+export function availableViewModes(data: any, binary: boolean, previewable: boolean): BodyViewMode[] {
+  if (binary) return previewable ? ['preview', 'hex'] : ['hex'];
+  if (isJsonValue(data)) return ['pretty', 'raw', 'tree'];
+  return previewable ? ['preview', 'pretty', 'raw'] : ['pretty', 'raw'];
+}
+
+function loadViewModes(): Record<string, BodyViewMode> {
+  try {
+    return JSON.parse(localStorage.getItem(VIEW_MODES_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+export function getViewMode(contentType: string, modes: BodyViewMode[]): BodyViewMode {
+  const stored = loadViewModes()[mediaType(contentType)];
+  if (stored && modes.includes(stored)) return stored;
+  return modes.includes('tree') ? 'tree' : modes[0];
+}
+
+export function saveViewMode(contentType: string, mode: BodyViewMode) {
+  localStorage.setItem(VIEW_MODES_KEY, JSON.stringify({ ...loadViewModes(), [mediaType(contentType)]: mode }));
+}
+
+/**
+ * Message text pretty-printed when it is a JSON object or array, as sent otherwise.
+ */
+export function formatJsonText(text: string): { text: string; json: boolean } {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return { text: JSON.stringify(JSON.parse(trimmed), null, 2), json: true };
+    } catch (e) {
+      // Not JSON after all
+    }
+  }
+  return { text, json: false };
+}
+
+export function bodyText(data: any, mode: BodyViewMode): string {
+  if (!isJsonValue(data)) return String(data ?? '');
+  try {
+    return mode === 'raw' ? JSON.stringify(data) : JSON.stringify(data, null, 2);
+  } catch (e) {
+    return String(data);
+  }
+}
+
+// --- Text search ---
+
+export const MAX_SEARCH_MATCHES = 10000;
+
+/**
+ * Start offsets of case-insensitive occurrences of query in text.
+ */
+export function findTextMatches(text: string, query: string): number[] {
+  if (!query) return [];
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const matches: number[] = [];
+  let idx = haystack.indexOf(needle);
+  while (idx !== -1 && matches.length < MAX_SEARCH_MATCHES) {
+    matches.push(idx);
+    idx = haystack.indexOf(needle, idx + needle.length);
+  }
+  return matches;
+}
+
+// --- JSON tree ---
+
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface JsonTreeRow {
+  id: string; // JSONPath of the node
+  depth: number;
+  key: string | number | null; // Property name or array index, null for the root
+  value: any;
+  type: JsonValueType;
+  size: number; // Number of children of objects and arrays
+  expanded: boolean;
+  closing: boolean; // Closing bracket of an expanded object or array
+  last: boolean; // Last child of its parent, so no trailing comma
+}
+
+export interface JsonSearchMatch {
+  id: string;
+  ancestors: string[]; // Containers to expand to reveal the match, outermost first
+}
+
+export const jsonType = (value: any): JsonValueType =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value === 'object' ? 'object' : typeof value as JsonValueType;
+
+const isContainer = (type: JsonValueType) => type === 'object' || type === 'array';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const pathSegment = (key: string | number) =>
+  typeof key === 'number' ? `[${key}]`
+    : IDENTIFIER.test(key) ? `.${key}`
+    : `['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+
+export const ROOT_PATH = '$';
+
+const entriesOf = (value: any): [string | number, any][] =>
+  Array.isArray(value) ? value.map((v, i) => [i, v]) : Object.entries(value);
+
+/**
+ * The visible rows of a JSON value given the set of expanded containers.
+ */
+export function flattenJson(data: any, expanded: Set<string>): JsonTreeRow[] {
+  const rows: JsonTreeRow[] = [];
+  const visit = (value: any, id: string, key: string | number | null, depth: number, last: boolean) => {
+    const type = jsonType(value);
+    const container = isContainer(type);
+    const children = container ? entriesOf(value) : [];
+    const open = container && children.length > 0 && expanded.has(id);
+    rows.push({ id, depth, key, value, type, size: children.length, expanded: open, closing: false, last });
+    if (!open) return;
+    children.forEach(([childKey, child], idx) => visit(child, id + pathSegment(childKey), childKey, depth + 1, idx === children.length - 1));
+    rows.push({ id: `${id}#end`, depth, key: null, value, type, size: children.length, expanded: true, closing: true, last });
+  };
+  visit(data, ROOT_PATH, null, 0, true);
+  return rows;
+}
+
+/**
+ * The root, plus its children when there are few of them.
+ */
+export function initialExpanded(data: any): Set<string> {
+  const expanded = new Set<string>([ROOT_PATH]);
+  if (!isJsonValue(data)) return expanded;
+  const children = entriesOf(data);
+  if (children.length <= 20) {
+    children.forEach(([key, child]) => { if (isJsonValue(child)) expanded.add(ROOT_PATH + pathSegment(key)); });
+  }
+  return expanded;
+}
+
+export function collectContainerIds(data: any): Set<string> {
+  const ids = new Set<string>();
+  const visit = (value: any, id: string) => {
+    if (!isJsonValue(value)) return;
+    ids.add(id);
+    entriesOf(value).forEach(([key, child]) => visit(child, id + pathSegment(key)));
+  };
+  visit(data, ROOT_PATH);
+  return ids;
+}
+
+/**
+ * Nodes whose key or primitive value contains the query (case-insensitive), in document order.
+ */
+export function searchJson(data: any, query: string): JsonSearchMatch[] {
+  if (!query) return [];
+  const needle = query.toLowerCase();
+  const matches: JsonSearchMatch[] = [];
+  const visit = (value: any, id: string, key: string | number | null, ancestors: string[]) => {
+    if (matches.length >= MAX_SEARCH_MATCHES) return;
+    const keyMatch = typeof key === 'string' && key.toLowerCase().includes(needle);
+    if (isJsonValue(value)) {
+      if (keyMatch) matches.push({ id, ancestors });
+      const inner = [...ancestors, id];
+      entriesOf(value).forEach(([childKey, child]) => visit(child, id + pathSegment(childKey), childKey, inner));
+    } else if (keyMatch || String(value).toLowerCase().includes(needle)) {
+      matches.push({ id, ancestors });
+    }
+  };
+  visit(data, ROOT_PATH, null, []);
+  return matches;
+}
+
+// Strings are copied without their quotes
+export function copyableValue(value: any): string {
+  return isJsonValue(value) ? JSON.stringify(value, null, 2) : typeof value === 'string' ? value : String(value);
+}
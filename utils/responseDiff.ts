@@ -0,0 +1,278 @@
+import { ResponseState } from '../types';
+import { isJsonValue, pathSegment } from './responseBody';
+
+// --- Options ---
+
+export interface DiffOptions {
+  ignoreKeyOrder: boolean;
+  // Key names, JSONPaths ($.meta.requestId, * matches one segment) or header names left out of the diff
+  ignored: string[];
+}
+
+const OPTIONS_KEY = 'postman_lite_diff_options';
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  ignoreKeyOrder: true,
+  ignored: ['date', 'x-request-id', 'timestamp', 'requestId'],
+};
+
+export function loadDiffOptions(): DiffOptions {
+  try {
+    return { ...DEFAULT_DIFF_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_DIFF_OPTIONS;
+  }
+}
+
+export function saveDiffOptions(options: DiffOptions) {
+  try {
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.error('Failed to store diff options', e);
+  }
+}
+
+// --- Ignore filters ---
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+type Matcher = (path: string, key: string | number | null) => boolean;
+
+function createMatcher(ignored: string[]): Matcher {
+  const names = new Set<string>();
+  const patterns: RegExp[] = [];
+  ignored.map(p => p.trim()).filter(Boolean).forEach(p => {
+    if (p.startsWith('$')) {
+      // [*] is any array index, .* any property name
+      const source = escapeRegExp(p)
+        .replace(/\\\[\*\\\]/g, '\\[\\d+\\]')
+        .replace(/\\\.\*/g, "(?:\\.[^.[]+|\\['[^']*'\\])");
+      patterns.push(new RegExp('^' + source + '$'));
+    } else {
+      names.add(p.toLowerCase());
+    }
+  });
+  return (path, key) => (typeof key === 'string' && names.has(key.toLowerCase())) || patterns.some(re => re.test(path));
+}
+
+// --- JSON diff ---
+
+export type JsonDiffKind = 'added' | 'removed' | 'changed' | 'reordered';
+
+export interface JsonDiffEntry {
+  path: string;
+  kind: JsonDiffKind;
+  left?: any;
+  right?: any;
+}
+
+const isPlainObject = (value: any) => isJsonValue(value) && !Array.isArray(value);
+
+/**
+ * Structural differences between two JSON values, as JSONPaths.
+ */
+export function diffJson(left: any, right: any, options: DiffOptions): JsonDiffEntry[] {
+  const ignore = createMatcher(options.ignored);
+  const entries: JsonDiffEntry[] = [];
+
+  const visit = (a: any, b: any, path: string) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const aKeys = Object.keys(a).filter(k => !ignore(path + pathSegment(k), k));
+      const bKeys = Object.keys(b).filter(k => !ignore(path + pathSegment(k), k));
+      const bSet = new Set(bKeys);
+      const aSet = new Set(aKeys);
+      aKeys.forEach(k => {
+        const childPath = path + pathSegment(k);
+        if (bSet.has(k)) visit(a[k], b[k], childPath);
+        else entries.push({ path: childPath, kind: 'removed', left: a[k] });
+      });
+      bKeys.forEach(k => {
+        if (!aSet.has(k)) entries.push({ path: path + pathSegment(k), kind: 'added', right: b[k] });
+      });
+      if (!options.ignoreKeyOrder) {
+        const shared = aKeys.filter(k => bSet.has(k));
+        const sharedB = bKeys.filter(k => aSet.has(k));
+        if (shared.some((k, i) => sharedB[i] !== k)) entries.push({ path, kind: 'reordered', left: shared, right: sharedB });
+      }
+      return;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const childPath = path + pathSegment(i);
+        if (ignore(childPath, i)) continue;
+        if (i >= b.length) entries.push({ path: childPath, kind: 'removed', left: a[i] });
+        else if (i >= a.length) entries.push({ path: childPath, kind: 'added', right: b[i] });
+        else visit(a[i], b[i], childPath);
+      }
+      return;
+    }
+    if (a !== b && JSON.stringify(a) !== JSON.stringify(b)) entries.push({ path, kind: 'changed', left: a, right: b });
+  };
+
+  visit(left, right, '$');
+  return entries;
+}
+
+/**
+ * A copy without ignored fields and, optionally, with sorted keys, for the side-by-side view.
+ */
+export function normalizeJson(value: any, options: DiffOptions): any {
+  const ignore = createMatcher(options.ignored);
+  const visit = (v: any, path: string): any => {
+    if (Array.isArray(v)) {
+      return v.flatMap((item, i) => ignore(path + pathSegment(i), i) ? [] : [visit(item, path + pathSegment(i))]);
+    }
+    if (!isPlainObject(v)) return v;
+    const keys = Object.keys(v).filter(k => !ignore(path + pathSegment(k), k));
+    if (options.ignoreKeyOrder) keys.sort();
+    const out: Record<string, any> = {};
+    keys.forEach(k => { out[k] = visit(v[k], path + pathSegment(k)); });
+    return out;
+  };
+  return visit(value, '$');
+}
+
+// --- Line diff ---
+
+export interface LineDiffRow {
+  left: { line: number; text: string } | null;
+  right: { line: number; text: string } | null;
+  kind: 'equal' | 'added' | 'removed' | 'changed';
+}
+
+// Above this many differing lines the diff gives up on alignment and shows a replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+type Op = { type: 'equal' | 'add' | 'remove'; a?: number; b?: number };
+
+// Myers' O(ND) algorithm on the lines between the common prefix and suffix
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        // Walk the trace back to recover the edit script
+        const ops: Op[] = [];
+        let cx = n;
+        let cy = m;
+        for (let dd = d; dd > 0; dd--) {
+          const pv = trace[dd];
+          const ck = cx - cy;
+          const prevK = ck === -dd || (ck !== dd && pv[offset + ck - 1] < pv[offset + ck + 1]) ? ck + 1 : ck - 1;
+          const px = pv[offset + prevK];
+          const py = px - prevK;
+          while (cx > px && cy > py) { cx--; cy--; ops.push({ type: 'equal', a: cx, b: cy }); }
+          if (cx === px) { cy--; ops.push({ type: 'add', b: cy }); } else { cx--; ops.push({ type: 'remove', a: cx }); }
+        }
+        while (cx > 0 && cy > 0) { cx--; cy--; ops.push({ type: 'equal', a: cx, b: cy }); }
+        return ops.reverse();
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Side-by-side rows; removed and added lines next to each other are paired as changed.
+ */
+export function diffLines(leftText: string, rightText: string): LineDiffRow[] {
+  const a = leftText.split('\n');
+  const b = rightText.split('\n');
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: Op[] = myers(midA, midB) || [
+    ...midA.map((_, i) => ({ type: 'remove' as const, a: i })),
+    ...midB.map((_, i) => ({ type: 'add' as const, b: i })),
+  ];
+
+  const line = (lines: string[], idx: number) => ({ line: idx + 1, text: lines[idx] });
+  const rows: LineDiffRow[] = [];
+  for (let i = 0; i < prefix; i++) rows.push({ left: line(a, i), right: line(b, i), kind: 'equal' });
+
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const l = i < removed.length ? line(a, removed[i]) : null;
+      const r = i < added.length ? line(b, added[i]) : null;
+      rows.push({ left: l, right: r, kind: l && r ? 'changed' : l ? 'removed' : 'added' });
+    }
+    removed = [];
+    added = [];
+  };
+  ops.forEach(op => {
+    if (op.type === 'remove') removed.push(prefix + op.a!);
+    else if (op.type === 'add') added.push(prefix + op.b!);
+    else {
+      flush();
+      rows.push({ left: line(a, prefix + op.a!), right: line(b, prefix + op.b!), kind: 'equal' });
+    }
+  });
+  flush();
+
+  for (let i = suffix; i > 0; i--) rows.push({ left: line(a, a.length - i), right: line(b, b.length - i), kind: 'equal' });
+  return rows;
+}
+
+// --- Responses ---
+
+export interface HeaderDiffEntry {
+  name: string;
+  kind: 'added' | 'removed' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+export function diffHeaders(left: Record<string, string>, right: Record<string, string>, options: DiffOptions): HeaderDiffEntry[] {
+  const ignore = createMatcher(options.ignored);
+  const lower = (headers: Record<string, string>) =>
+    Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const a = lower(left);
+  const b = lower(right);
+  const names = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+  const entries: HeaderDiffEntry[] = [];
+  names.forEach(name => {
+    if (ignore('', name)) return;
+    if (!(name in b)) entries.push({ name, kind: 'removed', left: a[name] });
+    else if (!(name in a)) entries.push({ name, kind: 'added', right: b[name] });
+    else if (a[name] !== b[name]) entries.push({ name, kind: 'changed', left: a[name], right: b[name] });
+  });
+  return entries;
+}
+
+export interface ResponseDiff {
+  status: { left: string; right: string; changed: boolean };
+  headers: HeaderDiffEntry[];
+  json: JsonDiffEntry[] | null; // Null when either body is not JSON
+  lines: LineDiffRow[];
+}
+
+export function diffResponses(left: ResponseState, right: ResponseState, options: DiffOptions): ResponseDiff {
+  const status = (r: ResponseState) => `${r.status} ${r.statusText}`;
+  const bothJson = isJsonValue(left.data) && isJsonValue(right.data);
+  // Each side by its own type, so a JSON body is normalized even when the other one is not JSON
+  const text = (data: any) => isJsonValue(data) ? JSON.stringify(normalizeJson(data, options), null, 2) : typeof data === 'string' ? data : JSON.stringify(data, null, 2) ?? '';
+  // Binary bodies compare as base64 in MIME-length lines, so a changed region shows up as a few rows
+  const bodyText = (r: ResponseState) => r.bodyBase64 !== undefined ? r.bodyBase64.replace(/.{76}/g, '$&\n') : text(r.data);
+  return {
+    status: { left: status(left), right: status(right), changed: left.status !== right.status },
+    headers: diffHeaders(left.headers, right.headers, options),
+    json: bothJson ? diffJson(left.data, right.data, options) : null,
+    lines: diffLines(bodyText(left), bodyText(right)),
+  };
+}
@@ -0,0 +1,58 @@
+import { JSONPath } from 'jsonpath-plus';
+import { search } from 'jmespath';
+import { QueryLanguage, ResponseQuery } from '../types';
+import { markupKind, evaluateXPath } from './markup';
+
+// --- Response queries ---
+// A JSONPath or JMESPath expression that projects the response body before it is displayed;
+// XML and HTML bodies take XPath instead.
+
+export const QUERY_LANGUAGES: { id: QueryLanguage; label: string; placeholder: string }[] = [
+  { id: 'jsonpath', label: 'JSONPath', placeholder: '$.items[?(@.active)].name' },
+  { id: 'jmespath', label: 'JMESPath', placeholder: 'items[?active].name' },
+  { id: 'xpath', label: 'XPath', placeholder: '//item[@active="true"]/name' },
+];
+
+export const DEFAULT_RESPONSE_QUERY: ResponseQuery = { language: 'jsonpath', expression: '' };
+
+export const isQueryActive = (query: ResponseQuery | undefined): query is ResponseQuery => !!query?.expression.trim();
+
+export interface QueryResult {
+  data: any;
+  error: string | null;
+}
+
+/**
+ * Applies a query to a parsed JSON body, or an XPath to an XML or HTML body. Bodies that arrived
+ * as text are parsed first; errors come back in the result instead of being thrown.
+ */
+export function runResponseQuery(data: any, query: ResponseQuery, contentType = ''): QueryResult {
+  if (query.language === 'xpath') {
+    if (typeof data !== 'string') return { data, error: 'XPath needs an XML or HTML body' };
+    try {
+      return { data: evaluateXPath(data, markupKind(contentType, data) || 'xml', query.expression.trim()), error: null };
+    } catch (e: any) {
+      return { data, error: e.message || String(e) };
+    }
+  }
+
+  let json = data;
+  if (typeof json === 'string') {
+    try {
+      json = JSON.parse(json);
+    } catch (e) {
+      return { data, error: 'The response body is not JSON' };
+    }
+  }
+
+  const expression = query.expression.trim();
+  try {
+    if (query.language === 'jmespath') {
+      return { data: search(json, expression) ?? null, error: null };
+    }
+    // JSONPath always yields the list of matched values
+    return { data: JSONPath({ path: expression, json, wrap: true }), error: null };
+  } catch (e: any) {
+    return { data, error: e.message || String(e) };
+  }
+}
@@ -0,0 +1,152 @@
+import { AppSettings, RequestPolicy, RequestState, ResponseAttempt } from '../types';
+import { sleep } from './request';
+import { markTime, collectTiming, TimingMarks } from './timing';
+
+// --- Timeouts and retries ---
+// Each attempt gets its own timeout. Retries wait an exponential backoff, optionally with full
+// jitter, unless the server says how long to wait with Retry-After.
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 0,
+  maxRetries: 0,
+  retryOnNetworkError: true,
+  retryStatuses: '429, 502, 503, 504',
+  respectRetryAfter: true,
+  backoffMs: 500,
+  maxBackoffMs: 30000,
+  jitter: true,
+};
+
+export const effectivePolicy = (request: RequestState, settings: AppSettings): RequestPolicy =>
+  request.policy || settings.requestPolicy || DEFAULT_REQUEST_POLICY;
+
+/**
+ * Reads a list like "429, 500-504" into a predicate; unreadable parts are ignored.
+ */
+export function parseStatusList(text: string): (status: number) => boolean {
+  const ranges = text.split(',').map(part => part.trim()).filter(Boolean).flatMap(part => {
+    const match = /^(\d{3})(?:\s*-\s*(\d{3}))?$/.exec(part);
+    return match ? [[Number(match[1]), Number(match[2] || match[1])]] : [];
+  });
+  return status => ranges.some(([from, to]) => status >= from && status <= to);
+}
+
+/**
+ * Delay from a Retry-After header, given in seconds or as an HTTP date.
+ */
+export function retryAfterMs(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function backoffDelay(policy: RequestPolicy, attempt: number, random = Math.random): number {
+  const delay = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** (attempt - 1));
+  return Math.round(policy.jitter ? random() * delay : delay);
+}
+
+interface AttemptSignal {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  clear: () => void; // Stops the timer; aborting the parent still aborts the attempt
+}
+
+function attemptSignal(parent: AbortSignal, timeoutMs: number): AttemptSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+  const abort = () => controller.abort(parent.reason);
+  if (parent.aborted) abort();
+  else parent.addEventListener('abort', abort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => {
+    timedOut = true;
+    controller.abort(new DOMException(`Timed out after ${timeoutMs} ms`, 'TimeoutError'));
+  }, timeoutMs) : undefined;
+  return { signal: controller.signal, timedOut: () => timedOut, clear: () => clearTimeout(timer) };
+}
+
+const timeoutError = (ms: number) => Object.assign(new Error(`Timed out after ${ms} ms`), { name: 'TimeoutError' });
+
+export interface RetryOptions {
+  policy: RequestPolicy;
+  signal: AbortSignal; // Stop: aborts the attempt in flight and any wait
+  urls: string[]; // For the timing of retried attempts
+  onRetry?: (attempt: ResponseAttempt) => void;
+}
+
+export interface RetryResult<T> {
+  response: Response;
+  result: T;
+  startedAt: number; // Epoch ms of the final attempt
+  marks: Omit<TimingMarks, 'end'>;
+}
+
+/**
+ * Sends until an attempt neither fails on the network nor returns a retryable status, or the retries
+ * run out. `read` runs inside the attempt's timeout, so a buffered body that stalls times out too.
+ * When the last attempt fails on the network, its error is thrown; a timeout has name 'TimeoutError'.
+ */
+export async function sendWithRetry<T>(
+  send: (signal: AbortSignal) => Promise<Response>,
+  read: (response: Response, signal: AbortSignal) => Promise<T>,
+  options: RetryOptions,
+): Promise<RetryResult<T>> {
+  const { policy, signal, urls } = options;
+  const retryable = parseStatusList(policy.retryStatuses);
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    const start = markTime();
+    const timer = attemptSignal(signal, policy.timeoutMs);
+    const canRetry = attempt <= policy.maxRetries;
+    let response: Response;
+    let headers: number;
+    let result: T;
+    try {
+      response = await send(timer.signal);
+      headers = markTime();
+      // A retryable status is answered without reading its body
+      if (canRetry && retryable(response.status)) {
+        timer.clear();
+        response.body?.cancel().catch(() => {});
+        const retryAfter = policy.respectRetryAfter ? retryAfterMs(response.headers.get('retry-after')) : null;
+        const entry: ResponseAttempt = {
+          attempt,
+          status: response.status,
+          statusText: response.statusText,
+          time: Date.now() - startedAt,
+          timing: await collectTiming(urls, { start, headers, end: markTime() }),
+          delayMs: retryAfter ?? backoffDelay(policy, attempt),
+          delayReason: retryAfter !== null ? 'retry-after' : 'backoff',
+        };
+        options.onRetry?.(entry);
+        await sleep(entry.delayMs, signal);
+        if (signal.aborted) throw new DOMException('The request was stopped', 'AbortError');
+        continue;
+      }
+      result = await read(response, timer.signal);
+      timer.clear();
+    } catch (error: any) {
+      timer.clear();
+      const failure = timer.timedOut() ? timeoutError(policy.timeoutMs) : error;
+      // Stop is never retried
+      if (signal.aborted || (!timer.timedOut() && error.name === 'AbortError')) throw error;
+      if (!canRetry || !policy.retryOnNetworkError) throw failure;
+      const entry: ResponseAttempt = {
+        attempt,
+        status: 0,
+        statusText: timer.timedOut() ? 'Timeout' : 'Network Error',
+        error: failure.message,
+        time: Date.now() - startedAt,
+        delayMs: backoffDelay(policy, attempt),
+        delayReason: 'backoff',
+      };
+      options.onRetry?.(entry);
+      await sleep(entry.delayMs, signal);
+      if (signal.aborted) throw new DOMException('The request was stopped', 'AbortError');
+      continue;
+    }
+    return { response, result, startedAt, marks: { start, headers } };
+  }
+}
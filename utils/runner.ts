@@ -0,0 +1,369 @@
+import { AppSettings, ConsoleEntry, RequestAuth, RequestState, ScriptError, TestResult } from '../types';
+import { resolveRequest } from './variables';
+import { buildRequestHeaders, buildRequestUrl, buildRequestBody, methodHasBody, sleep } from './request';
+import { getSigningProfile, signRequest, bodyTextForSigning } from './signing';
+import { AuthInjection, prepareAuth, withAuthParams, fetchWithAuth } from './auth';
+import { restoreRequestFiles, missingFiles } from './files';
+import { isWebSocketRequest } from './websocket';
+import { decodeText } from './binary';
+import { effectivePolicy, sendWithRetry } from './retry';
+import { DEFAULT_GRAPHQL_BODY, validateGraphql } from './graphql';
+import { runScript, hasScript, toScriptRequest, applyScriptRequest, scopeFromScriptVariables, ScriptVariables, VariableValues } from './scripts';
+
+// --- Collection runner ---
+// Sends an ordered list of requests one after another, optionally for several iterations fed
+// by a data file. Only buffered responses are supported; the stream option is ignored here.
+
+export interface RunnerItem {
+  id: string;
+  name: string;
+  request: RequestState;
+  auth?: RequestAuth; // Effective auth when the request inherits it from its folder or collection
+}
+
+// What the runner was opened with: a collection or folder, or a selection of history items
+export interface RunnerSource {
+  name: string;
+  items: RunnerItem[];
+  collectionId: string | null; // Collection whose variables are in scope
+}
+
+export interface RunOptions {
+  iterations: number;
+  data: VariableValues[]; // One row per iteration; reused cyclically if shorter than `iterations`
+  delayMs: number;
+  stopOnFailure: boolean;
+}
+
+export interface RunEntry {
+  iteration: number; // Zero-based
+  itemId: string;
+  name: string;
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  time: number; // ms
+  size: number; // bytes
+  tests: TestResult[];
+  errors: ScriptError[];
+  logs: ConsoleEntry[];
+  error?: string; // Network failure, the request got no response
+  retries?: number; // Attempts retried before this result
+}
+
+export interface RunReport {
+  name: string;
+  startedAt: number;
+  duration: number;
+  iterations: number;
+  stopped: boolean; // Cancelled or stopped on failure before the end
+  entries: RunEntry[];
+}
+
+export const entryFailed = (entry: RunEntry) =>
+  !!entry.error || entry.errors.length > 0 || entry.tests.some(t => !t.passed);
+
+// --- Data files ---
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Parses a runner data file: a JSON array of objects, or a CSV whose first row holds the variable names.
+ */
+export function parseDataFile(text: string): VariableValues[] {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (e: any) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(json) || json.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      throw new Error('JSON data files must be an array of objects');
+    }
+    return json.map(row => Object.fromEntries(Object.entries(row).map(([k, v]) => [k, typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v ?? '')])));
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header || header.every(h => !h.trim())) throw new Error('CSV data files need a header row');
+  return rows.map(cells => {
+    const values: VariableValues = {};
+    header.forEach((name, idx) => {
+      if (name.trim()) values[name.trim()] = cells[idx] ?? '';
+    });
+    return values;
+  });
+}
+
+// --- Execution ---
+
+interface ExecuteContext {
+  settings: AppSettings;
+  variables: ScriptVariables;
+  iteration: number;
+  iterationCount: number;
+  signal: AbortSignal;
+}
+
+/**
+ * Sends one request with its scripts. Returns the run entry and the variables after both scripts.
+ */
+export async function executeRequest(item: RunnerItem, ctx: ExecuteContext): Promise<{ entry: RunEntry; variables: ScriptVariables }> {
+  // Saved requests and history entries only carry file refs
+  const request = await restoreRequestFiles(item.request).catch(() => item.request);
+  let variables = ctx.variables;
+  const entry: RunEntry = {
+    iteration: ctx.iteration,
+    itemId: item.id,
+    name: item.name,
+    method: request.method,
+    url: request.url,
+    status: 0,
+    statusText: '',
+    time: 0,
+    size: 0,
+    tests: [],
+    errors: [],
+    logs: [],
+  };
+  const scriptBase = { requestName: item.name, iteration: ctx.iteration, iterationCount: ctx.iterationCount };
+
+  if (isWebSocketRequest(request)) {
+    entry.method = 'WS';
+    entry.error = 'WebSocket requests are skipped by the runner';
+    return { entry, variables };
+  }
+
+  let outgoing = request;
+  if (hasScript(request.preRequestScript)) {
+    const original = toScriptRequest(request);
+    const pre = await runScript(request.preRequestScript!, { ...scriptBase, phase: 'pre-request', request: original, variables });
+    variables = pre.variables;
+    entry.logs.push(...pre.logs);
+    entry.errors.push(...pre.errors);
+    entry.tests.push(...pre.tests);
+    if (pre.errors.length) {
+      entry.error = 'Pre-request script failed, the request was not sent';
+      return { entry, variables };
+    }
+    outgoing = applyScriptRequest(request, original, pre.request);
+  }
+
+  const scope = scopeFromScriptVariables(variables);
+  let authInjection: AuthInjection;
+  try {
+    authInjection = await prepareAuth(item.auth || outgoing.auth, scope, ctx.signal);
+  } catch (error: any) {
+    entry.error = error.name === 'AbortError' ? 'Cancelled' : error.message;
+    return { entry, variables };
+  }
+
+  const resolved = withAuthParams(resolveRequest(outgoing, scope), authInjection);
+  const url = buildRequestUrl(resolved);
+  entry.method = resolved.method;
+  entry.url = url;
+
+  const missing = missingFiles(resolved);
+  if (missing.length) {
+    entry.error = `Missing file: ${missing.join(', ')}`;
+    return { entry, variables };
+  }
+
+  if (resolved.bodyType === 'graphql' && methodHasBody(resolved)) {
+    const problem = validateGraphql(resolved.graphql || DEFAULT_GRAPHQL_BODY, null).find(d => d.severity === 'error');
+    if (problem) {
+      entry.error = `Invalid GraphQL: ${problem.message}`;
+      return { entry, variables };
+    }
+  }
+
+  const profile = getSigningProfile(ctx.settings, outgoing);
+  let signedHeaders: Record<string, string> | null = null;
+  if (profile) {
+    try {
+      signedHeaders = (await signRequest(profile, { method: resolved.method, url, body: bodyTextForSigning(resolved) }, scope)).headers;
+    } catch (error: any) {
+      entry.error = `Signing profile "${profile.name}" failed: ${error.message}`;
+      return { entry, variables };
+    }
+  }
+  const headers = buildRequestHeaders(resolved, ctx.settings, scope, signedHeaders, authInjection.headers);
+
+  const startTime = Date.now();
+  let bodyText = '';
+  let resHeaders: Record<string, string> = {};
+  try {
+    const body = buildRequestBody(resolved);
+    const { response: res, result: bytes } = await sendWithRetry(
+      signal => fetchWithAuth(url, {
+        method: resolved.method,
+        headers,
+        body,
+        mode: ctx.settings.fetchMode,
+        credentials: ctx.settings.fetchCredentials,
+        signal,
+      }, authInjection),
+      async r => r.type === 'opaque' ? new Uint8Array() : new Uint8Array(await r.arrayBuffer()),
+      { policy: effectivePolicy(request, ctx.settings), signal: ctx.signal, urls: [url], onRetry: () => { entry.retries = (entry.retries || 0) + 1; } }
+    );
+    res.headers.forEach((val, key) => resHeaders[key] = val);
+    bodyText = decodeText(bytes, res.headers.get('content-type') || '');
+    entry.status = res.status;
+    entry.statusText = res.type === 'opaque' ? 'Opaque' : res.statusText || (res.ok ? 'OK' : 'Error');
+    entry.time = Date.now() - startTime;
+    entry.size = bytes.length;
+  } catch (error: any) {
+    entry.time = Date.now() - startTime;
+    entry.error = error.name === 'AbortError' ? 'Cancelled' : error.message;
+    return { entry, variables };
+  }
+
+  if (hasScript(request.testScript)) {
+    const test = await runScript(request.testScript!, {
+      ...scriptBase,
+      phase: 'test',
+      request: { ...toScriptRequest(resolved), url, headers: Object.entries(headers).map(([key, value]) => ({ key, value })) },
+      response: { code: entry.status, status: entry.statusText, headers: resHeaders, body: bodyText, responseTime: entry.time, responseSize: entry.size },
+      variables,
+    });
+    variables = test.variables;
+    entry.logs.push(...test.logs);
+    entry.errors.push(...test.errors);
+    entry.tests.push(...test.tests);
+  }
+
+  return { entry, variables };
+}
+
+/**
+ * Runs every item for every iteration. `onEntry` is called as soon as each request finishes
+ * so the UI can update live. Resolves with the report and the final variables.
+ */
+export async function runRequests(
+  name: string,
+  items: RunnerItem[],
+  options: RunOptions,
+  settings: AppSettings,
+  initialVariables: ScriptVariables,
+  signal: AbortSignal,
+  onEntry: (entry: RunEntry) => void
+): Promise<{ report: RunReport; variables: ScriptVariables }> {
+  const startedAt = Date.now();
+  const entries: RunEntry[] = [];
+  const iterations = Math.max(1, options.iterations);
+  let variables = initialVariables;
+  let stopped = false;
+
+  outer:
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // Local variables do not carry over between iterations
+    const data = options.data.length ? options.data[iteration % options.data.length] : undefined;
+    variables = { ...variables, local: {}, data };
+
+    for (let i = 0; i < items.length; i++) {
+      if (signal.aborted) { stopped = true; break outer; }
+
+      const result = await executeRequest(items[i], { settings, variables, iteration, iterationCount: iterations, signal });
+      variables = result.variables;
+      entries.push(result.entry);
+      onEntry(result.entry);
+
+      if (signal.aborted || (options.stopOnFailure && entryFailed(result.entry))) { stopped = true; break outer; }
+
+      const isLast = iteration === iterations - 1 && i === items.length - 1;
+      if (!isLast) await sleep(options.delayMs, signal);
+    }
+  }
+
+  return {
+    report: { name, startedAt, duration: Date.now() - startedAt, iterations, stopped, entries },
+    variables: { ...variables, local: {}, data: undefined },
+  };
+}
+
+// --- Export ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export function toJsonReport(report: RunReport): string {
+  const failed = report.entries.filter(entryFailed).length;
+  return JSON.stringify({
+    name: report.name,
+    startedAt: new Date(report.startedAt).toISOString(),
+    durationMs: report.duration,
+    iterations: report.iterations,
+    stopped: report.stopped,
+    totals: {
+      requests: report.entries.length,
+      failedRequests: failed,
+      tests: report.entries.reduce((n, e) => n + e.tests.length, 0),
+      failedTests: report.entries.reduce((n, e) => n + e.tests.filter(t => !t.passed).length, 0),
+    },
+    results: report.entries,
+  }, null, 2);
+}
+
+/**
+ * JUnit XML with one testsuite per request execution and one testcase per pm.test().
+ * Requests without tests still get a testcase so network failures show up.
+ */
+export function toJUnitXml(report: RunReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suites = report.entries.map(entry => {
+    const suiteName = report.iterations > 1 ? `${entry.name} (iteration ${entry.iteration + 1})` : entry.name;
+    const classname = escapeXml(`${entry.method} ${entry.url}`);
+    const cases = entry.tests.map(t => {
+      const failure = t.passed ? '' : `\n      <failure type="AssertionError" message="${escapeXml(t.error || 'Failed')}">${escapeXml(t.error || '')}</failure>\n    `;
+      return `    <testcase name="${escapeXml(t.name)}" classname="${classname}" time="${seconds(entry.time)}">${failure}</testcase>`;
+    });
+    const problems = [...entry.errors.map(e => `${e.phase} script: ${e.message}${e.line !== undefined ? ` (line ${e.line})` : ''}`), ...(entry.error ? [entry.error] : [])];
+    if (problems.length || !entry.tests.length) {
+      const error = problems.length ? `\n      <error message="${escapeXml(problems[0])}">${escapeXml(problems.join('\n'))}</error>\n    ` : '';
+      cases.push(`    <testcase name="${escapeXml(`${entry.status || 'No'} response`)}" classname="${classname}" time="${seconds(entry.time)}">${error}</testcase>`);
+    }
+    const failures = entry.tests.filter(t => !t.passed).length;
+    const systemOut = entry.logs.length ? `\n    <system-out>${escapeXml(entry.logs.map(l => `[${l.level}] ${l.message}`).join('\n'))}</system-out>` : '';
+    return `  <testsuite name="${escapeXml(suiteName)}" tests="${cases.length}" failures="${failures}" errors="${problems.length ? 1 : 0}" time="${seconds(entry.time)}">\n${cases.join('\n')}${systemOut}\n  </testsuite>`;
+  });
+
+  const total = report.entries.reduce((n, e) => n + Math.max(e.tests.length, 1) + (e.tests.length && (e.errors.length || e.error) ? 1 : 0), 0);
+  const failures = report.entries.reduce((n, e) => n + e.tests.filter(t => !t.passed).length, 0);
+  const errors = report.entries.filter(e => e.errors.length || e.error).length;
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="${escapeXml(report.name)}" tests="${total}" failures="${failures}" errors="${errors}" time="${seconds(report.duration)}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
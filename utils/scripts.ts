@@ -0,0 +1,662 @@
+import { Collection, ConsoleEntry, EnvironmentStore, HttpMethod, KeyValue, RequestState, ScriptError, ScriptPhase, ScriptResult, TestResult } from '../types';
+import { HTTP_METHODS } from '../constants';
+import { generateId } from './collections';
+
+// --- Sandboxed pre-request / test scripts ---
+// Each script runs in a throwaway Web Worker started by a hidden iframe with sandbox="allow-scripts".
+// Without allow-same-origin the frame and its workers get an opaque origin, so a script (for example
+// one that came with an imported collection) cannot open this app's IndexedDB, localStorage or cookies,
+// and cannot reach the page or React state. Everything it can see is passed in as JSON, and everything
+// it changes (request, variables) is passed back as JSON. It can still send what it was given over
+// the network, like any script the user chooses to run.
+
+const SCRIPT_TIMEOUT_MS = 10000;
+
+// The bundled crypto-js, loaded into the worker only when a script mentions CryptoJS (e.g. to compute signatures)
+let cryptoJsSource: Promise<string> | null = null;
+const loadCryptoJs = () => cryptoJsSource || (cryptoJsSource = import('crypto-js/crypto-js.js?raw').then(m => m.default));
+
+export interface ScriptRequest {
+  url: string;
+  method: string;
+  headers: { key: string; value: string }[];
+  body: { mode: string; raw: string };
+}
+
+export interface ScriptResponse {
+  code: number;
+  status: string;
+  headers: Record<string, string>;
+  body: string;
+  responseTime: number;
+  responseSize: number;
+}
+
+export type VariableValues = Record<string, string>;
+
+export interface ScriptVariables {
+  globals: VariableValues;
+  collection: VariableValues | null; // null when the request is not part of a collection
+  environment: VariableValues | null; // null when no environment is active
+  local: VariableValues; // pm.variables.set(), kept for the rest of this send
+  data?: VariableValues; // Current row of a runner data file (pm.iterationData)
+}
+
+export interface ScriptContext {
+  phase: ScriptPhase;
+  requestName: string;
+  request: ScriptRequest;
+  response?: ScriptResponse;
+  variables: ScriptVariables;
+  iteration?: number; // Zero-based, set by the collection runner
+  iterationCount?: number;
+}
+
+export interface ScriptRunResult {
+  tests: TestResult[];
+  logs: ConsoleEntry[];
+  errors: ScriptError[];
+  request: ScriptRequest;
+  variables: ScriptVariables;
+}
+
+// Runs inside the worker. Kept as plain ES5-ish source so it can be shipped as a Blob.
+// The user script follows the single bootstrap line, so reported line numbers are offset by one.
+const WORKER_PRELUDE = String.raw`
+(function () {
+  var ctx = self.__ctx;
+  var phase = ctx.phase;
+  var vars = ctx.variables;
+  var tests = [];
+  var logs = [];
+  var errors = [];
+  var pending = [];
+  var finished = false;
+
+  function locate(err) {
+    var stack = (err && err.stack) || '';
+    var href = self.location.href.replace(/[.*+?^$()|[\]\\{}]/g, '\\$&');
+    var match = new RegExp(href + ':(\\d+):(\\d+)').exec(stack);
+    return match ? { line: Number(match[1]) - 1, column: Number(match[2]) } : {};
+  }
+
+  function fmt(v) {
+    if (typeof v === 'string') return v;
+    if (v === undefined) return 'undefined';
+    if (v instanceof Error) return v.name + ': ' + v.message;
+    try { return JSON.stringify(v); } catch (e) { return String(v); }
+  }
+
+  function capture(level) {
+    return function () {
+      logs.push({ phase: phase, level: level, message: Array.prototype.map.call(arguments, fmt).join(' ') });
+    };
+  }
+  self.console = { log: capture('log'), info: capture('info'), warn: capture('warn'), error: capture('error'), debug: capture('log') };
+
+  // --- Assertions (a small subset of chai's expect) ---
+
+  function AssertionError(message) { this.name = 'AssertionError'; this.message = message; this.stack = new Error(message).stack; }
+  AssertionError.prototype = Object.create(Error.prototype);
+
+  function deepEqual(a, b) {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return a !== a && b !== b;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    var ka = Object.keys(a), kb = Object.keys(b);
+    if (ka.length !== kb.length) return false;
+    return ka.every(function (k) { return deepEqual(a[k], b[k]); });
+  }
+
+  function typeOf(v) {
+    if (v === null) return 'null';
+    if (Array.isArray(v)) return 'array';
+    return typeof v;
+  }
+
+  function Assertion(value) { this._v = value; this._neg = false; }
+  var A = Assertion.prototype;
+  A._assert = function (cond, message, negated) {
+    if (this._neg ? cond : !cond) throw new AssertionError(this._neg ? negated : message);
+    return this;
+  };
+  ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'deep', 'does', 'still'].forEach(function (word) {
+    Object.defineProperty(A, word, { get: function () { return this; } });
+  });
+  Object.defineProperty(A, 'not', { get: function () { this._neg = !this._neg; return this; } });
+  var flags = {
+    ok: function (v) { return !!v; },
+    true: function (v) { return v === true; },
+    false: function (v) { return v === false; },
+    null: function (v) { return v === null; },
+    undefined: function (v) { return v === undefined; },
+    exist: function (v) { return v !== null && v !== undefined; },
+    empty: function (v) { return v == null || (typeof v === 'object' ? Object.keys(v).length === 0 : String(v).length === 0); },
+  };
+  Object.keys(flags).forEach(function (name) {
+    Object.defineProperty(A, name, { get: function () {
+      return this._assert(flags[name](this._v), 'expected ' + fmt(this._v) + ' to be ' + name, 'expected ' + fmt(this._v) + ' not to be ' + name);
+    } });
+  });
+  A.equal = A.equals = A.eq = function (x) {
+    return this._assert(this._v === x, 'expected ' + fmt(this._v) + ' to equal ' + fmt(x), 'expected ' + fmt(this._v) + ' not to equal ' + fmt(x));
+  };
+  A.eql = function (x) {
+    return this._assert(deepEqual(this._v, x), 'expected ' + fmt(this._v) + ' to deeply equal ' + fmt(x), 'expected ' + fmt(this._v) + ' not to deeply equal ' + fmt(x));
+  };
+  A.above = A.gt = A.greaterThan = function (n) {
+    return this._assert(this._v > n, 'expected ' + fmt(this._v) + ' to be above ' + n, 'expected ' + fmt(this._v) + ' to be at most ' + n);
+  };
+  A.below = A.lt = A.lessThan = function (n) {
+    return this._assert(this._v < n, 'expected ' + fmt(this._v) + ' to be below ' + n, 'expected ' + fmt(this._v) + ' to be at least ' + n);
+  };
+  A.least = A.gte = function (n) {
+    return this._assert(this._v >= n, 'expected ' + fmt(this._v) + ' to be at least ' + n, 'expected ' + fmt(this._v) + ' to be below ' + n);
+  };
+  A.most = A.lte = function (n) {
+    return this._assert(this._v <= n, 'expected ' + fmt(this._v) + ' to be at most ' + n, 'expected ' + fmt(this._v) + ' to be above ' + n);
+  };
+  A.within = function (lo, hi) {
+    return this._assert(this._v >= lo && this._v <= hi, 'expected ' + fmt(this._v) + ' to be within ' + lo + '..' + hi, 'expected ' + fmt(this._v) + ' not to be within ' + lo + '..' + hi);
+  };
+  A.a = A.an = function (type) {
+    var actual = typeOf(this._v);
+    return this._assert(actual === type.toLowerCase(), 'expected ' + fmt(this._v) + ' to be a ' + type + ' but got ' + actual, 'expected ' + fmt(this._v) + ' not to be a ' + type);
+  };
+  A.include = A.includes = A.contain = A.contains = function (x) {
+    var v = this._v, ok;
+    if (typeof v === 'string' || Array.isArray(v)) ok = Array.isArray(v) ? v.some(function (i) { return deepEqual(i, x); }) : v.indexOf(x) !== -1;
+    else if (v && typeof x === 'object') ok = Object.keys(x).every(function (k) { return deepEqual(v[k], x[k]); });
+    else ok = false;
+    return this._assert(ok, 'expected ' + fmt(v) + ' to include ' + fmt(x), 'expected ' + fmt(v) + ' not to include ' + fmt(x));
+  };
+  A.property = function (name, value) {
+    var v = this._v;
+    var has = v !== null && v !== undefined && Object(v).hasOwnProperty(name);
+    if (arguments.length < 2) return this._assert(has, 'expected ' + fmt(v) + ' to have property ' + fmt(name), 'expected ' + fmt(v) + ' not to have property ' + fmt(name));
+    return this._assert(has && deepEqual(v[name], value), 'expected property ' + fmt(name) + ' to be ' + fmt(value) + ' but got ' + fmt(has ? v[name] : undefined), 'expected property ' + fmt(name) + ' not to be ' + fmt(value));
+  };
+  A.keys = function () {
+    var wanted = Array.isArray(arguments[0]) ? arguments[0] : Array.prototype.slice.call(arguments);
+    var v = this._v || {};
+    return this._assert(wanted.every(function (k) { return Object(v).hasOwnProperty(k); }), 'expected ' + fmt(v) + ' to have keys ' + fmt(wanted), 'expected ' + fmt(v) + ' not to have keys ' + fmt(wanted));
+  };
+  A.lengthOf = function (n) {
+    var len = this._v == null ? undefined : this._v.length;
+    return this._assert(len === n, 'expected length ' + n + ' but got ' + len, 'expected length not to be ' + n);
+  };
+  A.match = function (re) {
+    return this._assert(re.test(String(this._v)), 'expected ' + fmt(this._v) + ' to match ' + re, 'expected ' + fmt(this._v) + ' not to match ' + re);
+  };
+  A.oneOf = function (list) {
+    var v = this._v;
+    return this._assert(list.some(function (i) { return deepEqual(i, v); }), 'expected ' + fmt(v) + ' to be one of ' + fmt(list), 'expected ' + fmt(v) + ' not to be one of ' + fmt(list));
+  };
+
+  function expect(value) { return new Assertion(value); }
+
+  // --- Variables ---
+
+  function scopeApi(name, getStore) {
+    return {
+      get: function (key) { var s = getStore(); return s && Object.prototype.hasOwnProperty.call(s, key) ? s[key] : undefined; },
+      has: function (key) { var s = getStore(); return !!s && Object.prototype.hasOwnProperty.call(s, key); },
+      set: function (key, value) {
+        var s = getStore();
+        if (!s) throw new Error(name === 'environment' ? 'No active environment to set "' + key + '" in' : 'This request is not saved in a collection');
+        s[key] = value === undefined || value === null ? '' : (typeof value === 'object' ? JSON.stringify(value) : String(value));
+      },
+      unset: function (key) { var s = getStore(); if (s) delete s[key]; },
+      clear: function () { var s = getStore(); if (s) Object.keys(s).forEach(function (k) { delete s[k]; }); },
+      toObject: function () { return Object.assign({}, getStore() || {}); },
+    };
+  }
+
+  function lookup(key) {
+    var layers = [vars.local, vars.data, vars.environment, vars.collection, vars.globals];
+    for (var i = 0; i < layers.length; i++) {
+      if (layers[i] && Object.prototype.hasOwnProperty.call(layers[i], key)) return layers[i][key];
+    }
+    return undefined;
+  }
+
+  var local = scopeApi('variables', function () { return vars.local; });
+  local.get = lookup;
+  local.has = function (key) { return lookup(key) !== undefined; };
+  local.toObject = function () { return Object.assign({}, vars.globals, vars.collection || {}, vars.environment || {}, vars.data || {}, vars.local); };
+  local.replaceIn = function (text) {
+    return String(text).replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, function (m, key) { var v = lookup(key); return v === undefined ? m : v; });
+  };
+
+  // --- Request / Response ---
+
+  function headerList(list, readOnly) {
+    function find(name) {
+      for (var i = 0; i < list.length; i++) if (list[i].key.toLowerCase() === String(name).toLowerCase()) return i;
+      return -1;
+    }
+    function guard() { if (readOnly) throw new Error('The request can only be modified in the pre-request script'); }
+    function normalize(h, value) { return typeof h === 'string' ? { key: h, value: String(value) } : { key: h.key, value: String(h.value) }; }
+    return {
+      get: function (name) { var i = find(name); return i === -1 ? undefined : list[i].value; },
+      has: function (name) { return find(name) !== -1; },
+      add: function (h, value) { guard(); list.push(normalize(h, value)); },
+      upsert: function (h, value) {
+        guard();
+        var entry = normalize(h, value), i = find(entry.key);
+        if (i === -1) list.push(entry); else list[i].value = entry.value;
+      },
+      remove: function (name) { guard(); for (var i = list.length - 1; i >= 0; i--) if (list[i].key.toLowerCase() === String(name).toLowerCase()) list.splice(i, 1); },
+      each: function (fn) { list.forEach(function (h) { fn({ key: h.key, value: h.value }); }); },
+      all: function () { return list.map(function (h) { return { key: h.key, value: h.value }; }); },
+      toObject: function () { var o = {}; list.forEach(function (h) { o[h.key] = h.value; }); return o; },
+    };
+  }
+
+  var req = ctx.request;
+  var request = {
+    headers: headerList(req.headers, phase !== 'pre-request'),
+    body: req.body,
+  };
+  Object.defineProperty(request, 'url', {
+    get: function () { return req.url; },
+    set: function (v) { if (phase !== 'pre-request') throw new Error('The request can only be modified in the pre-request script'); req.url = String(v); },
+  });
+  Object.defineProperty(request, 'method', {
+    get: function () { return req.method; },
+    set: function (v) { if (phase !== 'pre-request') throw new Error('The request can only be modified in the pre-request script'); req.method = String(v).toUpperCase(); },
+  });
+
+  var response;
+  if (ctx.response) {
+    var res = ctx.response;
+    var resHeaders = Object.keys(res.headers).map(function (k) { return { key: k, value: res.headers[k] }; });
+    var parsed;
+    var json = function () {
+      if (parsed === undefined) parsed = JSON.parse(res.body);
+      return parsed;
+    };
+    var statusCheck = function (test, label) {
+      return function () { if (!test(res.code)) throw new AssertionError('expected response to be ' + label + ' but got ' + res.code); };
+    };
+    var be = {};
+    [['ok', function (c) { return c >= 200 && c < 300; }, '2xx'], ['success', function (c) { return c >= 200 && c < 300; }, '2xx'],
+     ['clientError', function (c) { return c >= 400 && c < 500; }, '4xx'], ['serverError', function (c) { return c >= 500; }, '5xx'],
+     ['error', function (c) { return c >= 400; }, '4xx or 5xx'], ['notFound', function (c) { return c === 404; }, '404']].forEach(function (entry) {
+      Object.defineProperty(be, entry[0], { get: statusCheck(entry[1], entry[2]) });
+    });
+    response = {
+      code: res.code,
+      status: res.status,
+      headers: headerList(resHeaders, true),
+      responseTime: res.responseTime,
+      responseSize: res.responseSize,
+      text: function () { return res.body; },
+      json: json,
+      to: {
+        be: be,
+        have: {
+          status: function (expected) {
+            if (typeof expected === 'number' ? res.code !== expected : res.status !== expected) {
+              throw new AssertionError('expected response to have status ' + fmt(expected) + ' but got ' + res.code + ' ' + res.status);
+            }
+          },
+          header: function (name, value) {
+            var actual = response.headers.get(name);
+            if (actual === undefined) throw new AssertionError('expected response to have header "' + name + '"');
+            if (arguments.length > 1 && actual !== value) throw new AssertionError('expected header "' + name + '" to be ' + fmt(value) + ' but got ' + fmt(actual));
+          },
+          body: function (expected) {
+            if (arguments.length && res.body !== expected) throw new AssertionError('expected response body to equal ' + fmt(expected));
+            if (!arguments.length && !res.body) throw new AssertionError('expected response to have a body');
+          },
+          jsonBody: function (key) {
+            var data;
+            try { data = json(); } catch (e) { throw new AssertionError('expected response body to be valid JSON'); }
+            if (arguments.length && (data === null || typeof data !== 'object' || !(key in data))) throw new AssertionError('expected JSON body to have property "' + key + '"');
+          },
+        },
+      },
+    };
+  }
+
+  // --- pm ---
+
+  function recordFailure(name, err) {
+    var where = locate(err);
+    tests.push({ name: name, passed: false, error: (err && err.message) || String(err), line: where.line });
+  }
+
+  self.pm = {
+    info: { eventName: phase === 'pre-request' ? 'prerequest' : 'test', requestName: ctx.requestName, iteration: ctx.iteration || 0, iterationCount: ctx.iterationCount || 1 },
+    iterationData: {
+      get: function (key) { return vars.data ? vars.data[key] : undefined; },
+      has: function (key) { return !!vars.data && Object.prototype.hasOwnProperty.call(vars.data, key); },
+      toObject: function () { return Object.assign({}, vars.data || {}); },
+    },
+    request: request,
+    response: response,
+    variables: local,
+    environment: scopeApi('environment', function () { return vars.environment; }),
+    collectionVariables: scopeApi('collectionVariables', function () { return vars.collection; }),
+    globals: scopeApi('globals', function () { return vars.globals; }),
+    expect: expect,
+    test: function (name, fn) {
+      try {
+        var result = fn();
+        if (result && typeof result.then === 'function') {
+          var entry = { name: name, passed: true };
+          tests.push(entry);
+          pending.push(result.then(null, function (err) {
+            entry.passed = false;
+            entry.error = (err && err.message) || String(err);
+            entry.line = locate(err).line;
+          }));
+        } else {
+          tests.push({ name: name, passed: true });
+        }
+      } catch (err) {
+        recordFailure(name, err);
+      }
+    },
+  };
+
+  self.__finish = function () {
+    if (finished) return;
+    finished = true;
+    Promise.all(pending).then(function () {
+      self.postMessage({ tests: tests, logs: logs, errors: errors, request: req, variables: vars });
+    });
+  };
+
+  // Uncaught errors stop the script; whatever ran before still counts
+  self.addEventListener('error', function (e) {
+    e.preventDefault();
+    // Errors thrown by pm itself point into the prelude, so prefer the script's own stack frame
+    var where = locate(e.error);
+    if (where.line === undefined && e.filename === self.location.href) where = { line: e.lineno - 1, column: e.colno };
+    errors.push({ phase: phase, message: String(e.message).replace(/^Uncaught\s+/, ''), line: where.line, column: where.column });
+    self.__finish();
+  });
+  self.addEventListener('unhandledrejection', function (e) {
+    var where = locate(e.reason);
+    errors.push({ phase: phase, message: (e.reason && e.reason.message) || String(e.reason), line: where.line, column: where.column });
+  });
+})();
+`;
+
+// Page of the sandbox frame: starts one worker per run and relays what it reports
+const SANDBOX_HOST = `<!DOCTYPE html><script>
+var workers = {}, libs = {};
+function reply(msg) { parent.postMessage(msg, '*'); }
+addEventListener('message', function (e) {
+  if (e.source !== parent) return;
+  var msg = e.data;
+  if (msg.type === 'terminate') {
+    if (workers[msg.id]) { workers[msg.id].terminate(); delete workers[msg.id]; }
+    return;
+  }
+  var urls = msg.libs.map(function (lib) {
+    if (!libs[lib.name]) libs[lib.name] = URL.createObjectURL(new Blob([lib.source], { type: 'text/javascript' }));
+    return libs[lib.name];
+  });
+  // Line 1 bootstraps the sandbox; the user script starts on line 2
+  var bootstrap = 'self.__ctx=' + msg.ctx + ';importScripts(' + urls.map(function (u) { return JSON.stringify(u); }).join(',') + ');';
+  var url = URL.createObjectURL(new Blob([bootstrap + '\n' + msg.code + '\n;self.__finish();'], { type: 'text/javascript' }));
+  var worker = new Worker(url);
+  workers[msg.id] = worker;
+  var done = function (result) {
+    worker.terminate();
+    delete workers[msg.id];
+    URL.revokeObjectURL(url);
+    reply(result);
+  };
+  worker.onmessage = function (ev) { done({ type: 'result', id: msg.id, result: ev.data }); };
+  worker.onerror = function (ev) {
+    ev.preventDefault();
+    done({ type: 'error', id: msg.id, message: ev.message, lineno: ev.lineno, colno: ev.colno });
+  };
+});
+reply({ type: 'ready' });
+</script>`;
+
+interface SandboxReply {
+  type: 'ready' | 'result' | 'error';
+  id?: number;
+  result?: ScriptRunResult;
+  message?: string;
+  lineno?: number;
+  colno?: number;
+}
+
+let sandbox: Promise<Window> | null = null;
+const pendingRuns = new Map<number, (reply: SandboxReply) => void>();
+let nextRunId = 0;
+
+function getSandbox(): Promise<Window> {
+  if (sandbox) return sandbox;
+  sandbox = new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = SANDBOX_HOST;
+    window.addEventListener('message', (e: MessageEvent<SandboxReply>) => {
+      if (!frame.contentWindow || e.source !== frame.contentWindow) return;
+      if (e.data.type === 'ready') resolve(frame.contentWindow);
+      else pendingRuns.get(e.data.id!)?.(e.data);
+    });
+    document.body.appendChild(frame);
+  });
+  return sandbox;
+}
+
+/**
+ * Runs one script in a fresh worker. Resolves (never rejects) with the tests, console output,
+ * errors and the possibly modified request and variables.
+ */
+export async function runScript(code: string, context: ScriptContext): Promise<ScriptRunResult> {
+  // Work on a copy so the caller's objects are never shared with the result
+  const ctx: ScriptContext = JSON.parse(JSON.stringify(context));
+  const fallback = (errors: ScriptError[]): ScriptRunResult => ({ tests: [], logs: [], errors, request: ctx.request, variables: ctx.variables });
+
+  if (typeof Worker === 'undefined' || typeof document === 'undefined') {
+    return fallback([{ phase: ctx.phase, message: 'Scripts require Web Worker support' }]);
+  }
+
+  const libs = [{ name: 'prelude', source: WORKER_PRELUDE }];
+  if (/CryptoJS/.test(code)) libs.push({ name: 'crypto-js', source: await loadCryptoJs() });
+  const frame = await getSandbox();
+  const id = ++nextRunId;
+
+  return new Promise(resolve => {
+    const done = (result: ScriptRunResult) => {
+      clearTimeout(timer);
+      pendingRuns.delete(id);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      frame.postMessage({ type: 'terminate', id }, '*');
+      done(fallback([{ phase: ctx.phase, message: `Script timed out after ${SCRIPT_TIMEOUT_MS / 1000}s` }]));
+    }, SCRIPT_TIMEOUT_MS);
+
+    pendingRuns.set(id, reply => {
+      if (reply.type === 'result') {
+        done(reply.result!);
+        return;
+      }
+      // Only reached when the sandbox never started, e.g. a syntax error in the script
+      const line = reply.lineno ? Math.max(reply.lineno - 1, 1) : undefined;
+      done(fallback([{ phase: ctx.phase, message: (reply.message || 'Script failed to load').replace(/^Uncaught\s+/, ''), line, column: reply.colno || undefined }]));
+    });
+
+    // The frame has an opaque origin, so no target origin can name it
+    frame.postMessage({ type: 'run', id, ctx: JSON.stringify(ctx), code, libs }, '*');
+  });
+}
+
+/**
+ * Combines the results of both phases of one send into what the Tests tab shows.
+ */
+export function mergeScriptResults(...results: (ScriptRunResult | null | undefined)[]): ScriptResult {
+  return results.reduce<ScriptResult>((acc, r) => r ? {
+    tests: [...acc.tests, ...r.tests],
+    logs: [...acc.logs, ...r.logs],
+    errors: [...acc.errors, ...r.errors],
+  } : acc, { tests: [], logs: [], errors: [] });
+}
+
+export const hasScript = (code?: string) => !!code && code.trim().length > 0;
+
+/**
+ * Flattens script variables into a resolution scope: globals < collection < environment < data < local.
+ */
+export const scopeFromScriptVariables = (vars: ScriptVariables): VariableValues => ({
+  ...vars.globals,
+  ...(vars.collection || {}),
+  ...(vars.environment || {}),
+  ...(vars.data || {}),
+  ...vars.local,
+});
+
+// --- Conversions between the app model and the sandbox model ---
+
+export function toVariableValues(list: KeyValue[] = []): VariableValues {
+  const values: VariableValues = {};
+  list.forEach(v => {
+    if (v.enabled && v.key) values[v.key] = v.value;
+  });
+  return values;
+}
+
+/**
+ * Writes script changes back into a variable list. Enabled variables missing from `values`
+ * were unset by the script; disabled ones are left alone. Returns null when nothing changed.
+ */
+export function applyVariableValues(list: KeyValue[] = [], values: VariableValues): KeyValue[] | null {
+  const before = toVariableValues(list);
+  const changed = Object.keys(before).length !== Object.keys(values).length
+    || Object.keys(values).some(k => before[k] !== values[k]);
+  if (!changed) return null;
+
+  const seen = new Set<string>();
+  const next = list
+    .filter(v => !(v.enabled && v.key && !(v.key in values)))
+    .map(v => {
+      if (!v.enabled || !v.key) return v;
+      seen.add(v.key);
+      return { ...v, value: values[v.key] };
+    });
+  const added = Object.keys(values).filter(k => !seen.has(k)).map(key => ({ id: generateId(), key, value: values[key], enabled: true }));
+
+  // Keep the trailing empty row last
+  const last = next[next.length - 1];
+  return last && !last.key && !last.value
+    ? [...next.slice(0, -1), ...added, last]
+    : [...next, ...added, { id: generateId(), key: '', value: '', enabled: true }];
+}
+
+/**
+ * Snapshot of every variable scope a script can read and write.
+ */
+export function getScriptVariables(store: EnvironmentStore, collections: Collection[], collectionId: string | null, local: VariableValues = {}): ScriptVariables {
+  const env = store.environments.find(e => e.id === store.activeEnvironmentId);
+  const col = collectionId ? collections.find(c => c.id === collectionId) : null;
+  return {
+    globals: toVariableValues(store.globals),
+    collection: col ? toVariableValues(col.variables) : null,
+    environment: env ? toVariableValues(env.variables) : null,
+    local,
+  };
+}
+
+/**
+ * Writes what scripts changed back into the stored scopes. Only changed parts are returned,
+ * so callers can skip saving when a script did not touch any variable.
+ */
+export function applyScriptVariables(
+  store: EnvironmentStore,
+  collections: Collection[],
+  collectionId: string | null,
+  vars: ScriptVariables
+): { store: EnvironmentStore | null; collections: Collection[] | null } {
+  const globals = applyVariableValues(store.globals, vars.globals);
+  const env = store.environments.find(e => e.id === store.activeEnvironmentId);
+  const envVariables = env && vars.environment ? applyVariableValues(env.variables, vars.environment) : null;
+  const col = collectionId ? collections.find(c => c.id === collectionId) : null;
+  const colVariables = col && vars.collection ? applyVariableValues(col.variables, vars.collection) : null;
+
+  return {
+    store: globals || envVariables ? {
+      ...store,
+      globals: globals || store.globals,
+      environments: store.environments.map(e => e.id === env?.id && envVariables ? { ...e, variables: envVariables } : e),
+    } : null,
+    collections: colVariables ? collections.map(c => c.id === col!.id ? { ...c, variables: colVariables } : c) : null,
+  };
+}
+
+// {{variables}} stay readable and resolvable; everything around them is encoded as usual
+const encodeQueryPart = (text: string) =>
+  text.split(/(\{\{[^}]+\}\})/).map((part, idx) => idx % 2 ? part : encodeURIComponent(part)).join('');
+
+const decodeQueryPart = (text: string) => {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    return text;
+  }
+};
+
+function scriptUrl(request: RequestState): string {
+  const queryString = request.params
+    .filter(p => p.enabled && p.key)
+    .map(p => `${encodeQueryPart(p.key)}=${encodeQueryPart(p.value)}`)
+    .join('&');
+  return queryString ? `${request.url.split('?')[0]}?${queryString}` : request.url;
+}
+
+function paramsFromUrl(url: string): KeyValue[] {
+  const query = url.split('#')[0].split('?').slice(1).join('?');
+  return query.split('&').filter(Boolean).map(pair => {
+    const [key, ...value] = pair.split('=');
+    return { id: generateId(), key: decodeQueryPart(key), value: decodeQueryPart(value.join('=')), enabled: true };
+  });
+}
+
+/**
+ * The request as pre-request scripts see it: variables are still unresolved, params are part of the URL.
+ */
+export function toScriptRequest(request: RequestState): ScriptRequest {
+  const mode = { 'none': 'none', 'json': 'raw', 'text': 'raw', 'file': 'file', 'form-data': 'formdata', 'x-www-form-urlencoded': 'urlencoded', 'graphql': 'graphql' }[request.bodyType];
+  return {
+    url: scriptUrl(request),
+    method: request.method,
+    headers: request.headers.filter(h => h.enabled && h.key).map(h => ({ key: h.key, value: h.value })),
+    body: { mode, raw: mode === 'raw' ? request.bodyContent : '' },
+  };
+}
+
+/**
+ * Applies what a pre-request script changed to a copy of the request that is about to be sent.
+ */
+export function applyScriptRequest(request: RequestState, original: ScriptRequest, modified: ScriptRequest): RequestState {
+  const next: RequestState = {
+    ...request,
+    method: (HTTP_METHODS.includes(modified.method) ? modified.method : request.method) as HttpMethod,
+    headers: modified.headers.map(h => ({ id: generateId(), key: h.key, value: h.value, enabled: true })),
+  };
+  // A rewritten URL carries its query string, which becomes the params again; disabled params are kept
+  if (modified.url !== original.url) {
+    next.url = modified.url;
+    next.params = [
+      ...paramsFromUrl(modified.url),
+      ...request.params.filter(p => !p.enabled && (p.key || p.value)),
+      { id: generateId(), key: '', value: '', enabled: true },
+    ];
+  }
+  if (original.body.mode === 'raw' && modified.body.raw !== original.body.raw) {
+    next.bodyContent = modified.body.raw;
+  }
+  return next;
+}
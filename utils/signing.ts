@@ -0,0 +1,224 @@
+import { AppSettings, CredentialSource, KeyValue, RequestState, SigningProfile } from '../types';
+import { VariableScope, resolveVariables } from './variables';
+import { generateId } from './collections';
+import { getCookie, methodHasBody } from './request';
+import { graphqlBodyText, DEFAULT_GRAPHQL_BODY } from './graphql';
+// @ts-ignore
+import CryptoJS from 'crypto-js';
+
+// --- Request signing profiles ---
+// A profile computes a signature over a string built from a template, then injects headers built
+// from templates too. Placeholders use single braces so they do not clash with {{variables}}:
+//   {method} {host} {path} {query} {url} {bodyHash} {timestamp} {nonce} {secret} {<credential name>}
+// and, in header values only, {signature}. "\n" in the string-to-sign stands for a newline.
+
+export const SIGNING_PLACEHOLDERS = ['method', 'host', 'path', 'query', 'url', 'bodyHash', 'timestamp', 'nonce'];
+
+export const NONE_PROFILE_ID = 'none';
+
+const row = (key: string, value: string): KeyValue => ({ id: generateId(), key, value, enabled: true });
+
+export function createSigningProfile(name = 'New Profile'): SigningProfile {
+  return {
+    id: generateId(),
+    name,
+    algorithm: 'HMAC-SHA256',
+    encoding: 'hex',
+    secret: { source: 'literal', value: '' },
+    credentials: [],
+    stringToSign: '{method}\\n{path}\\n{query}\\n{timestamp}\\n{bodyHash}',
+    bodyHash: 'sha256-hex',
+    timestampUnit: 'ms',
+    nonce: 'random-hex',
+    headers: [row('x-timestamp', '{timestamp}'), row('x-nonce', '{nonce}'), row('x-signature', '{signature}'), row('', '')],
+  };
+}
+
+/**
+ * The signing scheme formerly hard-coded as Cloud Docs Mode.
+ */
+export function createCloudDocsProfile(appId = '', secureKey = ''): SigningProfile {
+  return {
+    ...createSigningProfile('Cloud Docs'),
+    secret: { source: 'literal', value: secureKey },
+    credentials: [
+      { id: generateId(), name: 'appId', source: 'literal', value: appId },
+      { id: generateId(), name: 'authValue', source: 'cookie', value: 'CAS_SSO_COOKIE' },
+    ],
+    stringToSign: '{appId}{nonce}{timestamp}{authValue}',
+    nonce: 'timestamp-last6',
+    headers: [
+      row('x-appid', '{appId}'),
+      row('x-request-ts', '{timestamp}'),
+      row('x-nonce', '{nonce}'),
+      row('x-auth-type', '2'),
+      row('x-auth-value', '{authValue}'),
+      row('x-sign', '{signature}'),
+      row('', ''),
+    ],
+  };
+}
+
+/**
+ * Turns the legacy Cloud Docs fields into a signing profile, once.
+ */
+export function migrateSigningSettings(settings: AppSettings): AppSettings {
+  const { cloudDocsMode, cloudDocsAppId, cloudDocsSecureKey, ...rest } = settings;
+  if (settings.signingProfiles?.length || (!cloudDocsAppId && !cloudDocsSecureKey)) {
+    return { ...rest, signingProfiles: settings.signingProfiles || [], defaultSigningProfileId: settings.defaultSigningProfileId ?? null };
+  }
+  const profile = createCloudDocsProfile(cloudDocsAppId, cloudDocsSecureKey);
+  return { ...rest, signingProfiles: [profile], defaultSigningProfileId: cloudDocsMode ? profile.id : null };
+}
+
+/**
+ * The profile a request is signed with, or null when it is not signed.
+ */
+export function getSigningProfile(settings: AppSettings, request: RequestState): SigningProfile | null {
+  const id = request.signingProfileId || settings.defaultSigningProfileId;
+  if (!id || id === NONE_PROFILE_ID) return null;
+  return settings.signingProfiles.find(p => p.id === id) || null;
+}
+
+// --- Template values ---
+
+export function readCredential(credential: CredentialSource, scope: VariableScope): string {
+  switch (credential.source) {
+    case 'cookie': return getCookie(credential.value);
+    case 'variable': return scope[credential.value] ?? '';
+    default: return resolveVariables(credential.value, scope);
+  }
+}
+
+function createNonce(strategy: SigningProfile['nonce'], timestamp: string): string {
+  switch (strategy) {
+    case 'timestamp-last6': return timestamp.slice(-6);
+    case 'random-hex': return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+    case 'uuid': return crypto.randomUUID ? crypto.randomUUID() : CryptoJS.lib.WordArray.random(16).toString();
+    default: return '';
+  }
+}
+
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+
+// Query params sorted by name, then value, and percent-encoded
+export function canonicalQuery(url: string): string {
+  const query = url.split('#')[0].split('?')[1] || '';
+  const pairs = Array.from(new URLSearchParams(query).entries());
+  pairs.sort(([ak, av], [bk, bv]) => ak === bk ? (av < bv ? -1 : av > bv ? 1 : 0) : (ak < bk ? -1 : 1));
+  return pairs.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&');
+}
+
+/**
+ * The body as the signature sees it. Multipart and binary bodies are not known before the
+ * browser encodes them, so they hash as an empty body.
+ */
+export function bodyTextForSigning(resolved: RequestState): string {
+  if (!methodHasBody(resolved)) return '';
+  if (resolved.bodyType === 'json' || resolved.bodyType === 'text') return resolved.bodyContent;
+  if (resolved.bodyType === 'graphql') return graphqlBodyText(resolved.graphql || DEFAULT_GRAPHQL_BODY);
+  if (resolved.bodyType === 'x-www-form-urlencoded') {
+    const params = new URLSearchParams();
+    resolved.bodyFormUrlEncoded.forEach(item => { if (item.enabled && item.key) params.append(item.key, item.value); });
+    return params.toString();
+  }
+  return '';
+}
+
+function hashBody(body: string, mode: SigningProfile['bodyHash']): string {
+  if (mode === 'md5-hex') return CryptoJS.MD5(body).toString();
+  const hash = CryptoJS.SHA256(body);
+  return mode === 'sha256-base64' ? hash.toString(CryptoJS.enc.Base64) : hash.toString();
+}
+
+export interface SigningInput {
+  method: string;
+  url: string; // Final URL, including the query string
+  body: string;
+}
+
+function buildValues(profile: SigningProfile, input: SigningInput, scope: VariableScope, now: number): Record<string, string> {
+  const timestamp = String(profile.timestampUnit === 's' ? Math.floor(now / 1000) : now);
+  const match = input.url.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)([^?#]*)/i);
+  const values: Record<string, string> = {
+    method: input.method.toUpperCase(),
+    host: match?.[1] || '',
+    path: match?.[2] || '/',
+    query: canonicalQuery(input.url),
+    url: input.url,
+    bodyHash: hashBody(input.body, profile.bodyHash),
+    timestamp,
+    nonce: createNonce(profile.nonce, timestamp),
+  };
+  if (profile.algorithm === 'MD5') values.secret = readCredential(profile.secret, scope);
+  profile.credentials.forEach(c => { if (c.name) values[c.name] = readCredential(c, scope); });
+  return values;
+}
+
+// --- Signing ---
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+async function signRsa(pem: string, text: string): Promise<Uint8Array> {
+  if (!crypto.subtle) throw new Error('RSA signing needs WebCrypto, which browsers only offer on https or localhost');
+  const base64 = pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+  if (!base64) throw new Error('RSA signing needs a PKCS#8 PEM private key');
+  let der: Uint8Array;
+  try {
+    der = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  } catch {
+    throw new Error('The RSA private key is not valid PEM');
+  }
+  const key = await crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(text)));
+}
+
+export async function computeSignature(profile: SigningProfile, text: string, secret: string): Promise<string> {
+  if (profile.algorithm === 'RSA-SHA256') {
+    const bytes = await signRsa(secret, text);
+    return profile.encoding === 'base64' ? toBase64(bytes) : toHex(bytes);
+  }
+  const hash = profile.algorithm === 'MD5' ? CryptoJS.MD5(text)
+    : profile.algorithm === 'HMAC-SHA1' ? CryptoJS.HmacSHA1(text, secret)
+    : profile.algorithm === 'HMAC-SHA512' ? CryptoJS.HmacSHA512(text, secret)
+    : CryptoJS.HmacSHA256(text, secret);
+  return profile.encoding === 'base64' ? hash.toString(CryptoJS.enc.Base64) : hash.toString();
+}
+
+export interface SignedRequest {
+  headers: Record<string, string>;
+  stringToSign: string;
+}
+
+/**
+ * Signs a request with a profile and returns the headers to inject. Throws on an invalid RSA key.
+ */
+export async function signRequest(profile: SigningProfile, input: SigningInput, scope: VariableScope, now = Date.now()): Promise<SignedRequest> {
+  const values = buildValues(profile, input, scope, now);
+  const stringToSign = fillTemplate(profile.stringToSign.replace(/\\n/g, '\n'), values);
+  const signature = await computeSignature(profile, stringToSign, readCredential(profile.secret, scope));
+
+  const headers: Record<string, string> = {};
+  profile.headers.forEach(h => {
+    if (h.enabled && h.key) headers[h.key] = fillTemplate(h.value, { ...values, signature });
+  });
+  return { headers, stringToSign };
+}
+
+/**
+ * Header names and values with the per-request parts left as placeholders, for display before sending.
+ */
+export function previewSigningHeaders(profile: SigningProfile, scope: VariableScope): { key: string; value: string }[] {
+  const values: Record<string, string> = {
+    timestamp: '(Current Timestamp)',
+    nonce: profile.nonce === 'none' ? '' : '(Auto-generated)',
+    signature: `(${profile.algorithm} Signature)`,
+    bodyHash: '(Body Hash)',
+  };
+  profile.credentials.forEach(c => {
+    if (c.name) values[c.name] = readCredential(c, scope) || (c.source === 'cookie' ? `(Missing Cookie ${c.value})` : '');
+  });
+  return profile.headers.filter(h => h.enabled && h.key).map(h => ({ key: h.key, value: fillTemplate(h.value, values) }));
+}
@@ -0,0 +1,104 @@
+import { SseEvent } from '../types';
+import { mediaType } from './responseBody';
+
+// --- Server-Sent Events ---
+// Incremental parser for text/event-stream, following the field rules of the HTML spec:
+// lines are `field: value`, a blank line dispatches the event, lines starting with ':' are comments.
+
+export const DEFAULT_RETRY_MS = 3000;
+
+// The timeline keeps the most recent events; older ones are dropped from the list (the raw body keeps all)
+export const MAX_SSE_EVENTS = 5000;
+
+export const isEventStream = (contentType: string) => mediaType(contentType) === 'text/event-stream';
+
+export interface SseParser {
+  push: (chunk: string) => void;
+  // Discards an event left without its closing blank line, as browsers do when the stream ends
+  end: () => void;
+  // Last id the server set; sent back as Last-Event-ID when reconnecting
+  lastEventId: () => string;
+  // Reconnection delay requested with a retry field, if any
+  retry: () => number | undefined;
+}
+
+export function createSseParser(onEvent: (event: Omit<SseEvent, 'seq' | 'receivedAt' | 'connection'>) => void): SseParser {
+  let buffer = '';
+  let pendingCR = false;
+  let eventType = '';
+  let data: string[] = [];
+  let hasData = false;
+  let lastEventId = '';
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (hasData) onEvent({ event: eventType || 'message', data: data.join('\n'), id: lastEventId || undefined });
+    eventType = '';
+    data = [];
+    hasData = false;
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data.push(value);
+        hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      let text = chunk;
+      // A CRLF may be split across chunks; drop the LF that completes it
+      if (pendingCR && text.startsWith('\n')) text = text.slice(1);
+      pendingCR = false;
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop()!;
+      if (buffer === '' && text.endsWith('\r')) pendingCR = true;
+      lines.forEach(processLine);
+    },
+    end: () => {
+      buffer = '';
+      pendingCR = false;
+      eventType = '';
+      data = [];
+      hasData = false;
+    },
+    lastEventId: () => lastEventId,
+    retry: () => retry,
+  };
+}
+
+export const eventTypes = (events: SseEvent[]) => [...new Set(events.map(e => e.event))].sort();
+
+/**
+ * The captured log as JSON, with data parsed where it is JSON.
+ */
+export function exportEventLog(events: SseEvent[]): string {
+  return JSON.stringify(events.map(e => {
+    let data: any = e.data;
+    try {
+      data = JSON.parse(e.data);
+    } catch (err) {
+      // Keep as text
+    }
+    return { receivedAt: new Date(e.receivedAt).toISOString(), connection: e.connection, event: e.event, id: e.id, data };
+  }), null, 2);
+}
@@ -0,0 +1,157 @@
+import { HistoryItem, StoredFile } from '../types';
+
+// --- IndexedDB storage ---
+// History lives in its own object store, one record per entry, and so do attached files; everything
+// else is a single value in a key/value store. localStorage keeps only small UI preferences.
+
+// The mock Service Worker (public/mock-sw.js) reads the 'mocks' value of this database directly
+const DB_NAME = 'postman_lite';
+
+export type StoredKey = 'settings' | 'environments' | 'collections' | 'snapshots' | 'graphqlSchemas' | 'benchmarks' | 'mocks';
+
+const KV_STORE = 'kv';
+const HISTORY_STORE = 'history';
+const FILES_STORE = 'files';
+
+// Keys used before the move to IndexedDB, copied over by the first migration
+type LegacyKey = Exclude<StoredKey, 'graphqlSchemas' | 'benchmarks' | 'mocks'>;
+const LEGACY_KEYS: Record<LegacyKey, string> = {
+  settings: 'postman_lite_settings',
+  environments: 'postman_lite_environments',
+  collections: 'postman_lite_collections',
+  snapshots: 'postman_lite_response_snapshots',
+};
+const LEGACY_HISTORY_KEY = 'postman_lite_history';
+
+function readLegacy(key: string): any {
+  const raw = localStorage.getItem(key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Failed to parse ${key}`, e);
+    return undefined;
+  }
+}
+
+// MIGRATIONS[n] upgrades a database at version n to version n + 1; the last index sets the current version
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db, tx) => {
+    db.createObjectStore(KV_STORE);
+    db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+
+    (Object.keys(LEGACY_KEYS) as LegacyKey[]).forEach(key => {
+      const value = readLegacy(LEGACY_KEYS[key]);
+      if (value !== undefined) tx.objectStore(KV_STORE).put(value, key);
+    });
+    const history = readLegacy(LEGACY_HISTORY_KEY);
+    if (Array.isArray(history)) history.forEach((item: HistoryItem) => tx.objectStore(HISTORY_STORE).put(item));
+  },
+  (db) => {
+    db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) MIGRATIONS[version](db, tx);
+      migratedLegacy = event.oldVersion === 0;
+    };
+    req.onsuccess = () => {
+      // The upgrade committed, so the copies in localStorage are no longer needed
+      if (migratedLegacy) [...Object.values(LEGACY_KEYS), LEGACY_HISTORY_KEY].forEach(key => localStorage.removeItem(key));
+      resolve(req.result);
+    };
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+    req.onblocked = () => console.warn('Storage upgrade is waiting for other tabs of the app to close');
+  });
+  return dbPromise;
+}
+
+async function transact<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req ? req.result : undefined as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// --- Values ---
+
+export const getStoredValue = <T>(key: StoredKey): Promise<T | undefined> =>
+  transact<T | undefined>(KV_STORE, 'readonly', store => store.get(key));
+
+export const setStoredValue = (key: StoredKey, value: any): Promise<void> =>
+  transact<any>(KV_STORE, 'readwrite', store => { store.put(value, key); });
+
+/**
+ * Fire-and-forget write for state handlers; failures are logged.
+ */
+export function persistValue(key: StoredKey, value: any) {
+  setStoredValue(key, value).catch(e => console.error(`Failed to store ${key}`, e));
+}
+
+// --- History ---
+
+export async function getHistory(): Promise<HistoryItem[]> {
+  const items = await transact<HistoryItem[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export const putHistoryItems = (items: HistoryItem[]): Promise<void> =>
+  transact<any>(HISTORY_STORE, 'readwrite', store => { items.forEach(item => store.put(item)); });
+
+export const deleteHistoryItems = (ids: string[]): Promise<void> =>
+  transact<any>(HISTORY_STORE, 'readwrite', store => { ids.forEach(id => store.delete(id)); });
+
+export const clearHistoryItems = (): Promise<void> =>
+  transact<any>(HISTORY_STORE, 'readwrite', store => { store.clear(); });
+
+// --- Snapshots ---
+// Pinned responses are kept whole under the 'snapshots' key so any two of them can be compared later.
+
+export const MAX_SNAPSHOTS = 20;
+
+export const requestKey = (method: string, url: string) => `${method} ${url}`;
+
+// --- Files ---
+
+export const putStoredFile = (file: StoredFile): Promise<void> =>
+  transact<any>(FILES_STORE, 'readwrite', store => { store.put(file); });
+
+export async function getStoredFiles(ids: string[]): Promise<StoredFile[]> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FILES_STORE, 'readonly');
+    const store = tx.objectStore(FILES_STORE);
+    const found: StoredFile[] = [];
+    ids.forEach(id => {
+      const req = store.get(id);
+      req.onsuccess = () => { if (req.result) found.push(req.result); };
+    });
+    tx.oncomplete = () => resolve(found);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export const getStoredFileIds = (): Promise<string[]> =>
+  transact<IDBValidKey[]>(FILES_STORE, 'readonly', store => store.getAllKeys()).then(keys => keys.map(String));
+
+export const deleteStoredFiles = (ids: string[]): Promise<void> =>
+  transact<any>(FILES_STORE, 'readwrite', store => { ids.forEach(id => store.delete(id)); });
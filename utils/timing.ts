@@ -0,0 +1,103 @@
+import { ResponseTiming, TimingPhase, TimingPhaseName } from '../types';
+
+// --- Response timing ---
+// The breakdown comes from the browser's PerformanceResourceTiming entry for the request. Cross-origin
+// servers without Timing-Allow-Origin only expose start and end, so the app's own marks (headers
+// received, body read) stand in for the phases it can still tell apart.
+
+export const TIMING_PHASES: { name: TimingPhaseName; label: string; color: string }[] = [
+  { name: 'redirect', label: 'Redirect', color: 'bg-zinc-500' },
+  { name: 'dns', label: 'DNS Lookup', color: 'bg-teal-500' },
+  { name: 'connect', label: 'TCP Connect', color: 'bg-orange-500' },
+  { name: 'tls', label: 'TLS Handshake', color: 'bg-purple-500' },
+  { name: 'request', label: 'Request Sent', color: 'bg-sky-500' },
+  { name: 'ttfb', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { name: 'download', label: 'Content Download', color: 'bg-indigo-500' },
+];
+
+export interface TimingMarks {
+  start: number; // performance.now() before fetch
+  headers: number; // When fetch resolved with the response headers
+  end: number; // When the body was read
+}
+
+export const markTime = () => performance.now();
+
+// The resource timing buffer holds 250 entries by default; once full, new requests are not recorded
+if (typeof performance !== 'undefined' && 'addEventListener' in performance) {
+  performance.addEventListener('resourcetimingbufferfull', () => performance.clearResourceTimings());
+}
+
+const absoluteUrl = (url: string) => {
+  try {
+    return new URL(url, location.href).href;
+  } catch (e) {
+    return url;
+  }
+};
+
+function findEntry(urls: string[], marks: TimingMarks): PerformanceResourceTiming | null {
+  const names = new Set(urls.filter(Boolean).map(absoluteUrl));
+  const entries = (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+    .filter(e => names.has(e.name) && e.startTime >= marks.start - 1 && e.startTime <= marks.end);
+  // Auth retries (digest) fetch the same URL twice; the last one produced the response
+  return entries[entries.length - 1] || null;
+}
+
+const phase = (name: TimingPhaseName, from: number, to: number, origin: number): TimingPhase | null =>
+  from > 0 && to >= from ? { name, start: from - origin, duration: to - from } : null;
+
+export function resourcePhases(entry: PerformanceResourceTiming): TimingPhase[] {
+  const origin = entry.startTime;
+  const tcpEnd = entry.secureConnectionStart > 0 ? entry.secureConnectionStart : entry.connectEnd;
+  const sendStart = Math.max(entry.connectEnd, entry.domainLookupEnd, entry.fetchStart);
+  return [
+    phase('redirect', entry.redirectStart, entry.redirectEnd, origin),
+    phase('dns', entry.domainLookupStart, entry.domainLookupEnd, origin),
+    phase('connect', entry.connectStart, tcpEnd, origin),
+    entry.secureConnectionStart > 0 ? phase('tls', entry.secureConnectionStart, entry.connectEnd, origin) : null,
+    phase('request', sendStart, entry.requestStart, origin),
+    phase('ttfb', entry.requestStart, entry.responseStart, origin),
+    phase('download', entry.responseStart, entry.responseEnd, origin),
+  ].filter((p): p is TimingPhase => !!p);
+}
+
+export function measuredTiming(marks: TimingMarks, limitedReason: string): ResponseTiming {
+  return {
+    total: marks.end - marks.start,
+    phases: [
+      { name: 'ttfb', start: 0, duration: marks.headers - marks.start },
+      { name: 'download', start: marks.headers - marks.start, duration: marks.end - marks.headers },
+    ],
+    source: 'measured',
+    limitedReason,
+  };
+}
+
+/**
+ * The breakdown of a finished request. The browser adds the entry once the body is read, which may
+ * be a moment after the reader finished, so it is looked up a few times before falling back.
+ */
+export async function collectTiming(urls: string[], marks: TimingMarks): Promise<ResponseTiming> {
+  if (typeof performance === 'undefined' || !performance.getEntriesByType) return measuredTiming(marks, 'Resource Timing is not supported');
+  let entry = findEntry(urls, marks);
+  for (let attempt = 0; !entry && attempt < 5; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    entry = findEntry(urls, { ...marks, end: markTime() });
+  }
+  if (!entry) return measuredTiming(marks, 'The browser recorded no timing entry for this request');
+
+  // Without Timing-Allow-Origin the detailed attributes read 0
+  if (entry.requestStart === 0) {
+    return measuredTiming(marks, 'The server does not send Timing-Allow-Origin, so the browser hides DNS, connect and TLS times');
+  }
+
+  const reusedConnection = entry.connectStart === entry.connectEnd && entry.domainLookupStart === entry.domainLookupEnd;
+  return {
+    total: entry.responseEnd - entry.startTime,
+    phases: resourcePhases(entry),
+    source: 'resource',
+    protocol: entry.nextHopProtocol || undefined,
+    reusedConnection,
+  };
+}
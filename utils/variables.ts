@@ -0,0 +1,112 @@
+import { Environment, KeyValue, RequestState } from '../types';
+
+// Matches {{name}} placeholders. Whitespace inside the braces is tolerated: {{ host }}
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+export type VariableScope = Record<string, string>;
+
+/**
+ * Flattens the variable layers into a single lookup table.
+ * Later layers win, so callers pass them from the widest scope to the narrowest
+ * (globals first, then the active environment).
+ */
+export function buildVariableScope(...layers: (KeyValue[] | undefined | null)[]): VariableScope {
+  const scope: VariableScope = {};
+  layers.forEach(layer => {
+    layer?.forEach(v => {
+      if (v.enabled && v.key) scope[v.key] = v.value;
+    });
+  });
+  return scope;
+}
+
+/**
+ * Scope precedence follows Postman: globals < collection < active environment.
+ */
+export function getEnvironmentScope(globals: KeyValue[], environments: Environment[], activeEnvironmentId: string | null, collectionVariables?: KeyValue[]): VariableScope {
+  const active = environments.find(e => e.id === activeEnvironmentId);
+  return buildVariableScope(globals, collectionVariables, active?.variables);
+}
+
+/**
+ * Replaces every {{name}} present in the scope. Unknown variables are left untouched
+ * so they remain visible in the Raw view and in the sent request.
+ * Values may themselves reference other variables; nesting is resolved a few levels deep.
+ */
+export function resolveVariables(text: string, scope: VariableScope, depth = 0): string {
+  if (!text || text.indexOf('{{') === -1) return text;
+  const resolved = text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(scope, name) ? scope[name] : match
+  );
+  if (resolved !== text && depth < 5) return resolveVariables(resolved, scope, depth + 1);
+  return resolved;
+}
+
+export function findVariables(text: string): string[] {
+  if (!text) return [];
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return Array.from(names);
+}
+
+export function findUnresolvedVariables(text: string, scope: VariableScope): string[] {
+  return findVariables(resolveVariables(text, scope));
+}
+
+/**
+ * Splits text into literal and variable segments for highlighting in the editor.
+ */
+export function tokenizeVariables(text: string, scope: VariableScope): { text: string; variable?: string; resolved?: boolean }[] {
+  const segments: { text: string; variable?: string; resolved?: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index) });
+    segments.push({ text: match[0], variable: match[1], resolved: findUnresolvedVariables(match[0], scope).length === 0 });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) });
+  return segments;
+}
+
+const resolveList = <T extends KeyValue>(list: T[], scope: VariableScope): T[] =>
+  (list || []).map(item => ({ ...item, key: resolveVariables(item.key, scope), value: resolveVariables(item.value, scope) }));
+
+/**
+ * Returns a copy of the request with variables substituted in every user-editable text field.
+ * File objects are carried over as-is.
+ */
+export function resolveRequest(request: RequestState, scope: VariableScope): RequestState {
+  return {
+    ...request,
+    url: resolveVariables(request.url, scope),
+    params: resolveList(request.params, scope),
+    headers: resolveList(request.headers, scope),
+    bodyContent: resolveVariables(request.bodyContent, scope),
+    bodyFormData: resolveList(request.bodyFormData, scope),
+    bodyFormUrlEncoded: resolveList(request.bodyFormUrlEncoded, scope),
+    graphql: request.graphql && {
+      ...request.graphql,
+      query: resolveVariables(request.graphql.query, scope),
+      variables: resolveVariables(request.graphql.variables, scope),
+    },
+  };
+}
+
+/**
+ * Collects the names of all variables referenced by the request that the scope cannot resolve.
+ */
+export function collectUnresolvedVariables(request: RequestState, scope: VariableScope): string[] {
+  const texts: string[] = [request.url];
+  if (request.bodyType === 'json' || request.bodyType === 'text') texts.push(request.bodyContent);
+  if (request.bodyType === 'graphql' && request.graphql) texts.push(request.graphql.query, request.graphql.variables);
+  const lists: KeyValue[][] = [request.params, request.headers];
+  if (request.bodyType === 'form-data') lists.push(request.bodyFormData);
+  if (request.bodyType === 'x-www-form-urlencoded') lists.push(request.bodyFormUrlEncoded);
+  lists.forEach(list => {
+    (list || []).filter(i => i.enabled).forEach(i => texts.push(i.key, i.value));
+  });
+  const names = new Set<string>();
+  texts.forEach(t => findUnresolvedVariables(t, scope).forEach(n => names.add(n)));
+  return Array.from(names);
+}
@@ -0,0 +1,120 @@
+import { RequestState, ResponseState, WebSocketConfig, WsFrame, WsMessage, WsSession } from '../types';
+
+// --- WebSocket requests ---
+// A WebSocket request keeps its URL and params like an HTTP request; the connection itself lives
+// in App, and the session (state and frame log) is shown in place of a response body.
+
+export const DEFAULT_WEBSOCKET_CONFIG: WebSocketConfig = {
+  protocols: '',
+  draft: { id: 'draft', name: '', type: 'text', content: '' },
+  templates: [],
+};
+
+// The log keeps the most recent frames of long sessions
+export const MAX_WS_FRAMES = 5000;
+
+export const isWebSocketRequest = (request: RequestState) => request.kind === 'websocket';
+
+// Standard close codes (RFC 6455 section 7.4.1)
+const CLOSE_CODES: Record<number, string> = {
+  1000: 'Normal Closure',
+  1001: 'Going Away',
+  1002: 'Protocol Error',
+  1003: 'Unsupported Data',
+  1005: 'No Status Received',
+  1006: 'Abnormal Closure',
+  1007: 'Invalid Payload Data',
+  1008: 'Policy Violation',
+  1009: 'Message Too Big',
+  1010: 'Mandatory Extension',
+  1011: 'Internal Error',
+  1012: 'Service Restart',
+  1013: 'Try Again Later',
+  1015: 'TLS Handshake',
+};
+
+export const closeCodeLabel = (code: number) => CLOSE_CODES[code] || (code >= 4000 ? 'Application Defined' : 'Unknown');
+
+/**
+ * The URL to connect to. http(s) URLs are switched to ws(s); other schemes are rejected.
+ */
+export function toWebSocketUrl(url: string): string {
+  const parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `ws://${url}`);
+  if (parsed.protocol === 'http:') parsed.protocol = 'ws:';
+  else if (parsed.protocol === 'https:') parsed.protocol = 'wss:';
+  else if (parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') throw new Error(`WebSocket URLs must start with ws:// or wss://, got ${parsed.protocol}//`);
+  return parsed.toString();
+}
+
+export const parseSubprotocols = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+// --- Messages ---
+
+export function parseHex(text: string): Uint8Array {
+  const hex = text.replace(/0x/gi, '').replace(/[\s,:]/g, '');
+  if (!/^[\da-f]*$/i.test(hex)) throw new Error('Binary messages must be written as hex bytes, e.g. "01 ff 7a"');
+  if (hex.length % 2) throw new Error('Hex input has an odd number of digits');
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(' ');
+
+/**
+ * The payload to send for a composed message (variables already resolved). JSON is checked before sending.
+ */
+export function encodeMessage(message: Pick<WsMessage, 'type' | 'content'>): string | Uint8Array {
+  if (message.type === 'binary') return parseHex(message.content);
+  if (message.type === 'json') {
+    try {
+      JSON.parse(message.content);
+    } catch (e: any) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+  }
+  return message.content;
+}
+
+export function createFrame(direction: WsFrame['direction'], payload: string | ArrayBuffer | Uint8Array, seq: number): WsFrame {
+  if (typeof payload === 'string') {
+    return { seq, direction, type: 'text', data: payload, size: new TextEncoder().encode(payload).length, at: Date.now() };
+  }
+  const bytes = payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+  return { seq, direction, type: 'binary', data: toHex(bytes), size: bytes.length, at: Date.now() };
+}
+
+export function appendFrame(session: WsSession, frame: WsFrame): WsSession {
+  const frames = [...session.frames, frame];
+  return { ...session, frames: frames.length > MAX_WS_FRAMES ? frames.slice(-MAX_WS_FRAMES) : frames };
+}
+
+// --- Session ---
+
+function sessionStatusText(session: WsSession): string {
+  switch (session.state) {
+    case 'connecting': return 'Connecting';
+    case 'open': return 'Connected';
+    case 'closing': return 'Closing';
+    case 'closed':
+      return session.closeCode !== undefined ? `Closed ${session.closeCode} ${closeCodeLabel(session.closeCode)}` : 'Closed';
+  }
+}
+
+/**
+ * The session as a response, so tabs, history and the status line treat it like any other.
+ */
+export function sessionResponse(session: WsSession): ResponseState {
+  const bytes = session.frames.reduce((sum, f) => sum + f.size, 0);
+  return {
+    status: session.openedAt ? 101 : 0,
+    statusText: sessionStatusText(session),
+    headers: session.protocol ? { 'sec-websocket-protocol': session.protocol } : {},
+    data: '',
+    size: (bytes / 1024).toFixed(2) + ' KB',
+    time: (session.closedAt || Date.now()) - session.startedAt,
+    contentType: 'websocket',
+    isError: !!session.error || (session.state === 'closed' && session.wasClean === false),
+    websocket: session,
+  };
+}
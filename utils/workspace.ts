@@ -0,0 +1,99 @@
+import { Collection, RequestState, ResponseState, ScriptResult } from '../types';
+import { INITIAL_REQUEST } from '../constants';
+import { generateId, findItem, toSerializableRequest } from './collections';
+
+// --- Request tabs ---
+// Every tab owns its request, response and UI state. Only the request side is persisted;
+// responses are dropped on reload.
+
+export type RequestPanelTab = 'params' | 'auth' | 'headers' | 'body' | 'scripts' | 'settings' | 'raw' | 'code' | 'message';
+
+export interface WorkspaceTab {
+  id: string;
+  request: RequestState;
+  savedId: string | null; // Saved collection request the tab edits, null for unsaved requests
+  savedSnapshot: string | null; // Request as last saved or opened, to detect unsaved changes
+  activePanel: RequestPanelTab;
+  response: ResponseState | null;
+  loading: boolean;
+  scriptResult: ScriptResult | null;
+  injectedHeaders: Record<string, string> | null; // Signed headers of the last send
+  importWarnings: string[];
+}
+
+const STORAGE_KEY = 'postman_lite_tabs';
+
+export const requestSnapshot = (request: RequestState) => JSON.stringify({ ...toSerializableRequest(request), id: '' });
+
+export function createTab(request: RequestState = INITIAL_REQUEST, savedId: string | null = null): WorkspaceTab {
+  return {
+    id: generateId(),
+    request,
+    savedId,
+    savedSnapshot: savedId ? requestSnapshot(request) : null,
+    activePanel: 'params',
+    response: null,
+    loading: false,
+    scriptResult: null,
+    injectedHeaders: null,
+    importWarnings: [],
+  };
+}
+
+export const isTabDirty = (tab: WorkspaceTab) =>
+  tab.savedSnapshot !== null && requestSnapshot(tab.request) !== tab.savedSnapshot;
+
+// A fresh tab nobody has typed into yet, which opening a request may reuse
+export const isTabBlank = (tab: WorkspaceTab) =>
+  !tab.savedId && !tab.response && !tab.loading && requestSnapshot(tab.request) === requestSnapshot(INITIAL_REQUEST);
+
+export function tabTitle(tab: WorkspaceTab, collections: Collection[]): string {
+  const saved = tab.savedId ? findItem(collections, tab.savedId) : null;
+  if (saved) return saved.name;
+  return tab.request.url.replace(/^https?:\/\//, '').split('?')[0] || 'Untitled Request';
+}
+
+// --- Persistence ---
+
+interface StoredWorkspace {
+  tabs: Pick<WorkspaceTab, 'id' | 'request' | 'savedId' | 'savedSnapshot' | 'activePanel'>[];
+  activeTabId: string | null;
+}
+
+export function serializeWorkspace(tabs: WorkspaceTab[], activeTabId: string | null): string {
+  const stored: StoredWorkspace = {
+    tabs: tabs.map(t => ({ id: t.id, request: toSerializableRequest(t.request), savedId: t.savedId, savedSnapshot: t.savedSnapshot, activePanel: t.activePanel })),
+    activeTabId,
+  };
+  return JSON.stringify(stored);
+}
+
+export function saveWorkspace(serialized: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serialized);
+  } catch (e) {
+    // Quota exceeded or storage disabled: the tabs stay open, they just won't be restored
+    console.error('Failed to store workspace', e);
+  }
+}
+
+export function loadWorkspace(): { tabs: WorkspaceTab[]; activeTabId: string } | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const stored: StoredWorkspace = JSON.parse(saved);
+    if (!Array.isArray(stored.tabs) || !stored.tabs.length) return null;
+    const tabs = stored.tabs.map(t => ({
+      ...createTab(),
+      ...t,
+      // Fill fields added after the tab was stored
+      request: { ...INITIAL_REQUEST, ...t.request, file: null },
+      activePanel: t.activePanel || 'params',
+    }));
+    const activeTabId = tabs.some(t => t.id === stored.activeTabId) ? stored.activeTabId! : tabs[0].id;
+    return { tabs, activeTabId };
+  } catch (e) {
+    console.error('Failed to parse tabs', e);
+    return null;
+  }
+}